@@ -63,7 +63,7 @@ async function main() {
   // Step 3: Mount authentication endpoints
   console.log('🛣️  Mounting authentication routes...')
   const { router, guard } = agentAuthMiddleware(authHandler)
-  app.use('/auth', router)
+  app.use(router)
   console.log('   ✅ POST /auth/challenge - Request authentication challenge')
   console.log('   ✅ POST /auth/verify - Submit challenge response')
   console.log('   ✅ POST /auth/register - Request agent registration')
@@ -1,8 +1,8 @@
 /**
  * AgentIdentity — Cryptographic identity management for AI agents.
  *
- * Manages Ed25519 key pairs and DID identifiers. Provides methods for
- * key generation, challenge signing, and key import/export.
+ * Manages Ed25519 signing keys and DID identifiers. Provides methods for
+ * key generation, key rotation, challenge signing, and key import/export.
  *
  * @packageDocumentation
  */
@@ -10,20 +10,51 @@
 import {
   generateKeyPair,
   signChallenge,
-  signBytes,
+  createDPoPProof,
   publicKeyToDidKey,
+  publicKeyToDidJwk,
   parseDID,
   hexToBytes,
   bytesToHex,
+  type DIDDocument,
   type KeyPair,
   type ParsedDID,
+  type Signer,
 } from '@ai-agent-auth/core';
+import {
+  decryptIdentityKeys,
+  encryptIdentityKeys,
+  type EncryptedIdentityJSON,
+  type KeyEncryptionOptions,
+} from './encrypted-key';
+import { InMemorySigner } from './signer';
+
+/**
+ * A DID document an agent publishes for its did:web identity.
+ */
+export type PublishedDIDDocument = Pick<
+  DIDDocument,
+  'id' | 'verificationMethod' | 'authentication' | 'assertionMethod'
+> & { '@context': string[] };
+
+// DID methods whose identifier is derived from a single key: rotating the
+// key yields a new DID, and the DID document cannot be published
+const KEY_DERIVED_METHODS = ['key', 'jwk', 'peer'];
 
 /**
  * AgentIdentity represents an agent's cryptographic identity.
  *
- * Use `AgentIdentity.generate()` to create a new identity, or
- * `AgentIdentity.fromPrivateKey()` to restore from an existing key.
+ * Use `AgentIdentity.generate()` to create a new identity,
+ * `AgentIdentity.fromPrivateKey()` to restore from an existing key, or
+ * `AgentIdentity.fromSigner()` to sign with a key held elsewhere (a KMS,
+ * an HSM, or a signing process via `RemoteSigner`).
+ *
+ * An identity may hold several keys, each a `Signer` named by its
+ * verification method DID URL; one of them, the active key, signs
+ * challenges, manifests and proofs. All signing goes through the signers,
+ * so only keys held in memory can be exported or encrypted.
+ * `rotateKey()` returns a new identity with a fresh active key.
+ * Identities are immutable.
  *
  * @example
  * ```typescript
@@ -36,39 +67,40 @@ import {
  * ```
  */
 export class AgentIdentity {
-  private readonly privateKey: Uint8Array;
+  private readonly keys: ReadonlyMap<string, Signer>; // verification method → signer
+  /** Signer of the active key */
+  public readonly signer: Signer;
   public readonly publicKey: Uint8Array;
   public readonly did: string;
   public readonly parsedDID: ParsedDID;
+  /** DID URL of the active key */
   public readonly verificationMethod: string;
 
   /**
    * Private constructor. Use static factory methods to create instances.
    */
-  private constructor(keyPair: KeyPair, did?: string) {
-    this.privateKey = keyPair.privateKey;
-    this.publicKey = keyPair.publicKey;
-
-    // If DID not provided, derive did:key from public key
-    if (!did) {
-      this.did = publicKeyToDidKey(this.publicKey);
-    } else {
-      this.did = did;
+  private constructor(did: string, keys: ReadonlyMap<string, Signer>, activeKeyId: string) {
+    const active = keys.get(activeKeyId);
+    if (!active) {
+      throw new Error(`Key ${activeKeyId} is not held by this identity`);
     }
 
-    this.parsedDID = parseDID(this.did);
+    this.did = did;
+    this.parsedDID = parseDID(did);
+    this.keys = keys;
+    this.verificationMethod = activeKeyId;
+    this.signer = active;
+    this.publicKey = active.publicKey;
+  }
 
-    // Set verification method based on DID method
-    if (this.parsedDID.method === 'key') {
-      // For did:key, the verification method is self-referencing
-      this.verificationMethod = `${this.did}#${this.did}`;
-    } else if (this.parsedDID.method === 'web') {
-      // For did:web, use conventional fragment identifier
-      this.verificationMethod = `${this.did}#key-1`;
-    } else {
-      // Fallback (should not happen if parseDID validates correctly)
-      this.verificationMethod = `${this.did}#key-1`;
-    }
+  /**
+   * Create a single-key identity, deriving did:key if no DID is given.
+   */
+  private static fromKeyPair(keyPair: KeyPair, did?: string): AgentIdentity {
+    const resolvedDid = did ?? publicKeyToDidKey(keyPair.publicKey);
+    return AgentIdentity.fromSigner(
+      new InMemorySigner(keyPair, defaultVerificationMethod(resolvedDid)),
+    );
   }
 
   /**
@@ -84,8 +116,7 @@ export class AgentIdentity {
    * ```
    */
   public static generate(): AgentIdentity {
-    const keyPair = generateKeyPair();
-    return new AgentIdentity(keyPair);
+    return AgentIdentity.fromKeyPair(generateKeyPair());
   }
 
   /**
@@ -108,12 +139,7 @@ export class AgentIdentity {
       throw new Error('Private key must be exactly 32 bytes');
     }
 
-    // Derive public key from private key
-    // Import @noble/ed25519 dynamically to avoid bundling issues
-    const ed = await import('@noble/ed25519');
-    const publicKey = await ed.getPublicKey(privateKey);
-
-    return new AgentIdentity({ privateKey, publicKey }, did);
+    return AgentIdentity.fromKeyPair(await toKeyPair(privateKey), did);
   }
 
   /**
@@ -143,7 +169,252 @@ export class AgentIdentity {
   }
 
   /**
-   * Sign arbitrary bytes with the agent's private key.
+   * Restore an identity holding several keys, e.g. a did:web identity
+   * midway through a key rotation.
+   *
+   * @param did - The identity's DID
+   * @param keys - Keys with their ids: DID URLs of `did`, or fragments
+   *   ("key-2" or "#key-2")
+   * @param activeKeyId - Id of the key that signs; defaults to the last key
+   * @returns An AgentIdentity instance
+   *
+   * @throws {Error} If no keys are given, an id is repeated or belongs to
+   *   another DID, a private key is not 32 bytes, or `activeKeyId` is unknown
+   *
+   * @example
+   * ```typescript
+   * const identity = await AgentIdentity.fromKeys('did:web:agent.example.com', [
+   *   { id: 'key-1', privateKey: oldKey },
+   *   { id: 'key-2', privateKey: newKey },
+   * ]);
+   * console.log(identity.verificationMethod); // "did:web:agent.example.com#key-2"
+   * ```
+   */
+  public static async fromKeys(
+    did: string,
+    keys: Array<{ id: string; privateKey: Uint8Array }>,
+    activeKeyId?: string,
+  ): Promise<AgentIdentity> {
+    if (keys.length === 0) {
+      throw new Error('At least one key is required');
+    }
+
+    const signers: Signer[] = [];
+    for (const { id, privateKey } of keys) {
+      signers.push(await InMemorySigner.fromPrivateKey(privateKey, toKeyId(did, id)));
+    }
+
+    return AgentIdentity.fromSigners(signers, activeKeyId);
+  }
+
+  /**
+   * Create a single-key identity that signs with `signer`, e.g. a
+   * `RemoteSigner` or a KMS-backed implementation of `Signer`.
+   *
+   * @param signer - Signer whose `keyId` is a DID URL of the identity's DID
+   * @returns An AgentIdentity instance
+   *
+   * @throws {Error} If the key id is not a DID URL with a fragment
+   *
+   * @example
+   * ```typescript
+   * const signer = await RemoteSigner.connect('/run/agent/signer.sock');
+   * const identity = AgentIdentity.fromSigner(signer);
+   * ```
+   */
+  public static fromSigner(signer: Signer): AgentIdentity {
+    return AgentIdentity.fromSigners([signer]);
+  }
+
+  /**
+   * Create an identity holding several signers, all keys of one DID.
+   *
+   * @param signers - Signers whose `keyId`s are DID URLs of the same DID
+   * @param activeKeyId - Id of the key that signs; defaults to the last signer
+   * @returns An AgentIdentity instance
+   *
+   * @throws {Error} If no signers are given, a key id is not a DID URL,
+   *   is repeated or belongs to another DID, or `activeKeyId` is unknown
+   */
+  public static fromSigners(signers: Signer[], activeKeyId?: string): AgentIdentity {
+    if (signers.length === 0) {
+      throw new Error('At least one key is required');
+    }
+
+    const [did] = signers[0].keyId.split('#');
+    const keys = new Map<string, Signer>();
+    for (const signer of signers) {
+      if (!signer.keyId.startsWith('did:') || !signer.keyId.includes('#')) {
+        throw new Error(`Signer key id must be a DID URL with a fragment: ${signer.keyId}`);
+      }
+
+      const keyId = toKeyId(did, signer.keyId);
+      if (keys.has(keyId)) {
+        throw new Error(`Duplicate key id: ${keyId}`);
+      }
+      keys.set(keyId, signer);
+    }
+
+    const active = activeKeyId !== undefined
+      ? toKeyId(did, activeKeyId)
+      : signers[signers.length - 1].keyId;
+    return new AgentIdentity(did, keys, active);
+  }
+
+  /**
+   * Ids (DID URLs) of the keys held by this identity, in the order added.
+   *
+   * @returns Verification method DID URLs
+   */
+  public get keyIds(): string[] {
+    return [...this.keys.keys()];
+  }
+
+  /**
+   * Get the public key of one of this identity's keys.
+   *
+   * @param keyId - Key id (DID URL or fragment)
+   * @returns 32-byte Ed25519 public key
+   * @throws {Error} If the identity does not hold the key
+   */
+  public getPublicKey(keyId: string): Uint8Array {
+    return this.getSigner(keyId).publicKey;
+  }
+
+  /**
+   * Get the signer of one of this identity's keys.
+   *
+   * @param keyId - Key id (DID URL or fragment); defaults to the active key
+   * @returns The key's signer
+   * @throws {Error} If the identity does not hold the key
+   */
+  public getSigner(keyId?: string): Signer {
+    if (keyId === undefined) {
+      return this.signer;
+    }
+
+    const signer = this.keys.get(toKeyId(this.did, keyId));
+    if (!signer) {
+      throw new Error(`Key ${keyId} is not held by this identity`);
+    }
+    return signer;
+  }
+
+  /**
+   * Switch the active key.
+   *
+   * @param keyId - Key id (DID URL or fragment)
+   * @returns A new identity signing with that key
+   * @throws {Error} If the identity does not hold the key
+   */
+  public useKey(keyId: string): AgentIdentity {
+    return new AgentIdentity(this.did, this.keys, toKeyId(this.did, keyId));
+  }
+
+  /**
+   * Generate a new key, or take `signer`, and make it the active key.
+   *
+   * For did:web and other methods whose DID document is published, the new
+   * key is added as "#key-N" (or the signer's key id) alongside the
+   * existing keys: publish `toDIDDocument()` before using it. For did:key
+   * and did:jwk, whose DID is derived from the key, the result is a new DID
+   * of the same method, and a given signer's key id must be of such a DID.
+   *
+   * Sign the next manifest with the new identity and carry a continuity
+   * proof from this one (`ManifestBuilder.setRotation()`), so servers
+   * accept the new key without re-approval.
+   *
+   * @param signer - Signer of the new key, e.g. a new KMS key; generated
+   *   in memory if omitted
+   * @returns A new identity with the new active key
+   * @throws {Error} For did:peer numalgo 2, whose DID encodes several keys;
+   *   if the signer's key id is of another DID method (or, for a published
+   *   document, another DID) or is already held
+   *
+   * @example
+   * ```typescript
+   * const next = identity.rotateKey();
+   * const manifest = await ManifestBuilder.fromManifest(next, currentManifest)
+   *   .setRotation(identity)
+   *   .build();
+   * ```
+   */
+  public rotateKey(signer?: Signer): AgentIdentity {
+    if (this.did.startsWith('did:peer:2')) {
+      throw new Error('did:peer:2 identities cannot rotate a single key; create a new DID');
+    }
+
+    if (signer) {
+      if (KEY_DERIVED_METHODS.includes(this.parsedDID.method)) {
+        const next = AgentIdentity.fromSigner(signer);
+        if (next.parsedDID.method !== this.parsedDID.method) {
+          throw new Error(`Signer key ${signer.keyId} is not a did:${this.parsedDID.method} key`);
+        }
+        return next;
+      }
+
+      return AgentIdentity.fromSigners([...this.keys.values(), signer]);
+    }
+
+    const keyPair = generateKeyPair();
+
+    switch (this.parsedDID.method) {
+      case 'key':
+        return AgentIdentity.fromKeyPair(keyPair);
+      case 'jwk':
+        return AgentIdentity.fromKeyPair(keyPair, publicKeyToDidJwk(keyPair.publicKey));
+      case 'peer': {
+        const multibase = publicKeyToDidKey(keyPair.publicKey).slice('did:key:'.length);
+        return AgentIdentity.fromKeyPair(keyPair, `did:peer:0${multibase}`);
+      }
+    }
+
+    const numbers = this.keyIds.map((id) => Number(/#key-(\d+)$/.exec(id)?.[1] ?? 0));
+    const keyId = `${this.did}#key-${Math.max(0, ...numbers) + 1}`;
+    const keys = new Map(this.keys).set(keyId, new InMemorySigner(keyPair, keyId));
+    return new AgentIdentity(this.did, keys, keyId);
+  }
+
+  /**
+   * Build the DID document to publish for this identity (for did:web, at
+   * `/.well-known/did.json` or `<path>/did.json`).
+   *
+   * Every key is listed as a verification method, so servers can check
+   * continuity proofs made by retired keys; only the active key is
+   * authorized for `authentication` and `assertionMethod`.
+   *
+   * @returns DID document JSON
+   * @throws {Error} For did:key, did:jwk and did:peer, whose documents are
+   *   derived from the DID
+   *
+   * @example
+   * ```typescript
+   * await writeFile('.well-known/did.json', JSON.stringify(identity.toDIDDocument()));
+   * ```
+   */
+  public toDIDDocument(): PublishedDIDDocument {
+    if (KEY_DERIVED_METHODS.includes(this.parsedDID.method)) {
+      throw new Error(
+        `did:${this.parsedDID.method} documents are derived from the DID and are not published`,
+      );
+    }
+
+    return {
+      '@context': ['https://www.w3.org/ns/did/v1', 'https://w3id.org/security/multikey/v1'],
+      id: this.did,
+      verificationMethod: [...this.keys].map(([id, { publicKey }]) => ({
+        id,
+        type: 'Multikey',
+        controller: this.did,
+        publicKeyMultibase: publicKeyToDidKey(publicKey).slice('did:key:'.length),
+      })),
+      authentication: [this.verificationMethod],
+      assertionMethod: [this.verificationMethod],
+    };
+  }
+
+  /**
+   * Sign arbitrary bytes with the active key.
    *
    * @param data - Data to sign
    * @returns 64-byte Ed25519 signature
@@ -155,8 +426,7 @@ export class AgentIdentity {
    * ```
    */
   public async sign(data: Uint8Array): Promise<Uint8Array> {
-    // signBytes expects (data, privateKey) signature
-    return signBytes(data, this.privateKey);
+    return this.signer.sign(data);
   }
 
   /**
@@ -192,29 +462,103 @@ export class AgentIdentity {
       );
     }
 
-    return signChallenge(challenge, did, expiresAt, this.privateKey);
+    return signChallenge(challenge, did, expiresAt, this.signer);
+  }
+
+  /**
+   * Create a DPoP proof for one HTTP request, proving possession of this
+   * identity's key to a server that issued a key-bound token.
+   *
+   * @param method - HTTP method, e.g. "GET"
+   * @param url - Request URL (query and fragment are not signed)
+   * @param accessToken - Key-bound access token sent with the request
+   * @returns Compact JWS for the `DPoP` request header
+   *
+   * @example
+   * ```typescript
+   * const proof = await identity.createDPoPProof('GET', url, session.token);
+   * ```
+   */
+  public async createDPoPProof(
+    method: string,
+    url: string,
+    accessToken?: string,
+  ): Promise<string> {
+    return createDPoPProof({
+      method,
+      url,
+      signer: this.signer,
+      accessToken,
+    });
+  }
+
+  /**
+   * Encrypt this identity under a passphrase for storage.
+   *
+   * All keys are encrypted (AES-256-GCM, key derived with scrypt); the DID
+   * and active verification method are stored in the clear alongside them.
+   *
+   * @param passphrase - Passphrase to encrypt with
+   * @param options - scrypt cost parameters (default: n = 2^17, r = 8, p = 1)
+   * @returns Versioned encrypted identity JSON
+   * @throws {Error} If the passphrase is empty, or a key is not held in memory
+   *
+   * @example
+   * ```typescript
+   * const json = await identity.toEncryptedJSON(process.env.KEY_PASSPHRASE!);
+   * await writeFile('agent-key.json', JSON.stringify(json), { mode: 0o600 });
+   * ```
+   */
+  public async toEncryptedJSON(
+    passphrase: string,
+    options?: KeyEncryptionOptions,
+  ): Promise<EncryptedIdentityJSON> {
+    return encryptIdentityKeys(
+      {
+        did: this.did,
+        verificationMethod: this.verificationMethod,
+        keys: [...this.keys].map(([id, signer]) => ({ id, privateKey: exportPrivateKey(signer) })),
+      },
+      passphrase,
+      options,
+    );
   }
 
   /**
-   * Get the raw private key bytes.
+   * Restore an identity encrypted with `toEncryptedJSON()`.
    *
-   * ⚠️ **INTERNAL USE**: This method is intended for use by ManifestBuilder
-   * and other internal components. Handle with extreme care.
+   * @param json - Encrypted identity, as an object or JSON string
+   * @param passphrase - Passphrase it was encrypted with
+   * @returns The AgentIdentity, with the same keys and active key
    *
-   * @returns 32-byte private key
-   * @internal
+   * @throws {Error} If the JSON is malformed or of an unsupported version,
+   *   or the passphrase is wrong
+   *
+   * @example
+   * ```typescript
+   * const identity = await AgentIdentity.fromEncryptedJSON(
+   *   await readFile('agent-key.json', 'utf8'),
+   *   process.env.KEY_PASSPHRASE!,
+   * );
+   * ```
    */
-  public getPrivateKey(): Uint8Array {
-    return this.privateKey;
+  public static async fromEncryptedJSON(
+    json: EncryptedIdentityJSON | string,
+    passphrase: string,
+  ): Promise<AgentIdentity> {
+    const { did, verificationMethod, keys } = await decryptIdentityKeys(json, passphrase);
+    return AgentIdentity.fromKeys(did, keys, verificationMethod);
   }
 
   /**
-   * Export the private key as a hex string.
+   * Export the active private key as a hex string.
    *
    * ⚠️ **WARNING**: This exposes the raw private key. Handle with care.
-   * Never log, transmit over insecure channels, or store unencrypted.
+   * Never log, transmit over insecure channels, or store unencrypted;
+   * prefer `toEncryptedJSON()` for storage.
    *
    * @returns Hex-encoded private key (64 characters)
+   * @throws {Error} If the active key is not held in memory
    *
    * @example
    * ```typescript
@@ -223,11 +567,11 @@ export class AgentIdentity {
    * ```
    */
   public exportPrivateKeyHex(): string {
-    return bytesToHex(this.privateKey);
+    return bytesToHex(exportPrivateKey(this.signer));
   }
 
   /**
-   * Export the public key as a hex string.
+   * Export the active public key as a hex string.
    *
    * @returns Hex-encoded public key (64 characters)
    *
@@ -240,3 +584,53 @@ export class AgentIdentity {
     return bytesToHex(this.publicKey);
   }
 }
+
+/**
+ * Verification method of a single-key identity, by DID method.
+ */
+function defaultVerificationMethod(did: string): string {
+  switch (parseDID(did).method) {
+    case 'key':
+      // For did:key, the verification method is self-referencing
+      return `${did}#${did}`;
+    case 'jwk':
+      // did:jwk documents have a single verification method, "#0"
+      return `${did}#0`;
+    default:
+      // did:web, did:peer (numalgo 2 numbers keys from 1) and others:
+      // use conventional fragment identifier
+      return `${did}#key-1`;
+  }
+}
+
+/**
+ * Expand a key id ("key-1", "#key-1" or a DID URL) to a DID URL of `did`.
+ */
+function toKeyId(did: string, id: string): string {
+  if (id.startsWith('did:')) {
+    if (!id.startsWith(`${did}#`)) {
+      throw new Error(`Key id ${id} does not belong to ${did}`);
+    }
+    return id;
+  }
+  return `${did}#${id.replace(/^#/, '')}`;
+}
+
+/**
+ * Get the private key behind a signer, if it is held in memory.
+ */
+function exportPrivateKey(signer: Signer): Uint8Array {
+  if (!(signer instanceof InMemorySigner)) {
+    throw new Error(`Key ${signer.keyId} is held by an external signer and cannot be exported`);
+  }
+  return signer.exportPrivateKey();
+}
+
+/**
+ * Derive the public key of an Ed25519 private key.
+ */
+async function toKeyPair(privateKey: Uint8Array): Promise<KeyPair> {
+  // Import @noble/ed25519 dynamically to avoid bundling issues
+  const ed = await import('@noble/ed25519');
+  return { privateKey, publicKey: await ed.getPublicKey(privateKey) };
+}
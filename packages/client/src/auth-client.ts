@@ -3,7 +3,7 @@
  *
  * Handles the full authentication flow:
  * 1. Request challenge from server
- * 2. Sign challenge with agent's private key
+ * 2. Sign challenge with agent's key
  * 3. Submit signature + manifest to server
  * 4. Receive JWT session token
  *
@@ -17,6 +17,8 @@ import {
   ChallengeResponseSchema,
   VerifyResponseSchema,
   RegisterResponseSchema,
+  AgentAuthConfigurationSchema,
+  type AgentAuthConfiguration,
   type ChallengeResponse,
   type VerifyResponse,
   type RegisterResponse,
@@ -24,6 +26,7 @@ import {
 } from '@ai-agent-auth/core';
 import type { AgentIdentity } from './agent-identity';
 import { Session } from './session';
+import type { SessionStore } from './session-store';
 
 /**
  * Configuration options for AuthClient.
@@ -57,11 +60,218 @@ export interface AuthClientOptions {
    */
   timeoutMs?: number;
 
+  /**
+   * Retry policy for transient failures (timeouts, network errors, an
+   * unavailable or rate-limiting server) of the challenge-response flow.
+   * Pass `{}` for the defaults. Default: no retries.
+   */
+  retry?: RetryPolicy;
+
   /**
    * Path prefix for auth endpoints.
    * Default: "/auth"
    */
   pathPrefix?: string;
+
+  /**
+   * Space-separated scopes to request for this client's tokens, for
+   * least-privilege tokens per task. Default: the manifest's
+   * `permissions_required` on servers that enforce them, else everything
+   * the server allows.
+   */
+  scope?: string;
+
+  /**
+   * Space-separated scopes the tokens must carry. Authentication fails
+   * with AUTH_INSUFFICIENT_SCOPE if the server will not grant all of them.
+   */
+  requiredScope?: string;
+
+  /**
+   * Request DPoP (proof-of-possession) tokens bound to the identity's
+   * key. A leaked token is then useless without the key; sessions sign
+   * a proof per request via `session.toRequestHeaders()`.
+   * Default: false (bearer tokens, unless the server requires DPoP).
+   */
+  dpop?: boolean;
+
+  /**
+   * Store to persist sessions in, e.g. a `FileSessionStore` so short-lived
+   * processes reuse a session instead of authenticating on every run.
+   * Sessions are stored per server URL, DID and audience; `getSession()`
+   * and `createFetch()` consult the store before refreshing or
+   * authenticating. Default: sessions are kept in this client only.
+   */
+  sessionStore?: SessionStore;
+
+  /**
+   * Callback invoked on session lifecycle events: authentication,
+   * refresh, failed renewal and tokens rejected by an API. Errors thrown
+   * by the callback are ignored.
+   */
+  onEvent?: (event: AuthClientEvent) => void;
+}
+
+/**
+ * Retry policy for `AuthClientOptions.retry`.
+ *
+ * Only idempotent steps are retried: fetching the discovery document in
+ * `discover()`, `requestChallenge()`, and `authenticate()`, which fetches
+ * a fresh challenge for every attempt so a verification is never replayed.
+ * `refresh()` (the server rotates the refresh token) and `register()` are
+ * never retried.
+ *
+ * Retries back off exponentially from `initialDelayMs` with up to 10%
+ * jitter, and wait at least as long as a rate-limiting server asks
+ * (`Retry-After` header or `retry_after` detail).
+ */
+export interface RetryPolicy {
+  /**
+   * Attempts in total, including the first.
+   * Default: 3
+   */
+  maxAttempts?: number;
+
+  /**
+   * Delay before the first retry, in milliseconds; doubles for each
+   * further retry.
+   * Default: 500
+   */
+  initialDelayMs?: number;
+
+  /**
+   * Longest delay between attempts, in milliseconds. If the server asks
+   * to wait longer, the error is thrown instead.
+   * Default: 30000 (30 seconds)
+   */
+  maxDelayMs?: number;
+
+  /**
+   * Error codes to retry.
+   * Default: AUTH_TIMEOUT, AUTH_NETWORK_ERROR, AUTH_SERVER_UNAVAILABLE
+   * and AUTH_RATE_LIMITED
+   */
+  retryOn?: AuthErrorCode[];
+
+  /**
+   * Callback invoked after each failed attempt, e.g. for logging. Errors
+   * thrown by the callback are ignored.
+   */
+  onAttempt?: (attempt: RetryAttempt) => void;
+}
+
+/**
+ * A failed attempt, reported to `RetryPolicy.onAttempt`.
+ */
+export interface RetryAttempt {
+  /** Request that failed */
+  step: 'discovery' | 'challenge' | 'verify';
+  /** Attempt number, starting at 1 */
+  attempt: number;
+  /** Error of this attempt */
+  error: AuthError;
+  /** Delay before the next attempt, or undefined if the error is thrown */
+  retryInMs?: number;
+}
+
+/**
+ * A session lifecycle event, reported to `AuthClientOptions.onEvent`.
+ */
+export type AuthClientEvent =
+  /** A session was obtained via the challenge-response flow */
+  | { type: 'authenticated'; session: Session }
+  /** A session was renewed with its refresh token */
+  | { type: 'refreshed'; session: Session }
+  /** Renewing the session for an audience failed */
+  | { type: 'renewal_failed'; audience?: string; error: unknown }
+  /** An API rejected a session's token (401 AUTH_INVALID_TOKEN) */
+  | { type: 'token_rejected'; session: Session };
+
+/**
+ * Options for `AuthClient.authenticateOrRegister()`.
+ */
+export interface AuthenticateOrRegisterOptions {
+  /**
+   * Human-readable reason for requesting access, sent if the agent has to
+   * register.
+   */
+  reason?: string;
+
+  /**
+   * Audience of the session (API the token is for).
+   * Default: none
+   */
+  audience?: string;
+
+  /**
+   * Wait for an operator to approve a pending registration, checking
+   * back with the server until it is approved, rejected, the deadline
+   * passes or `signal` aborts.
+   * Default: false (throw AUTH_DID_PENDING)
+   */
+  waitForApproval?: boolean;
+
+  /**
+   * First interval between approval checks, in milliseconds; it doubles
+   * on every check. The server's `retry_after` is honored as a minimum.
+   * Default: 30000 (30 seconds)
+   */
+  pollIntervalMs?: number;
+
+  /**
+   * Longest interval between approval checks, unless the server asks
+   * for more with `retry_after`.
+   * Default: 600000 (10 minutes)
+   */
+  maxPollIntervalMs?: number;
+
+  /**
+   * Stop waiting for approval at this time.
+   * Default: no deadline
+   */
+  deadline?: Date;
+
+  /**
+   * Abort waiting; the returned promise rejects with the signal's reason.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Callback invoked when the agent registers and before every wait.
+   */
+  onProgress?: (progress: RegistrationProgress) => void;
+}
+
+/**
+ * Progress of `AuthClient.authenticateOrRegister()`.
+ */
+export type RegistrationProgress =
+  /** The agent registered with the server */
+  | { type: 'registered'; response: RegisterResponse }
+  /** Approval is pending; the server is checked again at `retryAt` */
+  | { type: 'waiting'; attempt: number; delayMs: number; retryAt: Date };
+
+/**
+ * Options for `AuthClient.createFetch()`.
+ */
+export interface AuthenticatedFetchOptions {
+  /**
+   * Audience of the tokens to present (API the requests go to).
+   * Default: none
+   */
+  audience?: string;
+
+  /**
+   * Renew the session when it expires within this many seconds.
+   * Default: 60
+   */
+  renewBeforeSeconds?: number;
+
+  /**
+   * fetch implementation for the API requests.
+   * Defaults to the client's fetch.
+   */
+  fetch?: typeof globalThis.fetch;
 }
 
 /**
@@ -89,7 +299,16 @@ export class AuthClient {
   private manifest: AgentManifest;
   private fetchFn: typeof globalThis.fetch;
   private timeoutMs: number;
+  private retry?: RetryPolicy;
   private pathPrefix: string;
+  private scope?: string;
+  private requiredScope?: string;
+  private dpop: boolean;
+  private onEvent?: AuthClientOptions['onEvent'];
+  private sessionStore?: SessionStore;
+  private discovered?: AgentAuthConfiguration;
+  private sessions: Map<string, Session> = new Map(); // audience ('' = none) → session
+  private renewals: Map<string, Promise<Session>> = new Map(); // audience → renewal in flight
 
   constructor(options: AuthClientOptions) {
     this.serverUrl = options.serverUrl.replace(/\/$/, ''); // Remove trailing slash
@@ -97,7 +316,58 @@ export class AuthClient {
     this.manifest = options.manifest;
     this.fetchFn = options.fetch ?? globalThis.fetch;
     this.timeoutMs = options.timeoutMs ?? 10_000;
+    this.retry = options.retry;
     this.pathPrefix = options.pathPrefix ?? '/auth';
+    this.scope = options.scope;
+    this.requiredScope = options.requiredScope;
+    this.dpop = options.dpop ?? false;
+    this.onEvent = options.onEvent;
+    this.sessionStore = options.sessionStore;
+  }
+
+  /**
+   * Create a client configured from the server's discovery document at
+   * `{baseUrl}/.well-known/agent-auth-configuration`.
+   *
+   * The document is checked for compatibility before use: its endpoints
+   * must be on the origin of `baseUrl`, and the server must accept the
+   * identity's DID method and Ed25519 signatures. If the server only
+   * issues DPoP tokens, the client requests DPoP tokens.
+   *
+   * @param baseUrl - Base URL of the server, e.g. "https://api.example.com"
+   * @param options - Client options, except the server URL and path prefix
+   * @returns An AuthClient for the discovered endpoints
+   * @throws {AuthError} AUTH_PROTOCOL_MISMATCH if the document is missing,
+   *   invalid or incompatible; AUTH_UNSUPPORTED_DID_METHOD if the server
+   *   does not accept the identity's DID method
+   *
+   * @example
+   * ```typescript
+   * const client = await AuthClient.discover('https://api.example.com', { identity, manifest });
+   * console.log('Registration enabled:', client.configuration?.registration_enabled);
+   * const session = await client.authenticate();
+   * ```
+   */
+  public static async discover(
+    baseUrl: string,
+    options: Omit<AuthClientOptions, 'serverUrl' | 'pathPrefix'>,
+  ): Promise<AuthClient> {
+    const client = new AuthClient({ ...options, serverUrl: baseUrl });
+    const configuration = await client.withRetry(
+      () => 'discovery',
+      () => client.fetchConfiguration(),
+    );
+
+    client.configure(configuration);
+    return client;
+  }
+
+  /**
+   * The server's discovery document, for clients created with
+   * `discover()`.
+   */
+  public get configuration(): AgentAuthConfiguration | undefined {
+    return this.discovered;
   }
 
   /**
@@ -105,9 +375,13 @@ export class AuthClient {
    *
    * Steps:
    * 1. POST /auth/challenge → receive challenge
-   * 2. Sign challenge with agent's private key
+   * 2. Sign challenge with agent's key
    * 3. POST /auth/verify → receive JWT
    *
+   * The client holds one session per audience; authenticating again for
+   * the same audience replaces it.
+   *
+   * @param options - Optional target `audience` (API the token is for)
    * @returns Session object with JWT and metadata
    * @throws {AuthError} with specific error code on failure
    *
@@ -115,38 +389,302 @@ export class AuthClient {
    * ```typescript
    * const session = await client.authenticate();
    * console.log('Token expires at:', session.expiresAt);
+   *
+   * // Token only valid at the files API
+   * const files = await client.authenticate({ audience: 'https://files.example.com' });
    * ```
    */
-  public async authenticate(): Promise<Session> {
-    // Step 1: Request challenge
-    const challengeResponse = await this.requestChallenge();
+  public async authenticate(
+    options: { audience?: string } = {},
+  ): Promise<Session> {
+    // A retry starts over with a fresh challenge: the server may have
+    // consumed the previous one even if its response was lost
+    let step: RetryAttempt['step'] = 'challenge';
+    const verifyResponse = await this.withRetry(() => step, async () => {
+      // Step 1: Request challenge
+      step = 'challenge';
+      const challengeResponse = await this.fetchChallenge();
 
-    // Step 2: Sign challenge
-    const signature = await this.identity.signChallenge(
-      challengeResponse.challenge,
-      this.identity.did,
-      challengeResponse.expires_at,
-    );
+      // Step 2: Sign challenge
+      const signature = await this.identity.signChallenge(
+        challengeResponse.challenge,
+        this.identity.did,
+        challengeResponse.expires_at,
+      );
 
-    // Step 3: Submit verification
-    const verifyResponse = await this.submitVerification(
-      challengeResponse.challenge,
-      signature,
-      challengeResponse.expires_at,
-    );
+      // Step 3: Submit verification
+      step = 'verify';
+      return this.submitVerification(
+        challengeResponse.challenge,
+        signature,
+        challengeResponse.expires_at,
+        options.audience,
+      );
+    });
 
     // Step 4: Create session
-    return new Session(
-      verifyResponse.token,
-      new Date(verifyResponse.expires_at),
-      verifyResponse.agent,
+    const session = await this.storeSession(
+      toSession(verifyResponse, this.identity, options.audience),
     );
+    this.emit({ type: 'authenticated', session });
+    return session;
+  }
+
+  /**
+   * Exchange a session's refresh token for a new session.
+   *
+   * POST /auth/refresh. The server rotates the refresh token, so the
+   * returned session carries a new one and the old session's refresh
+   * token must not be used again.
+   *
+   * @param session - Session to refresh. Defaults to the current session
+   *   without an audience.
+   * @returns New Session with a fresh JWT and rotated refresh token
+   * @throws {AuthError} AUTH_INVALID_TOKEN if the refresh token is invalid,
+   *   expired, or was already used
+   *
+   * @example
+   * ```typescript
+   * if (session.canRefresh) {
+   *   session = await client.refresh(session);
+   * }
+   * ```
+   */
+  public async refresh(
+    session: Session | null = this.sessions.get('') ?? null,
+  ): Promise<Session> {
+    if (!session?.refreshToken) {
+      throw new AuthError(
+        AuthErrorCode.AUTH_INVALID_TOKEN,
+        'Session has no refresh token',
+      );
+    }
+
+    const url = `${this.serverUrl}${this.pathPrefix}/refresh`;
+
+    const response = await this.fetchWithTimeout(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ refresh_token: session.refreshToken }),
+    });
+
+    if (!response.ok) {
+      await this.handleErrorResponse(response);
+    }
+
+    const data = await readJSON(response);
+
+    // Validate response schema
+    const validation = VerifyResponseSchema.safeParse(data);
+    if (!validation.success) {
+      throw new AuthError(
+        AuthErrorCode.AUTH_PROTOCOL_MISMATCH,
+        'Invalid refresh response format',
+        { zodErrors: validation.error.errors },
+      );
+    }
+
+    const refreshed = await this.storeSession(
+      toSession(validation.data, this.identity, session.audience),
+    );
+    this.emit({ type: 'refreshed', session: refreshed });
+    return refreshed;
+  }
+
+  /**
+   * Get a session valid for at least `minValiditySeconds`.
+   *
+   * Returns the current session (or, with a `sessionStore`, the stored
+   * one) if it is still fresh. Otherwise refreshes
+   * it when a refresh token is available, falling back to the full
+   * challenge-response flow if there is none or the server rejects it.
+   * Concurrent calls share a single renewal per audience.
+   *
+   * @param minValiditySeconds - Required remaining lifetime (default: 60)
+   * @param audience - Audience the session must be for (default: none)
+   * @returns A usable Session
+   * @throws {AuthError} if re-authentication fails
+   *
+   * @example
+   * ```typescript
+   * const session = await client.getSession();
+   * await fetch(url, { headers: { Authorization: session.toAuthorizationHeader() } });
+   *
+   * const files = await client.getSession(60, 'https://files.example.com');
+   * ```
+   */
+  public async getSession(
+    minValiditySeconds = 60,
+    audience?: string,
+  ): Promise<Session> {
+    const key = audience ?? '';
+    const current = this.sessions.get(key) ?? await this.loadSession(audience);
+
+    if (current && !current.willExpireIn(minValiditySeconds)) {
+      return current;
+    }
+
+    let renewal = this.renewals.get(key);
+    if (!renewal) {
+      renewal = this.renew(current, audience, minValiditySeconds).finally(() => {
+        this.renewals.delete(key);
+      });
+      this.renewals.set(key, renewal);
+    }
+    return renewal;
+  }
+
+  /**
+   * Forget a session, here and in the session store, so the next
+   * `getSession()` for its audience authenticates again. Does nothing if
+   * the session was already replaced.
+   *
+   * @param session - Session whose token is no longer accepted
+   *
+   * @example
+   * ```typescript
+   * if (response.status === 401) {
+   *   await client.invalidateSession(session);
+   * }
+   * ```
+   */
+  public async invalidateSession(session: Session): Promise<void> {
+    const key = session.audience ?? '';
+    if (this.sessions.get(key) !== session) {
+      return;
+    }
+
+    this.sessions.delete(key);
+    if (this.sessionStore) {
+      const storeKey = this.storeKey(session.audience);
+      // Another client may have stored a newer session meanwhile
+      if ((await this.sessionStore.get(storeKey))?.token === session.token) {
+        await this.sessionStore.delete(storeKey);
+      }
+    }
+  }
+
+  /**
+   * Create a `fetch` that sends requests with this client's session.
+   *
+   * Each request gets the `Authorization` header (and a `DPoP` proof for
+   * key-bound tokens). The session is renewed before it expires, with
+   * concurrent requests sharing one renewal; if the API still rejects the
+   * token (401 with `AUTH_INVALID_TOKEN`), the client authenticates again
+   * and retries the request once.
+   *
+   * @param options - Audience, renewal margin and custom fetch
+   * @returns Function with the `fetch` signature; it rejects with an
+   *   AuthError if authentication fails
+   *
+   * @example
+   * ```typescript
+   * const authedFetch = client.createFetch({ audience: 'https://files.example.com' });
+   *
+   * const res = await authedFetch('https://files.example.com/reports', {
+   *   method: 'POST',
+   *   body: JSON.stringify(report),
+   * });
+   * ```
+   */
+  public createFetch(
+    options: AuthenticatedFetchOptions = {},
+  ): typeof globalThis.fetch {
+    const fetchFn = options.fetch ?? this.fetchFn;
+    const renewBeforeSeconds = options.renewBeforeSeconds ?? 60;
+
+    const send = async (request: Request, session: Session): Promise<Response> => {
+      const headers = new Headers(request.headers);
+      const authHeaders = await session.toRequestHeaders(request.method, request.url);
+      for (const [name, value] of Object.entries(authHeaders)) {
+        headers.set(name, value);
+      }
+      return fetchFn(new Request(request, { headers }));
+    };
+
+    return async (input, init) => {
+      const request = new Request(input, init);
+      // A body can only be sent once; keep a copy for the retry
+      const retry = request.clone();
+
+      const session = await this.getSession(renewBeforeSeconds, options.audience);
+      const response = await send(request, session);
+      if (!(await isInvalidTokenResponse(response))) {
+        return response;
+      }
+
+      this.emit({ type: 'token_rejected', session });
+      await this.invalidateSession(session);
+      return send(retry, await this.getSession(renewBeforeSeconds, options.audience));
+    };
+  }
+
+  /**
+   * Replace a missing or expiring session, reporting failures.
+   */
+  private async renew(
+    current: Session | undefined,
+    audience: string | undefined,
+    minValiditySeconds: number,
+  ): Promise<Session> {
+    try {
+      return await this.replaceSession(current, audience, minValiditySeconds);
+    } catch (error) {
+      this.emit({ type: 'renewal_failed', audience, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Refresh `current` if possible, else run the full challenge-response flow.
+   *
+   * With a session store, first adopts a session another client stored
+   * meanwhile, so clients sharing the store do not all refresh (and so
+   * reuse) the same refresh token; and again when a refresh is rejected,
+   * as another client may have used the refresh token first.
+   */
+  private async replaceSession(
+    current: Session | undefined,
+    audience: string | undefined,
+    minValiditySeconds: number,
+  ): Promise<Session> {
+    const stored = await this.reloadSession(current, audience);
+    if (stored && !stored.willExpireIn(minValiditySeconds)) {
+      return stored;
+    }
+
+    const refreshable = stored ?? current;
+    if (refreshable?.canRefresh) {
+      try {
+        return await this.refresh(refreshable);
+      } catch (error) {
+        if (
+          !(error instanceof AuthError) ||
+          error.code !== AuthErrorCode.AUTH_INVALID_TOKEN
+        ) {
+          throw error;
+        }
+
+        const rotated = await this.reloadSession(refreshable, audience);
+        if (rotated && !rotated.willExpireIn(minValiditySeconds)) {
+          return rotated;
+        }
+        // Refresh token rejected — fall through to a full handshake
+      }
+    }
+
+    return this.authenticate({ audience });
   }
 
   /**
    * Request a challenge from the server.
    *
-   * POST /auth/challenge with the agent's DID.
+   * POST /auth/challenge with the agent's DID, and the DID it was rotated
+   * from if the manifest carries a rotation proof from another DID.
+   *
+   * Retried according to the client's retry policy.
    *
    * @returns Challenge response with 64-char hex challenge and expiry
    * @throws {AuthError} if request fails or DID is not authorized
@@ -157,6 +695,13 @@ export class AuthClient {
    * ```
    */
   public async requestChallenge(): Promise<ChallengeResponse> {
+    return this.withRetry(() => 'challenge', () => this.fetchChallenge());
+  }
+
+  /**
+   * Request a challenge once, without retries.
+   */
+  private async fetchChallenge(): Promise<ChallengeResponse> {
     const url = `${this.serverUrl}${this.pathPrefix}/challenge`;
 
     const response = await this.fetchWithTimeout(url, {
@@ -164,14 +709,22 @@ export class AuthClient {
       headers: {
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify({ did: this.identity.did }),
+      body: JSON.stringify({
+        did: this.identity.did,
+        // A rotated DID the server has not approved yet is admitted on
+        // the strength of the approved DID it was rotated from
+        ...(this.manifest.rotation?.previous_did !== undefined &&
+          this.manifest.rotation.previous_did !== this.identity.did && {
+          previous_did: this.manifest.rotation.previous_did,
+        }),
+      }),
     });
 
     if (!response.ok) {
       await this.handleErrorResponse(response);
     }
 
-    const data: unknown = await response.json();
+    const data = await readJSON(response);
 
     // Handle 202 Accepted (pending approval)
     if (response.status === 202) {
@@ -187,7 +740,7 @@ export class AuthClient {
     const validation = ChallengeResponseSchema.safeParse(data);
     if (!validation.success) {
       throw new AuthError(
-        AuthErrorCode.AUTH_INVALID_REQUEST,
+        AuthErrorCode.AUTH_PROTOCOL_MISMATCH,
         'Invalid challenge response format',
         { zodErrors: validation.error.errors },
       );
@@ -204,6 +757,7 @@ export class AuthClient {
    * @param challenge - The challenge string from requestChallenge()
    * @param signature - Base58btc-encoded Ed25519 signature with 'z' prefix
    * @param expiresAt - ISO 8601 expiry timestamp from challenge response
+   * @param audience - Optional target audience for the token
    * @returns Verification response with JWT token
    * @throws {AuthError} if verification fails
    *
@@ -220,6 +774,7 @@ export class AuthClient {
     challenge: string,
     signature: string,
     expiresAt: string,
+    audience?: string,
   ): Promise<VerifyResponse> {
     const url = `${this.serverUrl}${this.pathPrefix}/verify`;
 
@@ -233,6 +788,10 @@ export class AuthClient {
         challenge,
         signature,
         manifest: this.manifest,
+        ...(this.scope !== undefined && { scope: this.scope }),
+        ...(this.requiredScope !== undefined && { required_scope: this.requiredScope }),
+        ...(audience !== undefined && { audience }),
+        ...(this.dpop && { token_type: 'DPoP' }),
       }),
     });
 
@@ -240,13 +799,13 @@ export class AuthClient {
       await this.handleErrorResponse(response);
     }
 
-    const data = await response.json();
+    const data = await readJSON(response);
 
     // Validate response schema
     const validation = VerifyResponseSchema.safeParse(data);
     if (!validation.success) {
       throw new AuthError(
-        AuthErrorCode.AUTH_INVALID_REQUEST,
+        AuthErrorCode.AUTH_PROTOCOL_MISMATCH,
         'Invalid verify response format',
         { zodErrors: validation.error.errors },
       );
@@ -288,13 +847,13 @@ export class AuthClient {
       await this.handleErrorResponse(response);
     }
 
-    const data = await response.json();
+    const data = await readJSON(response);
 
     // Validate response schema
     const validation = RegisterResponseSchema.safeParse(data);
     if (!validation.success) {
       throw new AuthError(
-        AuthErrorCode.AUTH_INVALID_REQUEST,
+        AuthErrorCode.AUTH_PROTOCOL_MISMATCH,
         'Invalid register response format',
         { zodErrors: validation.error.errors },
       );
@@ -303,6 +862,308 @@ export class AuthClient {
     return validation.data;
   }
 
+  /**
+   * Authenticate, registering the agent first if the server does not
+   * know its DID, and optionally waiting for the registration to be
+   * approved.
+   *
+   * Approval checks back off exponentially from `pollIntervalMs`, never
+   * sooner than the server's `retry_after`, with up to 10% random jitter
+   * so a fleet of agents does not poll in lockstep.
+   *
+   * @param options - Registration reason, audience, and waiting behavior
+   * @returns Session once the agent is approved
+   * @throws {AuthError} AUTH_DID_PENDING if approval is pending and
+   *   `waitForApproval` is off or the deadline passes; AUTH_DID_REJECTED
+   *   or AUTH_DID_BANNED if the server refuses the agent; or any other
+   *   authentication error
+   *
+   * @example
+   * ```typescript
+   * const session = await client.authenticateOrRegister({
+   *   reason: 'Nightly report generation',
+   *   waitForApproval: true,
+   *   deadline: new Date(Date.now() + 24 * 60 * 60 * 1000),
+   *   onProgress: (progress) => {
+   *     if (progress.type === 'waiting') {
+   *       console.log(`Awaiting approval; checking again at ${progress.retryAt.toISOString()}`);
+   *     }
+   *   },
+   * });
+   * ```
+   */
+  public async authenticateOrRegister(
+    options: AuthenticateOrRegisterOptions = {},
+  ): Promise<Session> {
+    const { signal, deadline } = options;
+    let registered = false;
+
+    for (let attempt = 1; ; attempt++) {
+      signal?.throwIfAborted();
+
+      let pending: AuthError;
+      try {
+        return await this.authenticate({ audience: options.audience });
+      } catch (error) {
+        if (!(error instanceof AuthError)) {
+          throw error;
+        }
+
+        if (error.code === AuthErrorCode.AUTH_DID_NOT_FOUND && !registered) {
+          const response = await this.register(options.reason);
+          registered = true;
+          options.onProgress?.({ type: 'registered', response });
+
+          if (response.status === 'approved') {
+            continue;
+          }
+          if (response.status !== 'pending_approval') {
+            throw new AuthError(AuthErrorCode.AUTH_DID_REJECTED, response.message);
+          }
+          pending = new AuthError(AuthErrorCode.AUTH_DID_PENDING, response.message, {
+            retry_after: response.retry_after,
+          });
+        } else if (error.code === AuthErrorCode.AUTH_DID_PENDING) {
+          pending = error;
+        } else {
+          throw error;
+        }
+      }
+
+      if (!options.waitForApproval) {
+        throw pending;
+      }
+
+      const remainingMs = deadline ? deadline.getTime() - Date.now() : Infinity;
+      if (remainingMs <= 0) {
+        throw new AuthError(
+          AuthErrorCode.AUTH_DID_PENDING,
+          'Registration was still pending approval at the deadline',
+          pending.details,
+        );
+      }
+
+      // Check one last time at the deadline rather than give up early
+      const delayMs = Math.min(
+        backoffDelay(
+          attempt,
+          options.pollIntervalMs ?? 30_000,
+          options.maxPollIntervalMs ?? 600_000,
+          pending.details?.retry_after,
+        ),
+        remainingMs,
+      );
+      options.onProgress?.({
+        type: 'waiting',
+        attempt,
+        delayMs,
+        retryAt: new Date(Date.now() + delayMs),
+      });
+      await sleep(delayMs, signal);
+    }
+  }
+
+  /**
+   * Fetch the discovery document once, without retries.
+   */
+  private async fetchConfiguration(): Promise<AgentAuthConfiguration> {
+    const url = `${this.serverUrl}/.well-known/agent-auth-configuration`;
+
+    const response = await this.fetchWithTimeout(url, {
+      method: 'GET',
+      headers: {
+        Accept: 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      await this.handleErrorResponse(response);
+    }
+
+    const data = await readJSON(response);
+
+    // Validate response schema
+    const validation = AgentAuthConfigurationSchema.safeParse(data);
+    if (!validation.success) {
+      throw new AuthError(
+        AuthErrorCode.AUTH_PROTOCOL_MISMATCH,
+        'Invalid discovery document format',
+        { zodErrors: validation.error.errors },
+      );
+    }
+
+    return validation.data;
+  }
+
+  /**
+   * Use the endpoints of a discovery document, after checking that the
+   * server can authenticate this client.
+   */
+  private configure(configuration: AgentAuthConfiguration): void {
+    // Endpoints are requested as `${serverUrl}${pathPrefix}/<name>`, so
+    // they must share one base
+    const base = configuration.challenge_endpoint.replace(/\/challenge$/, '');
+    const endpoints: Array<[string | undefined, string]> = [
+      [configuration.challenge_endpoint, 'challenge'],
+      [configuration.verify_endpoint, 'verify'],
+      [configuration.refresh_endpoint, 'refresh'],
+      [configuration.registration_endpoint, 'register'],
+    ];
+    for (const [endpoint, name] of endpoints) {
+      if (endpoint !== undefined && endpoint !== `${base}/${name}`) {
+        throw new AuthError(
+          AuthErrorCode.AUTH_PROTOCOL_MISMATCH,
+          `Unsupported ${name} endpoint: ${endpoint}`,
+        );
+      }
+    }
+
+    // A document must not send the agent's signatures to another server
+    if (new URL(base).origin !== new URL(this.serverUrl).origin) {
+      throw new AuthError(
+        AuthErrorCode.AUTH_PROTOCOL_MISMATCH,
+        `Discovery document lists endpoints on another origin: ${base}`,
+      );
+    }
+
+    const method = this.identity.did.split(':')[1];
+    if (!configuration.did_methods_supported.includes(method)) {
+      throw new AuthError(
+        AuthErrorCode.AUTH_UNSUPPORTED_DID_METHOD,
+        `Server does not support did:${method}`,
+        { did_methods_supported: configuration.did_methods_supported },
+      );
+    }
+    if (!configuration.signing_algorithms_supported.includes('EdDSA')) {
+      throw new AuthError(
+        AuthErrorCode.AUTH_PROTOCOL_MISMATCH,
+        'Server does not accept Ed25519 (EdDSA) signatures',
+      );
+    }
+
+    if (!configuration.token_types_supported.includes('Bearer')) {
+      this.dpop = true;
+    }
+    if (this.dpop && !configuration.token_types_supported.includes('DPoP')) {
+      throw new AuthError(
+        AuthErrorCode.AUTH_PROTOCOL_MISMATCH,
+        'Server does not issue DPoP tokens',
+      );
+    }
+
+    this.serverUrl = base;
+    this.pathPrefix = '';
+    this.discovered = configuration;
+  }
+
+  /**
+   * Run `attempt`, retrying transient failures according to the retry
+   * policy. `step` names the request that failed, for `onAttempt`.
+   */
+  private async withRetry<T>(
+    step: () => RetryAttempt['step'],
+    attempt: () => Promise<T>,
+  ): Promise<T> {
+    const policy = this.retry;
+    if (!policy) {
+      return attempt();
+    }
+
+    const maxAttempts = policy.maxAttempts ?? 3;
+    const maxDelayMs = policy.maxDelayMs ?? 30_000;
+    const retryOn = policy.retryOn ?? RETRYABLE_ERRORS;
+
+    for (let n = 1; ; n++) {
+      try {
+        return await attempt();
+      } catch (error) {
+        if (!(error instanceof AuthError)) {
+          throw error;
+        }
+
+        let retryInMs: number | undefined;
+        const retryAfter = error.details?.retry_after;
+        if (
+          n < maxAttempts &&
+          retryOn.includes(error.code) &&
+          !(typeof retryAfter === 'number' && retryAfter * 1000 > maxDelayMs)
+        ) {
+          retryInMs = backoffDelay(n, policy.initialDelayMs ?? 500, maxDelayMs, retryAfter);
+        }
+
+        try {
+          policy.onAttempt?.({ step: step(), attempt: n, error, retryInMs });
+        } catch {
+          // A failing listener must not break authentication
+        }
+
+        if (retryInMs === undefined) {
+          throw error;
+        }
+        await sleep(retryInMs);
+      }
+    }
+  }
+
+  /**
+   * Report a lifecycle event to the `onEvent` callback.
+   */
+  private emit(event: AuthClientEvent): void {
+    try {
+      this.onEvent?.(event);
+    } catch {
+      // A failing listener must not break authentication
+    }
+  }
+
+  /**
+   * Remember a session as the current one for its audience, and store it.
+   */
+  private async storeSession(session: Session): Promise<Session> {
+    this.sessions.set(session.audience ?? '', session);
+    await this.sessionStore?.set(this.storeKey(session.audience), session.toJSON());
+    return session;
+  }
+
+  /**
+   * Load the stored session for an audience, if any.
+   */
+  private async loadSession(audience?: string): Promise<Session | undefined> {
+    const data = await this.sessionStore?.get(this.storeKey(audience));
+    if (!data) {
+      return undefined;
+    }
+
+    const session = Session.fromJSON(data, this.identity);
+    this.sessions.set(audience ?? '', session);
+    return session;
+  }
+
+  /**
+   * Load the stored session for an audience if another client replaced
+   * `current` with it.
+   */
+  private async reloadSession(
+    current: Session | undefined,
+    audience?: string,
+  ): Promise<Session | undefined> {
+    const data = await this.sessionStore?.get(this.storeKey(audience));
+    if (!data || data.token === current?.token) {
+      return undefined;
+    }
+
+    const session = Session.fromJSON(data, this.identity);
+    this.sessions.set(audience ?? '', session);
+    return session;
+  }
+
+  /**
+   * Session store key: server URL, DID and audience.
+   */
+  private storeKey(audience?: string): string {
+    return JSON.stringify([this.serverUrl, this.identity.did, audience ?? '']);
+  }
+
   /**
    * Fetch with timeout support.
    */
@@ -322,12 +1183,12 @@ export class AuthClient {
     } catch (error) {
       if (error instanceof Error && error.name === 'AbortError') {
         throw new AuthError(
-          AuthErrorCode.AUTH_INTERNAL_ERROR,
+          AuthErrorCode.AUTH_TIMEOUT,
           `Request timeout after ${this.timeoutMs}ms`,
         );
       }
       throw new AuthError(
-        AuthErrorCode.AUTH_INTERNAL_ERROR,
+        AuthErrorCode.AUTH_NETWORK_ERROR,
         `Network error: ${error instanceof Error ? error.message : 'Unknown error'}`,
       );
     } finally {
@@ -337,17 +1198,24 @@ export class AuthClient {
 
   /**
    * Handle error responses from the server.
+   *
+   * Responses without an ai-agent-auth error body (e.g. from a proxy or
+   * load balancer) are classified by status code.
    */
   private async handleErrorResponse(response: Response): Promise<never> {
+    // Retry-After takes precedence over a retry_after detail
+    const retryAfter = parseRetryAfter(response.headers?.get('Retry-After'));
+    const retryDetails = retryAfter !== undefined ? { retry_after: retryAfter } : undefined;
     let errorData: unknown;
 
     try {
       errorData = await response.json();
     } catch {
-      // If response is not JSON, throw generic error
+      // If response is not JSON, throw an error for its status
       throw new AuthError(
-        AuthErrorCode.AUTH_INTERNAL_ERROR,
+        errorCodeForStatus(response.status),
         `Server returned ${response.status}: ${response.statusText}`,
+        retryDetails,
       );
     }
 
@@ -361,10 +1229,13 @@ export class AuthClient {
       'code' in errorData.error &&
       'message' in errorData.error
     ) {
+      const details = 'details' in errorData.error
+        ? (errorData.error.details as Record<string, unknown> | undefined)
+        : undefined;
       throw new AuthError(
         errorData.error.code as AuthErrorCode,
         errorData.error.message as string,
-        'details' in errorData.error ? (errorData.error.details as Record<string, unknown>) : undefined,
+        details || retryDetails ? { ...details, ...retryDetails } : undefined,
       );
     }
 
@@ -378,9 +1249,145 @@ export class AuthClient {
         : `Server error: ${response.status}`;
 
     throw new AuthError(
-      AuthErrorCode.AUTH_INTERNAL_ERROR,
+      errorCodeForStatus(response.status),
       message,
-      errorData as Record<string, unknown> | undefined,
+      { ...(errorData as Record<string, unknown> | undefined), ...retryDetails },
+    );
+  }
+}
+
+// Errors retried by default: transient failures of the server or network
+const RETRYABLE_ERRORS = [
+  AuthErrorCode.AUTH_TIMEOUT,
+  AuthErrorCode.AUTH_NETWORK_ERROR,
+  AuthErrorCode.AUTH_SERVER_UNAVAILABLE,
+  AuthErrorCode.AUTH_RATE_LIMITED,
+];
+
+/**
+ * Delay before retry `attempt`: exponential backoff from `initialMs` up
+ * to `maxMs`, at least the server's `retry_after` (seconds), plus up to
+ * 10% jitter.
+ */
+function backoffDelay(
+  attempt: number,
+  initialMs: number,
+  maxMs: number,
+  retryAfter: unknown,
+): number {
+  const backoffMs = Math.min(initialMs * 2 ** (attempt - 1), maxMs);
+  const retryAfterMs = typeof retryAfter === 'number' ? retryAfter * 1000 : 0;
+  return Math.round(Math.max(backoffMs, retryAfterMs) * (1 + Math.random() * 0.1));
+}
+
+/**
+ * Wait, unless `signal` aborts first.
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Parse a response body as JSON.
+ *
+ * @throws {AuthError} AUTH_PROTOCOL_MISMATCH if it is not JSON
+ */
+async function readJSON(response: Response): Promise<unknown> {
+  try {
+    return await response.json();
+  } catch {
+    throw new AuthError(
+      AuthErrorCode.AUTH_PROTOCOL_MISMATCH,
+      `Server returned a non-JSON response (${response.status})`,
     );
   }
 }
+
+/**
+ * Error code for an error response without an ai-agent-auth error body.
+ */
+function errorCodeForStatus(status: number): AuthErrorCode {
+  if (status === 429) {
+    return AuthErrorCode.AUTH_RATE_LIMITED;
+  }
+  if (status === 502 || status === 503 || status === 504) {
+    return AuthErrorCode.AUTH_SERVER_UNAVAILABLE;
+  }
+  if (status >= 500) {
+    return AuthErrorCode.AUTH_INTERNAL_ERROR;
+  }
+  // Not an auth endpoint, e.g. a wrong serverUrl or pathPrefix
+  return AuthErrorCode.AUTH_PROTOCOL_MISMATCH;
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or HTTP date) into seconds.
+ */
+function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  if (/^\d+$/.test(value.trim())) {
+    return Number(value.trim());
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+/**
+ * Check whether an API response rejects the presented token.
+ */
+async function isInvalidTokenResponse(response: Response): Promise<boolean> {
+  if (response.status !== 401) {
+    return false;
+  }
+
+  try {
+    const body = await response.clone().json() as { error?: { code?: unknown } };
+    return body.error?.code === AuthErrorCode.AUTH_INVALID_TOKEN;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Build a Session from a verify or refresh response.
+ *
+ * Falls back to the requested audience for servers that do not echo it.
+ * DPoP-bound tokens keep the identity so the session can sign proofs.
+ */
+function toSession(
+  response: VerifyResponse,
+  identity: AgentIdentity,
+  audience?: string,
+): Session {
+  return new Session(
+    response.token,
+    new Date(response.expires_at),
+    response.agent,
+    response.refresh_token && response.refresh_expires_at
+      ? {
+          token: response.refresh_token,
+          expiresAt: new Date(response.refresh_expires_at),
+        }
+      : undefined,
+    response.audience ?? audience,
+    response.token_type === 'DPoP' ? identity : undefined,
+  );
+}
@@ -0,0 +1,274 @@
+/**
+ * Encrypted key format — passphrase-protected storage for identity keys.
+ *
+ * Keys are encrypted with AES-256-GCM (Web Crypto) under a key derived from
+ * the passphrase with scrypt. The DID and active verification method are stored
+ * in the clear, so a keystore can list identities without a passphrase,
+ * and are authenticated as additional data, so they cannot be swapped.
+ *
+ * @packageDocumentation
+ */
+
+import type { webcrypto } from 'node:crypto';
+import {
+  bytesToHex,
+  deriveKeyScrypt,
+  hexToBytes,
+  randomBytes,
+} from '@ai-agent-auth/core';
+
+/** Current version of the encrypted identity format */
+export const ENCRYPTED_IDENTITY_VERSION = 1;
+
+// Default scrypt cost: 2^17 × 8 × 128 bytes = 128 MiB of memory per derivation
+const DEFAULT_SCRYPT = { n: 2 ** 17, r: 8, p: 1 };
+
+// Upper bounds on parameters read from a file, so a crafted file cannot
+// make decryption exhaust memory or CPU. Memory is 128 × N × r bytes and
+// work grows with N × r × p; both are capped at twice the default's
+const MAX_SCRYPT_N = 2 ** 20;
+const MAX_SCRYPT_R = 32;
+const MAX_SCRYPT_P = 16;
+const MAX_SCRYPT_MEMORY = 256 * 1024 * 1024;
+const MAX_SCRYPT_WORK = 2 ** 21;
+
+/**
+ * Versioned JSON form of an encrypted AgentIdentity.
+ *
+ * @example
+ * ```json
+ * {
+ *   "version": 1,
+ *   "did": "did:web:agent.example.com",
+ *   "verification_method": "did:web:agent.example.com#key-2",
+ *   "crypto": {
+ *     "kdf": "scrypt",
+ *     "kdfparams": { "n": 131072, "r": 8, "p": 1, "salt": "9f2c..." },
+ *     "cipher": "aes-256-gcm",
+ *     "iv": "5be1...",
+ *     "tag": "0c4d...",
+ *     "ciphertext": "b7a0..."
+ *   }
+ * }
+ * ```
+ */
+export interface EncryptedIdentityJSON {
+  version: typeof ENCRYPTED_IDENTITY_VERSION;
+  did: string;
+  verification_method: string; // active key
+  crypto: {
+    kdf: 'scrypt';
+    kdfparams: { n: number; r: number; p: number; salt: string }; // salt: hex
+    cipher: 'aes-256-gcm';
+    iv: string; // hex, 12 bytes
+    tag: string; // hex, 16 bytes
+    ciphertext: string; // hex
+  };
+}
+
+/**
+ * scrypt cost parameters for encryption.
+ */
+export interface KeyEncryptionOptions {
+  /** CPU/memory cost, a power of two (default: 2^17) */
+  n?: number;
+  /** Block size (default: 8) */
+  r?: number;
+  /** Parallelization (default: 1) */
+  p?: number;
+}
+
+/**
+ * A key held by an identity: its verification method and private key.
+ */
+export interface IdentityKeyMaterial {
+  id: string;
+  privateKey: Uint8Array;
+}
+
+/**
+ * Encrypt an identity's keys under a passphrase.
+ *
+ * @param identity - DID, active verification method and keys to encrypt
+ * @param passphrase - Passphrase to derive the encryption key from
+ * @param options - scrypt cost parameters
+ * @returns Encrypted identity JSON
+ * @throws {Error} If the passphrase is empty or the parameters are invalid
+ */
+export async function encryptIdentityKeys(
+  identity: { did: string; verificationMethod: string; keys: IdentityKeyMaterial[] },
+  passphrase: string,
+  options: KeyEncryptionOptions = {},
+): Promise<EncryptedIdentityJSON> {
+  const kdfparams = {
+    n: options.n ?? DEFAULT_SCRYPT.n,
+    r: options.r ?? DEFAULT_SCRYPT.r,
+    p: options.p ?? DEFAULT_SCRYPT.p,
+    salt: bytesToHex(randomBytes(32)),
+  };
+  checkScryptParams(kdfparams);
+
+  const plaintext = new TextEncoder().encode(JSON.stringify({
+    keys: identity.keys.map(({ id, privateKey }) => ({
+      id,
+      private_key: bytesToHex(privateKey),
+    })),
+  }));
+
+  const key = await deriveKey(passphrase, kdfparams, 'encrypt');
+  const iv = randomBytes(12);
+  const sealed = new Uint8Array(
+    await globalThis.crypto.subtle.encrypt(
+      {
+        name: 'AES-GCM',
+        iv,
+        additionalData: additionalData(identity.did, identity.verificationMethod),
+      },
+      key,
+      plaintext,
+    ),
+  );
+
+  // Web Crypto appends the 16-byte tag to the ciphertext
+  const ciphertext = sealed.slice(0, -16);
+  const tag = sealed.slice(-16);
+
+  return {
+    version: ENCRYPTED_IDENTITY_VERSION,
+    did: identity.did,
+    verification_method: identity.verificationMethod,
+    crypto: {
+      kdf: 'scrypt',
+      kdfparams,
+      cipher: 'aes-256-gcm',
+      iv: bytesToHex(iv),
+      tag: bytesToHex(tag),
+      ciphertext: bytesToHex(ciphertext),
+    },
+  };
+}
+
+/**
+ * Decrypt the keys of an encrypted identity.
+ *
+ * @param json - Encrypted identity, as an object or JSON string
+ * @param passphrase - Passphrase the identity was encrypted with
+ * @returns DID, active verification method and keys
+ * @throws {Error} If the JSON is malformed or of an unsupported version,
+ *   or the passphrase is wrong or the data was tampered with
+ */
+export async function decryptIdentityKeys(
+  json: EncryptedIdentityJSON | string,
+  passphrase: string,
+): Promise<{ did: string; verificationMethod: string; keys: IdentityKeyMaterial[] }> {
+  const encrypted = parseEncryptedIdentity(typeof json === 'string' ? JSON.parse(json) : json);
+  const { kdfparams, iv, tag, ciphertext } = encrypted.crypto;
+
+  const key = await deriveKey(passphrase, kdfparams, 'decrypt');
+
+  let plaintext: string;
+  try {
+    const decrypted = await globalThis.crypto.subtle.decrypt(
+      {
+        name: 'AES-GCM',
+        iv: hexToBytes(iv),
+        additionalData: additionalData(encrypted.did, encrypted.verification_method),
+      },
+      key,
+      hexToBytes(ciphertext + tag),
+    );
+    plaintext = new TextDecoder().decode(decrypted);
+  } catch {
+    throw new Error('Failed to decrypt identity: wrong passphrase or corrupted data');
+  }
+
+  const { keys } = JSON.parse(plaintext) as { keys: Array<{ id: string; private_key: string }> };
+  return {
+    did: encrypted.did,
+    verificationMethod: encrypted.verification_method,
+    keys: keys.map(({ id, private_key }) => ({ id, privateKey: hexToBytes(private_key) })),
+  };
+}
+
+/**
+ * Check the structure of an encrypted identity.
+ *
+ * @param value - Parsed JSON
+ * @returns The value, typed
+ * @throws {Error} If a field is missing or invalid, or the version, KDF or
+ *   cipher is unsupported
+ */
+export function parseEncryptedIdentity(value: unknown): EncryptedIdentityJSON {
+  const json = value as Partial<EncryptedIdentityJSON> | null;
+
+  if (typeof json !== 'object' || json === null) {
+    throw new Error('Invalid encrypted identity: not an object');
+  }
+  if (json.version !== ENCRYPTED_IDENTITY_VERSION) {
+    throw new Error(`Unsupported encrypted identity version: ${String(json.version)}`);
+  }
+  if (typeof json.did !== 'string' || typeof json.verification_method !== 'string') {
+    throw new Error('Invalid encrypted identity: did and verification_method are required');
+  }
+
+  const { crypto } = json;
+  if (crypto?.kdf !== 'scrypt') {
+    throw new Error(`Unsupported key derivation function: ${String(crypto?.kdf)}`);
+  }
+  if (crypto.cipher !== 'aes-256-gcm') {
+    throw new Error(`Unsupported cipher: ${String(crypto.cipher)}`);
+  }
+  for (const field of ['iv', 'tag', 'ciphertext'] as const) {
+    if (typeof crypto[field] !== 'string' || !/^([0-9a-f]{2})+$/.test(crypto[field])) {
+      throw new Error(`Invalid encrypted identity: crypto.${field} must be hex`);
+    }
+  }
+  checkScryptParams(crypto.kdfparams);
+
+  return json as EncryptedIdentityJSON;
+}
+
+function checkScryptParams(params: EncryptedIdentityJSON['crypto']['kdfparams'] | undefined): void {
+  const { n, r, p, salt } = params ?? {};
+
+  if (
+    !inRange(n, 2, MAX_SCRYPT_N) || (n & (n - 1)) !== 0 ||
+    !inRange(r, 1, MAX_SCRYPT_R) ||
+    !inRange(p, 1, MAX_SCRYPT_P)
+  ) {
+    throw new Error(
+      `Invalid scrypt parameters: n must be a power of two up to 2^20, r 1-${MAX_SCRYPT_R}, p 1-${MAX_SCRYPT_P}`,
+    );
+  }
+  if (128 * n * r > MAX_SCRYPT_MEMORY || n * r * p > MAX_SCRYPT_WORK) {
+    throw new Error(
+      'Invalid scrypt parameters: cost exceeds the limit (128·n·r up to 256 MiB, n·r·p up to 2^21)',
+    );
+  }
+  if (typeof salt !== 'string' || !/^([0-9a-f]{2}){16,}$/.test(salt)) {
+    throw new Error('Invalid scrypt parameters: salt must be at least 16 hex bytes');
+  }
+}
+
+function inRange(value: unknown, min: number, max: number): value is number {
+  return Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+}
+
+async function deriveKey(
+  passphrase: string,
+  { n, r, p, salt }: EncryptedIdentityJSON['crypto']['kdfparams'],
+  usage: 'encrypt' | 'decrypt',
+): Promise<webcrypto.CryptoKey> {
+  if (passphrase.length === 0) {
+    throw new Error('Passphrase must not be empty');
+  }
+
+  const raw = await deriveKeyScrypt(passphrase, hexToBytes(salt), { N: n, r, p });
+  return globalThis.crypto.subtle.importKey('raw', raw, 'AES-GCM', false, [usage]);
+}
+
+function additionalData(did: string, verificationMethod: string): Uint8Array {
+  return new TextEncoder().encode(
+    JSON.stringify([ENCRYPTED_IDENTITY_VERSION, did, verificationMethod]),
+  );
+}
@@ -11,10 +11,41 @@
 
 // ─── Client SDK Classes ─────────────────────────────────────────────────
 
-export { AgentIdentity } from './agent-identity';
+export { AgentIdentity, type PublishedDIDDocument } from './agent-identity';
 export { ManifestBuilder } from './manifest-builder';
-export { AuthClient, type AuthClientOptions } from './auth-client';
-export { Session } from './session';
+export {
+  AuthClient,
+  type AuthClientOptions,
+  type AuthClientEvent,
+  type AuthenticatedFetchOptions,
+  type AuthenticateOrRegisterOptions,
+  type RegistrationProgress,
+  type RetryAttempt,
+  type RetryPolicy,
+} from './auth-client';
+export { Session, type SessionJSON } from './session';
+export {
+  FileSessionStore,
+  InMemorySessionStore,
+  type SessionStore,
+} from './session-store';
+export { InMemorySigner } from './signer';
+export {
+  RemoteSigner,
+  listenSigner,
+  serveSigner,
+  type RemoteSignerOptions,
+} from './remote-signer';
+export { FileKeystore, type KeystoreEntry } from './keystore';
+export {
+  ENCRYPTED_IDENTITY_VERSION,
+  type EncryptedIdentityJSON,
+  type KeyEncryptionOptions,
+} from './encrypted-key';
+export {
+  createSigningFetch,
+  type SigningFetchOptions,
+} from './signing-fetch';
 
 // ─── Re-export Core Types ───────────────────────────────────────────────
 
@@ -23,6 +54,7 @@ export type {
   DIDMethod,
   ParsedDID,
   KeyPair,
+  Signer,
 
   // Manifest
   AgentManifest,
@@ -30,6 +62,7 @@ export type {
   ManifestMetadata,
   ManifestCapabilities,
   ManifestProof,
+  ManifestRotation,
   AgentInterface,
   APIStandard,
   OperatorInfo,
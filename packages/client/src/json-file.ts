@@ -0,0 +1,54 @@
+/**
+ * JSON files readable by their owner only, for keystores and session stores.
+ *
+ * `node:fs` is imported on use, so the SDK loads in runtimes without a
+ * file system.
+ *
+ * @packageDocumentation
+ */
+
+/**
+ * Read and parse a JSON file.
+ *
+ * @param path - File path
+ * @returns The parsed contents, or undefined if the file does not exist
+ * @throws {Error} If the file cannot be read or is not valid JSON
+ */
+export async function readJSONFile(path: string): Promise<unknown> {
+  const { readFile } = await import('node:fs/promises');
+
+  let text: string;
+  try {
+    text = await readFile(path, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+    throw error;
+  }
+  return JSON.parse(text);
+}
+
+/**
+ * Write a JSON file atomically with mode 0600, creating its directory
+ * with mode 0700 if needed.
+ *
+ * @param path - File path
+ * @param value - Value to serialize
+ */
+export async function writeJSONFile(path: string, value: unknown): Promise<void> {
+  const { mkdir, rename, rm, writeFile } = await import('node:fs/promises');
+  const { dirname } = await import('node:path');
+  const { randomBytes } = await import('node:crypto');
+
+  await mkdir(dirname(path), { recursive: true, mode: 0o700 });
+  // Unique per write, so writers sharing the path never share a temp file
+  const temporary = `${path}.${process.pid}.${randomBytes(6).toString('hex')}.tmp`;
+  try {
+    await writeFile(temporary, JSON.stringify(value, null, 2), { mode: 0o600 });
+    await rename(temporary, path);
+  } catch (error) {
+    await rm(temporary, { force: true });
+    throw error;
+  }
+}
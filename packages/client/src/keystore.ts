@@ -0,0 +1,184 @@
+/**
+ * FileKeystore — Encrypted, file-based storage for named agent identities.
+ *
+ * @packageDocumentation
+ */
+
+import { AgentIdentity } from './agent-identity';
+import {
+  parseEncryptedIdentity,
+  type EncryptedIdentityJSON,
+  type KeyEncryptionOptions,
+} from './encrypted-key';
+import { readJSONFile, writeJSONFile } from './json-file';
+
+/** Current version of the keystore file format */
+const KEYSTORE_VERSION = 1;
+
+/**
+ * Keystore file contents: encrypted identities by name.
+ */
+interface KeystoreFile {
+  version: typeof KEYSTORE_VERSION;
+  identities: Record<string, EncryptedIdentityJSON>;
+}
+
+/**
+ * An identity listed in a keystore (readable without a passphrase).
+ */
+export interface KeystoreEntry {
+  name: string;
+  did: string;
+  verificationMethod: string;
+}
+
+/**
+ * A JSON file holding several named identities, each encrypted with
+ * `AgentIdentity.toEncryptedJSON()` under its own passphrase.
+ *
+ * Requires Node.js (or another runtime with `node:fs`). The file is created
+ * with mode 0600 (owner read/write) and replaced atomically on every
+ * change. Writes from one FileKeystore are serialized; do not share a file
+ * between processes that write to it concurrently.
+ *
+ * @example
+ * ```typescript
+ * const keystore = new FileKeystore('/var/lib/agent/keystore.json');
+ *
+ * await keystore.save('search-agent', identity, passphrase);
+ * const restored = await keystore.load('search-agent', passphrase);
+ * ```
+ */
+export class FileKeystore {
+  private readonly path: string;
+  private readonly encryption?: KeyEncryptionOptions;
+  private writes: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Create a FileKeystore.
+   *
+   * @param path - Keystore file path; created on the first save
+   * @param encryption - scrypt cost parameters for saved identities
+   */
+  constructor(path: string, encryption?: KeyEncryptionOptions) {
+    this.path = path;
+    this.encryption = encryption;
+  }
+
+  /**
+   * List the identities in the keystore.
+   *
+   * @returns Names, DIDs and active verification methods
+   * @throws {Error} If the file is not a valid keystore
+   */
+  public async list(): Promise<KeystoreEntry[]> {
+    const { identities } = await this.read();
+    return Object.entries(identities).map(([name, json]) => ({
+      name,
+      did: json.did,
+      verificationMethod: json.verification_method,
+    }));
+  }
+
+  /**
+   * Check whether the keystore holds an identity.
+   *
+   * @param name - Identity name
+   * @returns true if an identity is stored under `name`
+   */
+  public async has(name: string): Promise<boolean> {
+    const { identities } = await this.read();
+    return Object.hasOwn(identities, name);
+  }
+
+  /**
+   * Encrypt and store an identity, replacing any stored under `name`.
+   *
+   * @param name - Identity name
+   * @param identity - Identity to store
+   * @param passphrase - Passphrase to encrypt it with
+   * @throws {Error} If the name or passphrase is empty
+   */
+  public async save(name: string, identity: AgentIdentity, passphrase: string): Promise<void> {
+    if (name.length === 0) {
+      throw new Error('Identity name must not be empty');
+    }
+
+    const json = await identity.toEncryptedJSON(passphrase, this.encryption);
+    await this.update((identities) => {
+      identities[name] = json;
+    });
+  }
+
+  /**
+   * Load and decrypt an identity.
+   *
+   * @param name - Identity name
+   * @param passphrase - Passphrase it was saved with
+   * @returns The identity
+   * @throws {Error} If there is no such identity or the passphrase is wrong
+   */
+  public async load(name: string, passphrase: string): Promise<AgentIdentity> {
+    const { identities } = await this.read();
+    if (!Object.hasOwn(identities, name)) {
+      throw new Error(`No identity named "${name}" in keystore`);
+    }
+    return AgentIdentity.fromEncryptedJSON(identities[name], passphrase);
+  }
+
+  /**
+   * Remove an identity.
+   *
+   * @param name - Identity name
+   * @returns true if the identity existed
+   */
+  public async delete(name: string): Promise<boolean> {
+    let existed = false;
+    await this.update((identities) => {
+      existed = Object.hasOwn(identities, name);
+      delete identities[name];
+    });
+    return existed;
+  }
+
+  /**
+   * Read the keystore file; a missing file is an empty keystore.
+   */
+  private async read(): Promise<KeystoreFile> {
+    const file = await readJSONFile(this.path) as Partial<KeystoreFile> | null | undefined;
+    if (file === undefined) {
+      return { version: KEYSTORE_VERSION, identities: {} };
+    }
+
+    if (
+      file === null ||
+      file.version !== KEYSTORE_VERSION ||
+      typeof file.identities !== 'object' ||
+      file.identities === null
+    ) {
+      throw new Error(`Invalid keystore file: ${this.path}`);
+    }
+
+    const identities: Record<string, EncryptedIdentityJSON> = Object.create(null);
+    for (const [name, json] of Object.entries(file.identities)) {
+      identities[name] = parseEncryptedIdentity(json);
+    }
+    return { version: KEYSTORE_VERSION, identities };
+  }
+
+  /**
+   * Apply a change to the identities and write the file atomically,
+   * one change at a time.
+   */
+  private update(change: (identities: Record<string, EncryptedIdentityJSON>) => void): Promise<void> {
+    const write = this.writes.then(async () => {
+      const file = await this.read();
+      change(file.identities);
+      await writeJSONFile(this.path, file);
+    });
+
+    // Keep the queue going after a failed write
+    this.writes = write.catch(() => {});
+    return write;
+  }
+}
@@ -9,7 +9,7 @@
 
 import {
   signManifest,
-  createVerificationMethod,
+  signManifestRotation,
   UnsignedManifestSchema,
   type AgentManifest,
   type UnsignedManifest,
@@ -56,6 +56,7 @@ export class ManifestBuilder {
   private revocation?: RevocationConfig;
   private metadata?: ManifestMetadata;
   private capabilities?: ManifestCapabilities;
+  private previousIdentity?: AgentIdentity;
 
   /**
    * Create a new ManifestBuilder.
@@ -66,6 +67,42 @@ export class ManifestBuilder {
     this.identity = identity;
   }
 
+  /**
+   * Start the next version of an existing manifest.
+   *
+   * Copies every field except the timestamps that change on update
+   * (`updated_at` defaults to the time of build()) and sets the sequence
+   * to `manifest.sequence + 1`. The manifest is signed by `identity`,
+   * which may hold a different key or DID than the one that signed
+   * `manifest`.
+   *
+   * @param identity - The agent identity that will sign the manifest
+   * @param manifest - The current manifest
+   * @returns A builder pre-filled from `manifest`
+   *
+   * @example
+   * ```typescript
+   * const next = identity.rotateKey();
+   * const manifest = await ManifestBuilder.fromManifest(next, current)
+   *   .setRotation(identity)
+   *   .build();
+   * ```
+   */
+  public static fromManifest(identity: AgentIdentity, manifest: AgentManifest): ManifestBuilder {
+    const builder = new ManifestBuilder(identity)
+      .setVersion(manifest.version)
+      .setSequence(manifest.sequence + 1)
+      .setCreatedAt(manifest.created_at)
+      .setValidUntil(manifest.valid_until)
+      .setMetadata(manifest.metadata)
+      .setCapabilities(manifest.capabilities);
+
+    if (manifest.revocation) {
+      builder.revocation = manifest.revocation;
+    }
+    return builder;
+  }
+
   /**
    * Set the protocol version.
    *
@@ -186,6 +223,26 @@ export class ManifestBuilder {
     return this;
   }
 
+  /**
+   * Carry a key rotation continuity proof signed by the previous identity.
+   *
+   * Servers that approved the previous key (or DID) accept the new one
+   * without re-approval when this proof verifies. For did:web, the previous
+   * key must stay in the published DID document's `verificationMethod`.
+   *
+   * @param previous - The identity being rotated from, signing with its
+   *   active key
+   * @returns This builder for chaining
+   * @throws {Error} If `previous` signs with the same key as this builder
+   */
+  public setRotation(previous: AgentIdentity): this {
+    if (previous.verificationMethod === this.identity.verificationMethod) {
+      throw new Error('Rotation requires a key other than the signing key');
+    }
+    this.previousIdentity = previous;
+    return this;
+  }
+
   /**
    * Build and sign the manifest.
    *
@@ -193,8 +250,9 @@ export class ManifestBuilder {
    * 1. Validates all required fields are present
    * 2. Applies defaults for timestamps
    * 3. Validates the unsigned manifest structure via Zod
-   * 4. Signs the manifest with the identity's private key
-   * 5. Returns the complete signed AgentManifest
+   * 4. Adds the rotation proof, if setRotation() was called
+   * 5. Signs the manifest with the identity's active key
+   * 6. Returns the complete signed AgentManifest
    *
    * @returns The signed AgentManifest
    * @throws {Error} If required fields are missing or validation fails
@@ -240,9 +298,21 @@ export class ManifestBuilder {
       throw new Error(`Manifest validation failed: ${errors}`);
     }
 
+    // Prove continuity from the previous key
+    const toSign = this.previousIdentity
+      ? await signManifestRotation(
+        unsigned,
+        this.previousIdentity.signer,
+        this.previousIdentity.verificationMethod,
+      )
+      : unsigned;
+
     // Sign the manifest
-    const verificationMethod = createVerificationMethod(this.identity.did, this.identity.parsedDID.method);
-    const signed = await signManifest(unsigned, this.identity.getPrivateKey(), verificationMethod);
+    const signed = await signManifest(
+      toSign,
+      this.identity.signer,
+      this.identity.verificationMethod,
+    );
 
     return signed;
   }
@@ -0,0 +1,419 @@
+/**
+ * RemoteSigner — Signing with a key held by another local process.
+ *
+ * The signing process answers newline-delimited JSON requests over a Unix
+ * socket or its stdin/stdout:
+ *
+ * ```text
+ * → {"id":1,"method":"describe"}
+ * ← {"id":1,"key_id":"did:web:agent.example.com#key-1","public_key":"<hex>"}
+ * → {"id":2,"method":"sign","data":"<hex>"}
+ * ← {"id":2,"signature":"<hex>"}
+ * ← {"id":3,"error":"<message>"}
+ * ```
+ *
+ * `serveSigner()` and `listenSigner()` implement the process side; a KMS or
+ * HSM bridge only needs to speak the same protocol. Requires Node.js.
+ *
+ * @packageDocumentation
+ */
+
+import type { Server } from 'node:net';
+import type { Readable, Writable } from 'node:stream';
+import { bytesToHex, hexToBytes, type Signer } from '@ai-agent-auth/core';
+
+// Longest request or response line accepted, in characters
+const MAX_LINE_LENGTH = 1024 * 1024;
+
+/**
+ * A response from the signing process.
+ */
+interface SignerResponse {
+  id: number;
+  key_id?: unknown;
+  public_key?: unknown;
+  signature?: unknown;
+  error?: unknown;
+}
+
+/**
+ * Options for `RemoteSigner.connect()` and `RemoteSigner.spawn()`.
+ */
+export interface RemoteSignerOptions {
+  /**
+   * DID URL of the key. Required if the signing process does not report
+   * one; overrides the one it reports.
+   */
+  keyId?: string;
+
+  /**
+   * Time to wait for each response, in milliseconds.
+   * Default: 10000 (10 seconds)
+   */
+  timeoutMs?: number;
+}
+
+/**
+ * A Signer whose private key is held by another process on this machine,
+ * such as a signing agent in front of a KMS or HSM.
+ *
+ * Close the signer when done; an open connection keeps Node.js running.
+ *
+ * @example
+ * ```typescript
+ * const signer = await RemoteSigner.connect('/run/agent/signer.sock');
+ * const identity = AgentIdentity.fromSigner(signer);
+ * // ... authenticate with identity ...
+ * signer.close();
+ * ```
+ */
+export class RemoteSigner implements Signer {
+  /** DID URL of the key */
+  public readonly keyId: string;
+  public readonly publicKey: Uint8Array;
+  private readonly connection: SignerConnection;
+  private readonly closeTransport: () => void;
+
+  /**
+   * Private constructor. Use `connect()` or `spawn()`.
+   */
+  private constructor(
+    keyId: string,
+    publicKey: Uint8Array,
+    connection: SignerConnection,
+    closeTransport: () => void,
+  ) {
+    this.keyId = keyId;
+    this.publicKey = publicKey;
+    this.connection = connection;
+    this.closeTransport = closeTransport;
+  }
+
+  /**
+   * Connect to a signing process listening on a Unix socket.
+   *
+   * @param path - Socket path
+   * @param options - Key id and response timeout
+   * @returns A RemoteSigner for the process's key
+   *
+   * @throws {Error} If the connection fails, or the process does not
+   *   describe its key
+   */
+  public static async connect(path: string, options: RemoteSignerOptions = {}): Promise<RemoteSigner> {
+    // Imported on use, so the SDK loads in runtimes without sockets
+    const { createConnection } = await import('node:net');
+
+    const socket = createConnection(path);
+    await new Promise<void>((resolve, reject) => {
+      socket.once('connect', resolve);
+      socket.once('error', reject);
+    });
+
+    return RemoteSigner.open(socket, socket, () => socket.destroy(), options);
+  }
+
+  /**
+   * Start a signing process and talk to it over its stdin and stdout.
+   * The process is killed when the signer is closed.
+   *
+   * @param command - Executable to run
+   * @param args - Arguments
+   * @param options - Key id and response timeout
+   * @returns A RemoteSigner for the process's key
+   *
+   * @throws {Error} If the process cannot be started, or does not describe
+   *   its key
+   *
+   * @example
+   * ```typescript
+   * const signer = await RemoteSigner.spawn('node', ['signer.js']);
+   * ```
+   */
+  public static async spawn(
+    command: string,
+    args: string[] = [],
+    options: RemoteSignerOptions = {},
+  ): Promise<RemoteSigner> {
+    const { spawn } = await import('node:child_process');
+
+    const child = spawn(command, args, { stdio: ['pipe', 'pipe', 'inherit'] });
+    await new Promise<void>((resolve, reject) => {
+      child.once('spawn', resolve);
+      child.once('error', reject);
+    });
+
+    return RemoteSigner.open(child.stdout, child.stdin, () => child.kill(), options);
+  }
+
+  /**
+   * Ask the process to describe its key and wrap the connection.
+   */
+  private static async open(
+    input: Readable,
+    output: Writable,
+    closeTransport: () => void,
+    options: RemoteSignerOptions,
+  ): Promise<RemoteSigner> {
+    const connection = new SignerConnection(input, output, options.timeoutMs ?? 10_000);
+
+    try {
+      const response = await connection.request({ method: 'describe' });
+
+      const keyId = options.keyId ?? response.key_id;
+      if (typeof keyId !== 'string' || !keyId.startsWith('did:')) {
+        throw new Error('Signer did not report a key id; pass options.keyId');
+      }
+      if (typeof response.public_key !== 'string' || !/^[0-9a-f]{64}$/.test(response.public_key)) {
+        throw new Error('Signer reported an invalid public key');
+      }
+
+      return new RemoteSigner(keyId, hexToBytes(response.public_key), connection, closeTransport);
+    } catch (error) {
+      connection.fail(new Error('Signer connection closed'));
+      closeTransport();
+      throw error;
+    }
+  }
+
+  /**
+   * Sign bytes with the remote key.
+   *
+   * @param data - Data to sign
+   * @returns 64-byte Ed25519 signature
+   *
+   * @throws {Error} If the process reports an error, does not respond in
+   *   time, or the connection is closed
+   */
+  public async sign(data: Uint8Array): Promise<Uint8Array> {
+    const { signature } = await this.connection.request({ method: 'sign', data: bytesToHex(data) });
+    if (typeof signature !== 'string' || !/^[0-9a-f]{128}$/.test(signature)) {
+      throw new Error('Signer returned an invalid signature');
+    }
+    return hexToBytes(signature);
+  }
+
+  /**
+   * Close the connection (and, for `spawn()`, stop the process).
+   * Pending and later signing requests fail.
+   */
+  public close(): void {
+    this.connection.fail(new Error('Signer connection closed'));
+    this.closeTransport();
+  }
+}
+
+/**
+ * Answer signing requests read from `input` with `signer`, writing the
+ * responses to `output`. Use it in the signing process, e.g. over
+ * `process.stdin` and `process.stdout` for `RemoteSigner.spawn()`.
+ *
+ * Every request is signed: authorize callers by controlling who can reach
+ * the streams.
+ *
+ * @param signer - Signer holding the key
+ * @param input - Stream of requests
+ * @param output - Stream for responses
+ *
+ * @example
+ * ```typescript
+ * // signer.js
+ * const signer = await InMemorySigner.fromPrivateKey(key, 'did:web:agent.example.com#key-1');
+ * serveSigner(signer, process.stdin, process.stdout);
+ * ```
+ */
+export function serveSigner(signer: Signer, input: Readable, output: Writable): void {
+  output.on('error', () => input.destroy());
+
+  readLines(input, (line) => {
+    void respond(signer, line).then((response) => {
+      if (!output.destroyed && !output.writableEnded) {
+        output.write(`${JSON.stringify(response)}\n`);
+      }
+    });
+  }, () => {});
+}
+
+/**
+ * Serve signing requests on a Unix socket. The socket is made readable
+ * and writable by its owner only; create it in a directory no other user
+ * can write to. Remove a stale socket file before listening.
+ *
+ * @param signer - Signer holding the key
+ * @param path - Socket path
+ * @returns The listening server; close it to stop serving
+ *
+ * @throws {Error} If the socket cannot be created
+ *
+ * @example
+ * ```typescript
+ * const server = await listenSigner(signer, '/run/agent/signer.sock');
+ * ```
+ */
+export async function listenSigner(signer: Signer, path: string): Promise<Server> {
+  const { createServer } = await import('node:net');
+  const { chmod } = await import('node:fs/promises');
+
+  const server = createServer((socket) => {
+    socket.on('error', () => socket.destroy());
+    serveSigner(signer, socket, socket);
+  });
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(path, resolve);
+  });
+
+  try {
+    await chmod(path, 0o600);
+  } catch (error) {
+    server.close();
+    throw error;
+  }
+  return server;
+}
+
+/**
+ * Requests in flight over one connection to a signing process.
+ */
+class SignerConnection {
+  private readonly output: Writable;
+  private readonly timeoutMs: number;
+  private readonly pending = new Map<number, {
+    resolve: (response: SignerResponse) => void;
+    reject: (error: Error) => void;
+    timer: ReturnType<typeof setTimeout>;
+  }>();
+  private nextId = 1;
+  private closed?: Error;
+
+  constructor(input: Readable, output: Writable, timeoutMs: number) {
+    this.output = output;
+    this.timeoutMs = timeoutMs;
+
+    output.on('error', (error) => this.fail(error));
+    readLines(
+      input,
+      (line) => this.receive(line),
+      (error) => this.fail(error ?? new Error('Signer connection closed')),
+    );
+  }
+
+  /**
+   * Send a request and wait for its response.
+   */
+  public request(message: { method: string; data?: string }): Promise<SignerResponse> {
+    if (this.closed) {
+      return Promise.reject(this.closed);
+    }
+
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error(`Signer did not respond within ${this.timeoutMs}ms`));
+      }, this.timeoutMs);
+
+      this.pending.set(id, { resolve, reject, timer });
+      this.output.write(`${JSON.stringify({ id, ...message })}\n`);
+    });
+  }
+
+  /**
+   * Fail all pending and later requests.
+   */
+  public fail(error: Error): void {
+    if (this.closed) {
+      return;
+    }
+
+    this.closed = error;
+    for (const { reject, timer } of this.pending.values()) {
+      clearTimeout(timer);
+      reject(error);
+    }
+    this.pending.clear();
+  }
+
+  private receive(line: string): void {
+    let response: SignerResponse;
+    try {
+      response = JSON.parse(line) as SignerResponse;
+    } catch {
+      this.fail(new Error('Invalid response from signer'));
+      return;
+    }
+
+    const request = this.pending.get(response.id);
+    if (!request) {
+      return;
+    }
+
+    clearTimeout(request.timer);
+    this.pending.delete(response.id);
+    if (response.error !== undefined) {
+      request.reject(new Error(`Signer error: ${String(response.error)}`));
+    } else {
+      request.resolve(response);
+    }
+  }
+}
+
+/**
+ * Answer one request line.
+ */
+async function respond(signer: Signer, line: string): Promise<object> {
+  let request: { id?: unknown; method?: unknown; data?: unknown };
+  try {
+    request = JSON.parse(line) as typeof request;
+  } catch {
+    return { id: null, error: 'Invalid JSON' };
+  }
+
+  const { id } = request;
+  try {
+    switch (request.method) {
+      case 'describe':
+        return { id, key_id: signer.keyId, public_key: bytesToHex(signer.publicKey) };
+      case 'sign':
+        if (typeof request.data !== 'string' || !/^([0-9a-f]{2})*$/.test(request.data)) {
+          return { id, error: 'data must be hex' };
+        }
+        return { id, signature: bytesToHex(await signer.sign(hexToBytes(request.data))) };
+      default:
+        return { id, error: `Unknown method: ${String(request.method)}` };
+    }
+  } catch (error) {
+    return { id, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Call `onLine` for each newline-terminated line of `input`, and `onEnd`
+ * when it ends or fails.
+ */
+function readLines(
+  input: Readable,
+  onLine: (line: string) => void,
+  onEnd: (error?: Error) => void,
+): void {
+  let buffered = '';
+
+  input.setEncoding('utf8');
+  input.on('data', (chunk: string) => {
+    buffered += chunk;
+
+    let newline: number;
+    while ((newline = buffered.indexOf('\n')) !== -1) {
+      const line = buffered.slice(0, newline);
+      buffered = buffered.slice(newline + 1);
+      if (line.trim().length > 0) {
+        onLine(line);
+      }
+    }
+
+    if (buffered.length > MAX_LINE_LENGTH) {
+      input.destroy(new Error('Signer message too long'));
+    }
+  });
+  input.on('error', (error) => onEnd(error));
+  input.on('close', () => onEnd());
+}
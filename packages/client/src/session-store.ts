@@ -0,0 +1,196 @@
+/**
+ * Session stores — Persistence for sessions across AuthClient instances
+ * and processes.
+ *
+ * @packageDocumentation
+ */
+
+import { readJSONFile, writeJSONFile } from './json-file';
+import type { SessionJSON } from './session';
+
+/** Current version of the session store file format */
+const SESSION_STORE_VERSION = 1;
+
+/**
+ * Session store file contents: sessions by key.
+ */
+interface SessionStoreFile {
+  version: typeof SESSION_STORE_VERSION;
+  sessions: Record<string, SessionJSON>;
+}
+
+/**
+ * Storage for sessions, consulted by `AuthClient` before authenticating.
+ *
+ * Keys identify the server URL, agent DID and audience of a session;
+ * treat them as opaque strings. Stored sessions hold bearer tokens and
+ * refresh tokens: keep them where only the agent can read them.
+ */
+export interface SessionStore {
+  /**
+   * Get a stored session.
+   *
+   * @param key - Session key
+   * @returns The session, or null if none is stored
+   */
+  get(key: string): Promise<SessionJSON | null>;
+
+  /**
+   * Store a session, replacing any stored under `key`.
+   *
+   * @param key - Session key
+   * @param session - Session to store
+   */
+  set(key: string, session: SessionJSON): Promise<void>;
+
+  /**
+   * Remove a stored session.
+   *
+   * @param key - Session key
+   */
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * In-memory session store, to share sessions between AuthClient instances
+ * in one process.
+ *
+ * @example
+ * ```typescript
+ * const sessionStore = new InMemorySessionStore();
+ * const client = new AuthClient({ serverUrl, identity, manifest, sessionStore });
+ * ```
+ */
+export class InMemorySessionStore implements SessionStore {
+  private readonly sessions = new Map<string, SessionJSON>();
+
+  public async get(key: string): Promise<SessionJSON | null> {
+    return this.sessions.get(key) ?? null;
+  }
+
+  public async set(key: string, session: SessionJSON): Promise<void> {
+    this.sessions.set(key, session);
+  }
+
+  public async delete(key: string): Promise<void> {
+    this.sessions.delete(key);
+  }
+}
+
+/**
+ * Session store in a JSON file, so short-lived processes (CLI invocations,
+ * serverless functions) reuse a session instead of authenticating on
+ * every run.
+ *
+ * Requires Node.js (or another runtime with `node:fs`). The file is created
+ * with mode 0600 (owner read/write) in a directory created with mode 0700,
+ * and replaced atomically on every change. Sessions whose token and refresh
+ * token have both expired are dropped when another is stored. The file is
+ * a cache: if it is unreadable as a session store, it is treated as empty.
+ *
+ * Processes sharing the file adopt each other's refreshed sessions, but
+ * the file is not locked: two processes refreshing the same session at
+ * the same moment both present its refresh token, and the server then
+ * treats the second use as token theft and revokes the session's refresh
+ * tokens (both processes authenticate again once their tokens expire).
+ * Give each concurrently running process its own file, or run one at a
+ * time.
+ *
+ * @example
+ * ```typescript
+ * const client = new AuthClient({
+ *   serverUrl: 'https://api.example.com',
+ *   identity,
+ *   manifest,
+ *   sessionStore: new FileSessionStore(join(homedir(), '.agent', 'sessions.json')),
+ * });
+ *
+ * const session = await client.getSession(); // reuses the stored session if fresh
+ * ```
+ */
+export class FileSessionStore implements SessionStore {
+  private readonly path: string;
+  private writes: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Create a FileSessionStore.
+   *
+   * @param path - File path; created on the first write
+   */
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  public async get(key: string): Promise<SessionJSON | null> {
+    const { sessions } = await this.read();
+    return Object.hasOwn(sessions, key) ? sessions[key] : null;
+  }
+
+  public async set(key: string, session: SessionJSON): Promise<void> {
+    await this.update((sessions) => {
+      const now = Date.now();
+      for (const [stored, data] of Object.entries(sessions)) {
+        const usableUntil = Math.max(
+          Date.parse(data.expiresAt),
+          data.refreshExpiresAt ? Date.parse(data.refreshExpiresAt) : 0,
+        );
+        if (!(usableUntil > now)) {
+          delete sessions[stored];
+        }
+      }
+      sessions[key] = session;
+    });
+  }
+
+  public async delete(key: string): Promise<void> {
+    await this.update((sessions) => {
+      delete sessions[key];
+    });
+  }
+
+  /**
+   * Read the file; a missing or invalid file is an empty store.
+   */
+  private async read(): Promise<SessionStoreFile> {
+    const sessions: Record<string, SessionJSON> = Object.create(null);
+
+    let file: Partial<SessionStoreFile> | null | undefined;
+    try {
+      file = await readJSONFile(this.path) as typeof file;
+    } catch (error) {
+      if (error instanceof SyntaxError) {
+        return { version: SESSION_STORE_VERSION, sessions };
+      }
+      throw error;
+    }
+
+    if (
+      file?.version === SESSION_STORE_VERSION &&
+      typeof file.sessions === 'object' &&
+      file.sessions !== null
+    ) {
+      for (const [key, session] of Object.entries(file.sessions)) {
+        if (typeof session?.token === 'string' && typeof session.expiresAt === 'string') {
+          sessions[key] = session;
+        }
+      }
+    }
+    return { version: SESSION_STORE_VERSION, sessions };
+  }
+
+  /**
+   * Apply a change to the sessions and write the file atomically,
+   * one change at a time.
+   */
+  private update(change: (sessions: Record<string, SessionJSON>) => void): Promise<void> {
+    const write = this.writes.then(async () => {
+      const file = await this.read();
+      change(file.sessions);
+      await writeJSONFile(this.path, file);
+    });
+
+    // Keep the queue going after a failed write
+    this.writes = write.catch(() => {});
+    return write;
+  }
+}
@@ -7,7 +7,21 @@
  * @packageDocumentation
  */
 
-import type { VerifyResponse } from '@ai-agent-auth/core';
+import type { TokenType, VerifyResponse } from '@ai-agent-auth/core';
+import type { AgentIdentity } from './agent-identity';
+
+/**
+ * Plain object form of a Session, from `toJSON()`.
+ */
+export interface SessionJSON {
+  token: string;
+  expiresAt: string; // ISO 8601
+  agent: VerifyResponse['agent'];
+  refreshToken?: string;
+  refreshExpiresAt?: string; // ISO 8601
+  audience?: string;
+  tokenType?: TokenType;
+}
 
 /**
  * Session represents an authenticated agent session.
@@ -50,6 +64,31 @@ export class Session {
    */
   public readonly agent: VerifyResponse['agent'];
 
+  /**
+   * Single-use refresh token, if the server issued one.
+   */
+  public readonly refreshToken?: string;
+
+  /**
+   * When the refresh token expires (UTC).
+   */
+  public readonly refreshExpiresAt?: Date;
+
+  /**
+   * API the token is restricted to (`aud` claim), if any.
+   */
+  public readonly audience?: string;
+
+  /**
+   * How the token is presented: `DPoP` if it is bound to the agent's key.
+   */
+  public readonly tokenType: TokenType;
+
+  /**
+   * Identity holding the key a DPoP token is bound to.
+   */
+  private readonly proofKey?: AgentIdentity;
+
   /**
    * Create a new Session instance.
    *
@@ -58,15 +97,46 @@ export class Session {
    * @param token - JWT token string
    * @param expiresAt - Token expiration date
    * @param agentInfo - Agent metadata from verification response
+   * @param refresh - Optional refresh token and its expiry
+   * @param audience - Optional token audience
+   * @param proofKey - Identity the token is bound to, for DPoP tokens
    */
   constructor(
     token: string,
     expiresAt: Date,
     agentInfo: VerifyResponse['agent'],
+    refresh?: { token: string; expiresAt: Date },
+    audience?: string,
+    proofKey?: AgentIdentity,
   ) {
     this.token = token;
     this.expiresAt = expiresAt;
     this.agent = agentInfo;
+    this.refreshToken = refresh?.token;
+    this.refreshExpiresAt = refresh?.expiresAt;
+    this.audience = audience;
+    this.tokenType = proofKey ? 'DPoP' : 'Bearer';
+    this.proofKey = proofKey;
+  }
+
+  /**
+   * Check if the session can be renewed via the refresh endpoint.
+   *
+   * @returns true if a refresh token is present and not yet expired
+   *
+   * @example
+   * ```typescript
+   * const next = session.canRefresh
+   *   ? await client.refresh(session)
+   *   : await client.authenticate();
+   * ```
+   */
+  public get canRefresh(): boolean {
+    return (
+      this.refreshToken !== undefined &&
+      this.refreshExpiresAt !== undefined &&
+      Date.now() < this.refreshExpiresAt.getTime()
+    );
   }
 
   /**
@@ -115,7 +185,10 @@ export class Session {
   /**
    * Get the value for the HTTP Authorization header.
    *
-   * @returns "Bearer {token}"
+   * Key-bound tokens also need a per-request proof; use
+   * `toRequestHeaders()` for those.
+   *
+   * @returns "Bearer {token}", or "DPoP {token}" for key-bound tokens
    *
    * @example
    * ```typescript
@@ -127,7 +200,45 @@ export class Session {
    * ```
    */
   public toAuthorizationHeader(): string {
-    return `Bearer ${this.token}`;
+    return `${this.tokenType} ${this.token}`;
+  }
+
+  /**
+   * Get the authentication headers for one HTTP request.
+   *
+   * For key-bound (DPoP) tokens a fresh proof for the method and URL is
+   * signed with the agent's key; every call yields a new proof, so call
+   * it once per request (including retries).
+   *
+   * @param method - HTTP method of the request, e.g. "GET"
+   * @param url - Full request URL
+   * @returns `Authorization` header, plus `DPoP` for key-bound tokens
+   *
+   * @example
+   * ```typescript
+   * const response = await fetch(url, {
+   *   method: 'POST',
+   *   headers: {
+   *     'Content-Type': 'application/json',
+   *     ...(await session.toRequestHeaders('POST', url)),
+   *   },
+   *   body,
+   * });
+   * ```
+   */
+  public async toRequestHeaders(
+    method: string,
+    url: string,
+  ): Promise<Record<string, string>> {
+    const headers: Record<string, string> = {
+      Authorization: this.toAuthorizationHeader(),
+    };
+
+    if (this.proofKey) {
+      headers.DPoP = await this.proofKey.createDPoPProof(method, url, this.token);
+    }
+
+    return headers;
   }
 
   /**
@@ -135,7 +246,8 @@ export class Session {
    *
    * Useful for serialization or logging (token is included, handle carefully).
    *
-   * @returns Plain object with token, expiresAt (ISO string), and agent info
+   * @returns Plain object with token, expiresAt (ISO string), agent info,
+   *   and refresh token and audience fields when present
    *
    * @example
    * ```typescript
@@ -143,23 +255,30 @@ export class Session {
    * localStorage.setItem('session', JSON.stringify(sessionData));
    * ```
    */
-  public toJSON(): {
-    token: string;
-    expiresAt: string;
-    agent: VerifyResponse['agent'];
-  } {
+  public toJSON(): SessionJSON {
     return {
       token: this.token,
       expiresAt: this.expiresAt.toISOString(),
       agent: this.agent,
+      ...(this.refreshToken && this.refreshExpiresAt && {
+        refreshToken: this.refreshToken,
+        refreshExpiresAt: this.refreshExpiresAt.toISOString(),
+      }),
+      ...(this.audience !== undefined && { audience: this.audience }),
+      ...(this.proofKey && { tokenType: this.tokenType }),
     };
   }
 
   /**
    * Restore a Session from a plain object (e.g., from localStorage).
    *
+   * The private key is never serialized, so DPoP sessions need the
+   * agent's identity again to sign proofs.
+   *
    * @param data - Plain object with token, expiresAt, and agent info
+   * @param identity - Agent identity; required for DPoP sessions
    * @returns Session instance
+   * @throws {Error} if a DPoP session is restored without an identity
    *
    * @example
    * ```typescript
@@ -171,15 +290,20 @@ export class Session {
    * }
    * ```
    */
-  public static fromJSON(data: {
-    token: string;
-    expiresAt: string;
-    agent: VerifyResponse['agent'];
-  }): Session {
+  public static fromJSON(data: SessionJSON, identity?: AgentIdentity): Session {
+    if (data.tokenType === 'DPoP' && !identity) {
+      throw new Error('A DPoP session can only be restored with its agent identity');
+    }
+
     return new Session(
       data.token,
       new Date(data.expiresAt),
       data.agent,
+      data.refreshToken && data.refreshExpiresAt
+        ? { token: data.refreshToken, expiresAt: new Date(data.refreshExpiresAt) }
+        : undefined,
+      data.audience,
+      data.tokenType === 'DPoP' ? identity : undefined,
     );
   }
 }
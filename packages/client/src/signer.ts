@@ -0,0 +1,77 @@
+/**
+ * InMemorySigner — An Ed25519 signing key held in process memory.
+ *
+ * @packageDocumentation
+ */
+
+import { signBytes, type KeyPair, type Signer } from '@ai-agent-auth/core';
+
+/**
+ * A Signer over a private key held in memory. This is what
+ * `AgentIdentity.generate()` and the other key-based factories use; use
+ * `RemoteSigner` or your own `Signer` to keep the key out of the process.
+ *
+ * @example
+ * ```typescript
+ * const signer = await InMemorySigner.fromPrivateKey(privateKey, 'did:web:agent.example.com#key-1');
+ * const identity = AgentIdentity.fromSigner(signer);
+ * ```
+ */
+export class InMemorySigner implements Signer {
+  private readonly privateKey: Uint8Array;
+  public readonly publicKey: Uint8Array;
+  /** DID URL of the key */
+  public readonly keyId: string;
+
+  /**
+   * Create a signer over a key pair.
+   *
+   * @param keyPair - Ed25519 key pair
+   * @param keyId - DID URL of the key
+   */
+  constructor(keyPair: KeyPair, keyId: string) {
+    this.privateKey = keyPair.privateKey;
+    this.publicKey = keyPair.publicKey;
+    this.keyId = keyId;
+  }
+
+  /**
+   * Create a signer over a private key, deriving its public key.
+   *
+   * @param privateKey - 32-byte Ed25519 private key
+   * @param keyId - DID URL of the key
+   * @returns An InMemorySigner
+   *
+   * @throws {Error} If the private key is not 32 bytes
+   */
+  public static async fromPrivateKey(privateKey: Uint8Array, keyId: string): Promise<InMemorySigner> {
+    if (privateKey.length !== 32) {
+      throw new Error('Private key must be exactly 32 bytes');
+    }
+
+    // Import @noble/ed25519 dynamically to avoid bundling issues
+    const ed = await import('@noble/ed25519');
+    return new InMemorySigner({ privateKey, publicKey: await ed.getPublicKey(privateKey) }, keyId);
+  }
+
+  /**
+   * Sign bytes with the private key.
+   *
+   * @param data - Data to sign
+   * @returns 64-byte Ed25519 signature
+   */
+  public async sign(data: Uint8Array): Promise<Uint8Array> {
+    return signBytes(data, this.privateKey);
+  }
+
+  /**
+   * Get the raw private key bytes.
+   *
+   * ⚠️ **WARNING**: This exposes the raw private key. Handle with care.
+   *
+   * @returns 32-byte private key
+   */
+  public exportPrivateKey(): Uint8Array {
+    return this.privateKey;
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Signing fetch — token-free requests signed with the agent's key.
+ *
+ * @packageDocumentation
+ */
+
+import {
+  AGENT_MANIFEST_HEADER,
+  encodeManifestHeader,
+  signHttpRequest,
+  type AgentManifest,
+} from '@ai-agent-auth/core';
+import type { AgentIdentity } from './agent-identity';
+
+/**
+ * Options for `createSigningFetch()`.
+ */
+export interface SigningFetchOptions {
+  /**
+   * Signed manifest sent in the `Agent-Manifest` header, so a server that
+   * has not cached it can check it. Not needed for did:web agents that
+   * publish their manifest at `/.well-known/agent-manifest.json`.
+   */
+  manifest?: AgentManifest;
+
+  /**
+   * Optional custom fetch implementation.
+   * Defaults to globalThis.fetch.
+   */
+  fetch?: typeof globalThis.fetch;
+}
+
+/**
+ * Create a `fetch` that signs every request with the agent's key.
+ *
+ * Each request gets `Content-Digest`, `Date`, `Signature-Input` and
+ * `Signature` headers (HTTP Message Signatures over method, path, query,
+ * body digest and date, with the agent's DID as `keyid`), for servers
+ * protecting routes with `signatureGuard`. No challenge round-trip or
+ * token is involved.
+ *
+ * @param identity - Agent identity to sign with
+ * @param options - Manifest to present and custom fetch
+ * @returns Function with the `fetch` signature
+ *
+ * @example
+ * ```typescript
+ * const signedFetch = createSigningFetch(identity, { manifest });
+ *
+ * const res = await signedFetch('https://api.example.com/webhooks', {
+ *   method: 'POST',
+ *   headers: { 'Content-Type': 'application/json' },
+ *   body: JSON.stringify({ event: 'done' }),
+ * });
+ * ```
+ */
+export function createSigningFetch(
+  identity: AgentIdentity,
+  options: SigningFetchOptions = {},
+): typeof globalThis.fetch {
+  const fetchFn = options.fetch ?? globalThis.fetch;
+  const manifestHeader = options.manifest
+    ? encodeManifestHeader(options.manifest)
+    : undefined;
+
+  return async (input, init) => {
+    // Normalize so every body type is serialized exactly as it will be sent
+    const request = new Request(input, init);
+    const body = new Uint8Array(await request.clone().arrayBuffer());
+
+    const signatureHeaders = await signHttpRequest(
+      { method: request.method, url: request.url, body },
+      identity.did,
+      (data) => identity.sign(data),
+    );
+
+    const headers = new Headers(request.headers);
+    for (const [name, value] of Object.entries(signatureHeaders)) {
+      headers.set(name, value);
+    }
+    if (manifestHeader) {
+      headers.set(AGENT_MANIFEST_HEADER, manifestHeader);
+    }
+
+    return fetchFn(new Request(request, { headers }));
+  };
+}
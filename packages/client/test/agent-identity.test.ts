@@ -4,7 +4,18 @@
 
 import { describe, it, expect } from 'vitest';
 import { AgentIdentity } from '../src/agent-identity';
-import { hexToBytes, bytesToHex, parseDID } from '@ai-agent-auth/core';
+import { InMemorySigner } from '../src/signer';
+import {
+  generateKeyPair,
+  hexToBytes,
+  bytesToHex,
+  parseDID,
+  publicKeyToDidJwk,
+  normalizeDIDDocument,
+  selectVerificationMethod,
+  verifySignature,
+  type Signer,
+} from '@ai-agent-auth/core';
 
 describe('AgentIdentity', () => {
   describe('generate()', () => {
@@ -117,6 +128,55 @@ describe('AgentIdentity', () => {
     });
   });
 
+  describe('fromSigner()', () => {
+    const DID = 'did:web:agent.example.com';
+
+    // A signer that does not expose its private key, as a KMS would not
+    function externalSigner(keyId: string): Signer {
+      const inner = new InMemorySigner(generateKeyPair(), keyId);
+      return { keyId, publicKey: inner.publicKey, sign: (data) => inner.sign(data) };
+    }
+
+    it('should sign through the signer', async () => {
+      const signer = externalSigner(`${DID}#key-1`);
+      const identity = AgentIdentity.fromSigner(signer);
+      const data = new TextEncoder().encode('Hello, world!');
+
+      expect(identity.did).toBe(DID);
+      expect(identity.verificationMethod).toBe(`${DID}#key-1`);
+      expect(identity.signer).toBe(signer);
+      expect(await verifySignature(await identity.sign(data), data, signer.publicKey)).toBe(true);
+    });
+
+    it('should refuse to export keys it does not hold', async () => {
+      const identity = AgentIdentity.fromSigner(externalSigner(`${DID}#key-1`));
+
+      expect(() => identity.exportPrivateKeyHex()).toThrow('held by an external signer');
+      await expect(identity.toEncryptedJSON('correct horse', { n: 2 ** 10 })).rejects.toThrow(
+        'held by an external signer',
+      );
+    });
+
+    it('should require a DID URL key id', () => {
+      expect(() => AgentIdentity.fromSigner(externalSigner(DID))).toThrow(
+        'Signer key id must be a DID URL with a fragment',
+      );
+    });
+
+    it('should rotate to a given signer', () => {
+      const identity = AgentIdentity.fromSigner(externalSigner(`${DID}#key-1`));
+      const next = externalSigner(`${DID}#kms-2`);
+
+      const rotated = identity.rotateKey(next);
+
+      expect(rotated.keyIds).toEqual([`${DID}#key-1`, `${DID}#kms-2`]);
+      expect(rotated.signer).toBe(next);
+      expect(() => identity.rotateKey(externalSigner('did:web:other.example.com#key-2')))
+        .toThrow('does not belong to');
+      expect(() => AgentIdentity.generate().rotateKey(next)).toThrow('is not a did:key key');
+    });
+  });
+
   describe('exportPrivateKeyHex()', () => {
     it('should export 64-character hex string', () => {
       const identity = AgentIdentity.generate();
@@ -162,5 +222,186 @@ describe('AgentIdentity', () => {
 
       expect(webIdentity.verificationMethod).toBe('did:web:example.com#key-1');
     });
+
+    it('should use the #0 fragment for did:jwk', async () => {
+      const identity = AgentIdentity.generate();
+      const did = publicKeyToDidJwk(identity.publicKey);
+      const jwkIdentity = await AgentIdentity.fromPrivateKey(
+        hexToBytes(identity.exportPrivateKeyHex()),
+        did
+      );
+
+      expect(jwkIdentity.verificationMethod).toBe(`${did}#0`);
+    });
+  });
+
+  describe('multiple keys', () => {
+    const DID = 'did:web:agent.example.com';
+
+    it('should restore several keys and sign with the last', async () => {
+      const first = generateKeyPair();
+      const second = generateKeyPair();
+
+      const identity = await AgentIdentity.fromKeys(DID, [
+        { id: 'key-1', privateKey: first.privateKey },
+        { id: '#key-2', privateKey: second.privateKey },
+      ]);
+
+      expect(identity.keyIds).toEqual([`${DID}#key-1`, `${DID}#key-2`]);
+      expect(identity.verificationMethod).toBe(`${DID}#key-2`);
+      expect(identity.publicKey).toEqual(second.publicKey);
+      expect(identity.getPublicKey('key-1')).toEqual(first.publicKey);
+    });
+
+    it('should switch the active key', async () => {
+      const first = generateKeyPair();
+      const identity = await AgentIdentity.fromKeys(DID, [
+        { id: 'key-1', privateKey: first.privateKey },
+        { id: 'key-2', privateKey: generateKeyPair().privateKey },
+      ]);
+
+      const switched = identity.useKey(`${DID}#key-1`);
+
+      expect(switched.verificationMethod).toBe(`${DID}#key-1`);
+      expect(switched.publicKey).toEqual(first.publicKey);
+      expect(identity.verificationMethod).toBe(`${DID}#key-2`);
+    });
+
+    it('should reject duplicate, foreign and unknown key ids', async () => {
+      const privateKey = generateKeyPair().privateKey;
+
+      await expect(
+        AgentIdentity.fromKeys(DID, [
+          { id: 'key-1', privateKey },
+          { id: `${DID}#key-1`, privateKey },
+        ]),
+      ).rejects.toThrow('Duplicate key id');
+      await expect(
+        AgentIdentity.fromKeys(DID, [{ id: 'did:web:other.example.com#key-1', privateKey }]),
+      ).rejects.toThrow('does not belong to');
+      await expect(
+        AgentIdentity.fromKeys(DID, [{ id: 'key-1', privateKey }], 'key-9'),
+      ).rejects.toThrow('is not held by this identity');
+    });
+  });
+
+  describe('rotateKey()', () => {
+    it('should add a numbered key to a did:web identity', async () => {
+      const identity = await AgentIdentity.fromPrivateKey(
+        generateKeyPair().privateKey,
+        'did:web:agent.example.com',
+      );
+
+      const rotated = identity.rotateKey();
+
+      expect(rotated.did).toBe(identity.did);
+      expect(rotated.verificationMethod).toBe('did:web:agent.example.com#key-2');
+      expect(rotated.keyIds).toEqual([
+        'did:web:agent.example.com#key-1',
+        'did:web:agent.example.com#key-2',
+      ]);
+      expect(rotated.publicKey).not.toEqual(identity.publicKey);
+    });
+
+    it('should derive a new DID for did:key and did:jwk', async () => {
+      const keyIdentity = AgentIdentity.generate();
+      const jwkIdentity = await AgentIdentity.fromPrivateKey(
+        hexToBytes(keyIdentity.exportPrivateKeyHex()),
+        publicKeyToDidJwk(keyIdentity.publicKey),
+      );
+
+      const rotatedKey = keyIdentity.rotateKey();
+      const rotatedJwk = jwkIdentity.rotateKey();
+
+      expect(rotatedKey.did).toMatch(/^did:key:z6Mk/);
+      expect(rotatedKey.did).not.toBe(keyIdentity.did);
+      expect(rotatedKey.keyIds).toHaveLength(1);
+      expect(rotatedJwk.did).toBe(publicKeyToDidJwk(rotatedJwk.publicKey));
+    });
+
+    it('should refuse to rotate a did:peer:2 identity', async () => {
+      const identity = await AgentIdentity.fromPrivateKey(
+        generateKeyPair().privateKey,
+        'did:peer:2.Vz6MkhaXgBZDvotDkL5257faiztiGiC2QtKLGpbnnEGta2doK',
+      );
+
+      expect(() => identity.rotateKey()).toThrow('cannot rotate');
+    });
+  });
+
+  describe('toDIDDocument()', () => {
+    it('should list every key and authorize the active one', async () => {
+      const identity = (
+        await AgentIdentity.fromPrivateKey(
+          generateKeyPair().privateKey,
+          'did:web:agent.example.com',
+        )
+      ).rotateKey();
+
+      const document = normalizeDIDDocument(identity.toDIDDocument(), identity.did);
+
+      expect(document.verificationMethod.map((vm) => vm.id)).toEqual(identity.keyIds);
+      expect(document.assertionMethod).toEqual(['did:web:agent.example.com#key-2']);
+      expect(selectVerificationMethod(document).publicKeyMultibase).toBeDefined();
+    });
+
+    it('should refuse to build documents derived from the DID', () => {
+      expect(() => AgentIdentity.generate().toDIDDocument()).toThrow(
+        'did:key documents are derived from the DID',
+      );
+    });
+  });
+
+  describe('toEncryptedJSON()', () => {
+    const FAST = { n: 2 ** 10 };
+
+    it('should round-trip every key and the active key', async () => {
+      const identity = (
+        await AgentIdentity.fromPrivateKey(
+          generateKeyPair().privateKey,
+          'did:web:agent.example.com',
+        )
+      ).rotateKey();
+
+      const json = await identity.toEncryptedJSON('correct horse', FAST);
+      const restored = await AgentIdentity.fromEncryptedJSON(JSON.stringify(json), 'correct horse');
+
+      expect(json).toMatchObject({
+        version: 1,
+        did: identity.did,
+        verification_method: 'did:web:agent.example.com#key-2',
+        crypto: { kdf: 'scrypt', cipher: 'aes-256-gcm' },
+      });
+      expect(JSON.stringify(json)).not.toContain(identity.exportPrivateKeyHex());
+      expect(restored.keyIds).toEqual(identity.keyIds);
+      expect(restored.verificationMethod).toBe(identity.verificationMethod);
+      expect(restored.exportPrivateKeyHex()).toBe(identity.exportPrivateKeyHex());
+    });
+
+    it('should reject a wrong passphrase', async () => {
+      const json = await AgentIdentity.generate().toEncryptedJSON('correct horse', FAST);
+
+      await expect(AgentIdentity.fromEncryptedJSON(json, 'battery staple')).rejects.toThrow(
+        'wrong passphrase or corrupted data',
+      );
+    });
+
+    it('should detect a swapped DID', async () => {
+      const json = await AgentIdentity.generate().toEncryptedJSON('correct horse', FAST);
+      const other = AgentIdentity.generate();
+
+      await expect(
+        AgentIdentity.fromEncryptedJSON(
+          { ...json, did: other.did, verification_method: other.verificationMethod },
+          'correct horse',
+        ),
+      ).rejects.toThrow('wrong passphrase or corrupted data');
+    });
+
+    it('should reject an empty passphrase', async () => {
+      await expect(AgentIdentity.generate().toEncryptedJSON('', FAST)).rejects.toThrow(
+        'Passphrase must not be empty',
+      );
+    });
   });
 });
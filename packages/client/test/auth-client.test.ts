@@ -3,7 +3,14 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { AuthClient } from '../src/auth-client';
+import {
+  AuthClient,
+  type AuthClientEvent,
+  type AuthClientOptions,
+  type RegistrationProgress,
+  type RetryAttempt,
+} from '../src/auth-client';
+import { InMemorySessionStore } from '../src/session-store';
 import { AgentIdentity } from '../src/agent-identity';
 import { ManifestBuilder } from '../src/manifest-builder';
 import { AuthError, AuthErrorCode } from '@ai-agent-auth/core';
@@ -110,6 +117,34 @@ describe('AuthClient', () => {
       expect(result.expires_at).toBe(challengeResponse.expires_at);
     });
 
+    it('should name the previous DID after rotating to a new DID', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({
+          challenge: 'a'.repeat(64),
+          expires_at: new Date(Date.now() + 300_000).toISOString(),
+        }),
+      });
+
+      const rotated = identity.rotateKey();
+      const client = new AuthClient({
+        serverUrl: 'https://api.example.com',
+        identity: rotated,
+        manifest: await ManifestBuilder.fromManifest(rotated, manifest)
+          .setRotation(identity)
+          .build(),
+        fetch: mockFetch,
+      });
+
+      await client.requestChallenge();
+
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body)).toEqual({
+        did: rotated.did,
+        previous_did: identity.did,
+      });
+    });
+
     it('should handle 202 pending approval', async () => {
       mockFetch.mockResolvedValueOnce({
         ok: false,
@@ -183,7 +218,10 @@ describe('AuthClient', () => {
         timeoutMs: 100,
       });
 
-      await expect(client.requestChallenge()).rejects.toThrow('timeout');
+      await expect(client.requestChallenge()).rejects.toMatchObject({
+        code: AuthErrorCode.AUTH_TIMEOUT,
+        message: 'Request timeout after 100ms',
+      });
     }, { timeout: 5000 });
   });
 
@@ -230,6 +268,75 @@ describe('AuthClient', () => {
       expect(result.agent.did).toBe(identity.did);
     });
 
+    it('should send the requested and required scopes when configured', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({
+          token: 'eyJhbGciOiJFZERTQSJ9.test.sig',
+          expires_at: new Date(Date.now() + 3600_000).toISOString(),
+          granted_scopes: ['files:read'],
+          denied_scopes: ['admin'],
+          agent: {
+            did: identity.did,
+            name: 'TestAgent',
+            capabilities: ['files:read'],
+          },
+        }),
+      });
+
+      const client = new AuthClient({
+        serverUrl: 'https://api.example.com',
+        identity,
+        manifest,
+        fetch: mockFetch,
+        scope: 'files:read admin',
+        requiredScope: 'files:read',
+      });
+
+      const result = await client.submitVerification(
+        'a'.repeat(64),
+        'z' + 'A'.repeat(86),
+        new Date().toISOString(),
+      );
+
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body.scope).toBe('files:read admin');
+      expect(body.required_scope).toBe('files:read');
+      expect(result.granted_scopes).toEqual(['files:read']);
+      expect(result.denied_scopes).toEqual(['admin']);
+    });
+
+    it('should request a DPoP-bound token when configured', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({
+          token: 'eyJhbGciOiJFZERTQSJ9.test.sig',
+          expires_at: new Date(Date.now() + 3600_000).toISOString(),
+          token_type: 'DPoP',
+          agent: { did: identity.did, name: 'TestAgent', capabilities: [] },
+        }),
+      });
+
+      const client = new AuthClient({
+        serverUrl: 'https://api.example.com',
+        identity,
+        manifest,
+        fetch: mockFetch,
+        dpop: true,
+      });
+
+      const result = await client.submitVerification(
+        'a'.repeat(64),
+        'z' + 'A'.repeat(86),
+        new Date().toISOString(),
+      );
+
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body).token_type).toBe('DPoP');
+      expect(result.token_type).toBe('DPoP');
+    });
+
     it('should handle invalid signature error', async () => {
       mockFetch.mockResolvedValueOnce({
         ok: false,
@@ -360,6 +467,776 @@ describe('AuthClient', () => {
       expect(session.agent.did).toBe(identity.did);
       expect(session.isExpired).toBe(false);
     });
+
+    it('should produce DPoP request headers for key-bound tokens', async () => {
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          json: async () => ({
+            challenge: 'a'.repeat(64),
+            expires_at: new Date(Date.now() + 300_000).toISOString(),
+          }),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          json: async () => ({
+            token: 'eyJhbGciOiJFZERTQSJ9.test.sig',
+            expires_at: new Date(Date.now() + 3600_000).toISOString(),
+            token_type: 'DPoP',
+            agent: { did: identity.did, name: 'TestAgent', capabilities: [] },
+          }),
+        });
+
+      const client = new AuthClient({
+        serverUrl: 'https://api.example.com',
+        identity,
+        manifest,
+        fetch: mockFetch,
+        dpop: true,
+      });
+
+      const session = await client.authenticate();
+      const headers = await session.toRequestHeaders('GET', 'https://api.example.com/files');
+
+      expect(session.tokenType).toBe('DPoP');
+      expect(headers.Authorization).toBe('DPoP eyJhbGciOiJFZERTQSJ9.test.sig');
+      expect(headers.DPoP.split('.')).toHaveLength(3);
+    });
+  });
+
+  describe('refresh()', () => {
+    const verifyResponse = (token: string, refreshToken?: string) => ({
+      ok: true,
+      status: 200,
+      json: async () => ({
+        token,
+        expires_at: new Date(Date.now() + 3600_000).toISOString(),
+        ...(refreshToken && {
+          refresh_token: refreshToken,
+          refresh_expires_at: new Date(Date.now() + 86400_000).toISOString(),
+        }),
+        agent: { did: identity.did, name: 'TestAgent', capabilities: ['read'] },
+      }),
+    });
+
+    it('should exchange the refresh token for a rotated session', async () => {
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          json: async () => ({
+            challenge: 'a'.repeat(64),
+            expires_at: new Date(Date.now() + 300_000).toISOString(),
+          }),
+        })
+        .mockResolvedValueOnce(verifyResponse('jwt-1', 'refresh-1'))
+        .mockResolvedValueOnce(verifyResponse('jwt-2', 'refresh-2'));
+
+      const client = new AuthClient({
+        serverUrl: 'https://api.example.com',
+        identity,
+        manifest,
+        fetch: mockFetch,
+      });
+
+      const first = await client.authenticate();
+      expect(first.refreshToken).toBe('refresh-1');
+
+      const second = await client.refresh();
+
+      expect(mockFetch).toHaveBeenLastCalledWith(
+        'https://api.example.com/auth/refresh',
+        expect.objectContaining({
+          method: 'POST',
+          body: JSON.stringify({ refresh_token: 'refresh-1' }),
+        })
+      );
+      expect(second.token).toBe('jwt-2');
+      expect(second.refreshToken).toBe('refresh-2');
+    });
+
+    it('should reject sessions without a refresh token', async () => {
+      const client = new AuthClient({
+        serverUrl: 'https://api.example.com',
+        identity,
+        manifest,
+        fetch: mockFetch,
+      });
+
+      await expect(client.refresh()).rejects.toThrow('no refresh token');
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getSession()', () => {
+    const challenge = () => ({
+      ok: true,
+      status: 200,
+      json: async () => ({
+        challenge: 'a'.repeat(64),
+        expires_at: new Date(Date.now() + 300_000).toISOString(),
+      }),
+    });
+    const verify = (token: string, lifetimeMs: number, refreshToken?: string) => ({
+      ok: true,
+      status: 200,
+      json: async () => ({
+        token,
+        expires_at: new Date(Date.now() + lifetimeMs).toISOString(),
+        ...(refreshToken && {
+          refresh_token: refreshToken,
+          refresh_expires_at: new Date(Date.now() + 86400_000).toISOString(),
+        }),
+        agent: { did: identity.did, name: 'TestAgent', capabilities: ['read'] },
+      }),
+    });
+
+    it('should reuse a fresh session', async () => {
+      mockFetch
+        .mockResolvedValueOnce(challenge())
+        .mockResolvedValueOnce(verify('jwt-1', 3600_000));
+
+      const client = new AuthClient({
+        serverUrl: 'https://api.example.com',
+        identity,
+        manifest,
+        fetch: mockFetch,
+      });
+
+      const first = await client.getSession();
+      const second = await client.getSession();
+
+      expect(second).toBe(first);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should refresh a session that is about to expire', async () => {
+      mockFetch
+        .mockResolvedValueOnce(challenge())
+        .mockResolvedValueOnce(verify('jwt-1', 30_000, 'refresh-1'))
+        .mockResolvedValueOnce(verify('jwt-2', 3600_000, 'refresh-2'));
+
+      const client = new AuthClient({
+        serverUrl: 'https://api.example.com',
+        identity,
+        manifest,
+        fetch: mockFetch,
+      });
+
+      await client.getSession();
+      const renewed = await client.getSession(60);
+
+      expect(renewed.token).toBe('jwt-2');
+      expect(mockFetch.mock.calls[2][0]).toBe('https://api.example.com/auth/refresh');
+    });
+
+    it('should fall back to a full handshake when refresh is rejected', async () => {
+      mockFetch
+        .mockResolvedValueOnce(challenge())
+        .mockResolvedValueOnce(verify('jwt-1', 30_000, 'refresh-1'))
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 401,
+          json: async () => ({
+            error: { code: 'AUTH_INVALID_TOKEN', message: 'reuse detected' },
+          }),
+        })
+        .mockResolvedValueOnce(challenge())
+        .mockResolvedValueOnce(verify('jwt-3', 3600_000));
+
+      const client = new AuthClient({
+        serverUrl: 'https://api.example.com',
+        identity,
+        manifest,
+        fetch: mockFetch,
+      });
+
+      await client.getSession();
+      const renewed = await client.getSession(60);
+
+      expect(renewed.token).toBe('jwt-3');
+      expect(mockFetch).toHaveBeenCalledTimes(5);
+    });
+
+    describe('with a shared session store', () => {
+      const storeKey = () => JSON.stringify(['https://api.example.com', identity.did, '']);
+      let sessionStore: InMemorySessionStore;
+
+      beforeEach(() => {
+        sessionStore = new InMemorySessionStore();
+      });
+
+      function createStoringClient(): AuthClient {
+        return new AuthClient({
+          serverUrl: 'https://api.example.com',
+          identity,
+          manifest,
+          fetch: mockFetch,
+          sessionStore,
+        });
+      }
+
+      it('should adopt a session another client refreshed', async () => {
+        mockFetch
+          .mockResolvedValueOnce(challenge())
+          .mockResolvedValueOnce(verify('jwt-1', 30_000, 'refresh-1'))
+          .mockResolvedValueOnce(verify('jwt-2', 3600_000, 'refresh-2'));
+        const first = createStoringClient();
+        const second = createStoringClient();
+
+        await first.getSession(0);
+        expect((await second.getSession(60)).token).toBe('jwt-2');
+        const adopted = await first.getSession(60);
+
+        expect(adopted.token).toBe('jwt-2');
+        expect(mockFetch).toHaveBeenCalledTimes(3);
+      });
+
+      it('should adopt a session stored while its refresh was rejected', async () => {
+        mockFetch
+          .mockResolvedValueOnce(challenge())
+          .mockResolvedValueOnce(verify('jwt-1', 30_000, 'refresh-1'))
+          .mockImplementationOnce(async () => {
+            // Another client used the refresh token first
+            await sessionStore.set(storeKey(), {
+              token: 'jwt-2',
+              expiresAt: new Date(Date.now() + 3600_000).toISOString(),
+              agent: { did: identity.did, name: 'TestAgent', capabilities: ['read'] },
+            });
+            return {
+              ok: false,
+              status: 401,
+              json: async () => ({
+                error: { code: 'AUTH_INVALID_TOKEN', message: 'reuse detected' },
+              }),
+            };
+          });
+        const client = createStoringClient();
+
+        await client.getSession(0);
+        const renewed = await client.getSession(60);
+
+        expect(renewed.token).toBe('jwt-2');
+        expect(mockFetch).toHaveBeenCalledTimes(3);
+      });
+    });
+
+    it('should keep a separate session per audience', async () => {
+      const verifyFor = (token: string, audience?: string) => {
+        const response = verify(token, 3600_000);
+        return {
+          ...response,
+          json: async () => ({
+            ...(await response.json()),
+            ...(audience && { audience }),
+          }),
+        };
+      };
+
+      mockFetch
+        .mockResolvedValueOnce(challenge())
+        .mockResolvedValueOnce(verifyFor('jwt-default'))
+        .mockResolvedValueOnce(challenge())
+        .mockResolvedValueOnce(verifyFor('jwt-files', 'https://files.example.com'));
+
+      const client = new AuthClient({
+        serverUrl: 'https://api.example.com',
+        identity,
+        manifest,
+        fetch: mockFetch,
+      });
+
+      const fallback = await client.getSession();
+      const files = await client.getSession(60, 'https://files.example.com');
+
+      expect(fallback.token).toBe('jwt-default');
+      expect(files.token).toBe('jwt-files');
+      expect(files.audience).toBe('https://files.example.com');
+      expect(JSON.parse(mockFetch.mock.calls[3][1].body).audience).toBe(
+        'https://files.example.com',
+      );
+
+      expect(await client.getSession()).toBe(fallback);
+      expect(await client.getSession(60, 'https://files.example.com')).toBe(files);
+      expect(mockFetch).toHaveBeenCalledTimes(4);
+    });
+  });
+
+  describe('discover()', () => {
+    let configuration: Record<string, unknown>;
+    let serverFetch: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+      configuration = {
+        issuer: 'https://api.example.com',
+        challenge_endpoint: 'https://api.example.com/agents/auth/challenge',
+        verify_endpoint: 'https://api.example.com/agents/auth/verify',
+        registration_endpoint: 'https://api.example.com/agents/auth/register',
+        did_methods_supported: ['key', 'web'],
+        signing_algorithms_supported: ['EdDSA'],
+        token_signing_algorithm: 'EdDSA',
+        token_types_supported: ['Bearer', 'DPoP'],
+        token_lifetime_seconds: 3600,
+        challenge_lifetime_seconds: 300,
+        registration_enabled: true,
+      };
+
+      serverFetch = vi.fn(async (input: string | URL | Request) => {
+        const url = String(input);
+        if (url.endsWith('/.well-known/agent-auth-configuration')) {
+          return Response.json(configuration);
+        }
+        if (url.endsWith('/challenge')) {
+          return Response.json({
+            challenge: 'a'.repeat(64),
+            expires_at: new Date(Date.now() + 300_000).toISOString(),
+          });
+        }
+        return Response.json({
+          token: 'jwt-1',
+          expires_at: new Date(Date.now() + 3600_000).toISOString(),
+          agent: { did: identity.did, name: 'TestAgent', capabilities: ['read'] },
+        });
+      });
+    });
+
+    function discover(options: Partial<AuthClientOptions> = {}): Promise<AuthClient> {
+      return AuthClient.discover('https://api.example.com/', {
+        identity,
+        manifest,
+        fetch: serverFetch as typeof globalThis.fetch,
+        ...options,
+      });
+    }
+
+    it('should authenticate at the discovered endpoints', async () => {
+      const client = await discover();
+      await client.authenticate();
+
+      expect(serverFetch.mock.calls.map(([url]) => url)).toEqual([
+        'https://api.example.com/.well-known/agent-auth-configuration',
+        'https://api.example.com/agents/auth/challenge',
+        'https://api.example.com/agents/auth/verify',
+      ]);
+      expect(client.configuration?.registration_enabled).toBe(true);
+    });
+
+    it('should request DPoP tokens from a server that requires them', async () => {
+      configuration.token_types_supported = ['DPoP'];
+
+      await (await discover()).authenticate();
+
+      const [, init] = serverFetch.mock.calls[2];
+      expect(JSON.parse(init.body).token_type).toBe('DPoP');
+    });
+
+    it('should reject a server that does not issue DPoP tokens when they are requested', async () => {
+      configuration.token_types_supported = ['Bearer'];
+
+      await expect(discover({ dpop: true })).rejects.toMatchObject({
+        code: AuthErrorCode.AUTH_PROTOCOL_MISMATCH,
+        message: 'Server does not issue DPoP tokens',
+      });
+    });
+
+    it('should reject a server that does not support the DID method', async () => {
+      configuration.did_methods_supported = ['web'];
+
+      await expect(discover()).rejects.toMatchObject({
+        code: AuthErrorCode.AUTH_UNSUPPORTED_DID_METHOD,
+        message: 'Server does not support did:key',
+      });
+    });
+
+    it('should reject endpoints on another origin', async () => {
+      configuration.challenge_endpoint = 'https://evil.example.com/auth/challenge';
+      configuration.verify_endpoint = 'https://evil.example.com/auth/verify';
+      configuration.registration_endpoint = undefined;
+
+      await expect(discover()).rejects.toMatchObject({
+        code: AuthErrorCode.AUTH_PROTOCOL_MISMATCH,
+        message: 'Discovery document lists endpoints on another origin: https://evil.example.com/auth',
+      });
+    });
+
+    it('should reject endpoints that do not share a base', async () => {
+      configuration.verify_endpoint = 'https://api.example.com/verify';
+
+      await expect(discover()).rejects.toMatchObject({
+        code: AuthErrorCode.AUTH_PROTOCOL_MISMATCH,
+        message: 'Unsupported verify endpoint: https://api.example.com/verify',
+      });
+    });
+
+    it('should reject a server without a discovery document', async () => {
+      serverFetch.mockResolvedValueOnce(new Response('Cannot GET', { status: 404 }));
+
+      await expect(discover()).rejects.toMatchObject({
+        code: AuthErrorCode.AUTH_PROTOCOL_MISMATCH,
+      });
+
+      serverFetch.mockResolvedValueOnce(Response.json({ issuer: 'https://api.example.com' }));
+
+      await expect(discover()).rejects.toMatchObject({
+        code: AuthErrorCode.AUTH_PROTOCOL_MISMATCH,
+        message: 'Invalid discovery document format',
+      });
+    });
+  });
+
+  describe('authenticateOrRegister()', () => {
+    let status: 'unknown' | 'pending_approval' | 'approved' | 'rejected';
+    let approveAfterChecks: number;
+    let retryAfter: number;
+    let serverFetch: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+      status = 'unknown';
+      approveAfterChecks = Infinity;
+      retryAfter = 0;
+
+      // A server whose operator approves the DID after a number of checks
+      let checks = 0;
+      serverFetch = vi.fn(async (input: string | URL | Request, init?: RequestInit) => {
+        const url = String(input);
+        if (url.endsWith('/auth/register')) {
+          status = status === 'unknown' ? 'pending_approval' : status;
+          return Response.json(
+            { did: identity.did, status, message: 'Registration received', retry_after: retryAfter },
+            { status: 201 },
+          );
+        }
+        if (url.endsWith('/auth/challenge')) {
+          if (status === 'pending_approval' && ++checks > approveAfterChecks) {
+            status = 'approved';
+          }
+          switch (status) {
+            case 'unknown':
+              return Response.json(
+                { error: { code: 'AUTH_DID_NOT_FOUND', message: 'DID not registered' } },
+                { status: 403 },
+              );
+            case 'pending_approval':
+              return Response.json(
+                { status, message: 'DID registration is pending approval', retry_after: retryAfter },
+                { status: 202 },
+              );
+            case 'rejected':
+              return Response.json(
+                { error: { code: 'AUTH_DID_REJECTED', message: 'DID registration was rejected' } },
+                { status: 403 },
+              );
+          }
+          return Response.json({
+            challenge: 'a'.repeat(64),
+            expires_at: new Date(Date.now() + 300_000).toISOString(),
+          });
+        }
+        expect(JSON.parse(String(init?.body)).did).toBe(identity.did);
+        return Response.json({
+          token: 'jwt-1',
+          expires_at: new Date(Date.now() + 3600_000).toISOString(),
+          agent: { did: identity.did, name: 'TestAgent', capabilities: ['read'] },
+        });
+      });
+    });
+
+    function createClient(): AuthClient {
+      return new AuthClient({
+        serverUrl: 'https://api.example.com',
+        identity,
+        manifest,
+        fetch: serverFetch as typeof globalThis.fetch,
+      });
+    }
+
+    it('should authenticate an approved agent without registering', async () => {
+      status = 'approved';
+
+      const session = await createClient().authenticateOrRegister({ reason: 'Reports' });
+
+      expect(session.token).toBe('jwt-1');
+      expect(serverFetch.mock.calls.map(([url]) => url)).not.toContain(
+        'https://api.example.com/auth/register',
+      );
+    });
+
+    it('should register an unknown agent and report that approval is pending', async () => {
+      const progress: RegistrationProgress[] = [];
+
+      await expect(
+        createClient().authenticateOrRegister({
+          reason: 'Reports',
+          onProgress: (p) => progress.push(p),
+        }),
+      ).rejects.toMatchObject({ code: AuthErrorCode.AUTH_DID_PENDING });
+
+      const registration = serverFetch.mock.calls.find(([url]) => String(url).endsWith('/auth/register'));
+      expect(JSON.parse(registration?.[1].body).reason).toBe('Reports');
+      expect(progress).toEqual([
+        { type: 'registered', response: expect.objectContaining({ status: 'pending_approval' }) },
+      ]);
+    });
+
+    it('should wait for approval with backoff', async () => {
+      approveAfterChecks = 2;
+      const progress: RegistrationProgress[] = [];
+
+      const session = await createClient().authenticateOrRegister({
+        waitForApproval: true,
+        pollIntervalMs: 1,
+        onProgress: (p) => progress.push(p),
+      });
+
+      expect(session.token).toBe('jwt-1');
+      expect(progress.map((p) => p.type)).toEqual(['registered', 'waiting', 'waiting', 'waiting']);
+      const delays = progress.flatMap((p) => (p.type === 'waiting' ? [p.delayMs] : []));
+      expect(delays[0]).toBeGreaterThanOrEqual(1);
+      expect(delays[2]).toBeGreaterThanOrEqual(4);
+    });
+
+    it('should wait at least retry_after, and stop when aborted', async () => {
+      retryAfter = 5;
+      const controller = new AbortController();
+      const progress: RegistrationProgress[] = [];
+
+      await expect(
+        createClient().authenticateOrRegister({
+          waitForApproval: true,
+          pollIntervalMs: 1,
+          signal: controller.signal,
+          onProgress: (p) => {
+            progress.push(p);
+            if (p.type === 'waiting') {
+              controller.abort(new Error('Shutting down'));
+            }
+          },
+        }),
+      ).rejects.toThrow('Shutting down');
+
+      const waiting = progress[1];
+      expect(waiting.type === 'waiting' && waiting.delayMs).toBeGreaterThanOrEqual(5000);
+      expect(waiting.type === 'waiting' && waiting.delayMs).toBeLessThanOrEqual(5500);
+    });
+
+    it('should give up at the deadline', async () => {
+      await expect(
+        createClient().authenticateOrRegister({
+          waitForApproval: true,
+          pollIntervalMs: 10,
+          deadline: new Date(Date.now() + 50),
+        }),
+      ).rejects.toMatchObject({
+        code: AuthErrorCode.AUTH_DID_PENDING,
+        message: 'Registration was still pending approval at the deadline',
+      });
+    });
+
+    it('should stop when the registration is rejected', async () => {
+      status = 'rejected';
+
+      await expect(
+        createClient().authenticateOrRegister({ waitForApproval: true, pollIntervalMs: 1 }),
+      ).rejects.toMatchObject({ code: AuthErrorCode.AUTH_DID_REJECTED });
+    });
+  });
+
+  describe('createFetch()', () => {
+    const API = 'https://api.example.com/files';
+    let issued: number;
+    let lifetimeMs: number;
+    let rejectedTokens: Set<string>;
+    let serverFetch: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+      issued = 0;
+      lifetimeMs = 3600_000;
+      rejectedTokens = new Set();
+
+      // Auth endpoints plus an API that echoes the credentials it received
+      serverFetch = vi.fn(async (input: string | URL | Request) => {
+        const url = input instanceof Request ? input.url : String(input);
+        if (url.endsWith('/auth/challenge')) {
+          return Response.json({
+            challenge: 'a'.repeat(64),
+            expires_at: new Date(Date.now() + 300_000).toISOString(),
+          });
+        }
+        if (url.endsWith('/auth/verify')) {
+          issued += 1;
+          return Response.json({
+            token: `jwt-${issued}`,
+            expires_at: new Date(Date.now() + lifetimeMs).toISOString(),
+            agent: { did: identity.did, name: 'TestAgent', capabilities: ['read'] },
+          });
+        }
+
+        const request = input as Request;
+        const token = request.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+        if (rejectedTokens.has(token) || rejectedTokens.has('*')) {
+          return Response.json(
+            { error: { code: 'AUTH_INVALID_TOKEN', message: 'Token has been revoked' } },
+            { status: 401 },
+          );
+        }
+        return Response.json({ token, body: await request.text() });
+      });
+    });
+
+    function verifyCalls(): number {
+      return serverFetch.mock.calls.filter(([url]) => String(url).endsWith('/auth/verify')).length;
+    }
+
+    function createClient(onEvent?: AuthClientOptions['onEvent']): AuthClient {
+      return new AuthClient({
+        serverUrl: 'https://api.example.com',
+        identity,
+        manifest,
+        fetch: serverFetch as typeof globalThis.fetch,
+        onEvent,
+      });
+    }
+
+    it('should authenticate once and send the token with every request', async () => {
+      const authedFetch = createClient().createFetch();
+
+      const first = await (await authedFetch(API)).json();
+      const second = await (await authedFetch(API, { headers: { Accept: 'application/json' } })).json();
+
+      expect(first.token).toBe('jwt-1');
+      expect(second.token).toBe('jwt-1');
+      expect(verifyCalls()).toBe(1);
+    });
+
+    it('should renew a session before it expires', async () => {
+      lifetimeMs = 30_000;
+      const authedFetch = createClient().createFetch({ renewBeforeSeconds: 60 });
+
+      await authedFetch(API);
+      const response = await (await authedFetch(API)).json();
+
+      expect(response.token).toBe('jwt-2');
+      expect(verifyCalls()).toBe(2);
+    });
+
+    it('should share one renewal between concurrent requests', async () => {
+      const authedFetch = createClient().createFetch();
+
+      const responses = await Promise.all([authedFetch(API), authedFetch(API), authedFetch(API)]);
+
+      expect(responses.map((r) => r.status)).toEqual([200, 200, 200]);
+      expect(verifyCalls()).toBe(1);
+    });
+
+    it('should re-authenticate and retry once when the token is rejected', async () => {
+      const events: AuthClientEvent[] = [];
+      const authedFetch = createClient((event) => events.push(event)).createFetch();
+      await authedFetch(API);
+      rejectedTokens.add('jwt-1');
+
+      const response = await authedFetch(API, { method: 'POST', body: 'payload' });
+
+      expect(await response.json()).toEqual({ token: 'jwt-2', body: 'payload' });
+      expect(events.map((e) => e.type)).toEqual(['authenticated', 'token_rejected', 'authenticated']);
+    });
+
+    it('should return the second rejection without retrying again', async () => {
+      const authedFetch = createClient().createFetch();
+      rejectedTokens.add('*');
+
+      const response = await authedFetch(API);
+
+      expect(response.status).toBe(401);
+      expect(verifyCalls()).toBe(2);
+    });
+
+    it('should not retry other 401 errors', async () => {
+      const authedFetch = createClient().createFetch({
+        fetch: async () => Response.json(
+          { error: { code: 'AUTH_INSUFFICIENT_SCOPE', message: 'Missing scope' } },
+          { status: 401 },
+        ),
+      });
+
+      const response = await authedFetch(API);
+
+      expect(response.status).toBe(401);
+      expect(verifyCalls()).toBe(1);
+    });
+
+    it('should report failed renewals', async () => {
+      const events: AuthClientEvent[] = [];
+      const client = createClient((event) => events.push(event));
+      serverFetch.mockResolvedValueOnce(Response.json(
+        { error: { code: 'AUTH_DID_BANNED', message: 'DID is banned' } },
+        { status: 403 },
+      ));
+
+      await expect(client.createFetch()(API)).rejects.toMatchObject({
+        code: AuthErrorCode.AUTH_DID_BANNED,
+      });
+      expect(events).toEqual([
+        { type: 'renewal_failed', audience: undefined, error: expect.any(AuthError) },
+      ]);
+    });
+
+    describe('with a session store', () => {
+      let sessionStore: InMemorySessionStore;
+
+      beforeEach(() => {
+        sessionStore = new InMemorySessionStore();
+      });
+
+      function createStoringClient(clientIdentity = identity): AuthClient {
+        return new AuthClient({
+          serverUrl: 'https://api.example.com',
+          identity: clientIdentity,
+          manifest,
+          fetch: serverFetch as typeof globalThis.fetch,
+          sessionStore,
+        });
+      }
+
+      it('should reuse a stored session instead of authenticating', async () => {
+        await createStoringClient().createFetch()(API);
+
+        const response = await createStoringClient().createFetch()(API);
+
+        expect((await response.json()).token).toBe('jwt-1');
+        expect(verifyCalls()).toBe(1);
+      });
+
+      it('should store sessions per DID and audience', async () => {
+        await createStoringClient().getSession();
+        await createStoringClient().getSession(60, 'https://files.example.com');
+        await createStoringClient(AgentIdentity.generate()).getSession();
+
+        expect(verifyCalls()).toBe(3);
+      });
+
+      it('should not reuse a stored session that is about to expire', async () => {
+        lifetimeMs = 30_000;
+        await createStoringClient().getSession();
+
+        const session = await createStoringClient().getSession(60);
+
+        expect(session.token).toBe('jwt-2');
+      });
+
+      it('should replace a stored session whose token is rejected', async () => {
+        await createStoringClient().getSession();
+        rejectedTokens.add('jwt-1');
+
+        await createStoringClient().createFetch()(API);
+
+        const stored = await sessionStore.get(
+          JSON.stringify(['https://api.example.com', identity.did, '']),
+        );
+        expect(stored?.token).toBe('jwt-2');
+      });
+    });
   });
 
   describe('error handling', () => {
@@ -373,7 +1250,10 @@ describe('AuthClient', () => {
         fetch: mockFetch,
       });
 
-      await expect(client.requestChallenge()).rejects.toThrow('Network error');
+      await expect(client.requestChallenge()).rejects.toMatchObject({
+        code: AuthErrorCode.AUTH_NETWORK_ERROR,
+        message: 'Network error: Network failure',
+      });
     });
 
     it('should handle non-JSON responses', async () => {
@@ -395,6 +1275,204 @@ describe('AuthClient', () => {
 
       await expect(client.requestChallenge()).rejects.toThrow('500');
     });
+
+    it('should classify error responses without an error body by status', async () => {
+      const client = new AuthClient({
+        serverUrl: 'https://api.example.com',
+        identity,
+        manifest,
+        fetch: mockFetch,
+      });
+
+      mockFetch.mockResolvedValueOnce(new Response('<html>Bad Gateway</html>', { status: 502 }));
+      await expect(client.requestChallenge()).rejects.toMatchObject({
+        code: AuthErrorCode.AUTH_SERVER_UNAVAILABLE,
+      });
+
+      mockFetch.mockResolvedValueOnce(new Response('Not Found', { status: 404 }));
+      await expect(client.requestChallenge()).rejects.toMatchObject({
+        code: AuthErrorCode.AUTH_PROTOCOL_MISMATCH,
+      });
+
+      mockFetch.mockResolvedValueOnce(
+        new Response('Slow down', { status: 429, headers: { 'Retry-After': '30' } }),
+      );
+      await expect(client.requestChallenge()).rejects.toMatchObject({
+        code: AuthErrorCode.AUTH_RATE_LIMITED,
+        details: { retry_after: 30 },
+      });
+    });
+
+    it('should reject responses that do not follow the protocol', async () => {
+      const client = new AuthClient({
+        serverUrl: 'https://api.example.com',
+        identity,
+        manifest,
+        fetch: mockFetch,
+      });
+
+      mockFetch.mockResolvedValueOnce(new Response('<html>Welcome</html>', { status: 200 }));
+      await expect(client.requestChallenge()).rejects.toMatchObject({
+        code: AuthErrorCode.AUTH_PROTOCOL_MISMATCH,
+        message: 'Server returned a non-JSON response (200)',
+      });
+
+      mockFetch.mockResolvedValueOnce(Response.json({ nonce: 'abc' }));
+      await expect(client.requestChallenge()).rejects.toMatchObject({
+        code: AuthErrorCode.AUTH_PROTOCOL_MISMATCH,
+        message: 'Invalid challenge response format',
+      });
+    });
+  });
+
+  describe('retry policy', () => {
+    // Responses to return for each challenge and verify request, in order;
+    // a request beyond the list succeeds
+    let challengeFailures: Array<Response | Error>;
+    let verifyFailures: Array<Response | Error>;
+    let serverFetch: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+      challengeFailures = [];
+      verifyFailures = [];
+      let challenges = 0;
+
+      serverFetch = vi.fn(async (input: string | URL | Request) => {
+        const url = String(input);
+        const failure = url.endsWith('/auth/challenge')
+          ? challengeFailures.shift()
+          : verifyFailures.shift();
+        if (failure instanceof Error) {
+          throw failure;
+        }
+        if (failure) {
+          return failure;
+        }
+
+        if (url.endsWith('/auth/challenge')) {
+          challenges++;
+          return Response.json({
+            challenge: String(challenges).repeat(64),
+            expires_at: new Date(Date.now() + 300_000).toISOString(),
+          });
+        }
+        return Response.json({
+          token: 'jwt-1',
+          expires_at: new Date(Date.now() + 3600_000).toISOString(),
+          agent: { did: identity.did, name: 'TestAgent', capabilities: ['read'] },
+        });
+      });
+    });
+
+    function createClient(retry?: AuthClientOptions['retry']): AuthClient {
+      return new AuthClient({
+        serverUrl: 'https://api.example.com',
+        identity,
+        manifest,
+        fetch: serverFetch as typeof globalThis.fetch,
+        retry,
+      });
+    }
+
+    function unavailable(): Response {
+      return new Response('Service Unavailable', { status: 503 });
+    }
+
+    it('should not retry without a policy', async () => {
+      challengeFailures = [unavailable()];
+
+      await expect(createClient().authenticate()).rejects.toMatchObject({
+        code: AuthErrorCode.AUTH_SERVER_UNAVAILABLE,
+      });
+      expect(serverFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry transient challenge failures and report each attempt', async () => {
+      challengeFailures = [unavailable(), new TypeError('fetch failed')];
+      const attempts: RetryAttempt[] = [];
+
+      const challenge = await createClient({
+        initialDelayMs: 1,
+        onAttempt: (attempt) => attempts.push(attempt),
+      }).requestChallenge();
+
+      expect(challenge.challenge).toBe('1'.repeat(64));
+      expect(attempts.map(({ step, attempt, error }) => [step, attempt, error.code])).toEqual([
+        ['challenge', 1, AuthErrorCode.AUTH_SERVER_UNAVAILABLE],
+        ['challenge', 2, AuthErrorCode.AUTH_NETWORK_ERROR],
+      ]);
+      expect(attempts[1].retryInMs).toBeGreaterThanOrEqual(2);
+    });
+
+    it('should retry a failed verification with a fresh challenge', async () => {
+      verifyFailures = [new TypeError('fetch failed')];
+      const attempts: RetryAttempt[] = [];
+
+      const session = await createClient({
+        initialDelayMs: 1,
+        onAttempt: (attempt) => attempts.push(attempt),
+      }).authenticate();
+
+      expect(session.token).toBe('jwt-1');
+      expect(attempts).toEqual([expect.objectContaining({ step: 'verify', attempt: 1 })]);
+      const verifications = serverFetch.mock.calls
+        .filter(([url]) => String(url).endsWith('/auth/verify'))
+        .map(([, init]) => JSON.parse(init.body).challenge);
+      expect(verifications).toEqual(['1'.repeat(64), '2'.repeat(64)]);
+    });
+
+    it('should wait as long as a rate-limiting server asks', async () => {
+      challengeFailures = [
+        Response.json(
+          { error: { code: 'AUTH_RATE_LIMITED', message: 'Too many requests', details: { retry_after: 1 } } },
+          { status: 429 },
+        ),
+      ];
+      const attempts: RetryAttempt[] = [];
+
+      await createClient({
+        initialDelayMs: 1,
+        onAttempt: (attempt) => attempts.push(attempt),
+      }).requestChallenge();
+
+      expect(attempts[0].retryInMs).toBeGreaterThanOrEqual(1000);
+      expect(attempts[0].retryInMs).toBeLessThanOrEqual(1100);
+    });
+
+    it('should give up when the server asks to wait longer than maxDelayMs', async () => {
+      challengeFailures = [
+        new Response('Slow down', { status: 429, headers: { 'Retry-After': '3600' } }),
+      ];
+      const attempts: RetryAttempt[] = [];
+
+      await expect(
+        createClient({ onAttempt: (attempt) => attempts.push(attempt) }).requestChallenge(),
+      ).rejects.toMatchObject({ code: AuthErrorCode.AUTH_RATE_LIMITED, details: { retry_after: 3600 } });
+      expect(attempts).toEqual([expect.objectContaining({ attempt: 1, retryInMs: undefined })]);
+    });
+
+    it('should stop after maxAttempts', async () => {
+      challengeFailures = [unavailable(), unavailable(), unavailable()];
+
+      await expect(
+        createClient({ maxAttempts: 2, initialDelayMs: 1 }).requestChallenge(),
+      ).rejects.toMatchObject({ code: AuthErrorCode.AUTH_SERVER_UNAVAILABLE });
+      expect(serverFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not retry errors outside retryOn', async () => {
+      challengeFailures = [
+        Response.json(
+          { error: { code: 'AUTH_DID_NOT_FOUND', message: 'DID not registered' } },
+          { status: 403 },
+        ),
+      ];
+
+      await expect(createClient({ initialDelayMs: 1 }).authenticate()).rejects.toMatchObject({
+        code: AuthErrorCode.AUTH_DID_NOT_FOUND,
+      });
+      expect(serverFetch).toHaveBeenCalledTimes(1);
+    });
   });
 
   describe('custom pathPrefix', () => {
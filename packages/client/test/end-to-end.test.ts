@@ -0,0 +1,127 @@
+/**
+ * End-to-end tests for AuthClient against a real AgentAuthHandler
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { AuthError, type AgentManifest } from '@ai-agent-auth/core';
+import { AgentAuthHandler, InMemoryACL } from '@ai-agent-auth/server';
+import { AuthClient, type AuthClientOptions } from '../src/auth-client';
+import { AgentIdentity } from '../src/agent-identity';
+import { ManifestBuilder } from '../src/manifest-builder';
+
+const FILES = 'https://files.example.com';
+const MAIL = 'https://mail.example.com';
+
+/**
+ * A fetch that serves the auth endpoints from a handler, answering errors
+ * the way the Express middleware does.
+ */
+function handlerFetch(handler: AgentAuthHandler): typeof globalThis.fetch {
+  return async (input, init) => {
+    const body: unknown = JSON.parse(String(init?.body));
+    try {
+      switch (new URL(String(input)).pathname) {
+        case '/auth/challenge':
+          return Response.json(await handler.handleChallenge(body));
+        case '/auth/verify':
+          return Response.json(await handler.handleVerify(body));
+        case '/auth/refresh':
+          return Response.json(await handler.handleRefresh(body));
+        default:
+          return new Response('Not Found', { status: 404 });
+      }
+    } catch (error) {
+      const authError = AuthError.from(error);
+      return Response.json(authError.toJSON(), { status: authError.statusCode });
+    }
+  };
+}
+
+describe('AuthClient with AgentAuthHandler', () => {
+  let handler: AgentAuthHandler;
+  let identity: AgentIdentity;
+  let manifest: AgentManifest;
+
+  beforeEach(async () => {
+    const acl = new InMemoryACL();
+    handler = new AgentAuthHandler({
+      issuer: 'https://api.example.com',
+      jwtSecret: 'test-secret',
+      acl,
+      audiences: [FILES, MAIL],
+    });
+
+    identity = AgentIdentity.generate();
+    manifest = await new ManifestBuilder(identity)
+      .setSequence(1)
+      .setValidUntil(new Date(Date.now() + 24 * 60 * 60 * 1000))
+      .setMetadata({ name: 'TestAgent', description: 'A test agent', agent_version: '1.0.0' })
+      .setCapabilities({ interfaces: [{ protocol: 'https', url: 'https://api.example.com' }] })
+      .build();
+
+    const now = new Date().toISOString();
+    await acl.set({
+      did: identity.did,
+      status: 'approved',
+      manifest_sequence: 0,
+      registered_at: now,
+      updated_at: now,
+    });
+  });
+
+  afterEach(() => {
+    handler.destroy();
+  });
+
+  function createClient(options: Partial<AuthClientOptions> = {}): AuthClient {
+    return new AuthClient({
+      serverUrl: 'https://api.example.com',
+      identity,
+      manifest,
+      fetch: handlerFetch(handler),
+      ...options,
+    });
+  }
+
+  it('should hold sessions for several audiences with one manifest', async () => {
+    const client = createClient();
+
+    const files = await client.authenticate({ audience: FILES });
+    const mail = await client.authenticate({ audience: MAIL });
+
+    expect((await handler.validateToken(files.token)).aud).toBe(FILES);
+    expect((await handler.validateToken(mail.token)).aud).toBe(MAIL);
+    expect(await client.getSession(60, FILES)).toBe(files);
+  });
+
+  it('should re-authenticate with the same manifest', async () => {
+    const client = createClient();
+
+    await client.authenticate({ audience: FILES });
+    const again = await createClient().authenticate({ audience: FILES });
+
+    expect((await handler.validateToken(again.token)).sub).toBe(identity.did);
+  });
+
+  it('should retry a verification whose response was lost', async () => {
+    const serve = handlerFetch(handler);
+    let lost = false;
+    const client = createClient({
+      retry: { initialDelayMs: 1 },
+      fetch: async (input, init) => {
+        const response = await serve(input, init);
+        if (String(input).endsWith('/auth/verify') && !lost) {
+          // The server recorded the verification, but the agent never hears
+          lost = true;
+          throw new TypeError('fetch failed');
+        }
+        return response;
+      },
+    });
+
+    const session = await client.authenticate({ audience: FILES });
+
+    expect(lost).toBe(true);
+    expect((await handler.validateToken(session.token)).sub).toBe(identity.did);
+  });
+});
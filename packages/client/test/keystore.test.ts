@@ -0,0 +1,116 @@
+/**
+ * Tests for FileKeystore and the encrypted identity format
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm, stat, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FileKeystore } from '../src/keystore';
+import { AgentIdentity } from '../src/agent-identity';
+import { parseEncryptedIdentity } from '../src/encrypted-key';
+
+describe('FileKeystore', () => {
+  let dir: string;
+  let path: string;
+  let keystore: FileKeystore;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'keystore-'));
+    path = join(dir, 'agents', 'keystore.json');
+    keystore = new FileKeystore(path, { n: 2 ** 10 });
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should be empty before the first save', async () => {
+    expect(await keystore.list()).toEqual([]);
+    expect(await keystore.has('search')).toBe(false);
+  });
+
+  it('should store several named identities', async () => {
+    const search = AgentIdentity.generate();
+    const billing = AgentIdentity.generate();
+
+    await keystore.save('search', search, 'one');
+    await keystore.save('billing', billing, 'two');
+
+    expect(await keystore.list()).toEqual([
+      { name: 'search', did: search.did, verificationMethod: search.verificationMethod },
+      { name: 'billing', did: billing.did, verificationMethod: billing.verificationMethod },
+    ]);
+    expect((await keystore.load('search', 'one')).did).toBe(search.did);
+    expect((await keystore.load('billing', 'two')).did).toBe(billing.did);
+    await expect(keystore.load('search', 'two')).rejects.toThrow('wrong passphrase');
+  });
+
+  it('should create the file readable by its owner only', async () => {
+    await keystore.save('search', AgentIdentity.generate(), 'one');
+
+    expect((await stat(path)).mode & 0o777).toBe(0o600);
+  });
+
+  it('should not write private keys in the clear', async () => {
+    const identity = AgentIdentity.generate();
+    await keystore.save('search', identity, 'one');
+
+    expect(await readFile(path, 'utf8')).not.toContain(identity.exportPrivateKeyHex());
+  });
+
+  it('should keep every identity across concurrent saves', async () => {
+    await Promise.all(
+      ['a', 'b', 'c'].map((name) => keystore.save(name, AgentIdentity.generate(), name)),
+    );
+
+    expect((await keystore.list()).map((entry) => entry.name).sort()).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should replace and delete identities', async () => {
+    await keystore.save('search', AgentIdentity.generate(), 'one');
+    const replacement = AgentIdentity.generate();
+    await keystore.save('search', replacement, 'one');
+
+    expect((await keystore.load('search', 'one')).did).toBe(replacement.did);
+    expect(await keystore.delete('search')).toBe(true);
+    expect(await keystore.delete('search')).toBe(false);
+    await expect(keystore.load('search', 'one')).rejects.toThrow(
+      'No identity named "search" in keystore',
+    );
+  });
+
+  it('should reject a file that is not a keystore', async () => {
+    await keystore.save('search', AgentIdentity.generate(), 'one');
+    await writeFile(path, JSON.stringify({ version: 2, identities: {} }));
+
+    await expect(keystore.list()).rejects.toThrow('Invalid keystore file');
+  });
+});
+
+describe('parseEncryptedIdentity', () => {
+  it.each([
+    ['an unknown version', { version: 2 }, 'Unsupported encrypted identity version: 2'],
+    ['an unknown KDF', { crypto: { kdf: 'pbkdf2' } }, 'Unsupported key derivation function: pbkdf2'],
+    ['an oversized scrypt cost', { crypto: { kdfparams: { n: 2 ** 24 } } }, 'Invalid scrypt parameters'],
+    ['a 4 GiB scrypt cost', { crypto: { kdfparams: { n: 2 ** 20, r: 32 } } }, 'cost exceeds the limit'],
+    ['an excessive scrypt work factor', { crypto: { kdfparams: { n: 2 ** 17, r: 8, p: 16 } } }, 'cost exceeds the limit'],
+    ['a non-hex ciphertext', { crypto: { ciphertext: 'xyz' } }, 'crypto.ciphertext must be hex'],
+  ])('should reject %s', async (_, change, message) => {
+    const json = await AgentIdentity.generate().toEncryptedJSON('one', { n: 2 ** 10 });
+    const changed = {
+      ...json,
+      ...change,
+      crypto: {
+        ...json.crypto,
+        ...(change as { crypto?: object }).crypto,
+        kdfparams: {
+          ...json.crypto.kdfparams,
+          ...(change as { crypto?: { kdfparams?: object } }).crypto?.kdfparams,
+        },
+      },
+    };
+
+    expect(() => parseEncryptedIdentity(changed)).toThrow(message);
+  });
+});
@@ -5,7 +5,7 @@
 import { describe, it, expect } from 'vitest';
 import { ManifestBuilder } from '../src/manifest-builder';
 import { AgentIdentity } from '../src/agent-identity';
-import { verifyManifest } from '@ai-agent-auth/core';
+import { verifyManifest, verifyManifestRotation } from '@ai-agent-auth/core';
 
 describe('ManifestBuilder', () => {
   const createTestIdentity = () => AgentIdentity.generate();
@@ -379,4 +379,48 @@ describe('ManifestBuilder', () => {
       ).rejects.toThrow('Capabilities is required');
     });
   });
+
+  describe('fromManifest()', () => {
+    it('should copy the manifest with the next sequence', async () => {
+      const identity = createTestIdentity();
+      const current = await createMinimalManifest(identity);
+
+      const next = await ManifestBuilder.fromManifest(identity, current).build();
+
+      expect(next.sequence).toBe(current.sequence + 1);
+      expect(next.created_at).toBe(current.created_at);
+      expect(next.metadata).toEqual(current.metadata);
+      expect(next.capabilities).toEqual(current.capabilities);
+      expect(next.rotation).toBeUndefined();
+    });
+  });
+
+  describe('setRotation()', () => {
+    it('should sign with the new key and prove continuity from the previous one', async () => {
+      const identity = createTestIdentity();
+      const current = await createMinimalManifest(identity);
+      const rotated = identity.rotateKey();
+
+      const manifest = await ManifestBuilder.fromManifest(rotated, current)
+        .setRotation(identity)
+        .build();
+
+      expect(manifest.id).toBe(rotated.did);
+      expect(manifest.proof.verification_method).toBe(rotated.verificationMethod);
+      expect(manifest.rotation).toMatchObject({
+        previous_did: identity.did,
+        verification_method: identity.verificationMethod,
+      });
+      expect(await verifyManifest(manifest)).toBe(true);
+      expect(await verifyManifestRotation(manifest)).toBe(identity.did);
+    });
+
+    it('should throw if the previous identity signs with the same key', () => {
+      const identity = createTestIdentity();
+
+      expect(() => new ManifestBuilder(identity).setRotation(identity)).toThrow(
+        'Rotation requires a key other than the signing key',
+      );
+    });
+  });
 });
@@ -0,0 +1,169 @@
+/**
+ * Tests for RemoteSigner and the signing process side
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, stat } from 'node:fs/promises';
+import type { Server } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { verifyManifest, verifySignature, type Signer } from '@ai-agent-auth/core';
+import { RemoteSigner, listenSigner } from '../src/remote-signer';
+import { AgentIdentity } from '../src/agent-identity';
+import { ManifestBuilder } from '../src/manifest-builder';
+
+// A signing process written without the SDK: Node's own Ed25519 keys,
+// answering over stdin/stdout; it reports no key id
+const SIGNER_PROCESS = `
+const { generateKeyPairSync, sign } = require('node:crypto');
+const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+const raw = Buffer.from(publicKey.export({ format: 'jwk' }).x, 'base64url').toString('hex');
+require('node:readline').createInterface({ input: process.stdin }).on('line', (line) => {
+  const { id, method, data } = JSON.parse(line);
+  const response = method === 'describe'
+    ? { id, public_key: raw }
+    : { id, signature: sign(null, Buffer.from(data, 'hex'), privateKey).toString('hex') };
+  process.stdout.write(JSON.stringify(response) + '\\n');
+});
+`;
+
+describe('RemoteSigner', () => {
+  const data = new TextEncoder().encode('Hello, world!');
+
+  describe('over a Unix socket', () => {
+    let dir: string;
+    let path: string;
+    let local: AgentIdentity;
+    let server: Server;
+    let remote: RemoteSigner | undefined;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'signer-'));
+      path = join(dir, 'signer.sock');
+      local = AgentIdentity.generate();
+      server = await listenSigner(local.signer, path);
+    });
+
+    afterEach(async () => {
+      remote?.close();
+      remote = undefined;
+      await new Promise((resolve) => server.close(resolve));
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should take the key id and public key from the signing process', async () => {
+      remote = await RemoteSigner.connect(path);
+
+      expect(remote.keyId).toBe(local.verificationMethod);
+      expect(remote.publicKey).toEqual(local.publicKey);
+    });
+
+    it('should sign with the remote key', async () => {
+      remote = await RemoteSigner.connect(path);
+
+      const signatures = await Promise.all([remote.sign(data), remote.sign(new Uint8Array())]);
+
+      expect(await verifySignature(signatures[0], data, local.publicKey)).toBe(true);
+      expect(await verifySignature(signatures[1], new Uint8Array(), local.publicKey)).toBe(true);
+    });
+
+    it('should create the socket for its owner only', async () => {
+      expect((await stat(path)).mode & 0o777).toBe(0o600);
+    });
+
+    it('should sign manifests for an identity', async () => {
+      remote = await RemoteSigner.connect(path);
+      const identity = AgentIdentity.fromSigner(remote);
+
+      const manifest = await new ManifestBuilder(identity)
+        .setSequence(1)
+        .setValidUntil(new Date(Date.now() + 24 * 60 * 60 * 1000))
+        .setMetadata({ name: 'RemoteAgent', description: 'Signs remotely', agent_version: '1.0.0' })
+        .setCapabilities({ interfaces: [{ protocol: 'https', url: 'https://api.example.com' }] })
+        .build();
+
+      expect(manifest.proof.verification_method).toBe(local.verificationMethod);
+      await expect(verifyManifest(manifest)).resolves.toBe(true);
+    });
+
+    it('should report signing errors', async () => {
+      const failing: Signer = {
+        keyId: 'did:web:agent.example.com#key-1',
+        publicKey: local.publicKey,
+        sign: async () => {
+          throw new Error('KMS unavailable');
+        },
+      };
+      const failingPath = join(dir, 'failing.sock');
+      const failingServer = await listenSigner(failing, failingPath);
+
+      try {
+        remote = await RemoteSigner.connect(failingPath);
+        await expect(remote.sign(data)).rejects.toThrow('Signer error: KMS unavailable');
+      } finally {
+        remote?.close();
+        remote = undefined;
+        await new Promise((resolve) => failingServer.close(resolve));
+      }
+    });
+
+    it('should time out when the signing process does not answer', async () => {
+      const stalled: Signer = {
+        keyId: 'did:web:agent.example.com#key-1',
+        publicKey: local.publicKey,
+        sign: () => new Promise(() => {}),
+      };
+      const stalledPath = join(dir, 'stalled.sock');
+      const stalledServer = await listenSigner(stalled, stalledPath);
+
+      try {
+        remote = await RemoteSigner.connect(stalledPath, { timeoutMs: 50 });
+        await expect(remote.sign(data)).rejects.toThrow('Signer did not respond within 50ms');
+      } finally {
+        remote?.close();
+        remote = undefined;
+        await new Promise((resolve) => stalledServer.close(resolve));
+      }
+    });
+
+    it('should fail requests after close', async () => {
+      remote = await RemoteSigner.connect(path);
+      remote.close();
+
+      await expect(remote.sign(data)).rejects.toThrow('Signer connection closed');
+    });
+  });
+
+  describe('over a child process', () => {
+    let remote: RemoteSigner | undefined;
+
+    afterEach(() => {
+      remote?.close();
+      remote = undefined;
+    });
+
+    it('should sign with a key held by the process', async () => {
+      remote = await RemoteSigner.spawn(process.execPath, ['-e', SIGNER_PROCESS], {
+        keyId: 'did:web:agent.example.com#key-1',
+      });
+
+      const signature = await remote.sign(data);
+
+      expect(remote.keyId).toBe('did:web:agent.example.com#key-1');
+      expect(await verifySignature(signature, data, remote.publicKey)).toBe(true);
+    });
+
+    it('should require a key id the process does not report', async () => {
+      await expect(
+        RemoteSigner.spawn(process.execPath, ['-e', SIGNER_PROCESS]),
+      ).rejects.toThrow('Signer did not report a key id; pass options.keyId');
+    });
+
+    it('should fail when the process exits', async () => {
+      // Exits on the first request, before describing its key
+      await expect(
+        RemoteSigner.spawn(process.execPath, ['-e', 'process.stdin.once("data", () => process.exit(0))']),
+      ).rejects.toThrow('Signer connection closed');
+    });
+  });
+});
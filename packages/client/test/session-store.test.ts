@@ -0,0 +1,108 @@
+/**
+ * Tests for the session stores
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readdir, readFile, rm, stat, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FileSessionStore, InMemorySessionStore } from '../src/session-store';
+import type { SessionJSON } from '../src/session';
+
+function sessionData(token: string, lifetimeMs: number, refreshLifetimeMs?: number): SessionJSON {
+  return {
+    token,
+    expiresAt: new Date(Date.now() + lifetimeMs).toISOString(),
+    agent: { did: 'did:key:z6MkTest', name: 'TestAgent', capabilities: ['read'] },
+    ...(refreshLifetimeMs !== undefined && {
+      refreshToken: `refresh-${token}`,
+      refreshExpiresAt: new Date(Date.now() + refreshLifetimeMs).toISOString(),
+    }),
+  };
+}
+
+describe('InMemorySessionStore', () => {
+  it('should store, replace and delete sessions', async () => {
+    const store = new InMemorySessionStore();
+
+    await store.set('a', sessionData('jwt-1', 3600_000));
+    await store.set('a', sessionData('jwt-2', 3600_000));
+    expect((await store.get('a'))?.token).toBe('jwt-2');
+
+    await store.delete('a');
+    expect(await store.get('a')).toBeNull();
+  });
+});
+
+describe('FileSessionStore', () => {
+  let dir: string;
+  let path: string;
+  let store: FileSessionStore;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'sessions-'));
+    path = join(dir, 'agent', 'sessions.json');
+    store = new FileSessionStore(path);
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should persist sessions across instances', async () => {
+    await store.set('a', sessionData('jwt-1', 3600_000));
+    await store.set('b', sessionData('jwt-2', 3600_000));
+
+    const reopened = new FileSessionStore(path);
+    expect((await reopened.get('a'))?.token).toBe('jwt-1');
+    expect((await reopened.get('b'))?.token).toBe('jwt-2');
+    expect(await reopened.get('c')).toBeNull();
+  });
+
+  it('should let instances on the same file write concurrently', async () => {
+    await store.set('a', sessionData('jwt-1', 3600_000));
+    const other = new FileSessionStore(path);
+
+    // Without a lock one write may overwrite the other, but neither fails
+    await expect(
+      Promise.all([
+        store.set('a', sessionData('jwt-2', 3600_000)),
+        other.set('b', sessionData('jwt-3', 3600_000)),
+      ]),
+    ).resolves.toBeDefined();
+
+    expect(await readdir(join(dir, 'agent'))).toEqual(['sessions.json']);
+  });
+
+  it('should restrict the file and directory to their owner', async () => {
+    await store.set('a', sessionData('jwt-1', 3600_000));
+
+    expect((await stat(path)).mode & 0o777).toBe(0o600);
+    expect((await stat(join(dir, 'agent'))).mode & 0o777).toBe(0o700);
+  });
+
+  it('should delete sessions', async () => {
+    await store.set('a', sessionData('jwt-1', 3600_000));
+    await store.delete('a');
+
+    expect(await store.get('a')).toBeNull();
+  });
+
+  it('should drop sessions that can no longer be used or refreshed', async () => {
+    await store.set('expired', sessionData('jwt-1', -1000));
+    await store.set('refreshable', sessionData('jwt-2', -1000, 3600_000));
+    await store.set('fresh', sessionData('jwt-3', 3600_000));
+
+    const { sessions } = JSON.parse(await readFile(path, 'utf8'));
+    expect(Object.keys(sessions).sort()).toEqual(['fresh', 'refreshable']);
+  });
+
+  it('should treat a corrupted file as empty', async () => {
+    await store.set('a', sessionData('jwt-1', 3600_000));
+    await writeFile(path, '{"version": 1, "sessions": {');
+
+    expect(await store.get('a')).toBeNull();
+    await store.set('b', sessionData('jwt-2', 3600_000));
+    expect((await store.get('b'))?.token).toBe('jwt-2');
+  });
+});
@@ -4,6 +4,8 @@
 
 import { describe, it, expect, vi } from 'vitest';
 import { Session } from '../src/session';
+import { AgentIdentity } from '../src/agent-identity';
+import { verifyDPoPProof } from '@ai-agent-auth/core';
 
 describe('Session', () => {
   const createTestSession = (expiresIn: number = 3600) => {
@@ -92,6 +94,62 @@ describe('Session', () => {
     });
   });
 
+  describe('toRequestHeaders()', () => {
+    const url = 'https://api.example.com/files';
+
+    it('should return only Authorization for bearer tokens', async () => {
+      const session = createTestSession();
+
+      expect(await session.toRequestHeaders('GET', url)).toEqual({
+        Authorization: `Bearer ${session.token}`,
+      });
+    });
+
+    it('should sign a fresh DPoP proof for key-bound tokens', async () => {
+      const identity = AgentIdentity.generate();
+      const session = new Session(
+        'bound.jwt.token',
+        new Date(Date.now() + 3600_000),
+        { did: identity.did, name: 'TestAgent', capabilities: [] },
+        undefined,
+        undefined,
+        identity,
+      );
+
+      const first = await session.toRequestHeaders('POST', url);
+      const second = await session.toRequestHeaders('POST', url);
+
+      expect(session.tokenType).toBe('DPoP');
+      expect(first.Authorization).toBe('DPoP bound.jwt.token');
+      expect(first.DPoP).not.toBe(second.DPoP);
+
+      const { payload } = await verifyDPoPProof(first.DPoP, {
+        method: 'POST',
+        url,
+        accessToken: 'bound.jwt.token',
+      });
+      expect(payload.htu).toBe(url);
+    });
+
+    it('should require the identity to restore a DPoP session', () => {
+      const identity = AgentIdentity.generate();
+      const json = new Session(
+        't',
+        new Date(Date.now() + 3600_000),
+        { did: identity.did, name: 'TestAgent', capabilities: [] },
+        undefined,
+        undefined,
+        identity,
+      ).toJSON();
+
+      expect(json.tokenType).toBe('DPoP');
+      expect(() => Session.fromJSON(json)).toThrow(
+        'A DPoP session can only be restored with its agent identity',
+      );
+      expect(Session.fromJSON(json, identity).tokenType).toBe('DPoP');
+    });
+  });
+
   describe('toJSON()', () => {
     it('should serialize to plain object', () => {
       const expiresAt = new Date(Date.now() + 3600 * 1000);
@@ -157,5 +215,64 @@ describe('Session', () => {
 
       expect(restored.isExpired).toBe(true);
     });
+
+    it('should round-trip refresh token fields', () => {
+      const refreshExpiresAt = new Date(Date.now() + 86400_000);
+      const original = new Session(
+        'test.jwt.token',
+        new Date(Date.now() + 3600_000),
+        { did: 'did:key:z6MkTest', name: 'TestAgent', capabilities: ['read'] },
+        { token: 'r'.repeat(64), expiresAt: refreshExpiresAt },
+      );
+
+      const restored = Session.fromJSON(JSON.parse(JSON.stringify(original)));
+
+      expect(restored.refreshToken).toBe('r'.repeat(64));
+      expect(restored.refreshExpiresAt?.toISOString()).toBe(
+        refreshExpiresAt.toISOString()
+      );
+    });
+
+    it('should omit refresh fields when absent', () => {
+      expect(createTestSession().toJSON()).not.toHaveProperty('refreshToken');
+    });
+
+    it('should round-trip the audience', () => {
+      const original = new Session(
+        'test.jwt.token',
+        new Date(Date.now() + 3600_000),
+        { did: 'did:key:z6MkTest', name: 'TestAgent', capabilities: ['read'] },
+        undefined,
+        'https://files.example.com',
+      );
+
+      const restored = Session.fromJSON(JSON.parse(JSON.stringify(original)));
+
+      expect(restored.audience).toBe('https://files.example.com');
+      expect(createTestSession().toJSON()).not.toHaveProperty('audience');
+    });
+  });
+
+  describe('canRefresh', () => {
+    const agent = { did: 'did:key:z6MkTest', name: 'TestAgent', capabilities: [] };
+
+    it('should be false without a refresh token', () => {
+      expect(createTestSession().canRefresh).toBe(false);
+    });
+
+    it('should reflect refresh token expiry', () => {
+      const expiresAt = new Date(Date.now() + 3600_000);
+      const valid = new Session('t', expiresAt, agent, {
+        token: 'r',
+        expiresAt: new Date(Date.now() + 60_000),
+      });
+      const expired = new Session('t', expiresAt, agent, {
+        token: 'r',
+        expiresAt: new Date(Date.now() - 1000),
+      });
+
+      expect(valid.canRefresh).toBe(true);
+      expect(expired.canRefresh).toBe(false);
+    });
   });
 });
@@ -0,0 +1,35 @@
+/**
+ * Tests for InMemorySigner
+ */
+
+import { describe, it, expect } from 'vitest';
+import { generateKeyPair, verifySignature } from '@ai-agent-auth/core';
+import { InMemorySigner } from '../src/signer';
+
+describe('InMemorySigner', () => {
+  const KEY_ID = 'did:web:agent.example.com#key-1';
+
+  it('should sign with its key', async () => {
+    const keyPair = generateKeyPair();
+    const signer = new InMemorySigner(keyPair, KEY_ID);
+    const data = new TextEncoder().encode('Hello, world!');
+
+    expect(signer.keyId).toBe(KEY_ID);
+    expect(await verifySignature(await signer.sign(data), data, keyPair.publicKey)).toBe(true);
+  });
+
+  it('should derive the public key from a private key', async () => {
+    const keyPair = generateKeyPair();
+
+    const signer = await InMemorySigner.fromPrivateKey(keyPair.privateKey, KEY_ID);
+
+    expect(signer.publicKey).toEqual(keyPair.publicKey);
+    expect(signer.exportPrivateKey()).toEqual(keyPair.privateKey);
+  });
+
+  it('should reject private keys of the wrong length', async () => {
+    await expect(InMemorySigner.fromPrivateKey(new Uint8Array(16), KEY_ID)).rejects.toThrow(
+      'Private key must be exactly 32 bytes',
+    );
+  });
+});
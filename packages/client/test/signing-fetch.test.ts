@@ -0,0 +1,123 @@
+/**
+ * Tests for createSigningFetch
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  buildSignatureBase,
+  computeContentDigest,
+  decodeManifestHeader,
+  parseSignature,
+  parseSignatureInput,
+  verifySignature,
+} from '@ai-agent-auth/core';
+import { AgentIdentity } from '../src/agent-identity';
+import { ManifestBuilder } from '../src/manifest-builder';
+import { createSigningFetch } from '../src/signing-fetch';
+
+describe('createSigningFetch', () => {
+  const identity = AgentIdentity.generate();
+
+  function capture() {
+    const requests: Request[] = [];
+    const fetch = vi.fn(async (input: RequestInfo | URL) => {
+      requests.push(input as Request);
+      return new Response('{}', { status: 200 });
+    }) as unknown as typeof globalThis.fetch;
+    return { fetch, requests };
+  }
+
+  async function verifyRequest(request: Request): Promise<boolean> {
+    const input = parseSignatureInput(request.headers.get('signature-input')!);
+    const url = new URL(request.url);
+    const base = buildSignatureBase(
+      {
+        method: request.method,
+        path: url.pathname + url.search,
+        headers: {
+          'content-digest': request.headers.get('content-digest') ?? undefined,
+          date: request.headers.get('date') ?? undefined,
+        },
+      },
+      input.components,
+      input.params,
+    );
+
+    return verifySignature(
+      parseSignature(request.headers.get('signature')!, input.label),
+      new TextEncoder().encode(base),
+      identity.publicKey,
+    );
+  }
+
+  it('should sign the method, URL and body with the agent key', async () => {
+    const { fetch, requests } = capture();
+    const signedFetch = createSigningFetch(identity, { fetch });
+
+    const res = await signedFetch('https://api.example.com/files?page=2', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{"name":"report.pdf"}',
+    });
+
+    expect(res.status).toBe(200);
+    const [request] = requests;
+    expect(request.headers.get('content-type')).toBe('application/json');
+    expect(request.headers.get('content-digest')).toBe(
+      computeContentDigest(new TextEncoder().encode('{"name":"report.pdf"}')),
+    );
+    expect(parseSignatureInput(request.headers.get('signature-input')!).params.keyid).toBe(
+      identity.did,
+    );
+    expect(await request.text()).toBe('{"name":"report.pdf"}');
+    expect(await verifyRequest(request)).toBe(true);
+  });
+
+  it('should sign bodiless requests with an empty digest', async () => {
+    const { fetch, requests } = capture();
+
+    await createSigningFetch(identity, { fetch })('https://api.example.com/files');
+
+    expect(requests[0].headers.get('content-digest')).toBe(
+      computeContentDigest(new Uint8Array(0)),
+    );
+    expect(await verifyRequest(requests[0])).toBe(true);
+  });
+
+  it('should use a fresh nonce for every request', async () => {
+    const { fetch, requests } = capture();
+    const signedFetch = createSigningFetch(identity, { fetch });
+
+    await signedFetch('https://api.example.com/files');
+    await signedFetch('https://api.example.com/files');
+
+    const [first, second] = requests.map(
+      (r) => parseSignatureInput(r.headers.get('signature-input')!).params.nonce,
+    );
+    expect(first).not.toBe(second);
+  });
+
+  it('should send the manifest when given', async () => {
+    const { fetch, requests } = capture();
+    const manifest = await new ManifestBuilder(identity)
+      .setSequence(1)
+      .setValidUntil(new Date(Date.now() + 24 * 60 * 60 * 1000))
+      .setMetadata({
+        name: 'TestAgent',
+        description: 'Test',
+        agent_version: '1.0.0',
+      })
+      .setCapabilities({
+        interfaces: [{ protocol: 'https', url: 'https://agent.example.com' }],
+      })
+      .build();
+
+    await createSigningFetch(identity, { fetch, manifest })(
+      'https://api.example.com/files',
+    );
+
+    expect(decodeManifestHeader(requests[0].headers.get('agent-manifest')!)).toEqual(
+      manifest,
+    );
+  });
+});
@@ -7,7 +7,8 @@
 import * as ed from '@noble/ed25519'
 import { sha256 } from '@noble/hashes/sha256'
 import { sha512 } from '@noble/hashes/sha512'
-import type { KeyPair } from './types'
+import { scryptAsync } from '@noble/hashes/scrypt'
+import type { KeyPair, Signer } from './types'
 import { encodeBase58btc, decodeBase58btc } from './base58'
 import { randomBytes } from './random'
 
@@ -34,21 +35,31 @@ export function generateKeyPair(): KeyPair {
 }
 
 /**
- * Sign arbitrary bytes with Ed25519 private key
+ * Sign arbitrary bytes with an Ed25519 private key or a Signer
  *
  * @param data - Data to sign
- * @param privateKey - 32-byte Ed25519 private key
+ * @param key - 32-byte Ed25519 private key, or a Signer holding the key
  * @returns 64-byte Ed25519 signature
+ * @throws {Error} if the private key is not 32 bytes, or the Signer
+ *   returns a signature that is not 64 bytes
  */
 export async function signBytes(
   data: Uint8Array,
-  privateKey: Uint8Array
+  key: Uint8Array | Signer
 ): Promise<Uint8Array> {
-  if (privateKey.length !== 32) {
+  if (!(key instanceof Uint8Array)) {
+    const signature = await key.sign(data)
+    if (!(signature instanceof Uint8Array) || signature.length !== 64) {
+      throw new Error(`Signer for ${key.keyId} returned an invalid signature`)
+    }
+    return signature
+  }
+
+  if (key.length !== 32) {
     throw new Error('Private key must be 32 bytes')
   }
 
-  return await ed.signAsync(data, privateKey)
+  return await ed.signAsync(data, key)
 }
 
 /**
@@ -92,14 +103,14 @@ export async function verifySignature(
  * @param challenge - 64-char hex string
  * @param did - Agent's DID
  * @param expiresAt - ISO 8601 timestamp
- * @param privateKey - 32-byte Ed25519 private key
+ * @param key - 32-byte Ed25519 private key, or a Signer holding the key
  * @returns Base58btc-encoded signature with 'z' prefix
  */
 export async function signChallenge(
   challenge: string,
   did: string,
   expiresAt: string,
-  privateKey: Uint8Array
+  key: Uint8Array | Signer
 ): Promise<string> {
   // Step 1: Construct payload
   const payloadString = `${challenge}.${did}.${expiresAt}`
@@ -111,7 +122,7 @@ export async function signChallenge(
   const hash = sha256(payloadBytes)
 
   // Step 4: Sign hash with Ed25519
-  const signatureBytes = await signBytes(hash, privateKey)
+  const signatureBytes = await signBytes(hash, key)
 
   // Step 5: Encode as base58btc with 'z' prefix
   return encodeBase58btc(signatureBytes)
@@ -177,6 +188,32 @@ export function hashSHA256(data: Uint8Array): Uint8Array {
   return sha256(data)
 }
 
+/**
+ * Derive a key from a passphrase with scrypt (RFC 7914)
+ *
+ * The passphrase is NFKC-normalized first, so the same passphrase typed
+ * on different systems derives the same key.
+ *
+ * @param passphrase - Passphrase
+ * @param salt - Random salt (at least 16 bytes)
+ * @param params - Cost parameters: N (power of two), r and p
+ * @param length - Key length in bytes (default 32)
+ * @returns Derived key
+ */
+export async function deriveKeyScrypt(
+  passphrase: string,
+  salt: Uint8Array,
+  params: { N: number; r: number; p: number },
+  length = 32
+): Promise<Uint8Array> {
+  return scryptAsync(passphrase.normalize('NFKC'), salt, {
+    ...params,
+    dkLen: length,
+    // scrypt needs 128 × N × r bytes, plus headroom
+    maxmem: 256 * params.N * params.r + 1024 * 1024,
+  })
+}
+
 /**
  * Convert hex string to Uint8Array
  *
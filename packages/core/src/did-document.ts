@@ -0,0 +1,387 @@
+/**
+ * DID document model
+ * Normalizes DID documents from their JSON form and selects verification
+ * methods by relationship (W3C DID Core §5.3):
+ *   - challenge and HTTP request signatures use `authentication` keys
+ *   - manifest proofs use `assertionMethod` keys
+ */
+
+import { base64urlnopad } from '@scure/base'
+import { decodeBase58btc } from './base58'
+import { AuthError, AuthErrorCode } from './errors'
+import type {
+  DIDDocument,
+  DIDService,
+  VerificationMethod,
+  VerificationRelationship,
+} from './types'
+
+/** All verification relationships, in DID Core order */
+export const VERIFICATION_RELATIONSHIPS: readonly VerificationRelationship[] = [
+  'authentication',
+  'assertionMethod',
+  'keyAgreement',
+  'capabilityInvocation',
+  'capabilityDelegation',
+]
+
+/**
+ * Normalize a DID document from its JSON form
+ *
+ * - Relative ids ("#key-1") become absolute DID URLs
+ * - Verification methods embedded in a relationship are moved to
+ *   `verificationMethod` and referenced by id
+ * - Missing relationships and services become empty arrays
+ *
+ * @param raw - Parsed JSON DID document
+ * @param did - The DID that was resolved; the document `id` must match
+ * @returns Normalized DID document
+ * @throws AuthError (AUTH_DID_RESOLUTION_FAILED) if the document is malformed
+ */
+export function normalizeDIDDocument(
+  raw: Record<string, unknown>,
+  did: string
+): DIDDocument {
+  try {
+    if (raw.id !== undefined && raw.id !== did) {
+      throw new Error(`DID document id ${String(raw.id)} does not match ${did}`)
+    }
+
+    const absolute = (id: string): string => (id.startsWith('#') ? `${did}${id}` : id)
+
+    const verificationMethod = arrayMember(raw, 'verificationMethod').map((vm) =>
+      normalizeVerificationMethod(vm, did, absolute)
+    )
+
+    const relationships = {} as Record<VerificationRelationship, string[]>
+    for (const relationship of VERIFICATION_RELATIONSHIPS) {
+      relationships[relationship] = arrayMember(raw, relationship).map((entry) => {
+        if (typeof entry === 'string') {
+          return absolute(entry)
+        }
+
+        // Embedded verification method
+        const vm = normalizeVerificationMethod(entry, did, absolute)
+        if (!verificationMethod.some((existing) => existing.id === vm.id)) {
+          verificationMethod.push(vm)
+        }
+        return vm.id
+      })
+    }
+
+    const service = arrayMember(raw, 'service').map((entry): DIDService => {
+      if (typeof entry !== 'object' || entry === null) {
+        throw new Error('Service entries must be objects')
+      }
+      const { id, type, serviceEndpoint } = entry as Record<string, unknown>
+      if (typeof id !== 'string' || type === undefined || serviceEndpoint === undefined) {
+        throw new Error('Service entries must have id, type and serviceEndpoint')
+      }
+      return {
+        id: absolute(id),
+        type: type as DIDService['type'],
+        serviceEndpoint: serviceEndpoint as DIDService['serviceEndpoint'],
+      }
+    })
+
+    const document: DIDDocument = {
+      id: did,
+      verificationMethod,
+      ...relationships,
+      service,
+    }
+
+    if (raw.controller !== undefined) {
+      document.controller = stringList(raw.controller, 'controller')
+    }
+    if (raw.alsoKnownAs !== undefined) {
+      document.alsoKnownAs = stringList(raw.alsoKnownAs, 'alsoKnownAs')
+    }
+
+    return document
+  } catch (error) {
+    throw new AuthError(
+      AuthErrorCode.AUTH_DID_RESOLUTION_FAILED,
+      `Invalid DID document: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+}
+
+/**
+ * List the verification methods a DID document authorizes for a
+ * relationship
+ *
+ * Documents that declare no relationships at all predate them; every
+ * verification method is then usable for signing.
+ *
+ * @param document - Normalized DID document
+ * @param relationship - e.g. "authentication"
+ * @returns Verification methods, in document order of the relationship
+ */
+export function getVerificationMethods(
+  document: DIDDocument,
+  relationship: VerificationRelationship
+): VerificationMethod[] {
+  if (!declaresRelationships(document)) {
+    return relationship === 'keyAgreement' ? [] : document.verificationMethod
+  }
+
+  return document[relationship]
+    .map((id) => document.verificationMethod.find((vm) => vm.id === id))
+    .filter((vm): vm is VerificationMethod => vm !== undefined)
+}
+
+/**
+ * Pick the signing key in a DID document
+ *
+ * With `verificationMethod`, that method, which must be authorized for
+ * `relationship` when one is given. Otherwise the first method of
+ * `relationship`, or, with neither, the first `assertionMethod`, then
+ * `authentication`, then listed method.
+ *
+ * @param document - Normalized DID document
+ * @param verificationMethod - Optional DID URL, e.g. "did:web:example.com#key-1"
+ * @param relationship - Optional relationship the key must be authorized for
+ * @returns The verification method
+ * @throws AuthError (AUTH_DID_RESOLUTION_FAILED) if there is no such
+ *   method, it is not authorized, or it is a key agreement key
+ */
+export function selectVerificationMethod(
+  document: DIDDocument,
+  verificationMethod?: string,
+  relationship?: VerificationRelationship
+): VerificationMethod {
+  const find = (id: string | undefined) =>
+    document.verificationMethod.find((vm) => vm.id === id)
+
+  let vm: VerificationMethod | undefined
+  if (verificationMethod) {
+    vm = find(verificationMethod)
+    if (!vm) {
+      throw resolutionError(
+        `Verification method ${verificationMethod} not found in DID document`
+      )
+    }
+    if (relationship && !getVerificationMethods(document, relationship).includes(vm)) {
+      throw resolutionError(
+        `Verification method ${vm.id} is not authorized for ${relationship}`
+      )
+    }
+  } else if (relationship) {
+    vm = getVerificationMethods(document, relationship)[0]
+    if (!vm) {
+      throw resolutionError(`DID document has no ${relationship} verification method`)
+    }
+  } else {
+    vm =
+      find(document.assertionMethod[0]) ??
+      find(document.authentication[0]) ??
+      document.verificationMethod[0]
+    if (!vm) {
+      throw resolutionError('No verification method found in DID document')
+    }
+  }
+
+  // A key only authorized for key agreement never verifies signatures
+  const id = vm.id
+  if (
+    document.keyAgreement.includes(id) &&
+    !VERIFICATION_RELATIONSHIPS.some(
+      (r) => r !== 'keyAgreement' && document[r].includes(id)
+    )
+  ) {
+    throw resolutionError(`${id} is a key agreement key, not a signing key`)
+  }
+
+  return vm
+}
+
+/**
+ * Decode the Ed25519 public key of a verification method
+ *
+ * The key material must match the method `type`:
+ * - `Ed25519VerificationKey2020`: `publicKeyMultibase`, Ed25519 multicodec
+ * - `Multikey`: `publicKeyMultibase`; the multicodec prefix names the
+ *   key type, which must be Ed25519
+ * - `JsonWebKey2020` / `JsonWebKey`: `publicKeyJwk`, OKP/Ed25519
+ *
+ * @param vm - Verification method
+ * @returns 32-byte Ed25519 public key
+ * @throws AuthError (AUTH_DID_RESOLUTION_FAILED) if the type is
+ *   unsupported, the key material is missing or does not match the type,
+ *   or the key is not Ed25519
+ */
+export function verificationMethodPublicKey(vm: VerificationMethod): Uint8Array {
+  try {
+    if (vm.publicKeyMultibase !== undefined && vm.publicKeyJwk !== undefined) {
+      throw new Error('Ambiguous key material: both publicKeyMultibase and publicKeyJwk are set')
+    }
+
+    switch (vm.type) {
+      case 'Ed25519VerificationKey2020':
+      case 'Multikey':
+        if (vm.publicKeyMultibase === undefined) {
+          throw new Error(`${vm.type} requires publicKeyMultibase`)
+        }
+        return decodeMultibaseKey(vm.publicKeyMultibase)
+
+      case 'JsonWebKey2020':
+      case 'JsonWebKey':
+        if (vm.publicKeyJwk === undefined) {
+          throw new Error(`${vm.type} requires publicKeyJwk`)
+        }
+        return decodeJwk(vm.publicKeyJwk)
+
+      default:
+        throw new Error(`Unsupported verification method type: ${vm.type}`)
+    }
+  } catch (error) {
+    throw resolutionError(
+      `${vm.id}: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+}
+
+// Multicodec prefixes (varint-encoded) of public key types
+const MULTICODEC_KEY_TYPES: Record<string, string> = {
+  ed01: 'Ed25519',
+  ec01: 'X25519',
+  e701: 'secp256k1',
+  '8024': 'P-256',
+  '8124': 'P-384',
+  '8524': 'RSA',
+}
+
+/**
+ * Decode a base58btc multibase Ed25519 public key ("z6Mk...")
+ */
+function decodeMultibaseKey(multibase: string): Uint8Array {
+  if (!multibase.startsWith('z')) {
+    throw new Error(
+      `publicKeyMultibase must be base58btc (z prefix), got prefix "${multibase.charAt(0)}"`
+    )
+  }
+
+  const payload = decodeBase58btc(multibase)
+  const codec = Array.from(payload.slice(0, 2), (b) =>
+    b.toString(16).padStart(2, '0')
+  ).join('')
+
+  if (codec !== 'ed01') {
+    const keyType = MULTICODEC_KEY_TYPES[codec]
+    throw new Error(
+      keyType
+        ? `Expected an Ed25519 key, got ${keyType} (multicodec 0x${codec})`
+        : `Unknown multicodec prefix 0x${codec}; expected Ed25519 (0xed01)`
+    )
+  }
+
+  if (payload.length !== 34) {
+    throw new Error(
+      `Invalid Ed25519 public key length: expected 32 bytes, got ${payload.length - 2}`
+    )
+  }
+
+  return payload.slice(2, 34)
+}
+
+/**
+ * Decode a public OKP/Ed25519 JWK
+ */
+function decodeJwk(jwk: Record<string, unknown>): Uint8Array {
+  if (jwk.kty !== 'OKP' || jwk.crv !== 'Ed25519') {
+    throw new Error(
+      `Unsupported key type: expected OKP/Ed25519, got ${String(jwk.kty)}/${String(jwk.crv)}`
+    )
+  }
+
+  if (jwk.alg !== undefined && jwk.alg !== 'EdDSA' && jwk.alg !== 'Ed25519') {
+    throw new Error(`JWK alg ${String(jwk.alg)} does not match an Ed25519 key`)
+  }
+
+  if (jwk.use !== undefined && jwk.use !== 'sig') {
+    throw new Error(`JWK is not a signing key (use: ${String(jwk.use)})`)
+  }
+
+  if (typeof jwk.x !== 'string') {
+    throw new Error('JWK is missing "x"')
+  }
+
+  let publicKey: Uint8Array
+  try {
+    publicKey = base64urlnopad.decode(jwk.x)
+  } catch {
+    throw new Error('JWK "x" is not base64url')
+  }
+
+  if (publicKey.length !== 32) {
+    throw new Error(
+      `Invalid Ed25519 public key length: expected 32 bytes, got ${publicKey.length}`
+    )
+  }
+
+  return publicKey
+}
+
+function normalizeVerificationMethod(
+  raw: unknown,
+  did: string,
+  absolute: (id: string) => string
+): VerificationMethod {
+  if (typeof raw !== 'object' || raw === null) {
+    throw new Error('Verification methods must be objects')
+  }
+
+  const { id, type, controller, publicKeyMultibase, publicKeyJwk } =
+    raw as Record<string, unknown>
+
+  if (typeof id !== 'string' || typeof type !== 'string') {
+    throw new Error('Verification methods must have a string id and type')
+  }
+
+  const vm: VerificationMethod = {
+    id: absolute(id),
+    type,
+    controller: typeof controller === 'string' ? controller : did,
+  }
+
+  if (typeof publicKeyMultibase === 'string') {
+    vm.publicKeyMultibase = publicKeyMultibase
+  }
+
+  if (typeof publicKeyJwk === 'object' && publicKeyJwk !== null) {
+    if ((publicKeyJwk as Record<string, unknown>).d !== undefined) {
+      throw new Error(`${vm.id}: JWK must not contain private key material`)
+    }
+    vm.publicKeyJwk = publicKeyJwk as Record<string, unknown>
+  }
+
+  return vm
+}
+
+function arrayMember(raw: Record<string, unknown>, name: string): unknown[] {
+  const value = raw[name]
+  if (value === undefined) {
+    return []
+  }
+  if (!Array.isArray(value)) {
+    throw new Error(`${name} must be an array`)
+  }
+  return value
+}
+
+function stringList(value: unknown, name: string): string[] {
+  const list = Array.isArray(value) ? value : [value]
+  if (!list.every((item) => typeof item === 'string')) {
+    throw new Error(`${name} must be a string or an array of strings`)
+  }
+  return list
+}
+
+function declaresRelationships(document: DIDDocument): boolean {
+  return VERIFICATION_RELATIONSHIPS.some((r) => document[r].length > 0)
+}
+
+function resolutionError(message: string): AuthError {
+  return new AuthError(AuthErrorCode.AUTH_DID_RESOLUTION_FAILED, message)
+}
@@ -0,0 +1,124 @@
+/**
+ * did:jwk support
+ * A DID that is a base64url-encoded public JWK:
+ *   did:jwk:eyJrdHkiOiJPS1AiLCJjcnYiOiJFZDI1NTE5IiwieCI6Ii4uLiJ9
+ * The document has a single verification method, "#0".
+ */
+
+import { base64urlnopad } from '@scure/base'
+import { AuthError, AuthErrorCode } from './errors'
+import { selectVerificationMethod, verificationMethodPublicKey } from './did-document'
+import type { DIDDocument, DIDResolver } from './types'
+
+/**
+ * Convert an Ed25519 public key to a did:jwk identifier
+ *
+ * @param publicKey - 32-byte Ed25519 public key
+ * @returns did:jwk identifier
+ * @throws Error if public key is invalid
+ */
+export function publicKeyToDidJwk(publicKey: Uint8Array): string {
+  if (publicKey.length !== 32) {
+    throw new Error('Ed25519 public key must be 32 bytes')
+  }
+
+  // Members in lexicographic order, as for a JWK thumbprint
+  const jwk = JSON.stringify({
+    crv: 'Ed25519',
+    kty: 'OKP',
+    x: base64urlnopad.encode(publicKey),
+  })
+  return `did:jwk:${base64urlnopad.encode(new TextEncoder().encode(jwk))}`
+}
+
+/**
+ * Build the DID document of a did:jwk identifier
+ *
+ * Procedure:
+ * 1. base64url-decode the method-specific identifier
+ * 2. Parse as a JWK; it must be a public key (no "d")
+ * 3. List it as the single verification method "#0", authorized for
+ *    signing unless `use` is "enc", and for key agreement unless `use`
+ *    is "sig"
+ *
+ * @param did - did:jwk identifier
+ * @returns DID document
+ * @throws AuthError if the DID is not a valid did:jwk
+ */
+export function didJwkToDocument(did: string): DIDDocument {
+  if (!did.startsWith('did:jwk:')) {
+    throw new AuthError(
+      AuthErrorCode.AUTH_INVALID_REQUEST,
+      'DID is not a did:jwk'
+    )
+  }
+
+  try {
+    // Step 1-2: Decode and parse the JWK
+    const encoded = did.slice('did:jwk:'.length)
+    const jwk = JSON.parse(new TextDecoder().decode(base64urlnopad.decode(encoded)))
+
+    if (typeof jwk !== 'object' || jwk === null || Array.isArray(jwk)) {
+      throw new Error('Identifier is not a JSON object')
+    }
+
+    if (jwk.d !== undefined) {
+      throw new Error('JWK must not contain private key material')
+    }
+
+    // Step 3: Single verification method
+    const id = `${did}#0`
+    const signing = jwk.use === 'enc' ? [] : [id]
+    return {
+      id: did,
+      verificationMethod: [
+        { id, type: 'JsonWebKey2020', controller: did, publicKeyJwk: jwk },
+      ],
+      authentication: signing,
+      assertionMethod: signing,
+      keyAgreement: jwk.use === 'sig' ? [] : [id],
+      capabilityInvocation: signing,
+      capabilityDelegation: signing,
+      service: [],
+    }
+  } catch (error) {
+    throw new AuthError(
+      AuthErrorCode.AUTH_DID_RESOLUTION_FAILED,
+      `Failed to resolve did:jwk: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+}
+
+/**
+ * Extract the Ed25519 public key from a did:jwk identifier
+ *
+ * @param did - did:jwk identifier
+ * @param verificationMethod - Optional DID URL; must be the "#0" method
+ * @returns 32-byte Ed25519 public key
+ * @throws AuthError if the DID is not a usable Ed25519 did:jwk signing key
+ */
+export function didJwkToPublicKey(
+  did: string,
+  verificationMethod?: string
+): Uint8Array {
+  const document = didJwkToDocument(did)
+
+  try {
+    return verificationMethodPublicKey(
+      selectVerificationMethod(document, verificationMethod)
+    )
+  } catch (error) {
+    throw new AuthError(
+      AuthErrorCode.AUTH_DID_RESOLUTION_FAILED,
+      `Failed to resolve did:jwk: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+}
+
+/** Resolver for did:jwk (no network access) */
+export const didJwkResolver: DIDResolver = {
+  method: 'jwk',
+  async resolve(parsed) {
+    return didJwkToDocument(parsed.did)
+  },
+}
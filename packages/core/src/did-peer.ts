@@ -0,0 +1,234 @@
+/**
+ * did:peer support (numalgo 0 and 2)
+ * Numalgo 0 wraps a single inception key, like did:key:
+ *   did:peer:0z6Mk...
+ * Numalgo 2 lists keys and services, each prefixed by its purpose:
+ *   did:peer:2.Az6Mk...(assertion).Vz6Mk...(authentication).Ez6LS...(key agreement).S...(service)
+ * Keys are numbered "#key-1", "#key-2", ... in order of appearance, and
+ * services "#service", "#service-1", ...
+ */
+
+import { base64urlnopad } from '@scure/base'
+import { decodeBase58btc } from './base58'
+import { AuthError, AuthErrorCode } from './errors'
+import { selectVerificationMethod, verificationMethodPublicKey } from './did-document'
+import type {
+  DIDDocument,
+  DIDResolver,
+  DIDService,
+  VerificationRelationship,
+} from './types'
+
+// Numalgo 2 purpose codes that carry keys (S carries a service)
+const KEY_PURPOSES: Record<string, VerificationRelationship> = {
+  A: 'assertionMethod',
+  V: 'authentication',
+  E: 'keyAgreement',
+  I: 'capabilityInvocation',
+  D: 'capabilityDelegation',
+}
+
+// Abbreviated service members and values (did:peer numalgo 2)
+const SERVICE_ABBREVIATIONS: Record<string, string> = {
+  t: 'type',
+  s: 'serviceEndpoint',
+  r: 'routingKeys',
+  a: 'accept',
+}
+
+/**
+ * Build the DID document of a did:peer identifier
+ *
+ * Numalgo 0: the inception key, authorized like a did:key.
+ * Numalgo 2: each key, named "#key-N" and authorized for its purpose,
+ * and each service, named "#service", "#service-1", ...
+ *
+ * @param did - did:peer identifier
+ * @returns DID document
+ * @throws AuthError AUTH_UNSUPPORTED_DID_METHOD for other numalgos,
+ *   AUTH_DID_RESOLUTION_FAILED if the DID is invalid
+ */
+export function didPeerToDocument(did: string): DIDDocument {
+  if (!did.startsWith('did:peer:')) {
+    throw new AuthError(
+      AuthErrorCode.AUTH_INVALID_REQUEST,
+      'DID is not a did:peer'
+    )
+  }
+
+  const identifier = did.slice('did:peer:'.length)
+  const numalgo = identifier.charAt(0)
+
+  if (numalgo !== '0' && numalgo !== '2') {
+    throw new AuthError(
+      AuthErrorCode.AUTH_UNSUPPORTED_DID_METHOD,
+      `Unsupported did:peer numalgo: ${numalgo}. Only numalgo 0 and 2 are supported.`
+    )
+  }
+
+  try {
+    const document: DIDDocument = {
+      id: did,
+      verificationMethod: [],
+      authentication: [],
+      assertionMethod: [],
+      keyAgreement: [],
+      capabilityInvocation: [],
+      capabilityDelegation: [],
+      service: [],
+    }
+
+    if (numalgo === '0') {
+      const multibase = identifier.slice(1)
+      checkMultibase(multibase)
+
+      const id = `${did}#${multibase}`
+      document.verificationMethod.push({
+        id,
+        type: 'Multikey',
+        controller: did,
+        publicKeyMultibase: multibase,
+      })
+      document.authentication.push(id)
+      document.assertionMethod.push(id)
+      document.capabilityInvocation.push(id)
+      document.capabilityDelegation.push(id)
+      return document
+    }
+
+    // Numalgo 2: ".<purpose><value>" elements
+    for (const element of identifier.slice(1).split('.').slice(1)) {
+      const purpose = element.charAt(0)
+      const value = element.slice(1)
+
+      if (purpose === 'S') {
+        for (const service of decodeServices(value)) {
+          const index = document.service.length
+          document.service.push({
+            ...service,
+            id:
+              typeof service.id === 'string'
+                ? service.id.startsWith('#') ? `${did}${service.id}` : service.id
+                : `${did}#service${index === 0 ? '' : `-${index}`}`,
+          })
+        }
+        continue
+      }
+
+      const relationship = KEY_PURPOSES[purpose]
+      if (!relationship) {
+        throw new Error(`Unknown purpose code: ${purpose}`)
+      }
+
+      checkMultibase(value)
+      const id = `${did}#key-${document.verificationMethod.length + 1}`
+      document.verificationMethod.push({
+        id,
+        type: 'Multikey',
+        controller: did,
+        publicKeyMultibase: value,
+      })
+      document[relationship].push(id)
+    }
+
+    return document
+  } catch (error) {
+    throw new AuthError(
+      AuthErrorCode.AUTH_DID_RESOLUTION_FAILED,
+      `Failed to resolve did:peer: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+}
+
+/**
+ * Extract an Ed25519 public key from a did:peer identifier
+ *
+ * Numalgo 0: the inception key (the verification method is not checked,
+ * as for did:key).
+ * Numalgo 2: the key named by `verificationMethod` ("#key-N"), or else
+ * the first assertion (A) key, then the first authentication (V) key.
+ *
+ * @param did - did:peer identifier
+ * @param verificationMethod - Optional DID URL, e.g. "did:peer:2...#key-1"
+ * @returns 32-byte Ed25519 public key
+ * @throws AuthError AUTH_UNSUPPORTED_DID_METHOD for other numalgos,
+ *   AUTH_DID_RESOLUTION_FAILED if the DID or key is invalid
+ */
+export function didPeerToPublicKey(
+  did: string,
+  verificationMethod?: string
+): Uint8Array {
+  const document = didPeerToDocument(did)
+
+  try {
+    const vm = did.startsWith('did:peer:0')
+      ? document.verificationMethod[0]
+      : selectVerificationMethod(document, verificationMethod)
+
+    return verificationMethodPublicKey(vm)
+  } catch (error) {
+    throw new AuthError(
+      AuthErrorCode.AUTH_DID_RESOLUTION_FAILED,
+      `Failed to resolve did:peer: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+}
+
+/**
+ * Check a key is base58btc multibase ("z6Mk...", "z6LS...")
+ */
+function checkMultibase(multibase: string): void {
+  if (!multibase.startsWith('z')) {
+    throw new Error('Key must be base58btc multibase (z prefix)')
+  }
+  decodeBase58btc(multibase)
+}
+
+/**
+ * Decode a base64url JSON service element (one service or an array),
+ * expanding abbreviations
+ */
+function decodeServices(encoded: string): Array<DIDService & Record<string, unknown>> {
+  const json = JSON.parse(
+    new TextDecoder().decode(base64urlnopad.decode(encoded.replace(/=+$/, '')))
+  )
+  const services = Array.isArray(json) ? json : [json]
+
+  return services.map((service) => {
+    const expanded = expandService(service) as Record<string, unknown> | null
+    if (
+      typeof expanded !== 'object' ||
+      expanded === null ||
+      expanded.type === undefined ||
+      expanded.serviceEndpoint === undefined
+    ) {
+      throw new Error('Service must have a type and serviceEndpoint')
+    }
+    return expanded as DIDService & Record<string, unknown>
+  })
+}
+
+function expandService(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(expandService)
+  }
+  if (typeof value !== 'object' || value === null) {
+    return value
+  }
+
+  const expanded: Record<string, unknown> = {}
+  for (const [key, member] of Object.entries(value)) {
+    const name = SERVICE_ABBREVIATIONS[key] ?? key
+    expanded[name] =
+      name === 'type' && member === 'dm' ? 'DIDCommMessaging' : expandService(member)
+  }
+  return expanded
+}
+
+/** Resolver for did:peer numalgo 0 and 2 (no network access) */
+export const didPeerResolver: DIDResolver = {
+  method: 'peer',
+  async resolve(parsed) {
+    return didPeerToDocument(parsed.did)
+  },
+}
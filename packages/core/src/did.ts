@@ -1,22 +1,96 @@
 /**
  * DID (Decentralized Identifier) utilities
  * Based on AAA-SPEC.md Section 5.2
- * Supports did:key and did:web methods
+ * Supports did:key, did:web, did:jwk and did:peer, plus any method
+ * registered with registerDIDResolver()
  */
 
-import type { ParsedDID } from './types'
+import type {
+  DIDDocument,
+  DIDDocumentCache,
+  DIDDocumentCacheEntry,
+  DIDResolutionOptions,
+  DIDWebCacheOptions,
+  DIDResolver,
+  ParsedDID,
+  VerificationRelationship,
+} from './types'
 import { encodeBase58btc, decodeBase58btc } from './base58'
 import { AuthError, AuthErrorCode } from './errors'
+import {
+  normalizeDIDDocument,
+  selectVerificationMethod,
+  verificationMethodPublicKey,
+} from './did-document'
+import { didJwkResolver } from './did-jwk'
+import { fetchWithGuard } from './outbound-fetch'
+import { didPeerResolver } from './did-peer'
 
 // Ed25519 multicodec prefix: 0xed01
 const ED25519_MULTICODEC = new Uint8Array([0xed, 0x01])
 
+// Registered resolvers by method name; built-ins are added at the end
+// of this module
+const resolvers = new Map<string, DIDResolver>()
+
+/**
+ * Register a resolver for a DID method, replacing any existing resolver
+ * for that method
+ *
+ * @param resolver - Resolver; its `method` must be lowercase alphanumeric
+ * @throws Error if the method name is invalid
+ *
+ * @example
+ * ```typescript
+ * registerDIDResolver({
+ *   method: 'example',
+ *   async resolve(parsed) {
+ *     return normalizeDIDDocument(await lookupDocument(parsed.identifier), parsed.did)
+ *   },
+ * })
+ * ```
+ */
+export function registerDIDResolver(resolver: DIDResolver): void {
+  if (!/^[a-z0-9]+$/.test(resolver.method)) {
+    throw new Error(`Invalid DID method name: ${resolver.method}`)
+  }
+  resolvers.set(resolver.method, resolver)
+}
+
+/**
+ * Remove the resolver for a DID method, so its DIDs are rejected
+ *
+ * @param method - DID method name, e.g. "peer"
+ * @returns true if a resolver was registered
+ */
+export function unregisterDIDResolver(method: string): boolean {
+  return resolvers.delete(method)
+}
+
+/**
+ * Check whether a DID method has a registered resolver
+ *
+ * @param method - DID method name, e.g. "jwk"
+ */
+export function isSupportedDIDMethod(method: string): boolean {
+  return resolvers.has(method)
+}
+
+/**
+ * List the DID methods with a registered resolver
+ *
+ * @returns Method names, in registration order
+ */
+export function supportedDIDMethods(): string[] {
+  return [...resolvers.keys()]
+}
+
 /**
  * Parse a DID string into its components
  *
- * @param did - DID string (did:key:... or did:web:...)
+ * @param did - DID string (did:key:..., did:web:..., etc.)
  * @returns Parsed DID components
- * @throws AuthError if DID format is invalid
+ * @throws AuthError if DID format is invalid or its method is not registered
  */
 export function parseDID(did: string): ParsedDID {
   if (!did.startsWith('did:')) {
@@ -38,16 +112,18 @@ export function parseDID(did: string): ParsedDID {
   const method = parts[1]
   const identifier = parts.slice(2).join(':')
 
-  if (method !== 'key' && method !== 'web') {
+  if (!resolvers.has(method)) {
     throw new AuthError(
       AuthErrorCode.AUTH_UNSUPPORTED_DID_METHOD,
-      `Unsupported DID method: ${method}. Only did:key and did:web are supported.`
+      `Unsupported DID method: ${method}. Supported methods: ${supportedDIDMethods()
+        .map((m) => `did:${m}`)
+        .join(', ')}.`
     )
   }
 
   return {
     did,
-    method: method as 'key' | 'web',
+    method,
     identifier,
   }
 }
@@ -139,41 +215,66 @@ export function didKeyToPublicKey(didKey: string): Uint8Array {
 }
 
 /**
- * Resolve did:web to retrieve the DID document and extract public key
+ * Build the DID document of a did:key identifier
+ *
+ * The key is its single verification method ("#z6Mk..."), authorized
+ * for authentication, assertions and capabilities.
+ *
+ * @param didKey - did:key identifier
+ * @returns DID document
+ * @throws AuthError if did:key format is invalid
+ */
+export function didKeyToDocument(didKey: string): DIDDocument {
+  didKeyToPublicKey(didKey) // validates the identifier
+  const multibase = parseDID(didKey).identifier
+  const id = `${didKey}#${multibase}`
+
+  return {
+    id: didKey,
+    verificationMethod: [
+      {
+        id,
+        type: 'Ed25519VerificationKey2020',
+        controller: didKey,
+        publicKeyMultibase: multibase,
+      },
+    ],
+    authentication: [id],
+    assertionMethod: [id],
+    keyAgreement: [],
+    capabilityInvocation: [id],
+    capabilityDelegation: [id],
+    service: [],
+  }
+}
+
+/**
+ * Resolve did:web to retrieve the DID document
  *
  * Procedure (SPEC §5.2.3):
  * 1. Parse DID string
  * 2. Replace ':' with '/' in identifier
  * 3. URL-decode percent-encoded characters
  * 4. Construct URL: https://{domain}/.well-known/did.json
- * 5. Fetch with timeout (2s), size limit (100KB), max redirects (3)
- * 6. Parse JSON → extract verificationMethod
- * 7. Find key matching verification_method from proof
- * 8. Decode publicKeyMultibase → return public key
+ * 5. Fetch with timeout (2s), size limit (100KB), max redirects (3),
+ *    refusing private and reserved addresses (see fetchWithGuard())
+ * 6. Parse JSON → normalize the DID document
+ *
+ * With `options.cache`, documents are reused while fresh per the
+ * response's `Cache-Control` (or `Expires`) headers, expired documents
+ * are served while being refetched in the background
+ * (stale-while-revalidate), and failures are remembered briefly.
  *
  * @param did - did:web identifier
- * @param verificationMethod - Optional DID URL to look up specific key (e.g., "did:web:example.com#key-1")
- * @param options - Fetch options (timeout, maxBytes, maxRedirects, fetch function)
- * @returns 32-byte Ed25519 public key
+ * @param options - Fetch options (timeout, maxBytes, maxRedirects, fetch
+ *   function, address filtering, cache)
+ * @returns Normalized DID document
  * @throws AuthError if resolution fails
  */
-export async function resolveDidWeb(
+export async function resolveDidWebDocument(
   did: string,
-  verificationMethod?: string,
-  options: {
-    timeoutMs?: number
-    maxBytes?: number
-    maxRedirects?: number
-    fetchFn?: typeof globalThis.fetch
-  } = {}
-): Promise<Uint8Array> {
-  const {
-    timeoutMs = 2000,
-    maxBytes = 102400, // 100 KB
-    maxRedirects = 3,
-    fetchFn = globalThis.fetch,
-  } = options
-
+  options: DIDResolutionOptions = {}
+): Promise<DIDDocument> {
   const parsed = parseDID(did)
 
   if (parsed.method !== 'web') {
@@ -184,192 +285,322 @@ export async function resolveDidWeb(
   }
 
   try {
-    // Step 2-3: Replace ':' with '/', URL-decode
-    const domain = parsed.identifier.replace(/:/g, '/')
-    const decoded = decodeURIComponent(domain)
-
-    // Step 4: Construct URL
-    let url = `https://${decoded}/.well-known/did.json`
-
-    // Step 5: Fetch with safety limits and redirect tracking
-    // SPEC §5.2.3: "Do NOT follow more than 3 redirects"
-    let redirectCount = 0
-    let response: Response
-
-    while (true) {
-      const controller = new AbortController()
-      const timer = setTimeout(() => controller.abort(), timeoutMs)
-
-      try {
-        response = await fetchFn(url, {
-          signal: controller.signal,
-          redirect: 'manual', // Handle redirects manually
-          headers: { Accept: 'application/json' },
-        })
-      } finally {
-        clearTimeout(timer)
-      }
+    const didDocument = options.cache
+      ? await resolveCachedDidWebDocument(parsed, options, options.cache)
+      : (await fetchDidWebDocument(parsed, options)).document
 
-      // Handle redirects manually (3xx status codes)
-      if (response.status >= 300 && response.status < 400) {
-        const location = response.headers.get('location')
+    return normalizeDIDDocument(didDocument, did)
+  } catch (error) {
+    throw new AuthError(
+      AuthErrorCode.AUTH_DID_RESOLUTION_FAILED,
+      `Failed to resolve did:web: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+}
 
-        if (!location) {
-          throw new Error(`Redirect response (${response.status}) without Location header`)
-        }
+/**
+ * Resolve did:web and extract a public key
+ *
+ * The key is the verification method named by `verificationMethod`, or
+ * else the first `assertionMethod`, `authentication` or listed method
+ * (see selectVerificationMethod()).
+ *
+ * @param did - did:web identifier
+ * @param verificationMethod - Optional DID URL to look up specific key (e.g., "did:web:example.com#key-1")
+ * @param options - Fetch options (timeout, maxBytes, maxRedirects, fetch function, cache)
+ * @returns 32-byte Ed25519 public key
+ * @throws AuthError if resolution fails
+ */
+export async function resolveDidWeb(
+  did: string,
+  verificationMethod?: string,
+  options: DIDResolutionOptions = {}
+): Promise<Uint8Array> {
+  const document = await resolveDidWebDocument(did, options)
 
-        if (redirectCount >= maxRedirects) {
-          throw new Error(
-            `Too many redirects (>${maxRedirects}). Redirect loops prevented per SPEC §5.2.3`
-          )
-        }
+  try {
+    return verificationMethodPublicKey(
+      selectVerificationMethod(document, verificationMethod)
+    )
+  } catch (error) {
+    throw new AuthError(
+      AuthErrorCode.AUTH_DID_RESOLUTION_FAILED,
+      `Failed to resolve did:web: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+}
 
-        redirectCount++
-        // Handle relative and absolute URLs
-        url = new URL(location, url).toString()
-        continue
-      }
+/**
+ * Fetch and parse a did:web document (steps 2-6)
+ *
+ * @returns The document and the response headers, for caching
+ */
+async function fetchDidWebDocument(
+  parsed: ParsedDID,
+  options: DIDResolutionOptions
+): Promise<{ document: Record<string, unknown>; headers: Headers }> {
+  // Step 2-3: Replace ':' with '/', URL-decode
+  const domain = parsed.identifier.replace(/:/g, '/')
+  const decoded = decodeURIComponent(domain)
+
+  // Step 4: Construct URL
+  const url = `https://${decoded}/.well-known/did.json`
+
+  // Step 5: Fetch with safety limits, refusing private addresses
+  const { body, headers } = await fetchWithGuard(url, {
+    ...options,
+    headers: { Accept: 'application/json' },
+  })
+
+  // Step 6: Parse JSON
+  const bodyText = new TextDecoder().decode(body)
+  const didDocument = JSON.parse(bodyText)
+
+  if (typeof didDocument !== 'object' || didDocument === null) {
+    throw new Error('DID document must be a JSON object')
+  }
 
-      // Non-redirect response - break the loop
-      break
-    }
+  return { document: didDocument, headers }
+}
 
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`)
-    }
+// In-flight fetches per cache store and DID, so concurrent misses and
+// background revalidations share one request
+const inflight = new WeakMap<
+  DIDDocumentCache,
+  Map<string, Promise<DIDDocumentCacheEntry>>
+>()
 
-    if (!response.body) {
-      throw new Error('Response body is empty')
-    }
+/**
+ * Resolve a did:web document through the cache
+ *
+ * Fresh entries are served as-is (a cached failure is rethrown), stale
+ * entries are served while a background refetch replaces them, and
+ * anything else is fetched now.
+ */
+async function resolveCachedDidWebDocument(
+  parsed: ParsedDID,
+  options: DIDResolutionOptions,
+  cache: DIDWebCacheOptions
+): Promise<Record<string, unknown>> {
+  const now = Date.now()
+  const cached = await cache.store.get(parsed.did)
+
+  let entry: DIDDocumentCacheEntry
+  if (cached && now < cached.expiresAt) {
+    entry = cached
+  } else if (cached?.document && now < cached.staleUntil) {
+    // A failed revalidation keeps the stale document until staleUntil
+    refreshDidWebDocument(parsed, options, cache).catch(() => undefined)
+    entry = cached
+  } else {
+    entry = await refreshDidWebDocument(parsed, options, cache)
+  }
 
-    // Read body with size limit
-    const chunks: Uint8Array[] = []
-    let totalBytes = 0
-    const reader = response.body.getReader()
+  if (!entry.document) {
+    throw new Error(entry.error ?? 'DID document unavailable')
+  }
+  return entry.document
+}
 
-    try {
-      while (true) {
-        const { done, value } = await reader.read()
-        if (done) break
+/**
+ * Fetch a did:web document and store the outcome in the cache
+ *
+ * Successes are stored for as long as the response headers allow;
+ * failures for `negativeTtlSeconds`, unless a stale document is still
+ * servable (stale-if-error). Rejects only if the cache store fails.
+ */
+function refreshDidWebDocument(
+  parsed: ParsedDID,
+  options: DIDResolutionOptions,
+  cache: DIDWebCacheOptions
+): Promise<DIDDocumentCacheEntry> {
+  let pending = inflight.get(cache.store)
+  if (!pending) {
+    pending = new Map()
+    inflight.set(cache.store, pending)
+  }
 
-        totalBytes += value.byteLength
-        if (totalBytes > maxBytes) {
-          throw new Error(`Response exceeded ${maxBytes} bytes`)
-        }
+  const existing = pending.get(parsed.did)
+  if (existing) {
+    return existing
+  }
 
-        chunks.push(value)
+  const {
+    defaultTtlSeconds = 300,
+    maxTtlSeconds = 3600,
+    negativeTtlSeconds = 30,
+    staleWhileRevalidateSeconds = 60,
+  } = cache
+
+  const refresh = (async (): Promise<DIDDocumentCacheEntry> => {
+    let entry: DIDDocumentCacheEntry
+    try {
+      const { document, headers } = await fetchDidWebDocument(parsed, options)
+      const policy = parseCacheHeaders(headers)
+      if (policy.noStore) {
+        await cache.store.invalidate(parsed.did)
+        return { document, expiresAt: 0, staleUntil: 0 }
       }
-    } finally {
-      reader.releaseLock()
-    }
-
-    // Concatenate chunks
-    const bodyBytes = new Uint8Array(totalBytes)
-    let offset = 0
-    for (const chunk of chunks) {
-      bodyBytes.set(chunk, offset)
-      offset += chunk.length
-    }
-
-    // Step 6: Parse JSON
-    const bodyText = new TextDecoder().decode(bodyBytes)
-    const didDocument = JSON.parse(bodyText)
 
-    // Step 7: Extract verificationMethod array
-    if (!Array.isArray(didDocument.verificationMethod)) {
-      throw new Error('DID document missing verificationMethod array')
-    }
-
-    // Find the key
-    let keyObject
-    if (verificationMethod) {
-      // Look for specific verification method
-      keyObject = didDocument.verificationMethod.find(
-        (vm: any) => vm.id === verificationMethod
+      const now = Date.now()
+      const ttl = Math.min(policy.maxAge ?? defaultTtlSeconds, maxTtlSeconds)
+      const stale = Math.min(
+        policy.staleWhileRevalidate ?? staleWhileRevalidateSeconds,
+        maxTtlSeconds
       )
-      if (!keyObject) {
-        throw new Error(
-          `Verification method ${verificationMethod} not found in DID document`
-        )
+      entry = {
+        document,
+        expiresAt: now + ttl * 1000,
+        staleUntil: now + (ttl + stale) * 1000,
       }
-    } else {
-      // Use first assertionMethod or first verificationMethod
-      if (Array.isArray(didDocument.assertionMethod)) {
-        const assertionMethodId =
-          typeof didDocument.assertionMethod[0] === 'string'
-            ? didDocument.assertionMethod[0]
-            : didDocument.assertionMethod[0]?.id
-
-        keyObject = didDocument.verificationMethod.find(
-          (vm: any) => vm.id === assertionMethodId
-        )
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      const now = Date.now()
+      entry = {
+        error: message,
+        expiresAt: now + negativeTtlSeconds * 1000,
+        staleUntil: now + negativeTtlSeconds * 1000,
       }
 
-      if (!keyObject) {
-        keyObject = didDocument.verificationMethod[0]
+      const cached = await cache.store.get(parsed.did)
+      if (cached?.document && now < cached.staleUntil) {
+        return entry
       }
     }
 
-    if (!keyObject) {
-      throw new Error('No verification method found in DID document')
-    }
+    await cache.store.set(parsed.did, entry)
+    return entry
+  })()
+
+  pending.set(parsed.did, refresh)
+  const clear = () => pending?.delete(parsed.did)
+  refresh.then(clear, clear)
+  return refresh
+}
 
-    // Step 8: Decode publicKeyMultibase
-    if (!keyObject.publicKeyMultibase) {
-      throw new Error('Verification method missing publicKeyMultibase')
+/**
+ * Read freshness from `Cache-Control` (`no-store`, `no-cache`,
+ * `s-maxage`, `max-age`, `stale-while-revalidate`), falling back to
+ * `Expires`. `Age` is subtracted from the freshness lifetime.
+ */
+function parseCacheHeaders(headers: Headers): {
+  maxAge?: number
+  staleWhileRevalidate?: number
+  noStore: boolean
+} {
+  const directives = new Map<string, string | undefined>()
+  for (const part of (headers.get('cache-control') ?? '').split(',')) {
+    const [name, value] = part.trim().split('=', 2)
+    if (name) {
+      directives.set(name.toLowerCase(), value?.replace(/^"|"$/g, ''))
     }
+  }
 
-    const publicKeyMultibase = keyObject.publicKeyMultibase as string
+  if (directives.has('no-store')) {
+    return { noStore: true }
+  }
 
-    // Decode similar to did:key
-    if (!publicKeyMultibase.startsWith('z')) {
-      throw new Error('publicKeyMultibase must start with z')
-    }
+  // no-cache: revalidate before every use
+  if (directives.has('no-cache')) {
+    return { maxAge: 0, staleWhileRevalidate: 0, noStore: false }
+  }
 
-    const payload = decodeBase58btc(publicKeyMultibase)
+  const seconds = (value: string | undefined) => {
+    const parsed = value !== undefined ? parseInt(value, 10) : NaN
+    return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined
+  }
 
-    if (payload.length !== 34) {
-      throw new Error('Invalid public key payload length')
-    }
+  let maxAge =
+    seconds(directives.get('s-maxage')) ?? seconds(directives.get('max-age'))
+
+  const expiresHeader = headers.get('expires')
+  if (maxAge === undefined && expiresHeader !== null) {
+    const expires = Date.parse(expiresHeader)
+    const date = Date.parse(headers.get('date') ?? '') || Date.now()
+    // An invalid Expires means "already expired" (RFC 9111 §5.3)
+    maxAge = Number.isNaN(expires)
+      ? 0
+      : Math.max(0, Math.floor((expires - date) / 1000))
+  }
 
-    if (payload[0] !== 0xed || payload[1] !== 0x01) {
-      throw new Error('Invalid Ed25519 multicodec prefix')
-    }
+  const age = seconds(headers.get('age') ?? undefined)
+  if (maxAge !== undefined && age !== undefined) {
+    maxAge = Math.max(0, maxAge - age)
+  }
 
-    return payload.slice(2, 34)
-  } catch (error) {
-    throw new AuthError(
-      AuthErrorCode.AUTH_DID_RESOLUTION_FAILED,
-      `Failed to resolve did:web: ${error instanceof Error ? error.message : String(error)}`
-    )
+  return {
+    maxAge,
+    staleWhileRevalidate: seconds(directives.get('stale-while-revalidate')),
+    noStore: false,
   }
 }
 
 /**
- * Resolve a DID to a public key (works for both did:key and did:web)
+ * Resolve a DID to its DID document with the resolver registered for
+ * its method
  *
  * @param did - DID string
- * @param verificationMethod - Optional verification method for did:web
- * @param options - Options for did:web resolution
+ * @param options - Options for network-based methods (did:web)
+ * @returns Normalized DID document
+ * @throws AuthError if the method is unsupported or resolution fails
+ */
+export async function resolveDIDDocument(
+  did: string,
+  options: DIDResolutionOptions = {}
+): Promise<DIDDocument> {
+  const parsed = parseDID(did)
+  const resolver = resolvers.get(parsed.method) as DIDResolver
+
+  return await resolver.resolve(parsed, options)
+}
+
+/**
+ * Resolve a DID to a public key
+ *
+ * did:key and did:peer:0 documents hold a single key, which any
+ * verification method of the DID names (older manifests use
+ * "did:key:z6Mk...#key-1").
+ *
+ * @param did - DID string
+ * @param verificationMethod - Optional verification method (DID URL)
+ * @param options - Options for network-based methods (did:web), and the
+ *   relationship the key must be authorized for, e.g. "assertionMethod"
  * @returns 32-byte Ed25519 public key
- * @throws AuthError if resolution fails
+ * @throws AuthError if the method is unsupported, resolution fails, or
+ *   the key is not authorized for the relationship
  */
 export async function resolveDID(
   did: string,
   verificationMethod?: string,
-  options?: {
-    timeoutMs?: number
-    maxBytes?: number
-    maxRedirects?: number
-    fetchFn?: typeof globalThis.fetch
-  }
+  options: DIDResolutionOptions & { relationship?: VerificationRelationship } = {}
 ): Promise<Uint8Array> {
-  const parsed = parseDID(did)
+  const document = await resolveDIDDocument(did, options)
 
-  if (parsed.method === 'key') {
-    return didKeyToPublicKey(did)
-  } else {
-    // did:web
-    return await resolveDidWeb(did, verificationMethod, options)
+  const singleKey = did.startsWith('did:key:') || did.startsWith('did:peer:0')
+  if (singleKey && verificationMethod?.startsWith(`${did}#`)) {
+    verificationMethod = document.verificationMethod[0]?.id
   }
+
+  return verificationMethodPublicKey(
+    selectVerificationMethod(document, verificationMethod, options.relationship)
+  )
 }
+
+// ─── Built-in resolvers ─────────────────────────────────────────────────
+
+registerDIDResolver({
+  method: 'key',
+  async resolve(parsed) {
+    return didKeyToDocument(parsed.did)
+  },
+})
+
+registerDIDResolver({
+  method: 'web',
+  async resolve(parsed, options) {
+    return resolveDidWebDocument(parsed.did, options)
+  },
+})
+
+registerDIDResolver(didJwkResolver)
+registerDIDResolver(didPeerResolver)
@@ -0,0 +1,266 @@
+/**
+ * DPoP-style proof-of-possession for sender-constrained tokens
+ * Follows the proof format of RFC 9449, restricted to Ed25519 (EdDSA)
+ *
+ * A proof is a compact JWS signed with the agent's key:
+ *   header:  { typ: "dpop+jwt", alg: "EdDSA", jwk: { kty: "OKP", crv: "Ed25519", x } }
+ *   payload: { htm, htu, iat, jti, ath? }
+ *
+ * Tokens bound to a key carry `cnf.jkt`, the RFC 7638 thumbprint of that key.
+ */
+
+import { base64urlnopad } from '@scure/base'
+import { sha256 } from '@noble/hashes/sha256'
+import { signBytes, verifySignature, bytesToHex } from './crypto'
+import { randomBytes } from './random'
+import { AuthError, AuthErrorCode } from './errors'
+import type {
+  CreateDPoPProofOptions,
+  DPoPProofPayload,
+  VerifyDPoPProofOptions,
+} from './types'
+
+/** JWS `typ` header value for DPoP proofs */
+export const DPOP_PROOF_TYPE = 'dpop+jwt'
+
+/**
+ * Compute the RFC 7638 JWK thumbprint of an Ed25519 public key
+ *
+ * @param publicKey - 32-byte Ed25519 public key
+ * @returns Base64url-encoded SHA-256 thumbprint (the `cnf.jkt` value)
+ */
+export function computeJwkThumbprint(publicKey: Uint8Array): string {
+  if (publicKey.length !== 32) {
+    throw new Error('Public key must be 32 bytes')
+  }
+
+  // Required members only, in lexicographic order, no whitespace
+  const canonical = `{"crv":"Ed25519","kty":"OKP","x":"${base64urlnopad.encode(publicKey)}"}`
+  return base64urlnopad.encode(sha256(new TextEncoder().encode(canonical)))
+}
+
+/**
+ * Normalize a URL for the `htu` claim: no query, no fragment
+ *
+ * @param url - Request URL
+ * @returns Normalized URL
+ */
+export function normalizeHtu(url: string): string {
+  const parsed = new URL(url)
+  parsed.search = ''
+  parsed.hash = ''
+  return parsed.toString()
+}
+
+/**
+ * Hash an access token for the `ath` claim
+ *
+ * @param accessToken - Access token as sent in the Authorization header
+ * @returns Base64url-encoded SHA-256 hash
+ */
+export function computeAccessTokenHash(accessToken: string): string {
+  return base64urlnopad.encode(sha256(new TextEncoder().encode(accessToken)))
+}
+
+/**
+ * Create a signed DPoP proof for one HTTP request
+ *
+ * @param options - Request method and URL, signer or key pair, and optional
+ *   access token
+ * @returns Compact JWS to send in the `DPoP` header
+ * @throws {Error} if neither a signer nor a key pair is given
+ *
+ * @example
+ * ```typescript
+ * const proof = await createDPoPProof({
+ *   method: 'GET',
+ *   url: 'https://api.example.com/files',
+ *   privateKey: keyPair.privateKey,
+ *   publicKey: keyPair.publicKey,
+ *   accessToken: token,
+ * })
+ * // fetch(url, { headers: { Authorization: `DPoP ${token}`, DPoP: proof } })
+ * ```
+ */
+export async function createDPoPProof(
+  options: CreateDPoPProofOptions
+): Promise<string> {
+  const key = options.signer ?? options.privateKey
+  const publicKey = options.signer?.publicKey ?? options.publicKey
+  if (!key || !publicKey) {
+    throw new Error('createDPoPProof requires a signer, or privateKey and publicKey')
+  }
+
+  const header = {
+    typ: DPOP_PROOF_TYPE,
+    alg: 'EdDSA',
+    jwk: {
+      kty: 'OKP',
+      crv: 'Ed25519',
+      x: base64urlnopad.encode(publicKey),
+    },
+  }
+
+  const payload: DPoPProofPayload = {
+    htm: options.method.toUpperCase(),
+    htu: normalizeHtu(options.url),
+    iat: options.iat ?? Math.floor(Date.now() / 1000),
+    jti: options.jti ?? bytesToHex(randomBytes(16)),
+    ...(options.accessToken !== undefined && {
+      ath: computeAccessTokenHash(options.accessToken),
+    }),
+  }
+
+  const signingInput = `${encodeSegment(header)}.${encodeSegment(payload)}`
+  const signature = await signBytes(
+    new TextEncoder().encode(signingInput),
+    key
+  )
+
+  return `${signingInput}.${base64urlnopad.encode(signature)}`
+}
+
+/**
+ * Verify a DPoP proof against the request it accompanies
+ *
+ * Checks the proof structure and signature, the method and URL, the
+ * proof age, the access token hash and the key thumbprint. Replay
+ * detection (uniqueness of `jti`) is left to the caller, which must
+ * remember `jti` for at least `maxAgeSeconds + clockSkewSeconds`.
+ *
+ * @param proof - Compact JWS from the `DPoP` header
+ * @param options - Request details and expectations
+ * @returns The proof payload and the thumbprint of the proof key
+ * @throws {AuthError} AUTH_INVALID_DPOP_PROOF if any check fails
+ */
+export async function verifyDPoPProof(
+  proof: string,
+  options: VerifyDPoPProofOptions
+): Promise<{ payload: DPoPProofPayload; jkt: string }> {
+  const parts = proof.split('.')
+  if (parts.length !== 3) {
+    throw invalidProof('DPoP proof is not a compact JWS')
+  }
+
+  const header = decodeSegment(parts[0])
+  const payload = decodeSegment(parts[1])
+
+  if (header.typ !== DPOP_PROOF_TYPE || header.alg !== 'EdDSA') {
+    throw invalidProof('DPoP proof must be a dpop+jwt signed with EdDSA')
+  }
+
+  const jwk = header.jwk as Record<string, unknown> | undefined
+  if (
+    !jwk ||
+    typeof jwk !== 'object' ||
+    jwk.kty !== 'OKP' ||
+    jwk.crv !== 'Ed25519' ||
+    typeof jwk.x !== 'string' ||
+    'd' in jwk
+  ) {
+    throw invalidProof('DPoP proof header must carry a public Ed25519 JWK')
+  }
+
+  let publicKey: Uint8Array
+  let signature: Uint8Array
+  try {
+    publicKey = base64urlnopad.decode(jwk.x)
+    signature = base64urlnopad.decode(parts[2])
+  } catch {
+    throw invalidProof('DPoP proof is not base64url-encoded')
+  }
+
+  if (
+    publicKey.length !== 32 ||
+    signature.length !== 64 ||
+    !(await verifySignature(
+      signature,
+      new TextEncoder().encode(`${parts[0]}.${parts[1]}`),
+      publicKey
+    ))
+  ) {
+    throw invalidProof('DPoP proof signature verification failed')
+  }
+
+  if (
+    typeof payload.htm !== 'string' ||
+    typeof payload.htu !== 'string' ||
+    typeof payload.iat !== 'number' ||
+    typeof payload.jti !== 'string' ||
+    payload.jti.length === 0 ||
+    payload.jti.length > 256
+  ) {
+    throw invalidProof('DPoP proof is missing htm, htu, iat or jti')
+  }
+
+  if (payload.htm !== options.method.toUpperCase()) {
+    throw invalidProof('DPoP proof was created for a different HTTP method')
+  }
+
+  if (!sameHtu(payload.htu, options.url)) {
+    throw invalidProof('DPoP proof was created for a different URL')
+  }
+
+  const now = options.now ?? Math.floor(Date.now() / 1000)
+  const skew = options.clockSkewSeconds ?? 5
+  const maxAge = options.maxAgeSeconds ?? 60
+  if (payload.iat > now + skew || payload.iat < now - maxAge - skew) {
+    throw invalidProof('DPoP proof is expired or issued in the future')
+  }
+
+  if (
+    options.accessToken !== undefined &&
+    payload.ath !== computeAccessTokenHash(options.accessToken)
+  ) {
+    throw invalidProof('DPoP proof is not bound to the presented access token')
+  }
+
+  const jkt = computeJwkThumbprint(publicKey)
+  if (options.jkt !== undefined && jkt !== options.jkt) {
+    throw invalidProof('DPoP proof key does not match the token binding')
+  }
+
+  return { payload: payload as unknown as DPoPProofPayload, jkt }
+}
+
+/**
+ * Compare two URLs ignoring query and fragment
+ */
+function sameHtu(a: string, b: string): boolean {
+  try {
+    return normalizeHtu(a) === normalizeHtu(b)
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Encode a JSON object as a base64url JWS segment
+ */
+function encodeSegment(value: object): string {
+  return base64urlnopad.encode(new TextEncoder().encode(JSON.stringify(value)))
+}
+
+/**
+ * Decode a base64url JWS segment into a JSON object
+ */
+function decodeSegment(segment: string): Record<string, unknown> {
+  try {
+    const value: unknown = JSON.parse(
+      new TextDecoder().decode(base64urlnopad.decode(segment))
+    )
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      return value as Record<string, unknown>
+    }
+  } catch {
+    // Fall through
+  }
+  throw invalidProof('DPoP proof is not valid JSON')
+}
+
+/**
+ * Build an AUTH_INVALID_DPOP_PROOF error
+ */
+function invalidProof(message: string): AuthError {
+  return new AuthError(AuthErrorCode.AUTH_INVALID_DPOP_PROOF, message)
+}
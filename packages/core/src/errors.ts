@@ -27,18 +27,30 @@ export enum AuthErrorCode {
   AUTH_DID_NOT_FOUND = 'AUTH_DID_NOT_FOUND',
   AUTH_DID_REJECTED = 'AUTH_DID_REJECTED',
   AUTH_DID_BANNED = 'AUTH_DID_BANNED',
+  AUTH_INSUFFICIENT_SCOPE = 'AUTH_INSUFFICIENT_SCOPE',
+
+  // Conflict errors (409)
+  AUTH_INVALID_STATUS_TRANSITION = 'AUTH_INVALID_STATUS_TRANSITION',
 
   // Pending status (202)
   AUTH_DID_PENDING = 'AUTH_DID_PENDING',
 
   // Token errors (401)
   AUTH_INVALID_TOKEN = 'AUTH_INVALID_TOKEN',
+  AUTH_INVALID_DPOP_PROOF = 'AUTH_INVALID_DPOP_PROOF',
+  AUTH_INVALID_HTTP_SIGNATURE = 'AUTH_INVALID_HTTP_SIGNATURE',
 
   // Rate limiting (429)
   AUTH_RATE_LIMITED = 'AUTH_RATE_LIMITED',
 
   // Internal errors (500)
   AUTH_INTERNAL_ERROR = 'AUTH_INTERNAL_ERROR',
+
+  // Client-side errors: raised by clients, never sent by a server
+  AUTH_TIMEOUT = 'AUTH_TIMEOUT',
+  AUTH_NETWORK_ERROR = 'AUTH_NETWORK_ERROR',
+  AUTH_SERVER_UNAVAILABLE = 'AUTH_SERVER_UNAVAILABLE',
+  AUTH_PROTOCOL_MISMATCH = 'AUTH_PROTOCOL_MISMATCH',
 }
 
 /**
@@ -60,10 +72,18 @@ export const ERROR_STATUS_MAP: Record<AuthErrorCode, number> = {
   [AuthErrorCode.AUTH_DID_NOT_FOUND]: 403,
   [AuthErrorCode.AUTH_DID_REJECTED]: 403,
   [AuthErrorCode.AUTH_DID_BANNED]: 403,
+  [AuthErrorCode.AUTH_INSUFFICIENT_SCOPE]: 403,
+  [AuthErrorCode.AUTH_INVALID_STATUS_TRANSITION]: 409,
   [AuthErrorCode.AUTH_DID_PENDING]: 202,
   [AuthErrorCode.AUTH_INVALID_TOKEN]: 401,
+  [AuthErrorCode.AUTH_INVALID_DPOP_PROOF]: 401,
+  [AuthErrorCode.AUTH_INVALID_HTTP_SIGNATURE]: 401,
   [AuthErrorCode.AUTH_RATE_LIMITED]: 429,
   [AuthErrorCode.AUTH_INTERNAL_ERROR]: 500,
+  [AuthErrorCode.AUTH_TIMEOUT]: 504,
+  [AuthErrorCode.AUTH_NETWORK_ERROR]: 502,
+  [AuthErrorCode.AUTH_SERVER_UNAVAILABLE]: 503,
+  [AuthErrorCode.AUTH_PROTOCOL_MISMATCH]: 502,
 }
 
 /**
@@ -88,20 +108,34 @@ export const ERROR_MESSAGES: Record<AuthErrorCode, string> = {
     'Manifest sequence is lower than previously seen.',
   [AuthErrorCode.AUTH_MANIFEST_REVOKED]: 'Manifest has been revoked.',
   [AuthErrorCode.AUTH_UNSUPPORTED_DID_METHOD]:
-    'DID method is not supported. Only did:key and did:web are allowed.',
+    'DID method is not supported by this server.',
   [AuthErrorCode.AUTH_DID_RESOLUTION_FAILED]:
     'Failed to resolve DID (network error or invalid DID document).',
   [AuthErrorCode.AUTH_DID_NOT_FOUND]:
     'DID is not registered in the access control list.',
   [AuthErrorCode.AUTH_DID_REJECTED]: 'DID registration was rejected.',
   [AuthErrorCode.AUTH_DID_BANNED]: 'DID has been banned.',
+  [AuthErrorCode.AUTH_INSUFFICIENT_SCOPE]:
+    'Token does not grant the scope required for this resource.',
+  [AuthErrorCode.AUTH_INVALID_STATUS_TRANSITION]:
+    'ACL status transition is not allowed.',
   [AuthErrorCode.AUTH_DID_PENDING]:
     'DID registration is pending admin approval.',
   [AuthErrorCode.AUTH_INVALID_TOKEN]:
     'JWT is invalid, expired, or malformed.',
+  [AuthErrorCode.AUTH_INVALID_DPOP_PROOF]:
+    'DPoP proof is missing, invalid, or has been replayed.',
+  [AuthErrorCode.AUTH_INVALID_HTTP_SIGNATURE]:
+    'HTTP request signature is missing, invalid, or has been replayed.',
   [AuthErrorCode.AUTH_RATE_LIMITED]: 'Too many requests. Please retry later.',
   [AuthErrorCode.AUTH_INTERNAL_ERROR]:
     'An internal server error occurred. Please try again later.',
+  [AuthErrorCode.AUTH_TIMEOUT]: 'The server did not respond in time.',
+  [AuthErrorCode.AUTH_NETWORK_ERROR]: 'The server could not be reached.',
+  [AuthErrorCode.AUTH_SERVER_UNAVAILABLE]:
+    'The server is temporarily unavailable. Please try again later.',
+  [AuthErrorCode.AUTH_PROTOCOL_MISMATCH]:
+    'The server response is not a valid ai-agent-auth response.',
 }
 
 /**
@@ -0,0 +1,280 @@
+/**
+ * Signed HTTP requests in the style of HTTP Message Signatures (RFC 9421)
+ *
+ * A request is signed over its method, path, query (if any), body digest
+ * and date, with the agent's DID as `keyid`:
+ *
+ *   Content-Digest:  sha-256=:<base64>:
+ *   Date:            Tue, 07 Apr 2026 12:00:00 GMT
+ *   Signature-Input: sig1=("@method" "@path" "content-digest" "date");created=...;keyid="did:key:...";alg="ed25519";nonce="..."
+ *   Signature:       sig1=:<base64 Ed25519 signature>:
+ *
+ * Only the subset of RFC 9421 needed for this profile is implemented:
+ * one signature per request, Ed25519, and the components listed above.
+ */
+
+import { base64, base64urlnopad } from '@scure/base'
+import { sha256 } from '@noble/hashes/sha256'
+import { bytesToHex } from './crypto'
+import { randomBytes } from './random'
+import type {
+  AgentManifest,
+  HttpSignatureParams,
+  SignableRequest,
+} from './types'
+
+/** Signature label used by signHttpRequest() */
+export const HTTP_SIGNATURE_LABEL = 'sig1'
+
+/** Components every signed request must cover */
+export const REQUIRED_SIGNATURE_COMPONENTS = [
+  '@method',
+  '@path',
+  'content-digest',
+  'date',
+] as const
+
+/**
+ * Header carrying the agent's manifest (base64url-encoded JSON), so a
+ * server that has not cached it can verify it without a session
+ */
+export const AGENT_MANIFEST_HEADER = 'Agent-Manifest'
+
+/**
+ * Encode a manifest for the `Agent-Manifest` header
+ *
+ * @param manifest - Signed agent manifest
+ * @returns Base64url-encoded JSON
+ */
+export function encodeManifestHeader(manifest: AgentManifest): string {
+  return base64urlnopad.encode(new TextEncoder().encode(JSON.stringify(manifest)))
+}
+
+/**
+ * Decode an `Agent-Manifest` header value
+ *
+ * The result is untrusted input: validate it against the manifest
+ * schema and verify its proof before use.
+ *
+ * @param value - Header value
+ * @returns Parsed JSON
+ * @throws {Error} if the value is not base64url-encoded JSON
+ */
+export function decodeManifestHeader(value: string): unknown {
+  return JSON.parse(new TextDecoder().decode(base64urlnopad.decode(value)))
+}
+
+/**
+ * Compute an RFC 9530 `Content-Digest` header value
+ *
+ * @param body - Request body (empty for bodiless requests)
+ * @returns `sha-256=:<base64>:`
+ */
+export function computeContentDigest(body: Uint8Array): string {
+  return `sha-256=:${base64.encode(sha256(body))}:`
+}
+
+/**
+ * Build the signature base (RFC 9421 §2.5) for a request
+ *
+ * @param request - Method, path with query, and headers (lowercase names)
+ * @param components - Covered components, in order
+ * @param params - Signature parameters
+ * @returns Signature base string; the signer signs its UTF-8 bytes
+ * @throws {Error} if a covered header is missing
+ */
+export function buildSignatureBase(
+  request: SignableRequest,
+  components: readonly string[],
+  params: HttpSignatureParams
+): string {
+  const lines = components.map(
+    (component) => `"${component}": ${componentValue(request, component)}`
+  )
+  lines.push(`"@signature-params": ${serializeSignatureParams(components, params)}`)
+  return lines.join('\n')
+}
+
+/**
+ * Serialize covered components and parameters as a `Signature-Input` member
+ *
+ * @param components - Covered components
+ * @param params - Signature parameters
+ * @returns Inner list, e.g. `("@method" "date");created=1;keyid="did:..."`
+ */
+export function serializeSignatureParams(
+  components: readonly string[],
+  params: HttpSignatureParams
+): string {
+  const list = `(${components.map((c) => `"${c}"`).join(' ')})`
+  const nonce = params.nonce !== undefined ? `;nonce="${params.nonce}"` : ''
+  return `${list};created=${params.created};keyid="${params.keyid}";alg="${params.alg}"${nonce}`
+}
+
+/**
+ * Parse a `Signature-Input` header holding a single signature
+ *
+ * @param header - Header value
+ * @returns Label, covered components and parameters
+ * @throws {Error} if the header is malformed or holds several signatures
+ */
+export function parseSignatureInput(header: string): {
+  label: string
+  components: string[]
+  params: HttpSignatureParams
+} {
+  const match = /^([a-z][a-z0-9_.*-]*)=\(([^)]*)\)((?:;[a-z][a-z0-9_.*-]*=(?:\d+|"[^"\\]*"))*)$/.exec(
+    header.trim()
+  )
+  if (!match) {
+    throw new Error('Malformed Signature-Input header')
+  }
+
+  const [, label, list, rawParams] = match
+  const components = list.trim() === '' ? [] : list.trim().split(/\s+/)
+  if (components.some((c) => !/^"[^"\\]+"$/.test(c))) {
+    throw new Error('Malformed Signature-Input component list')
+  }
+
+  const params: Record<string, string | number> = {}
+  for (const param of rawParams.split(';').slice(1)) {
+    const eq = param.indexOf('=')
+    const value = param.slice(eq + 1)
+    params[param.slice(0, eq)] = value.startsWith('"')
+      ? value.slice(1, -1)
+      : Number(value)
+  }
+
+  if (
+    typeof params.created !== 'number' ||
+    typeof params.keyid !== 'string' ||
+    typeof params.alg !== 'string' ||
+    (params.nonce !== undefined && typeof params.nonce !== 'string')
+  ) {
+    throw new Error('Signature-Input must carry created, keyid and alg')
+  }
+
+  return {
+    label,
+    components: components.map((c) => c.slice(1, -1)),
+    params: {
+      created: params.created,
+      keyid: params.keyid,
+      alg: params.alg,
+      ...(params.nonce !== undefined && { nonce: params.nonce as string }),
+    },
+  }
+}
+
+/**
+ * Extract a signature by label from a `Signature` header
+ *
+ * @param header - Header value, e.g. `sig1=:<base64>:`
+ * @param label - Signature label from `Signature-Input`
+ * @returns Raw signature bytes
+ * @throws {Error} if the label is missing or the value is malformed
+ */
+export function parseSignature(header: string, label: string): Uint8Array {
+  for (const member of header.split(',')) {
+    const eq = member.indexOf('=')
+    if (member.slice(0, eq).trim() !== label) {
+      continue
+    }
+
+    const value = member.slice(eq + 1).trim()
+    if (!/^:[A-Za-z0-9+/]*={0,2}:$/.test(value)) {
+      throw new Error('Malformed Signature header')
+    }
+    return base64.decode(value.slice(1, -1))
+  }
+
+  throw new Error(`Signature header has no "${label}" member`)
+}
+
+/**
+ * Sign an HTTP request
+ *
+ * Covers method, path, body digest and date, plus the query when the
+ * URL has one. Returns the headers to add to the request.
+ *
+ * @param request - Method, full URL and body
+ * @param keyid - Signer's DID
+ * @param sign - Ed25519 signer, e.g. `(data) => identity.sign(data)`
+ * @param options - Fixed `created`/`nonce`, mainly for tests
+ * @returns `Content-Digest`, `Date`, `Signature-Input` and `Signature` headers
+ *
+ * @example
+ * ```typescript
+ * const headers = await signHttpRequest(
+ *   { method: 'POST', url, body: new TextEncoder().encode(json) },
+ *   identity.did,
+ *   (data) => identity.sign(data)
+ * )
+ * ```
+ */
+export async function signHttpRequest(
+  request: { method: string; url: string; body?: Uint8Array },
+  keyid: string,
+  sign: (data: Uint8Array) => Promise<Uint8Array>,
+  options: { created?: number; nonce?: string } = {}
+): Promise<Record<string, string>> {
+  const url = new URL(request.url)
+  const created = options.created ?? Math.floor(Date.now() / 1000)
+
+  const headers: Record<string, string> = {
+    'content-digest': computeContentDigest(request.body ?? new Uint8Array(0)),
+    date: new Date(created * 1000).toUTCString(),
+  }
+
+  const components: string[] = [...REQUIRED_SIGNATURE_COMPONENTS]
+  if (url.search) {
+    components.splice(2, 0, '@query')
+  }
+
+  const params: HttpSignatureParams = {
+    created,
+    keyid,
+    alg: 'ed25519',
+    nonce: options.nonce ?? bytesToHex(randomBytes(16)),
+  }
+
+  const base = buildSignatureBase(
+    { method: request.method, path: url.pathname + url.search, headers },
+    components,
+    params
+  )
+  const signature = await sign(new TextEncoder().encode(base))
+
+  return {
+    'Content-Digest': headers['content-digest'],
+    Date: headers.date,
+    'Signature-Input': `${HTTP_SIGNATURE_LABEL}=${serializeSignatureParams(components, params)}`,
+    Signature: `${HTTP_SIGNATURE_LABEL}=:${base64.encode(signature)}:`,
+  }
+}
+
+/**
+ * Resolve the value of one covered component
+ */
+function componentValue(request: SignableRequest, component: string): string {
+  const queryStart = request.path.indexOf('?')
+
+  switch (component) {
+    case '@method':
+      return request.method.toUpperCase()
+    case '@path':
+      return queryStart === -1 ? request.path : request.path.slice(0, queryStart)
+    case '@query':
+      return queryStart === -1 ? '?' : request.path.slice(queryStart)
+    default: {
+      if (component.startsWith('@')) {
+        throw new Error(`Unsupported derived component: ${component}`)
+      }
+      const value = request.headers[component]
+      if (value === undefined) {
+        throw new Error(`Covered header is missing: ${component}`)
+      }
+      return value.trim()
+    }
+  }
+}
@@ -7,7 +7,19 @@
 export type {
   DIDMethod,
   ParsedDID,
+  VerificationRelationship,
+  VerificationMethod,
+  DIDService,
+  DIDDocument,
+  DIDDocumentCacheEntry,
+  DIDDocumentCache,
+  DIDWebCacheOptions,
+  DIDResolutionOptions,
+  DIDResolver,
+  OutboundFetchOptions,
+  GuardedResponse,
   KeyPair,
+  Signer,
   AgentManifest,
   UnsignedManifest,
   RevocationConfig,
@@ -17,16 +29,25 @@ export type {
   AgentInterface,
   APIStandard,
   ManifestProof,
+  ManifestRotation,
   ChallengeRequest,
   ChallengeResponse,
   VerifyRequest,
   VerifyResponse,
+  TokenType,
+  RefreshRequest,
   RegisterRequest,
   RegisterResponse,
+  AgentAuthConfiguration,
   ACLStatus,
   ACLEntry,
   AuthErrorBody,
   AgentTokenPayload,
+  DPoPProofPayload,
+  CreateDPoPProofOptions,
+  VerifyDPoPProofOptions,
+  HttpSignatureParams,
+  SignableRequest,
 } from './types'
 
 // ─── Schemas ────────────────────────────────────────────────────────────
@@ -42,6 +63,7 @@ export {
   AgentInterfaceSchema,
   ManifestCapabilitiesSchema,
   ManifestProofSchema,
+  ManifestRotationSchema,
   RevocationConfigSchema,
   AgentManifestSchema,
   UnsignedManifestSchema,
@@ -49,8 +71,10 @@ export {
   ChallengeResponseSchema,
   VerifyRequestSchema,
   VerifyResponseSchema,
+  RefreshRequestSchema,
   RegisterRequestSchema,
   RegisterResponseSchema,
+  AgentAuthConfigurationSchema,
   ACLEntrySchema,
 } from './schemas'
 
@@ -71,6 +95,7 @@ export {
   verifyChallengeSignature,
   generateChallenge,
   hashSHA256,
+  deriveKeyScrypt,
   hexToBytes,
   bytesToHex,
 } from './crypto'
@@ -92,14 +117,60 @@ export {
   parseDID,
   publicKeyToDidKey,
   didKeyToPublicKey,
+  didKeyToDocument,
   resolveDidWeb,
+  resolveDidWebDocument,
   resolveDID,
+  resolveDIDDocument,
+  registerDIDResolver,
+  unregisterDIDResolver,
+  isSupportedDIDMethod,
+  supportedDIDMethods,
 } from './did'
+export {
+  VERIFICATION_RELATIONSHIPS,
+  normalizeDIDDocument,
+  getVerificationMethods,
+  selectVerificationMethod,
+  verificationMethodPublicKey,
+} from './did-document'
+export { publicKeyToDidJwk, didJwkToPublicKey, didJwkToDocument } from './did-jwk'
+export { didPeerToPublicKey, didPeerToDocument } from './did-peer'
+
+// ─── Outbound fetch ─────────────────────────────────────────────────────
+export { fetchWithGuard, checkOutboundUrl, isPrivateAddress } from './outbound-fetch'
+
+// ─── DPoP ───────────────────────────────────────────────────────────────
+export {
+  DPOP_PROOF_TYPE,
+  computeJwkThumbprint,
+  computeAccessTokenHash,
+  normalizeHtu,
+  createDPoPProof,
+  verifyDPoPProof,
+} from './dpop'
+
+// ─── HTTP Signatures ────────────────────────────────────────────────────
+export {
+  HTTP_SIGNATURE_LABEL,
+  REQUIRED_SIGNATURE_COMPONENTS,
+  AGENT_MANIFEST_HEADER,
+  encodeManifestHeader,
+  decodeManifestHeader,
+  computeContentDigest,
+  buildSignatureBase,
+  serializeSignatureParams,
+  parseSignatureInput,
+  parseSignature,
+  signHttpRequest,
+} from './http-signatures'
 
 // ─── Manifest ───────────────────────────────────────────────────────────
 export {
   signManifest,
   verifyManifest,
+  signManifestRotation,
+  verifyManifestRotation,
   createVerificationMethod,
   validateManifestSequence,
 } from './manifest'
@@ -3,7 +3,12 @@
  * Based on AAA-SPEC.md Section 5.3 and 5.4
  */
 
-import type { AgentManifest, UnsignedManifest } from './types'
+import type {
+  AgentManifest,
+  DIDResolutionOptions,
+  Signer,
+  UnsignedManifest,
+} from './types'
 import { canonicalizeToBytes } from './jcs'
 import { hashSHA256 } from './crypto'
 import { signBytes, verifySignature } from './crypto'
@@ -23,13 +28,13 @@ import { AuthError, AuthErrorCode } from './errors'
  * 6. ATTACH: signed_manifest = { ...unsigned_manifest, proof }
  *
  * @param unsignedManifest - Manifest without proof
- * @param privateKey - 32-byte Ed25519 private key
+ * @param key - 32-byte Ed25519 private key, or a Signer holding the key
  * @param verificationMethod - DID URL for the signing key
  * @returns Signed manifest with proof attached
  */
 export async function signManifest(
   unsignedManifest: UnsignedManifest,
-  privateKey: Uint8Array,
+  key: Uint8Array | Signer,
   verificationMethod: string
 ): Promise<AgentManifest> {
   // Step 1: Canonicalize
@@ -39,7 +44,7 @@ export async function signManifest(
   const hash = hashSHA256(canonicalBytes)
 
   // Step 3: Sign
-  const signatureBytes = await signBytes(hash, privateKey)
+  const signatureBytes = await signBytes(hash, key)
 
   // Step 4: Encode
   const proofValue = encodeBase58btc(signatureBytes)
@@ -66,8 +71,9 @@ export async function signManifest(
  * Procedure (SPEC §5.4):
  * 1. EXTRACT PROOF
  * 2. VALIDATE PROOF STRUCTURE
- * 3. RESOLVE PUBLIC KEY
- * 4. VALIDATE DID MATCH
+ * 3. VALIDATE DID MATCH (before resolving, so only the manifest's own
+ *    DID document is consulted)
+ * 4. RESOLVE PUBLIC KEY (must be an `assertionMethod` key)
  * 5. CANONICALIZE (without proof)
  * 6. HASH
  * 7. DECODE SIGNATURE
@@ -81,14 +87,9 @@ export async function signManifest(
  */
 export async function verifyManifest(
   manifest: AgentManifest,
-  options: {
-    clockSkewSeconds?: number
-    fetchFn?: typeof globalThis.fetch
-    timeoutMs?: number
-    maxBytes?: number
-  } = {}
+  options: DIDResolutionOptions & { clockSkewSeconds?: number } = {}
 ): Promise<boolean> {
-  const { clockSkewSeconds = 60, fetchFn, timeoutMs, maxBytes } = options
+  const { clockSkewSeconds = 60, ...resolution } = options
 
   try {
     // Step 1: Extract proof
@@ -123,14 +124,7 @@ export async function verifyManifest(
       )
     }
 
-    // Step 3: Resolve public key
-    const publicKey = await resolveDID(manifest.id, proof.verification_method, {
-      fetchFn,
-      timeoutMs,
-      maxBytes,
-    })
-
-    // Step 4: Validate DID match
+    // Step 3: Validate DID match
     if (!proof.verification_method.startsWith(manifest.id)) {
       throw new AuthError(
         AuthErrorCode.AUTH_DID_MISMATCH,
@@ -138,6 +132,13 @@ export async function verifyManifest(
       )
     }
 
+    // Step 4: Resolve the public key, which must be an assertion key
+    const publicKey = await resolveDID(
+      manifest.id,
+      proof.verification_method,
+      { ...resolution, relationship: 'assertionMethod' }
+    )
+
     // Step 5: Canonicalize
     const canonicalBytes = canonicalizeToBytes(unsignedManifest)
 
@@ -200,6 +201,116 @@ export async function verifyManifest(
   }
 }
 
+/**
+ * Add a key rotation continuity proof to an unsigned manifest
+ *
+ * The previous key signs the manifest as it will be signed by the new key,
+ * minus the rotation signature itself:
+ * 1. ATTACH: rotation = { previous_did, verification_method }
+ * 2. CANONICALIZE and HASH the result, as in signManifest()
+ * 3. SIGN with the previous key and set rotation.proof_value
+ *
+ * Sign the returned manifest with the new key (signManifest()) afterwards.
+ *
+ * @param unsignedManifest - Manifest for the new key, without proof
+ * @param previousKey - Ed25519 private key being retired, or a Signer holding it
+ * @param previousVerificationMethod - DID URL of the retired key
+ * @returns Unsigned manifest with `rotation` attached
+ *
+ * @example
+ * ```typescript
+ * const withRotation = await signManifestRotation(unsigned, oldKey, 'did:web:agent.example.com#key-1')
+ * const manifest = await signManifest(withRotation, newKey, 'did:web:agent.example.com#key-2')
+ * ```
+ */
+export async function signManifestRotation(
+  unsignedManifest: UnsignedManifest,
+  previousKey: Uint8Array | Signer,
+  previousVerificationMethod: string
+): Promise<UnsignedManifest> {
+  const previousDid = previousVerificationMethod.split('#')[0]
+
+  const canonicalBytes = canonicalizeToBytes({
+    ...unsignedManifest,
+    rotation: { previous_did: previousDid, verification_method: previousVerificationMethod },
+  })
+  const signatureBytes = await signBytes(hashSHA256(canonicalBytes), previousKey)
+
+  return {
+    ...unsignedManifest,
+    rotation: {
+      previous_did: previousDid,
+      verification_method: previousVerificationMethod,
+      proof_value: encodeBase58btc(signatureBytes),
+    },
+  }
+}
+
+/**
+ * Verify the key rotation continuity proof of a manifest
+ *
+ * The previous key is resolved from `rotation.previous_did` without a
+ * relationship requirement: a did:web document usually keeps a retired key
+ * in `verificationMethod` after dropping it from `assertionMethod`.
+ * The manifest's own proof is not checked; use verifyManifest().
+ *
+ * @param manifest - Signed manifest with a `rotation` block
+ * @param options - Resolution options (for did:web)
+ * @returns The DID the manifest was rotated from
+ * @throws AuthError AUTH_INVALID_MANIFEST_SIGNATURE if the manifest has no
+ *   rotation block or the signature does not verify, or a resolution error
+ */
+export async function verifyManifestRotation(
+  manifest: AgentManifest,
+  options: DIDResolutionOptions = {}
+): Promise<string> {
+  const { rotation } = manifest
+
+  if (!rotation) {
+    throw new AuthError(
+      AuthErrorCode.AUTH_INVALID_MANIFEST_SIGNATURE,
+      'Manifest has no rotation proof'
+    )
+  }
+
+  if (!rotation.verification_method.startsWith(`${rotation.previous_did}#`)) {
+    throw new AuthError(
+      AuthErrorCode.AUTH_DID_MISMATCH,
+      'Rotation verification method does not match previous DID'
+    )
+  }
+
+  const publicKey = await resolveDID(rotation.previous_did, rotation.verification_method, options)
+
+  // Signing input: the manifest without proof (JCS skips undefined
+  // members) and rotation.proof_value
+  const canonicalBytes = canonicalizeToBytes({
+    ...manifest,
+    proof: undefined,
+    rotation: {
+      previous_did: rotation.previous_did,
+      verification_method: rotation.verification_method,
+    },
+  })
+
+  try {
+    const signatureBytes = decodeBase58btc(rotation.proof_value)
+    if (
+      signatureBytes.length === 64 &&
+      (await verifySignature(signatureBytes, hashSHA256(canonicalBytes), publicKey))
+    ) {
+      return rotation.previous_did
+    }
+  } catch {
+    // Undecodable signature: fall through
+  }
+
+  throw new AuthError(
+    AuthErrorCode.AUTH_INVALID_MANIFEST_SIGNATURE,
+    'Rotation proof verification failed'
+  )
+}
+
 /**
  * Create a verification method DID URL for a given DID
  *
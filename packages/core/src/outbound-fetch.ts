@@ -0,0 +1,341 @@
+/**
+ * Outbound fetch guard (SSRF protection)
+ * Fetches URLs chosen by agents — did:web documents, remote manifests,
+ * revocation endpoints — without letting them reach internal services:
+ *   - https only, on every redirect hop
+ *   - hosts must not be, or resolve to, private or reserved addresses
+ *   - response bodies are capped while streaming
+ *
+ * Addresses are checked before the request is made; the fetch
+ * implementation resolves the host again when connecting, so a DNS
+ * server that changes its answer in between (rebinding) is not caught.
+ */
+
+import type { GuardedResponse, OutboundFetchOptions } from './types'
+
+// Ranges no agent-controlled URL may reach (RFC 6890 special-purpose
+// registries, plus multicast and broadcast)
+const BLOCKED_RANGES = [
+  '0.0.0.0/8', // "this" network
+  '10.0.0.0/8', // private
+  '100.64.0.0/10', // carrier-grade NAT
+  '127.0.0.0/8', // loopback
+  '169.254.0.0/16', // link-local, cloud metadata
+  '172.16.0.0/12', // private
+  '192.0.0.0/24', // IETF protocol assignments
+  '192.0.2.0/24', // documentation
+  '192.168.0.0/16', // private
+  '198.18.0.0/15', // benchmarking
+  '198.51.100.0/24', // documentation
+  '203.0.113.0/24', // documentation
+  '224.0.0.0/4', // multicast
+  '240.0.0.0/4', // reserved, broadcast
+  '::/128', // unspecified
+  '::1/128', // loopback
+  '100::/64', // discard
+  '2001:db8::/32', // documentation
+  'fc00::/7', // unique local
+  'fe80::/10', // link-local
+  'fec0::/10', // site-local (deprecated)
+  'ff00::/8', // multicast
+].map(parseCidr)
+
+// IPv6 prefixes that embed an IPv4 address in their last 32 bits
+const IPV4_EMBEDDING_RANGES = [
+  '::ffff:0:0/96', // IPv4-mapped
+  '64:ff9b::/96', // NAT64
+].map(parseCidr)
+
+/**
+ * Fetch a URL, refusing to reach private networks
+ *
+ * Procedure, for the URL and each redirect target:
+ * 1. Require https
+ * 2. Unless the host is in `allowedHosts`, refuse "localhost" and hosts
+ *    that are, or resolve (`lookup`) to, a blocked address
+ * 3. Fetch with a timeout, without following redirects
+ * 4. Follow up to `maxRedirects` redirects from step 1
+ * 5. Require a 2xx status; read the body up to `maxBytes`
+ *
+ * @param url - https URL to fetch
+ * @param options - Limits, address filtering and request headers
+ * @returns The final URL, response headers and body
+ * @throws Error if a check fails, the request fails, or the response is
+ *   not 2xx or too large
+ *
+ * @example
+ * ```typescript
+ * const { body } = await fetchWithGuard(endpoint, {
+ *   maxBytes: 10240,
+ *   lookup: async (host) => (await dns.lookup(host, { all: true })).map((a) => a.address),
+ *   headers: { Accept: 'application/json' },
+ * })
+ * ```
+ */
+export async function fetchWithGuard(
+  url: string,
+  options: OutboundFetchOptions & { headers?: Record<string, string> } = {}
+): Promise<GuardedResponse> {
+  const {
+    timeoutMs = 2000,
+    maxBytes = 102400, // 100 KB
+    maxRedirects = 3,
+    fetchFn = globalThis.fetch,
+    headers,
+  } = options
+
+  // SPEC §5.2.3: "Do NOT follow more than 3 redirects"
+  for (let redirectCount = 0; ; redirectCount++) {
+    // Step 1-2: Check the target
+    await checkOutboundUrl(url, options)
+
+    // Step 3: Fetch, handling redirects manually
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(), timeoutMs)
+
+    try {
+      const response = await fetchFn(url, {
+        signal: controller.signal,
+        redirect: 'manual',
+        headers,
+      })
+
+      // Step 4: Redirects (3xx status codes)
+      if (response.status >= 300 && response.status < 400) {
+        const location = response.headers.get('location')
+
+        if (!location) {
+          throw new Error(`Redirect response (${response.status}) without Location header`)
+        }
+
+        if (redirectCount >= maxRedirects) {
+          throw new Error(
+            `Too many redirects (>${maxRedirects}). Redirect loops prevented per SPEC §5.2.3`
+          )
+        }
+
+        // Handle relative and absolute URLs
+        url = new URL(location, url).toString()
+        continue
+      }
+
+      // Step 5: Status and body
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+      }
+
+      return { url, headers: response.headers, body: await readBody(response, maxBytes) }
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+}
+
+/**
+ * Check that a URL may be fetched (steps 1-2 of fetchWithGuard())
+ *
+ * @param url - Absolute URL
+ * @param options - Address filtering options
+ * @throws Error if the URL is not https or its host is blocked
+ */
+export async function checkOutboundUrl(
+  url: string,
+  options: Pick<OutboundFetchOptions, 'lookup' | 'allowedHosts' | 'allowedAddressRanges'> = {}
+): Promise<void> {
+  const parsed = new URL(url)
+
+  if (parsed.protocol !== 'https:') {
+    throw new Error(`Refusing to fetch non-HTTPS URL: ${url}`)
+  }
+
+  // IPv6 literals keep their brackets in URL.hostname
+  const host = parsed.hostname.replace(/^\[(.*)\]$/, '$1').toLowerCase()
+
+  if (options.allowedHosts?.some((pattern) => matchesHost(host, pattern))) {
+    return
+  }
+
+  if (host === 'localhost' || host.endsWith('.localhost')) {
+    throw new Error(`Refusing to fetch ${host}: loopback host`)
+  }
+
+  const allowed = (options.allowedAddressRanges ?? []).map(parseCidr)
+  const addresses = parseIp(host)
+    ? [host]
+    : options.lookup
+      ? await options.lookup(host)
+      : []
+
+  for (const address of addresses) {
+    if (isBlockedAddress(address, allowed)) {
+      throw new Error(`Refusing to fetch ${host}: resolves to blocked address ${address}`)
+    }
+  }
+}
+
+/**
+ * Check whether an IP address is private, loopback, link-local or
+ * otherwise reserved (including IPv4 addresses embedded in IPv6)
+ *
+ * @param address - IPv4 or IPv6 address
+ * @returns true if the address must not be fetched from; unparseable
+ *   addresses are treated as blocked
+ */
+export function isPrivateAddress(address: string): boolean {
+  return isBlockedAddress(address, [])
+}
+
+function isBlockedAddress(address: string, allowed: Cidr[]): boolean {
+  const bytes = parseIp(address)
+  if (!bytes) {
+    return true
+  }
+
+  const embedded = IPV4_EMBEDDING_RANGES.some((range) => inRange(bytes, range))
+    ? bytes.slice(12)
+    : undefined
+  const candidates = embedded ? [bytes, embedded] : [bytes]
+
+  if (candidates.some((b) => allowed.some((range) => inRange(b, range)))) {
+    return false
+  }
+
+  return BLOCKED_RANGES.some((range) => inRange(embedded ?? bytes, range))
+}
+
+/**
+ * Read a response body, failing as soon as it exceeds `maxBytes`
+ */
+async function readBody(response: Response, maxBytes: number): Promise<Uint8Array> {
+  const contentLength = Number(response.headers.get('content-length'))
+  if (contentLength > maxBytes) {
+    throw new Error(`Response exceeded ${maxBytes} bytes`)
+  }
+
+  if (!response.body) {
+    throw new Error('Response body is empty')
+  }
+
+  const chunks: Uint8Array[] = []
+  let totalBytes = 0
+  const reader = response.body.getReader()
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      totalBytes += value.byteLength
+      if (totalBytes > maxBytes) {
+        await reader.cancel().catch(() => {})
+        throw new Error(`Response exceeded ${maxBytes} bytes`)
+      }
+
+      chunks.push(value)
+    }
+  } finally {
+    reader.releaseLock()
+  }
+
+  const body = new Uint8Array(totalBytes)
+  let offset = 0
+  for (const chunk of chunks) {
+    body.set(chunk, offset)
+    offset += chunk.length
+  }
+  return body
+}
+
+function matchesHost(host: string, pattern: string): boolean {
+  pattern = pattern.toLowerCase()
+  return pattern.startsWith('*.')
+    ? host.endsWith(pattern.slice(1))
+    : host === pattern
+}
+
+interface Cidr {
+  bytes: Uint8Array
+  prefix: number
+}
+
+function parseCidr(cidr: string): Cidr {
+  const [address, prefix] = cidr.split('/')
+  const bytes = parseIp(address)
+  const bits = Number(prefix)
+
+  if (!bytes || !Number.isInteger(bits) || bits < 0 || bits > bytes.length * 8) {
+    throw new Error(`Invalid CIDR range: ${cidr}`)
+  }
+
+  return { bytes, prefix: bits }
+}
+
+function inRange(bytes: Uint8Array, range: Cidr): boolean {
+  if (bytes.length !== range.bytes.length) {
+    return false
+  }
+
+  for (let bit = 0; bit < range.prefix; bit++) {
+    const mask = 0x80 >> bit % 8
+    const index = bit >> 3
+    if ((bytes[index] & mask) !== (range.bytes[index] & mask)) {
+      return false
+    }
+  }
+  return true
+}
+
+/**
+ * Parse a dotted-quad IPv4 or an IPv6 address to 4 or 16 bytes, or null
+ */
+function parseIp(address: string): Uint8Array | null {
+  if (/^\d{1,3}(\.\d{1,3}){3}$/.test(address)) {
+    const octets = address.split('.').map(Number)
+    return octets.every((octet) => octet <= 255) ? new Uint8Array(octets) : null
+  }
+
+  // IPv6, without zone id
+  let text = address.replace(/%.*$/, '').toLowerCase()
+  if (!/^[0-9a-f:.]+$/.test(text) || !text.includes(':')) {
+    return null
+  }
+
+  // Trailing embedded IPv4 ("::ffff:10.0.0.1") becomes two groups
+  const v4 = text.match(/^(.*:)(\d{1,3}(?:\.\d{1,3}){3})$/)
+  if (v4) {
+    const octets = parseIp(v4[2])
+    if (!octets) {
+      return null
+    }
+    text =
+      v4[1] +
+      ((octets[0] << 8) | octets[1]).toString(16) +
+      ':' +
+      ((octets[2] << 8) | octets[3]).toString(16)
+  }
+
+  const halves = text.split('::')
+  if (halves.length > 2) {
+    return null
+  }
+
+  const head = halves[0] ? halves[0].split(':') : []
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : []
+  const missing = 8 - head.length - tail.length
+
+  if (halves.length === 2 ? missing < 1 : missing !== 0) {
+    return null
+  }
+
+  const groups = [...head, ...Array<string>(halves.length === 2 ? missing : 0).fill('0'), ...tail]
+  const bytes = new Uint8Array(16)
+  for (let i = 0; i < 8; i++) {
+    if (!/^[0-9a-f]{1,4}$/.test(groups[i])) {
+      return null
+    }
+    const value = parseInt(groups[i], 16)
+    bytes[i * 2] = value >> 8
+    bytes[i * 2 + 1] = value & 0xff
+  }
+  return bytes
+}
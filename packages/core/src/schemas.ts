@@ -4,12 +4,22 @@
  */
 
 import { z } from 'zod'
+import { isSupportedDIDMethod, supportedDIDMethods } from './did'
 
 // ─── Primitives ─────────────────────────────────────────────────────────
 
+/** A DID whose method has a registered resolver (see registerDIDResolver) */
 export const didString = z
   .string()
-  .regex(/^did:(key|web):.+$/, 'Must be a valid did:key or did:web identifier')
+  .regex(/^did:[a-z0-9]+:.+$/, 'Must be a valid DID')
+  .refine(
+    (did) => isSupportedDIDMethod(did.split(':')[1]),
+    () => ({
+      message: `Must use a supported DID method (${supportedDIDMethods()
+        .map((m) => `did:${m}`)
+        .join(', ')})`,
+    })
+  )
 
 export const iso8601 = z.string().datetime({ offset: true })
 
@@ -70,6 +80,12 @@ export const ManifestProofSchema = z.object({
   proof_value: base58btcSignature,
 })
 
+export const ManifestRotationSchema = z.object({
+  previous_did: didString,
+  verification_method: z.string().min(1),
+  proof_value: base58btcSignature,
+})
+
 export const RevocationConfigSchema = z.object({
   endpoint: httpsUrl,
   check_interval: z.number().int().min(60).default(3600).optional(),
@@ -86,6 +102,7 @@ export const AgentManifestSchema = z.object({
   revocation: RevocationConfigSchema.optional(),
   metadata: ManifestMetadataSchema,
   capabilities: ManifestCapabilitiesSchema,
+  rotation: ManifestRotationSchema.optional(),
   proof: ManifestProofSchema,
 })
 
@@ -95,6 +112,7 @@ export const UnsignedManifestSchema = AgentManifestSchema.omit({ proof: true })
 
 export const ChallengeRequestSchema = z.object({
   did: didString,
+  previous_did: didString.optional(),
 })
 
 export const ChallengeResponseSchema = z.object({
@@ -107,11 +125,21 @@ export const VerifyRequestSchema = z.object({
   challenge: hexString64,
   signature: base58btcSignature,
   manifest: AgentManifestSchema,
+  scope: z.string().max(1024).optional(),
+  required_scope: z.string().max(1024).optional(),
+  audience: z.string().min(1).max(512).optional(),
+  token_type: z.enum(['Bearer', 'DPoP']).optional(),
 })
 
 export const VerifyResponseSchema = z.object({
   token: z.string(),
   expires_at: iso8601,
+  refresh_token: z.string().optional(),
+  refresh_expires_at: iso8601.optional(),
+  granted_scopes: z.array(z.string()).optional(),
+  denied_scopes: z.array(z.string()).optional(),
+  audience: z.string().optional(),
+  token_type: z.enum(['Bearer', 'DPoP']).optional(),
   agent: z.object({
     did: didString,
     name: z.string(),
@@ -119,6 +147,10 @@ export const VerifyResponseSchema = z.object({
   }),
 })
 
+export const RefreshRequestSchema = z.object({
+  refresh_token: z.string().min(1).max(512),
+})
+
 export const RegisterRequestSchema = z.object({
   manifest: AgentManifestSchema,
   reason: z.string().max(1024).optional(),
@@ -131,6 +163,26 @@ export const RegisterResponseSchema = z.object({
   retry_after: z.number().int().optional(),
 })
 
+// ─── Discovery Schema ───────────────────────────────────────────────────
+
+export const AgentAuthConfigurationSchema = z.object({
+  issuer: z.string(),
+  challenge_endpoint: z.string().url(),
+  verify_endpoint: z.string().url(),
+  refresh_endpoint: z.string().url().optional(),
+  registration_endpoint: z.string().url().optional(),
+  jwks_uri: z.string().url().optional(),
+  did_methods_supported: z.array(z.string()),
+  signing_algorithms_supported: z.array(z.string()),
+  token_signing_algorithm: z.string(),
+  token_types_supported: z.array(z.string()),
+  token_lifetime_seconds: z.number().int().positive(),
+  challenge_lifetime_seconds: z.number().int().positive(),
+  refresh_token_lifetime_seconds: z.number().int().positive().optional(),
+  registration_enabled: z.boolean(),
+  audiences_supported: z.array(z.string()).optional(),
+})
+
 // ─── ACL Schema ─────────────────────────────────────────────────────────
 
 export const ACLEntrySchema = z.object({
@@ -5,19 +5,168 @@
 
 // ─── DID ────────────────────────────────────────────────────────────────
 
-/** Supported DID methods */
-export type DIDMethod = 'key' | 'web'
+/**
+ * DID methods: the built-in ones, or any method registered with
+ * registerDIDResolver()
+ */
+export type DIDMethod = 'key' | 'web' | 'jwk' | 'peer' | (string & Record<never, never>)
 
 /** A parsed DID string */
 export interface ParsedDID {
   /** Full DID string, e.g. "did:web:agent.example.com" */
   did: string
-  /** The DID method: "key" or "web" */
+  /** The DID method, e.g. "key" or "web" */
   method: DIDMethod
   /** Method-specific identifier (the part after "did:method:") */
   identifier: string
 }
 
+/** The purposes a DID document can authorize a verification method for */
+export type VerificationRelationship =
+  | 'authentication'
+  | 'assertionMethod'
+  | 'keyAgreement'
+  | 'capabilityInvocation'
+  | 'capabilityDelegation'
+
+/** A public key listed in a DID document */
+export interface VerificationMethod {
+  /** Absolute DID URL, e.g. "did:web:agent.example.com#key-1" */
+  id: string
+  /** Key type, e.g. "Ed25519VerificationKey2020" or "JsonWebKey2020" */
+  type: string
+  /** DID that controls the key */
+  controller: string
+  publicKeyMultibase?: string
+  publicKeyJwk?: Record<string, unknown>
+}
+
+/** A service endpoint listed in a DID document */
+export interface DIDService {
+  /** Absolute DID URL, e.g. "did:web:agent.example.com#manifest" */
+  id: string
+  type: string | string[]
+  serviceEndpoint: string | Record<string, unknown> | Array<string | Record<string, unknown>>
+}
+
+/**
+ * A resolved DID document, normalized: every id is an absolute DID URL,
+ * verification methods embedded in a relationship are listed in
+ * `verificationMethod`, and each relationship lists method ids
+ */
+export interface DIDDocument {
+  id: string
+  controller?: string[]
+  alsoKnownAs?: string[]
+  verificationMethod: VerificationMethod[]
+  authentication: string[]
+  assertionMethod: string[]
+  keyAgreement: string[]
+  capabilityInvocation: string[]
+  capabilityDelegation: string[]
+  service: DIDService[]
+}
+
+/** A cached did:web resolution result (document or failure) */
+export interface DIDDocumentCacheEntry {
+  /** Parsed DID document; absent for a cached failure */
+  document?: Record<string, unknown>
+  /** Failure message, for a cached failure */
+  error?: string
+  /** Served without refetching until (ms since epoch) */
+  expiresAt: number
+  /** Served while refetching in the background until (ms since epoch) */
+  staleUntil: number
+}
+
+/** Storage for resolved did:web documents, keyed by DID */
+export interface DIDDocumentCache {
+  /** Get a cached entry, or null if there is none */
+  get(did: string): Promise<DIDDocumentCacheEntry | null>
+  /** Store an entry, replacing any existing one */
+  set(did: string, entry: DIDDocumentCacheEntry): Promise<void>
+  /** Drop the entry for a DID, e.g. after the agent rotated its key */
+  invalidate(did: string): Promise<void>
+}
+
+/** did:web document caching policy */
+export interface DIDWebCacheOptions {
+  /** Where resolved documents are kept */
+  store: DIDDocumentCache
+  /** Freshness when the response has no cache headers (default: 300) */
+  defaultTtlSeconds?: number
+  /** Upper bound on freshness and staleness from cache headers (default: 3600) */
+  maxTtlSeconds?: number
+  /** How long failed resolutions are remembered (default: 30) */
+  negativeTtlSeconds?: number
+  /**
+   * How long an expired document may be served while it is refetched,
+   * when the response has no `stale-while-revalidate` (default: 60)
+   */
+  staleWhileRevalidateSeconds?: number
+}
+
+/**
+ * Resolves the DIDs of one method to DID documents. Register with
+ * registerDIDResolver() to support a method in parseDID(), resolveDID(),
+ * resolveDIDDocument() and the `didString` schema.
+ */
+export interface DIDResolver {
+  /** DID method name, e.g. "jwk" for did:jwk:... */
+  method: string
+  /**
+   * Resolve the DID document; use normalizeDIDDocument() for documents
+   * in their JSON form.
+   *
+   * @throws AuthError (AUTH_DID_RESOLUTION_FAILED) if resolution fails
+   */
+  resolve(parsed: ParsedDID, options: DIDResolutionOptions): Promise<DIDDocument>
+}
+
+/**
+ * Limits and address filtering for fetches of attacker-controlled URLs
+ * (did:web documents, remote manifests, revocation endpoints)
+ *
+ * Every hop must be https and its host must not be, or resolve to, a
+ * private, loopback, link-local or otherwise reserved address.
+ */
+export interface OutboundFetchOptions {
+  /** Per-request timeout (default: 2000) */
+  timeoutMs?: number
+  /** Maximum response body size (default: 102400) */
+  maxBytes?: number
+  /** Maximum redirects to follow (default: 3) */
+  maxRedirects?: number
+  /** Custom fetch implementation */
+  fetchFn?: typeof globalThis.fetch
+  /**
+   * Resolve a host name to its IP addresses, checked before connecting.
+   * Without it only IP-literal hosts and "localhost" are filtered.
+   */
+  lookup?: (hostname: string) => Promise<string[]>
+  /**
+   * Hosts that may resolve to private addresses, e.g. an on-premises
+   * DID host; "*.example.com" matches subdomains
+   */
+  allowedHosts?: string[]
+  /** Address ranges in CIDR notation that are never blocked, e.g. "10.8.0.0/16" */
+  allowedAddressRanges?: string[]
+}
+
+/** Options for resolving did:web documents */
+export interface DIDResolutionOptions extends OutboundFetchOptions {
+  /** Cache resolved documents; without it every call fetches */
+  cache?: DIDWebCacheOptions
+}
+
+/** A response fetched through fetchWithGuard(), with its body read */
+export interface GuardedResponse {
+  /** Final URL, after redirects */
+  url: string
+  headers: Headers
+  body: Uint8Array
+}
+
 // ─── Manifest ───────────────────────────────────────────────────────────
 
 export interface AgentManifest {
@@ -31,12 +180,25 @@ export interface AgentManifest {
   revocation?: RevocationConfig
   metadata: ManifestMetadata
   capabilities: ManifestCapabilities
+  rotation?: ManifestRotation // present when the signing key was rotated
   proof: ManifestProof
 }
 
 /** Manifest without the proof field — used as the signing input */
 export type UnsignedManifest = Omit<AgentManifest, 'proof'>
 
+/**
+ * Key rotation continuity proof: a signature by the key the agent rotated
+ * away from, over the manifest without `proof` and `rotation.proof_value`.
+ * `previous_did` differs from the manifest `id` when the DID is derived
+ * from the key (did:key, did:jwk).
+ */
+export interface ManifestRotation {
+  previous_did: string
+  verification_method: string // DID URL of the previous key
+  proof_value: string // "z" + base58btc(Ed25519 signature)
+}
+
 export interface RevocationConfig {
   endpoint: string // URL
   check_interval?: number // seconds, default 3600, min 60
@@ -92,6 +254,7 @@ export interface ManifestProof {
 
 export interface ChallengeRequest {
   did: string
+  previous_did?: string // approved DID this one was rotated from
 }
 
 export interface ChallengeResponse {
@@ -104,11 +267,21 @@ export interface VerifyRequest {
   challenge: string
   signature: string // base58btc with 'z' prefix
   manifest: AgentManifest
+  scope?: string // space-separated; defaults per server (permissions_required or all allowed)
+  required_scope?: string // space-separated; verify fails unless all are granted
+  audience?: string // target API for the token (`aud` claim)
+  token_type?: TokenType // "DPoP" binds the token to the agent's key
 }
 
 export interface VerifyResponse {
   token: string // JWT
   expires_at: string // ISO 8601
+  refresh_token?: string // opaque, single-use; present if refresh is enabled
+  refresh_expires_at?: string // ISO 8601
+  granted_scopes?: string[] // scopes in the token
+  denied_scopes?: string[] // requested but not granted
+  audience?: string // `aud` claim of the token, if restricted
+  token_type?: TokenType // "DPoP" if the token is key-bound; Bearer if absent
   agent: {
     did: string
     name: string
@@ -116,6 +289,17 @@ export interface VerifyResponse {
   }
 }
 
+/**
+ * How an access token is presented:
+ * - `Bearer`: plain bearer token
+ * - `DPoP`: bound to the agent's key; every request carries a DPoP proof
+ */
+export type TokenType = 'Bearer' | 'DPoP'
+
+export interface RefreshRequest {
+  refresh_token: string
+}
+
 export interface RegisterRequest {
   manifest: AgentManifest
   reason?: string // max 1024 chars
@@ -128,6 +312,30 @@ export interface RegisterResponse {
   retry_after?: number // seconds
 }
 
+// ─── Discovery ──────────────────────────────────────────────────────────
+
+/**
+ * Server discovery document, served at
+ * `/.well-known/agent-auth-configuration`
+ */
+export interface AgentAuthConfiguration {
+  issuer: string // `iss` claim of issued tokens
+  challenge_endpoint: string // absolute URL
+  verify_endpoint: string // absolute URL
+  refresh_endpoint?: string // present if refresh tokens are enabled
+  registration_endpoint?: string // present if registration is enabled
+  jwks_uri?: string // present with asymmetric token signing
+  did_methods_supported: string[] // e.g. ["key", "web"]
+  signing_algorithms_supported: string[] // agent signatures, e.g. ["EdDSA"]
+  token_signing_algorithm: string // "EdDSA" or "HS256"
+  token_types_supported: string[] // e.g. ["Bearer", "DPoP"]
+  token_lifetime_seconds: number
+  challenge_lifetime_seconds: number
+  refresh_token_lifetime_seconds?: number
+  registration_enabled: boolean
+  audiences_supported?: string[] // audiences agents may request
+}
+
 // ─── ACL ────────────────────────────────────────────────────────────────
 
 export type ACLStatus = 'pending_approval' | 'approved' | 'rejected' | 'banned'
@@ -162,6 +370,19 @@ export interface KeyPair {
   publicKey: Uint8Array
 }
 
+/**
+ * An Ed25519 signing key that may be held outside the process, e.g. in a
+ * KMS, an HSM or a local signing agent. Only the public half is exposed.
+ */
+export interface Signer {
+  /** DID URL of the key (verification method) */
+  readonly keyId: string
+  /** Public key: 32 bytes */
+  readonly publicKey: Uint8Array
+  /** Sign bytes, returning a 64-byte Ed25519 signature */
+  sign(data: Uint8Array): Promise<Uint8Array>
+}
+
 // ─── JWT ────────────────────────────────────────────────────────────────
 
 /** JWT payload for authenticated agent sessions */
@@ -170,6 +391,8 @@ export interface AgentTokenPayload {
   iss: string
   /** Subject - agent's DID */
   sub: string
+  /** Audience - API the token is restricted to, if any */
+  aud?: string
   /** Issued at timestamp (Unix seconds) */
   iat: number
   /** Expiration timestamp (Unix seconds) */
@@ -184,4 +407,87 @@ export interface AgentTokenPayload {
   agent_version: string
   /** Manifest sequence number */
   manifest_sequence: number
+  /** Confirmation - key the token is bound to (DPoP), if any */
+  cnf?: {
+    /** RFC 7638 JWK thumbprint of the agent's Ed25519 key */
+    jkt: string
+  }
+}
+
+// ─── DPoP ───────────────────────────────────────────────────────────────
+
+/** Payload of a DPoP proof (RFC 9449 §4.2) */
+export interface DPoPProofPayload {
+  /** HTTP method of the request */
+  htm: string
+  /** HTTP target URI, without query and fragment */
+  htu: string
+  /** Issued at timestamp (Unix seconds) */
+  iat: number
+  /** Unique proof identifier (nonce), used for replay detection */
+  jti: string
+  /** Base64url SHA-256 hash of the access token, if presented */
+  ath?: string
+}
+
+// ─── HTTP Signatures ────────────────────────────────────────────────────
+
+/** Parameters of an HTTP message signature (RFC 9421 §2.3) */
+export interface HttpSignatureParams {
+  /** Creation time (Unix seconds) */
+  created: number
+  /** Signer's DID */
+  keyid: string
+  /** Signature algorithm; only "ed25519" is supported */
+  alg: string
+  /** Unique value per request, used for replay detection */
+  nonce?: string
+}
+
+/** The parts of an HTTP request a signature is computed over */
+export interface SignableRequest {
+  /** HTTP method */
+  method: string
+  /** Path plus query string, e.g. "/files?page=2" */
+  path: string
+  /** Request headers, keyed by lowercase name */
+  headers: Record<string, string | undefined>
+}
+
+/** Options for createDPoPProof() */
+export interface CreateDPoPProofOptions {
+  /** HTTP method of the request, e.g. "GET" */
+  method: string
+  /** Target URL of the request; query and fragment are stripped */
+  url: string
+  /** Key to sign with; alternatively, pass `privateKey` and `publicKey` */
+  signer?: Signer
+  /** 32-byte Ed25519 private key */
+  privateKey?: Uint8Array
+  /** 32-byte Ed25519 public key, embedded in the proof header */
+  publicKey?: Uint8Array
+  /** Access token presented with the proof; bound via `ath` */
+  accessToken?: string
+  /** Issued-at time (Unix seconds). Default: now */
+  iat?: number
+  /** Unique proof identifier. Default: 128 random bits, hex */
+  jti?: string
+}
+
+/** Options for verifyDPoPProof() */
+export interface VerifyDPoPProofOptions {
+  /** HTTP method of the request being authorized */
+  method: string
+  /** Full URL of the request being authorized */
+  url: string
+  /** Access token presented with the proof; `ath` must match if set */
+  accessToken?: string
+  /** Expected key thumbprint (`cnf.jkt` of the access token) */
+  jkt?: string
+  /** Maximum proof age in seconds. Default: 60 */
+  maxAgeSeconds?: number
+  /** Allowed clock skew in seconds. Default: 5 */
+  clockSkewSeconds?: number
+  /** Current time in Unix seconds. Default: now */
+  now?: number
 }
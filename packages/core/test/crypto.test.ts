@@ -7,6 +7,7 @@ import {
   verifyChallengeSignature,
   generateChallenge,
   hashSHA256,
+  deriveKeyScrypt,
   hexToBytes,
   bytesToHex,
 } from '../src/crypto'
@@ -112,6 +113,32 @@ describe('Signing and Verification', () => {
       ).rejects.toThrow('Private key must be 32 bytes')
     })
 
+    it('should sign with a Signer', async () => {
+      const keyPair = generateKeyPair()
+      const data = new TextEncoder().encode('Hello, world!')
+      const signer = {
+        keyId: 'did:web:agent.example.com#key-1',
+        publicKey: keyPair.publicKey,
+        sign: (bytes: Uint8Array) => signBytes(bytes, keyPair.privateKey),
+      }
+
+      const signature = await signBytes(data, signer)
+
+      expect(await verifySignature(signature, data, keyPair.publicKey)).toBe(true)
+    })
+
+    it('should reject a malformed signature from a Signer', async () => {
+      const signer = {
+        keyId: 'did:web:agent.example.com#key-1',
+        publicKey: new Uint8Array(32),
+        sign: async () => new Uint8Array(32),
+      }
+
+      await expect(signBytes(new Uint8Array(), signer)).rejects.toThrow(
+        'Signer for did:web:agent.example.com#key-1 returned an invalid signature'
+      )
+    })
+
     it('should throw on invalid public key length', async () => {
       const invalidKey = new Uint8Array(16) // Wrong length
 
@@ -336,6 +363,31 @@ describe('Hashing', () => {
   })
 })
 
+describe('Key Derivation', () => {
+  it('should match the RFC 7914 scrypt test vector', async () => {
+    const key = await deriveKeyScrypt(
+      'password',
+      new TextEncoder().encode('NaCl'),
+      { N: 1024, r: 8, p: 16 },
+      64
+    )
+
+    expect(bytesToHex(key)).toBe(
+      'fdbabe1c9d3472007856e7190d01e9fe7c6ad7cbc8237830e77376634b373162' +
+        '2eaf30d92e22a3886ff109279d9830dac727afb94a83ee6d8360cbdfa2cc0640'
+    )
+  })
+
+  it('should normalize the passphrase', async () => {
+    const salt = new Uint8Array(16)
+    const params = { N: 16, r: 1, p: 1 }
+
+    expect(await deriveKeyScrypt('caf\u00e9', salt, params)).toEqual(
+      await deriveKeyScrypt('cafe\u0301', salt, params)
+    )
+  })
+})
+
 describe('Hex Utilities', () => {
   describe('hexToBytes', () => {
     it('should convert hex string to bytes', () => {
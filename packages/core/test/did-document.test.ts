@@ -0,0 +1,324 @@
+import { describe, it, expect } from 'vitest'
+import { base64urlnopad } from '@scure/base'
+import {
+  normalizeDIDDocument,
+  getVerificationMethods,
+  selectVerificationMethod,
+  verificationMethodPublicKey,
+} from '../src/did-document'
+import {
+  publicKeyToDidKey,
+  resolveDID,
+  resolveDIDDocument,
+  resolveDidWeb,
+} from '../src/did'
+import { publicKeyToDidJwk } from '../src/did-jwk'
+import { generateKeyPair } from '../src/crypto'
+import { encodeBase58btc } from '../src/base58'
+import { AuthError, AuthErrorCode } from '../src/errors'
+
+const DID = 'did:web:agent.example.com'
+
+function multibase(publicKey: Uint8Array, codec = [0xed, 0x01]): string {
+  return encodeBase58btc(new Uint8Array([...codec, ...publicKey]))
+}
+
+function method(id: string, publicKey: Uint8Array) {
+  return { id, type: 'Ed25519VerificationKey2020', publicKeyMultibase: multibase(publicKey) }
+}
+
+describe('normalizeDIDDocument', () => {
+  it('should resolve relative ids and hoist embedded methods', () => {
+    const signing = generateKeyPair().publicKey
+    const login = generateKeyPair().publicKey
+
+    const document = normalizeDIDDocument(
+      {
+        id: DID,
+        controller: 'did:web:operator.example.com',
+        verificationMethod: [method('#key-1', signing)],
+        assertionMethod: ['#key-1'],
+        authentication: [method('#key-2', login)],
+        service: [
+          { id: '#manifest', type: 'AgentManifest', serviceEndpoint: 'https://agent.example.com/m' },
+        ],
+      },
+      DID
+    )
+
+    expect(document.controller).toEqual(['did:web:operator.example.com'])
+    expect(document.verificationMethod.map((vm) => vm.id)).toEqual([
+      `${DID}#key-1`,
+      `${DID}#key-2`,
+    ])
+    expect(document.verificationMethod[1].controller).toBe(DID)
+    expect(document.assertionMethod).toEqual([`${DID}#key-1`])
+    expect(document.authentication).toEqual([`${DID}#key-2`])
+    expect(document.keyAgreement).toEqual([])
+    expect(document.service[0].id).toBe(`${DID}#manifest`)
+  })
+
+  it.each([
+    ['a mismatched id', { id: 'did:web:other.example.com' }, 'does not match'],
+    ['a method without type', { verificationMethod: [{ id: '#key-1' }] }, 'string id and type'],
+    ['a non-array relationship', { authentication: '#key-1' }, 'authentication must be an array'],
+    [
+      'private key material',
+      {
+        verificationMethod: [
+          { id: '#key-1', type: 'JsonWebKey2020', publicKeyJwk: { kty: 'OKP', d: 'AA' } },
+        ],
+      },
+      'private key material',
+    ],
+  ])('should reject %s', (_, raw, message) => {
+    try {
+      normalizeDIDDocument(raw, DID)
+      expect.fail('Should have thrown')
+    } catch (error) {
+      expect(error).toBeInstanceOf(AuthError)
+      expect((error as AuthError).code).toBe(AuthErrorCode.AUTH_DID_RESOLUTION_FAILED)
+      expect((error as AuthError).message).toContain(message)
+    }
+  })
+})
+
+describe('verificationMethodPublicKey', () => {
+  const { publicKey } = generateKeyPair()
+  const jwk = { kty: 'OKP', crv: 'Ed25519', x: base64urlnopad.encode(publicKey) }
+  const id = `${DID}#key-1`
+
+  it.each([
+    ['Ed25519VerificationKey2020', { publicKeyMultibase: multibase(publicKey) }],
+    ['Multikey', { publicKeyMultibase: multibase(publicKey) }],
+    ['JsonWebKey2020', { publicKeyJwk: { ...jwk, alg: 'EdDSA', use: 'sig' } }],
+    ['JsonWebKey', { publicKeyJwk: jwk }],
+  ])('should decode %s keys', (type, material) => {
+    expect(verificationMethodPublicKey({ id, type, controller: DID, ...material })).toEqual(
+      publicKey
+    )
+  })
+
+  it.each([
+    [
+      'an X25519 Multikey',
+      'Multikey',
+      { publicKeyMultibase: multibase(publicKey, [0xec, 0x01]) },
+      'Expected an Ed25519 key, got X25519 (multicodec 0xec01)',
+    ],
+    [
+      'an unknown multicodec',
+      'Multikey',
+      { publicKeyMultibase: multibase(publicKey, [0x12, 0x34]) },
+      'Unknown multicodec prefix 0x1234',
+    ],
+    [
+      'a non-base58btc multibase',
+      'Multikey',
+      { publicKeyMultibase: `u${base64urlnopad.encode(publicKey)}` },
+      'must be base58btc (z prefix), got prefix "u"',
+    ],
+    [
+      'a JWK in an Ed25519VerificationKey2020',
+      'Ed25519VerificationKey2020',
+      { publicKeyJwk: jwk },
+      'Ed25519VerificationKey2020 requires publicKeyMultibase',
+    ],
+    [
+      'a multibase key in a JsonWebKey2020',
+      'JsonWebKey2020',
+      { publicKeyMultibase: multibase(publicKey) },
+      'JsonWebKey2020 requires publicKeyJwk',
+    ],
+    [
+      'both kinds of key material',
+      'JsonWebKey2020',
+      { publicKeyJwk: jwk, publicKeyMultibase: multibase(publicKey) },
+      'Ambiguous key material',
+    ],
+    [
+      'a P-256 JWK',
+      'JsonWebKey2020',
+      { publicKeyJwk: { kty: 'EC', crv: 'P-256', x: 'AA', y: 'AA' } },
+      'expected OKP/Ed25519, got EC/P-256',
+    ],
+    [
+      'a JWK with a mismatched alg',
+      'JsonWebKey2020',
+      { publicKeyJwk: { ...jwk, alg: 'ES256' } },
+      'JWK alg ES256 does not match an Ed25519 key',
+    ],
+    [
+      'a truncated JWK',
+      'JsonWebKey2020',
+      { publicKeyJwk: { ...jwk, x: 'AAAA' } },
+      'expected 32 bytes, got 3',
+    ],
+    [
+      'an unknown type',
+      'EcdsaSecp256k1VerificationKey2019',
+      { publicKeyMultibase: multibase(publicKey) },
+      'Unsupported verification method type: EcdsaSecp256k1VerificationKey2019',
+    ],
+  ])('should reject %s', (_, type, material, message) => {
+    try {
+      verificationMethodPublicKey({ id, type, controller: DID, ...material })
+      expect.fail('Should have thrown')
+    } catch (error) {
+      expect(error).toBeInstanceOf(AuthError)
+      expect((error as AuthError).code).toBe(AuthErrorCode.AUTH_DID_RESOLUTION_FAILED)
+      expect((error as AuthError).message.startsWith(`${id}: `)).toBe(true)
+      expect((error as AuthError).message).toContain(message)
+    }
+  })
+
+  it('should resolve did:web documents with JsonWebKey2020 methods', async () => {
+    const fetchFn = async () =>
+      new Response(
+        JSON.stringify({
+          id: DID,
+          verificationMethod: [{ id: '#jwk', type: 'JsonWebKey2020', publicKeyJwk: jwk }],
+          assertionMethod: ['#jwk'],
+        })
+      )
+
+    expect(await resolveDidWeb(DID, `${DID}#jwk`, { fetchFn })).toEqual(publicKey)
+  })
+})
+
+describe('verification relationships', () => {
+  const assertionKey = generateKeyPair().publicKey
+  const authenticationKey = generateKeyPair().publicKey
+  const document = normalizeDIDDocument(
+    {
+      id: DID,
+      verificationMethod: [
+        method('#assert', assertionKey),
+        method('#auth', authenticationKey),
+        {
+          id: '#agree',
+          type: 'X25519KeyAgreementKey2020',
+          publicKeyMultibase: multibase(generateKeyPair().publicKey, [0xec, 0x01]),
+        },
+      ],
+      assertionMethod: ['#assert'],
+      authentication: ['#auth'],
+      keyAgreement: ['#agree'],
+    },
+    DID
+  )
+
+  it('should list the methods of a relationship', () => {
+    expect(getVerificationMethods(document, 'authentication').map((vm) => vm.id)).toEqual([
+      `${DID}#auth`,
+    ])
+  })
+
+  it('should select the first method of a relationship', () => {
+    expect(selectVerificationMethod(document, undefined, 'authentication').id).toBe(
+      `${DID}#auth`
+    )
+    expect(selectVerificationMethod(document).id).toBe(`${DID}#assert`)
+  })
+
+  it('should refuse methods not authorized for the relationship', () => {
+    expect(() =>
+      selectVerificationMethod(document, `${DID}#auth`, 'assertionMethod')
+    ).toThrow(`Verification method ${DID}#auth is not authorized for assertionMethod`)
+  })
+
+  it('should refuse key agreement keys for signatures', () => {
+    expect(() => selectVerificationMethod(document, `${DID}#agree`)).toThrow(
+      'is a key agreement key, not a signing key'
+    )
+  })
+
+  it('should treat every method as a signing key when no relationship is declared', () => {
+    const legacy = normalizeDIDDocument(
+      { id: DID, verificationMethod: [method('#key-1', assertionKey)] },
+      DID
+    )
+
+    expect(selectVerificationMethod(legacy, `${DID}#key-1`, 'authentication').id).toBe(
+      `${DID}#key-1`
+    )
+    expect(getVerificationMethods(legacy, 'keyAgreement')).toEqual([])
+  })
+})
+
+describe('resolveDIDDocument', () => {
+  it('should build the did:key document', async () => {
+    const { publicKey } = generateKeyPair()
+    const did = publicKeyToDidKey(publicKey)
+    const id = `${did}#${did.slice('did:key:'.length)}`
+
+    const document = await resolveDIDDocument(did)
+
+    expect(document.verificationMethod).toEqual([
+      {
+        id,
+        type: 'Ed25519VerificationKey2020',
+        controller: did,
+        publicKeyMultibase: did.slice('did:key:'.length),
+      },
+    ])
+    expect(document.authentication).toEqual([id])
+    expect(document.assertionMethod).toEqual([id])
+  })
+
+  it('should build the did:jwk document', async () => {
+    const did = publicKeyToDidJwk(generateKeyPair().publicKey)
+
+    const document = await resolveDIDDocument(did)
+
+    expect(document.verificationMethod[0]).toMatchObject({
+      id: `${did}#0`,
+      type: 'JsonWebKey2020',
+      publicKeyJwk: { kty: 'OKP', crv: 'Ed25519' },
+    })
+    expect(document.authentication).toEqual([`${did}#0`])
+  })
+
+  it('should expand did:peer numalgo 2 services', async () => {
+    const did = [
+      'did:peer:2',
+      `V${multibase(generateKeyPair().publicKey)}`,
+      'SeyJ0IjoiZG0iLCJzIjoiaHR0cHM6Ly9leGFtcGxlLmNvbS9lbmRwb2ludCJ9',
+    ].join('.')
+
+    const document = await resolveDIDDocument(did)
+
+    expect(document.authentication).toEqual([`${did}#key-1`])
+    expect(document.assertionMethod).toEqual([])
+    expect(document.service).toEqual([
+      {
+        id: `${did}#service`,
+        type: 'DIDCommMessaging',
+        serviceEndpoint: 'https://example.com/endpoint',
+      },
+    ])
+  })
+})
+
+describe('resolveDID relationships', () => {
+  it('should enforce the requested relationship', async () => {
+    const assertion = generateKeyPair().publicKey
+    const authentication = generateKeyPair().publicKey
+    const did = `did:peer:2.A${multibase(assertion)}.V${multibase(authentication)}`
+
+    expect(await resolveDID(did, undefined, { relationship: 'authentication' })).toEqual(
+      authentication
+    )
+    await expect(
+      resolveDID(did, `${did}#key-2`, { relationship: 'assertionMethod' })
+    ).rejects.toThrow('is not authorized for assertionMethod')
+  })
+
+  it('should accept any did:key fragment for its single key', async () => {
+    const { publicKey } = generateKeyPair()
+    const did = publicKeyToDidKey(publicKey)
+
+    expect(await resolveDID(did, `${did}#key-1`)).toEqual(publicKey)
+    expect(await resolveDID(did, `${did}#${did}`)).toEqual(publicKey)
+  })
+})
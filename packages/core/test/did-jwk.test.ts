@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest'
+import { base64urlnopad } from '@scure/base'
+import { publicKeyToDidJwk, didJwkToPublicKey } from '../src/did-jwk'
+import { resolveDID } from '../src/did'
+import { generateKeyPair } from '../src/crypto'
+import { AuthError, AuthErrorCode } from '../src/errors'
+
+function didJwk(jwk: Record<string, unknown>): string {
+  return `did:jwk:${base64urlnopad.encode(new TextEncoder().encode(JSON.stringify(jwk)))}`
+}
+
+describe('did:jwk', () => {
+  it('should round-trip an Ed25519 public key', () => {
+    const { publicKey } = generateKeyPair()
+    const did = publicKeyToDidJwk(publicKey)
+
+    expect(did).toMatch(/^did:jwk:eyJ/)
+    expect(didJwkToPublicKey(did)).toEqual(publicKey)
+    expect(didJwkToPublicKey(did, `${did}#0`)).toEqual(publicKey)
+  })
+
+  it('should resolve through resolveDID', async () => {
+    const { publicKey } = generateKeyPair()
+
+    expect(await resolveDID(publicKeyToDidJwk(publicKey))).toEqual(publicKey)
+  })
+
+  it('should accept JWKs with extra members', () => {
+    const { publicKey } = generateKeyPair()
+    const did = didJwk({
+      kty: 'OKP',
+      crv: 'Ed25519',
+      x: base64urlnopad.encode(publicKey),
+      use: 'sig',
+      kid: 'agent-1',
+    })
+
+    expect(didJwkToPublicKey(did)).toEqual(publicKey)
+  })
+
+  it('should reject other verification methods', () => {
+    const did = publicKeyToDidJwk(generateKeyPair().publicKey)
+
+    expect(() => didJwkToPublicKey(did, `${did}#key-1`)).toThrow(
+      `Verification method ${did}#key-1 not found`
+    )
+  })
+
+  it.each([
+    ['a non-Ed25519 key', { kty: 'EC', crv: 'P-256', x: 'AA', y: 'AA' }, 'expected OKP/Ed25519'],
+    ['private key material', { kty: 'OKP', crv: 'Ed25519', x: 'AA', d: 'AA' }, 'private key material'],
+    ['an encryption key', { kty: 'OKP', crv: 'Ed25519', x: 'AA', use: 'enc' }, 'not a signing key'],
+    ['a short key', { kty: 'OKP', crv: 'Ed25519', x: 'AAAA' }, 'expected 32 bytes'],
+  ])('should reject %s', (_, jwk, message) => {
+    try {
+      didJwkToPublicKey(didJwk(jwk))
+      expect.fail('Should have thrown')
+    } catch (error) {
+      expect(error).toBeInstanceOf(AuthError)
+      expect((error as AuthError).code).toBe(AuthErrorCode.AUTH_DID_RESOLUTION_FAILED)
+      expect((error as AuthError).message).toContain(message)
+    }
+  })
+
+  it('should reject identifiers that are not base64url JSON', () => {
+    expect(() => didJwkToPublicKey('did:jwk:not*json')).toThrow(AuthError)
+  })
+})
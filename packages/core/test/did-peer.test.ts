@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest'
+import { didPeerToPublicKey } from '../src/did-peer'
+import { resolveDID } from '../src/did'
+import { generateKeyPair } from '../src/crypto'
+import { encodeBase58btc } from '../src/base58'
+import { AuthError, AuthErrorCode } from '../src/errors'
+
+function multibase(publicKey: Uint8Array, codec = [0xed, 0x01]): string {
+  return encodeBase58btc(new Uint8Array([...codec, ...publicKey]))
+}
+
+describe('did:peer', () => {
+  it('should resolve numalgo 0 to its inception key', async () => {
+    const { publicKey } = generateKeyPair()
+    const did = `did:peer:0${multibase(publicKey)}`
+
+    expect(didPeerToPublicKey(did)).toEqual(publicKey)
+    expect(await resolveDID(did)).toEqual(publicKey)
+  })
+
+  describe('numalgo 2', () => {
+    const assertion = generateKeyPair().publicKey
+    const authentication = generateKeyPair().publicKey
+    const agreement = generateKeyPair().publicKey
+    const did = [
+      'did:peer:2',
+      `E${multibase(agreement, [0xec, 0x01])}`,
+      `V${multibase(authentication)}`,
+      'SeyJ0IjoiZG0iLCJzIjoiaHR0cHM6Ly9leGFtcGxlLmNvbS9lbmRwb2ludCJ9',
+      `A${multibase(assertion)}`,
+    ].join('.')
+
+    it('should number keys in order, skipping services', () => {
+      expect(didPeerToPublicKey(did, `${did}#key-2`)).toEqual(authentication)
+      expect(didPeerToPublicKey(did, `${did}#key-3`)).toEqual(assertion)
+    })
+
+    it('should default to the assertion key', () => {
+      expect(didPeerToPublicKey(did)).toEqual(assertion)
+    })
+
+    it('should fall back to the authentication key', () => {
+      const authOnly = `did:peer:2.V${multibase(authentication)}`
+
+      expect(didPeerToPublicKey(authOnly)).toEqual(authentication)
+    })
+
+    it('should refuse key agreement keys for signatures', () => {
+      expect(() => didPeerToPublicKey(did, `${did}#key-1`)).toThrow(
+        'is a key agreement key, not a signing key'
+      )
+    })
+
+    it('should reject unknown verification methods', () => {
+      expect(() => didPeerToPublicKey(did, `${did}#key-9`)).toThrow(
+        'not found in DID document'
+      )
+    })
+  })
+
+  it('should reject unsupported numalgos', () => {
+    try {
+      didPeerToPublicKey('did:peer:4zQmd8CpeFPci817KDsbSAKWcXAE2mjvCQSasRqanuPbWLB')
+      expect.fail('Should have thrown')
+    } catch (error) {
+      expect(error).toBeInstanceOf(AuthError)
+      expect((error as AuthError).code).toBe(AuthErrorCode.AUTH_UNSUPPORTED_DID_METHOD)
+    }
+  })
+})
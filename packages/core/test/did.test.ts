@@ -1,13 +1,19 @@
-import { describe, it, expect } from 'vitest'
+import { describe, it, expect, vi, afterEach } from 'vitest'
 import {
   parseDID,
   publicKeyToDidKey,
   didKeyToPublicKey,
   resolveDID,
+  registerDIDResolver,
+  unregisterDIDResolver,
+  supportedDIDMethods,
 } from '../src/did'
+import { normalizeDIDDocument } from '../src/did-document'
+import { didString } from '../src/schemas'
 import { generateKeyPair } from '../src/crypto'
 import { AuthError, AuthErrorCode } from '../src/errors'
 import { encodeBase58btc } from '../src/base58'
+import type { DIDDocumentCache, DIDDocumentCacheEntry } from '../src/types'
 
 describe('DID Parsing', () => {
   describe('parseDID', () => {
@@ -260,6 +266,7 @@ describe('did:web Resolution', () => {
       return {
         ok: true,
         status: 200,
+        headers: new Headers(),
         body: {
           getReader: () => ({
             read: async () => {
@@ -340,3 +347,226 @@ describe('did:web Resolution', () => {
     }
   })
 })
+
+describe('did:web document cache', () => {
+  const DID = 'did:web:agent.example.com'
+
+  class MapCache implements DIDDocumentCache {
+    entries = new Map<string, DIDDocumentCacheEntry>()
+    async get(did: string) {
+      return this.entries.get(did) ?? null
+    }
+    async set(did: string, entry: DIDDocumentCacheEntry) {
+      this.entries.set(did, entry)
+    }
+    async invalidate(did: string) {
+      this.entries.delete(did)
+    }
+  }
+
+  function didDocument(publicKey: Uint8Array) {
+    const multibase = encodeBase58btc(new Uint8Array([0xed, 0x01, ...publicKey]))
+    return JSON.stringify({
+      id: DID,
+      verificationMethod: [
+        { id: `${DID}#key-1`, type: 'Ed25519VerificationKey2020', publicKeyMultibase: multibase },
+      ],
+    })
+  }
+
+  function serve(responses: Array<() => Response>) {
+    return vi.fn(async () => responses.shift()!()) as unknown as typeof fetch &
+      ReturnType<typeof vi.fn>
+  }
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should reuse a fresh document per Cache-Control max-age', async () => {
+    const { publicKey } = generateKeyPair()
+    const fetchFn = serve([
+      () =>
+        new Response(didDocument(publicKey), {
+          headers: { 'Cache-Control': 'max-age=600' },
+        }),
+    ])
+    const store = new MapCache()
+    const options = { fetchFn, cache: { store } }
+
+    expect(await resolveDID(DID, undefined, options)).toEqual(publicKey)
+    expect(await resolveDID(DID, `${DID}#key-1`, options)).toEqual(publicKey)
+
+    expect(fetchFn).toHaveBeenCalledTimes(1)
+    const entry = store.entries.get(DID)!
+    expect(entry.expiresAt - Date.now()).toBeGreaterThan(590_000)
+    expect(entry.staleUntil - entry.expiresAt).toBe(60_000)
+  })
+
+  it('should cap freshness at maxTtlSeconds and skip no-store responses', async () => {
+    const { publicKey } = generateKeyPair()
+    const store = new MapCache()
+
+    await resolveDID(DID, undefined, {
+      fetchFn: serve([
+        () =>
+          new Response(didDocument(publicKey), {
+            headers: { 'Cache-Control': 'max-age=86400, stale-while-revalidate=10' },
+          }),
+      ]),
+      cache: { store, maxTtlSeconds: 120 },
+    })
+    const entry = store.entries.get(DID)!
+    expect(entry.expiresAt - Date.now()).toBeLessThanOrEqual(120_000)
+    expect(entry.staleUntil - entry.expiresAt).toBe(10_000)
+
+    const uncached = new MapCache()
+    await resolveDID(DID, undefined, {
+      fetchFn: serve([
+        () =>
+          new Response(didDocument(publicKey), {
+            headers: { 'Cache-Control': 'no-store' },
+          }),
+      ]),
+      cache: { store: uncached },
+    })
+    expect(uncached.entries.has(DID)).toBe(false)
+  })
+
+  it('should serve a stale document while revalidating in the background', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    const oldKey = generateKeyPair().publicKey
+    const newKey = generateKeyPair().publicKey
+    const fetchFn = serve([
+      () =>
+        new Response(didDocument(oldKey), {
+          headers: { 'Cache-Control': 'max-age=60, stale-while-revalidate=300' },
+        }),
+      () => new Response(didDocument(newKey)),
+    ])
+    const options = { fetchFn, cache: { store: new MapCache() } }
+
+    await resolveDID(DID, undefined, options)
+    vi.setSystemTime(Date.now() + 120_000)
+
+    // Stale: served immediately, refreshed behind the scenes
+    expect(await resolveDID(DID, undefined, options)).toEqual(oldKey)
+    await vi.waitFor(() => expect(fetchFn).toHaveBeenCalledTimes(2))
+    await vi.waitFor(async () =>
+      expect(await resolveDID(DID, undefined, options)).toEqual(newKey)
+    )
+    expect(fetchFn).toHaveBeenCalledTimes(2)
+  })
+
+  it('should remember failures for negativeTtlSeconds', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    const { publicKey } = generateKeyPair()
+    const fetchFn = serve([
+      () => new Response('not found', { status: 404, statusText: 'Not Found' }),
+      () => new Response(didDocument(publicKey)),
+    ])
+    const options = { fetchFn, cache: { store: new MapCache(), negativeTtlSeconds: 10 } }
+
+    await expect(resolveDID(DID, undefined, options)).rejects.toThrow('HTTP 404')
+    await expect(resolveDID(DID, undefined, options)).rejects.toThrow('HTTP 404')
+    expect(fetchFn).toHaveBeenCalledTimes(1)
+
+    vi.setSystemTime(Date.now() + 11_000)
+    expect(await resolveDID(DID, undefined, options)).toEqual(publicKey)
+  })
+
+  it('should share one fetch between concurrent misses', async () => {
+    const { publicKey } = generateKeyPair()
+    const fetchFn = serve([() => new Response(didDocument(publicKey))])
+    const options = { fetchFn, cache: { store: new MapCache() } }
+
+    const keys = await Promise.all([
+      resolveDID(DID, undefined, options),
+      resolveDID(DID, undefined, options),
+      resolveDID(DID, undefined, options),
+    ])
+
+    expect(keys).toEqual([publicKey, publicKey, publicKey])
+    expect(fetchFn).toHaveBeenCalledTimes(1)
+  })
+
+  it('should refetch after invalidation', async () => {
+    const oldKey = generateKeyPair().publicKey
+    const newKey = generateKeyPair().publicKey
+    const fetchFn = serve([
+      () => new Response(didDocument(oldKey)),
+      () => new Response(didDocument(newKey)),
+    ])
+    const store = new MapCache()
+    const options = { fetchFn, cache: { store } }
+
+    await resolveDID(DID, undefined, options)
+    await store.invalidate(DID)
+
+    expect(await resolveDID(DID, undefined, options)).toEqual(newKey)
+  })
+})
+
+describe('DID resolver registry', () => {
+  afterEach(() => {
+    unregisterDIDResolver('example')
+  })
+
+  it('should ship did:key, did:web, did:jwk and did:peer', () => {
+    expect(supportedDIDMethods()).toEqual(['key', 'web', 'jwk', 'peer'])
+  })
+
+  it('should list supported methods when rejecting a DID', () => {
+    expect(() => parseDID('did:example:123')).toThrow(
+      'Unsupported DID method: example. Supported methods: did:key, did:web, did:jwk, did:peer.'
+    )
+  })
+
+  it('should resolve and validate registered methods', async () => {
+    const { publicKey } = generateKeyPair()
+    registerDIDResolver({
+      method: 'example',
+      async resolve(parsed) {
+        expect(parsed.identifier).toBe('123')
+        return normalizeDIDDocument(
+          {
+            verificationMethod: [
+              {
+                id: '#key-1',
+                type: 'Ed25519VerificationKey2020',
+                publicKeyMultibase: encodeBase58btc(
+                  new Uint8Array([0xed, 0x01, ...publicKey])
+                ),
+              },
+            ],
+          },
+          parsed.did
+        )
+      },
+    })
+
+    expect(parseDID('did:example:123').method).toBe('example')
+    expect(didString.safeParse('did:example:123').success).toBe(true)
+    expect(await resolveDID('did:example:123', 'did:example:123#key-1')).toEqual(
+      publicKey
+    )
+  })
+
+  it('should reject unregistered methods in the didString schema', () => {
+    const result = didString.safeParse('did:example:123')
+
+    expect(result.success).toBe(false)
+    expect(result.error?.issues[0].message).toBe(
+      'Must use a supported DID method (did:key, did:web, did:jwk, did:peer)'
+    )
+  })
+
+  it('should reject invalid method names', () => {
+    expect(() =>
+      registerDIDResolver({
+        method: 'Bad-Name',
+        resolve: async (parsed) => normalizeDIDDocument({}, parsed.did),
+      })
+    ).toThrow('Invalid DID method name: Bad-Name')
+  })
+})
@@ -0,0 +1,167 @@
+import { describe, it, expect } from 'vitest'
+import { base64urlnopad } from '@scure/base'
+import {
+  computeJwkThumbprint,
+  computeAccessTokenHash,
+  normalizeHtu,
+  createDPoPProof,
+  verifyDPoPProof,
+} from '../src/dpop'
+import { generateKeyPair, signBytes } from '../src/crypto'
+import { AuthError, AuthErrorCode } from '../src/errors'
+
+const TARGET = 'https://api.example.com/files'
+
+describe('computeJwkThumbprint', () => {
+  it('should match the RFC 8037 test vector', () => {
+    const x = base64urlnopad.decode('11qYAYKxCrfVS_7TyWQHOg7hcvPapiMlrwIaaPcHURo')
+    expect(computeJwkThumbprint(x)).toBe(
+      'kPrK_qmxVWaYVA9wwBF6Iuo3vVzz7TxHCTwXBygrS4k'
+    )
+  })
+
+  it('should reject keys of the wrong length', () => {
+    expect(() => computeJwkThumbprint(new Uint8Array(31))).toThrow(
+      'Public key must be 32 bytes'
+    )
+  })
+})
+
+describe('normalizeHtu', () => {
+  it('should strip query and fragment', () => {
+    expect(normalizeHtu('https://API.example.com/files?page=2#top')).toBe(TARGET)
+  })
+})
+
+describe('DPoP proofs', () => {
+  const keyPair = generateKeyPair()
+  const now = Math.floor(Date.now() / 1000)
+
+  function proof(overrides: Partial<Parameters<typeof createDPoPProof>[0]> = {}) {
+    return createDPoPProof({
+      method: 'get',
+      url: `${TARGET}?page=2`,
+      privateKey: keyPair.privateKey,
+      publicKey: keyPair.publicKey,
+      accessToken: 'token',
+      iat: now,
+      ...overrides,
+    })
+  }
+
+  async function rejection(promise: Promise<unknown>): Promise<AuthError> {
+    const error = await promise.catch((e: unknown) => e)
+    expect(error).toBeInstanceOf(AuthError)
+    expect((error as AuthError).code).toBe(AuthErrorCode.AUTH_INVALID_DPOP_PROOF)
+    return error as AuthError
+  }
+
+  it('should create a verifiable proof', async () => {
+    const { payload, jkt } = await verifyDPoPProof(await proof(), {
+      method: 'GET',
+      url: TARGET,
+      accessToken: 'token',
+      jkt: computeJwkThumbprint(keyPair.publicKey),
+      now,
+    })
+
+    expect(payload).toMatchObject({
+      htm: 'GET',
+      htu: TARGET,
+      iat: now,
+      ath: computeAccessTokenHash('token'),
+    })
+    expect(payload.jti).toMatch(/^[0-9a-f]{32}$/)
+    expect(jkt).toBe(computeJwkThumbprint(keyPair.publicKey))
+  })
+
+  it('should create a proof with a Signer', async () => {
+    const signed = await proof({
+      privateKey: undefined,
+      publicKey: undefined,
+      signer: {
+        keyId: 'did:web:agent.example.com#key-1',
+        publicKey: keyPair.publicKey,
+        sign: (data) => signBytes(data, keyPair.privateKey),
+      },
+    })
+
+    const { jkt } = await verifyDPoPProof(signed, { method: 'GET', url: TARGET, now })
+    expect(jkt).toBe(computeJwkThumbprint(keyPair.publicKey))
+  })
+
+  it('should require a signer or a key pair', async () => {
+    await expect(
+      proof({ privateKey: undefined, publicKey: undefined })
+    ).rejects.toThrow('createDPoPProof requires a signer, or privateKey and publicKey')
+  })
+
+  it('should use a fresh jti for every proof', async () => {
+    const a = await verifyDPoPProof(await proof(), { method: 'GET', url: TARGET, now })
+    const b = await verifyDPoPProof(await proof(), { method: 'GET', url: TARGET, now })
+    expect(a.payload.jti).not.toBe(b.payload.jti)
+  })
+
+  it('should reject a proof for another method or URL', async () => {
+    const p = await proof()
+
+    expect(
+      (await rejection(verifyDPoPProof(p, { method: 'POST', url: TARGET, now }))).message
+    ).toBe('DPoP proof was created for a different HTTP method')
+    expect(
+      (await rejection(
+        verifyDPoPProof(p, { method: 'GET', url: 'https://api.example.com/admin', now })
+      )).message
+    ).toBe('DPoP proof was created for a different URL')
+  })
+
+  it('should reject stale and future proofs', async () => {
+    await rejection(
+      verifyDPoPProof(await proof({ iat: now - 120 }), { method: 'GET', url: TARGET, now })
+    )
+    await rejection(
+      verifyDPoPProof(await proof({ iat: now + 60 }), { method: 'GET', url: TARGET, now })
+    )
+  })
+
+  it('should reject a proof for another access token', async () => {
+    const error = await rejection(
+      verifyDPoPProof(await proof(), {
+        method: 'GET',
+        url: TARGET,
+        accessToken: 'other-token',
+        now,
+      })
+    )
+    expect(error.message).toBe('DPoP proof is not bound to the presented access token')
+  })
+
+  it('should reject a proof signed by a different key', async () => {
+    const error = await rejection(
+      verifyDPoPProof(await proof(), {
+        method: 'GET',
+        url: TARGET,
+        jkt: computeJwkThumbprint(generateKeyPair().publicKey),
+        now,
+      })
+    )
+    expect(error.message).toBe('DPoP proof key does not match the token binding')
+  })
+
+  it('should reject a tampered proof', async () => {
+    const [header, , signature] = (await proof()).split('.')
+    const forged = base64urlnopad.encode(
+      new TextEncoder().encode(JSON.stringify({ htm: 'GET', htu: TARGET, iat: now, jti: 'x' }))
+    )
+
+    const error = await rejection(
+      verifyDPoPProof(`${header}.${forged}.${signature}`, { method: 'GET', url: TARGET, now })
+    )
+    expect(error.message).toBe('DPoP proof signature verification failed')
+  })
+
+  it('should reject malformed proofs', async () => {
+    await rejection(verifyDPoPProof('not-a-jws', { method: 'GET', url: TARGET, now }))
+    await rejection(verifyDPoPProof('a.b.c', { method: 'GET', url: TARGET, now }))
+  })
+})
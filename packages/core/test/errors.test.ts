@@ -114,6 +114,7 @@ describe('AuthError', () => {
       expect(ERROR_STATUS_MAP[AuthErrorCode.AUTH_RATE_LIMITED]).toBe(429)
       expect(ERROR_STATUS_MAP[AuthErrorCode.AUTH_INTERNAL_ERROR]).toBe(500)
       expect(ERROR_STATUS_MAP[AuthErrorCode.AUTH_DID_PENDING]).toBe(202)
+      expect(ERROR_STATUS_MAP[AuthErrorCode.AUTH_SERVER_UNAVAILABLE]).toBe(503)
     })
   })
 })
@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest'
+import {
+  computeContentDigest,
+  buildSignatureBase,
+  parseSignatureInput,
+  parseSignature,
+  signHttpRequest,
+} from '../src/http-signatures'
+import { generateKeyPair, signBytes, verifySignature } from '../src/crypto'
+
+const DID = 'did:key:z6MkhaXgBZDvotDkL5257faiztiGiC2QtKLGpbnnEGta2doK'
+
+describe('computeContentDigest', () => {
+  it('should match the RFC 9530 example', () => {
+    const body = new TextEncoder().encode('{"hello": "world"}\n')
+    expect(computeContentDigest(body)).toBe(
+      'sha-256=:RK/0qy18MlBSVnWgjwz6lZEWjP/lF5HF9bvEF8FabDg=:'
+    )
+  })
+})
+
+describe('buildSignatureBase', () => {
+  it('should serialize covered components and parameters', () => {
+    const base = buildSignatureBase(
+      {
+        method: 'post',
+        path: '/files?page=2',
+        headers: { 'content-digest': 'sha-256=:abc=:', date: 'Tue, 07 Apr 2026 12:00:00 GMT' },
+      },
+      ['@method', '@path', '@query', 'content-digest', 'date'],
+      { created: 1775563200, keyid: DID, alg: 'ed25519', nonce: 'n1' }
+    )
+
+    expect(base).toBe(
+      [
+        '"@method": POST',
+        '"@path": /files',
+        '"@query": ?page=2',
+        '"content-digest": sha-256=:abc=:',
+        '"date": Tue, 07 Apr 2026 12:00:00 GMT',
+        `"@signature-params": ("@method" "@path" "@query" "content-digest" "date");created=1775563200;keyid="${DID}";alg="ed25519";nonce="n1"`,
+      ].join('\n')
+    )
+  })
+
+  it('should fail when a covered header is missing', () => {
+    expect(() =>
+      buildSignatureBase({ method: 'GET', path: '/', headers: {} }, ['date'], {
+        created: 1,
+        keyid: DID,
+        alg: 'ed25519',
+      })
+    ).toThrow('Covered header is missing: date')
+  })
+})
+
+describe('parseSignatureInput', () => {
+  it('should parse components and parameters', () => {
+    expect(
+      parseSignatureInput(
+        `sig1=("@method" "@path" "date");created=1775563200;keyid="${DID}";alg="ed25519";nonce="n1"`
+      )
+    ).toEqual({
+      label: 'sig1',
+      components: ['@method', '@path', 'date'],
+      params: { created: 1775563200, keyid: DID, alg: 'ed25519', nonce: 'n1' },
+    })
+  })
+
+  it('should reject malformed input and multiple signatures', () => {
+    expect(() => parseSignatureInput('sig1=@method')).toThrow()
+    expect(() =>
+      parseSignatureInput('sig1=("date");created=1;keyid="a";alg="ed25519", sig2=("date");created=1;keyid="a";alg="ed25519"')
+    ).toThrow()
+    expect(() => parseSignatureInput('sig1=("date");keyid="a"')).toThrow(
+      'Signature-Input must carry created, keyid and alg'
+    )
+  })
+})
+
+describe('signHttpRequest', () => {
+  it('should produce headers that verify against the rebuilt base', async () => {
+    const { privateKey, publicKey } = generateKeyPair()
+    const body = new TextEncoder().encode('{"name":"report.pdf"}')
+
+    const headers = await signHttpRequest(
+      { method: 'PUT', url: 'https://api.example.com/files/1?overwrite=true', body },
+      DID,
+      (data) => signBytes(data, privateKey),
+      { created: 1775563200, nonce: 'fixed' }
+    )
+
+    expect(headers['Content-Digest']).toBe(computeContentDigest(body))
+    expect(headers.Date).toBe('Tue, 07 Apr 2026 12:00:00 GMT')
+
+    const input = parseSignatureInput(headers['Signature-Input'])
+    expect(input.components).toEqual([
+      '@method',
+      '@path',
+      '@query',
+      'content-digest',
+      'date',
+    ])
+
+    const base = buildSignatureBase(
+      {
+        method: 'PUT',
+        path: '/files/1?overwrite=true',
+        headers: { 'content-digest': headers['Content-Digest'], date: headers.Date },
+      },
+      input.components,
+      input.params
+    )
+    const signature = parseSignature(headers.Signature, input.label)
+
+    expect(
+      await verifySignature(signature, new TextEncoder().encode(base), publicKey)
+    ).toBe(true)
+  })
+
+  it('should cover the query only when present', async () => {
+    const { privateKey } = generateKeyPair()
+    const headers = await signHttpRequest(
+      { method: 'GET', url: 'https://api.example.com/files' },
+      DID,
+      (data) => signBytes(data, privateKey)
+    )
+
+    expect(parseSignatureInput(headers['Signature-Input']).components).toEqual([
+      '@method',
+      '@path',
+      'content-digest',
+      'date',
+    ])
+  })
+})
@@ -4,6 +4,8 @@ import {
   verifyManifest,
   createVerificationMethod,
   validateManifestSequence,
+  signManifestRotation,
+  verifyManifestRotation,
 } from '../src/manifest'
 import type { UnsignedManifest, AgentManifest } from '../src/types'
 import { generateKeyPair } from '../src/crypto'
@@ -370,6 +372,79 @@ describe('Manifest Signing and Verification', () => {
   })
 })
 
+describe('Manifest rotation proofs', () => {
+  async function rotate(previous = generateKeyPair(), next = generateKeyPair()) {
+    const previousDid = publicKeyToDidKey(previous.publicKey)
+    const did = publicKeyToDidKey(next.publicKey)
+    const unsigned = { ...createTestManifest(did), sequence: 2 }
+
+    const withRotation = await signManifestRotation(
+      unsigned,
+      previous.privateKey,
+      createVerificationMethod(previousDid)
+    )
+    return signManifest(withRotation, next.privateKey, createVerificationMethod(did))
+  }
+
+  it('should verify a proof by the previous key', async () => {
+    const previous = generateKeyPair()
+    const manifest = await rotate(previous)
+
+    expect(manifest.rotation?.previous_did).toBe(publicKeyToDidKey(previous.publicKey))
+    expect(await verifyManifest(manifest)).toBe(true)
+    expect(await verifyManifestRotation(manifest)).toBe(manifest.rotation?.previous_did)
+  })
+
+  it('should reject a proof over different manifest content', async () => {
+    const manifest = await rotate()
+    const tampered = { ...manifest, sequence: 3 }
+
+    await expect(verifyManifestRotation(tampered)).rejects.toThrow(
+      'Rotation proof verification failed'
+    )
+  })
+
+  it('should reject a proof by another key', async () => {
+    const manifest = await rotate()
+    const impostor = await rotate()
+    const forged: AgentManifest = {
+      ...manifest,
+      rotation: { ...manifest.rotation!, proof_value: impostor.rotation!.proof_value },
+    }
+
+    await expect(verifyManifestRotation(forged)).rejects.toThrow(
+      'Rotation proof verification failed'
+    )
+  })
+
+  it('should reject a verification method of another DID', async () => {
+    const manifest = await rotate()
+    const forged: AgentManifest = {
+      ...manifest,
+      rotation: { ...manifest.rotation!, verification_method: `${manifest.id}#key-1` },
+    }
+
+    try {
+      await verifyManifestRotation(forged)
+      expect.fail('Should have thrown')
+    } catch (error) {
+      expect((error as AuthError).code).toBe(AuthErrorCode.AUTH_DID_MISMATCH)
+    }
+  })
+
+  it('should reject a manifest without rotation', async () => {
+    const keyPair = generateKeyPair()
+    const did = publicKeyToDidKey(keyPair.publicKey)
+    const manifest = await signManifest(
+      createTestManifest(did),
+      keyPair.privateKey,
+      createVerificationMethod(did)
+    )
+
+    await expect(verifyManifestRotation(manifest)).rejects.toThrow('no rotation proof')
+  })
+})
+
 describe('createVerificationMethod', () => {
   it('should create verification method for did:key', () => {
     const did = 'did:key:z6MkhaXgBZDvotDkL5257faiztiGiC2QtKLGpbnnEGta2doK'
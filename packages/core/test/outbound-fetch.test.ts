@@ -0,0 +1,147 @@
+import { describe, it, expect, vi } from 'vitest'
+import { fetchWithGuard, checkOutboundUrl, isPrivateAddress } from '../src/outbound-fetch'
+
+function redirect(location: string): Response {
+  return new Response(null, { status: 302, headers: { Location: location } })
+}
+
+function serve(responses: Array<() => Response>) {
+  return vi.fn(async () => responses.shift()!()) as unknown as typeof fetch &
+    ReturnType<typeof vi.fn>
+}
+
+describe('isPrivateAddress', () => {
+  it.each([
+    '10.1.2.3',
+    '127.0.0.1',
+    '169.254.169.254',
+    '172.31.255.255',
+    '192.168.0.1',
+    '100.64.0.1',
+    '0.0.0.0',
+    '255.255.255.255',
+    '::1',
+    '::',
+    'fd00::1',
+    'fe80::1%eth0',
+    '::ffff:127.0.0.1',
+    '::ffff:a9fe:a9fe',
+    '64:ff9b::a00:1',
+    'not-an-address',
+  ])('should block %s', (address) => {
+    expect(isPrivateAddress(address)).toBe(true)
+  })
+
+  it.each(['93.184.215.14', '172.32.0.1', '2606:4700:4700::1111', '::ffff:8.8.8.8'])(
+    'should allow %s',
+    (address) => {
+      expect(isPrivateAddress(address)).toBe(false)
+    }
+  )
+})
+
+describe('checkOutboundUrl', () => {
+  const publicLookup = async () => ['93.184.215.14']
+
+  it('should require https', async () => {
+    await expect(checkOutboundUrl('http://example.com/')).rejects.toThrow(
+      'Refusing to fetch non-HTTPS URL'
+    )
+  })
+
+  it.each([
+    'https://127.0.0.1/',
+    'https://2130706433/', // 127.0.0.1 as an integer
+    'https://[::ffff:169.254.169.254]/',
+    'https://localhost/',
+    'https://api.localhost/',
+  ])('should refuse %s', async (url) => {
+    await expect(checkOutboundUrl(url, { lookup: publicLookup })).rejects.toThrow(
+      'Refusing to fetch'
+    )
+  })
+
+  it('should refuse hosts that resolve to a private address', async () => {
+    const lookup = vi.fn(async () => ['93.184.215.14', '10.0.0.7'])
+
+    await expect(checkOutboundUrl('https://agent.example.com/', { lookup })).rejects.toThrow(
+      'Refusing to fetch agent.example.com: resolves to blocked address 10.0.0.7'
+    )
+    expect(lookup).toHaveBeenCalledWith('agent.example.com')
+  })
+
+  it('should honor allowlists', async () => {
+    const lookup = async () => ['10.8.1.2']
+
+    await expect(
+      checkOutboundUrl('https://did.corp.example/', { lookup, allowedHosts: ['*.corp.example'] })
+    ).resolves.toBeUndefined()
+    await expect(
+      checkOutboundUrl('https://did.corp.example/', {
+        lookup,
+        allowedAddressRanges: ['10.8.0.0/16'],
+      })
+    ).resolves.toBeUndefined()
+    await expect(
+      checkOutboundUrl('https://did.corp.example/', {
+        lookup,
+        allowedAddressRanges: ['10.9.0.0/16'],
+      })
+    ).rejects.toThrow('blocked address 10.8.1.2')
+  })
+})
+
+describe('fetchWithGuard', () => {
+  it('should follow https redirects to public hosts', async () => {
+    const fetchFn = serve([
+      () => redirect('https://cdn.example.com/did.json'),
+      () => new Response('{}'),
+    ])
+
+    const { url, body } = await fetchWithGuard('https://example.com/did.json', {
+      fetchFn,
+      lookup: async () => ['93.184.215.14'],
+    })
+
+    expect(url).toBe('https://cdn.example.com/did.json')
+    expect(new TextDecoder().decode(body)).toBe('{}')
+  })
+
+  it.each([
+    ['to plain http', 'http://169.254.169.254/latest/meta-data/', 'non-HTTPS'],
+    ['to a metadata address', 'https://169.254.169.254/latest/meta-data/', 'blocked address'],
+  ])('should refuse a redirect %s', async (_, location, message) => {
+    const fetchFn = serve([() => redirect(location)])
+
+    await expect(
+      fetchWithGuard('https://example.com/did.json', {
+        fetchFn,
+        lookup: async () => ['93.184.215.14'],
+      })
+    ).rejects.toThrow(message)
+    expect(fetchFn).toHaveBeenCalledTimes(1)
+  })
+
+  it('should cap bodies without a Content-Length', async () => {
+    const stream = new ReadableStream({
+      pull(controller) {
+        controller.enqueue(new Uint8Array(4096))
+      },
+    })
+    const fetchFn = serve([() => new Response(stream)])
+
+    await expect(
+      fetchWithGuard('https://example.com/', { fetchFn, maxBytes: 10000 })
+    ).rejects.toThrow('Response exceeded 10000 bytes')
+  })
+
+  it('should reject a declared Content-Length over the cap before reading', async () => {
+    const fetchFn = serve([
+      () => new Response('x'.repeat(100), { headers: { 'Content-Length': '100' } }),
+    ])
+
+    await expect(
+      fetchWithGuard('https://example.com/', { fetchFn, maxBytes: 10 })
+    ).rejects.toThrow('Response exceeded 10 bytes')
+  })
+})
@@ -0,0 +1,396 @@
+/**
+ * ACLAdminHandler — Administrative ACL management logic
+ */
+
+import { createHash, timingSafeEqual } from 'node:crypto';
+import {
+  AuthError,
+  AuthErrorCode,
+  type ACLEntry,
+  type ACLStatus,
+} from '@ai-agent-auth/core';
+import type { ACLStore, TokenRevocationStore } from './config';
+import { TokenRevokingACL } from './token-revocation';
+
+/**
+ * Administrative action recorded in the audit log.
+ */
+export type ACLAdminAction = 'approve' | 'reject' | 'ban' | 'delete';
+
+/**
+ * A single audited ACL change.
+ */
+export interface ACLAuditEvent {
+  /** Admin identifier that performed the change */
+  actor: string;
+  /** Action performed */
+  action: ACLAdminAction;
+  /** DID whose entry changed */
+  did: string;
+  /** Status before the change */
+  previous_status: ACLStatus;
+  /** Status after the change, or null if the entry was deleted */
+  new_status: ACLStatus | null;
+  /** Optional free-form justification */
+  reason?: string;
+  /** When the change happened (ISO 8601) */
+  timestamp: string;
+}
+
+/**
+ * Audit log storage interface.
+ */
+export interface AuditLog {
+  /**
+   * Append an audit event.
+   */
+  record(event: ACLAuditEvent): Promise<void>;
+
+  /**
+   * List audit events in chronological order. Optional DID filter.
+   */
+  list(did?: string): Promise<ACLAuditEvent[]>;
+}
+
+/**
+ * Admin API configuration.
+ */
+export interface AdminConfig {
+  /**
+   * ACL store to manage. Must be the same instance passed to the
+   * authentication handler.
+   */
+  acl: ACLStore;
+
+  /**
+   * Admin credentials, mapping admin identifier → bearer secret.
+   * The identifier is recorded as the `actor` of every audited change.
+   */
+  credentials: Record<string, string>;
+
+  /**
+   * Audit log implementation. Default: InMemoryAuditLog.
+   */
+  auditLog?: AuditLog;
+
+  /**
+   * Callback invoked after every audited change.
+   */
+  onAudit?: (event: ACLAuditEvent) => void | Promise<void>;
+
+  /**
+   * Optional JWT revocation store. When set, banning, rejecting or
+   * deleting an entry revokes all of the DID's outstanding tokens.
+   */
+  tokenRevocationStore?: TokenRevocationStore;
+
+  /**
+   * Path prefix for admin endpoints. Default: "/admin".
+   */
+  pathPrefix?: string;
+}
+
+/**
+ * Allowed ACL status transitions.
+ *
+ * `banned` only leads back to `approved`, and only with an explicit reason,
+ * so a ban can never be silently undone or reset to `pending_approval`.
+ */
+const ALLOWED_TRANSITIONS: Record<ACLStatus, readonly ACLStatus[]> = {
+  pending_approval: ['approved', 'rejected', 'banned'],
+  approved: ['rejected', 'banned'],
+  rejected: ['approved', 'banned'],
+  banned: ['approved'],
+};
+
+/**
+ * Validate an ACL status transition.
+ *
+ * @param from - Current status
+ * @param to - Requested status
+ * @param reason - Justification supplied by the admin
+ * @throws {AuthError} AUTH_INVALID_STATUS_TRANSITION if not allowed
+ */
+export function validateStatusTransition(
+  from: ACLStatus,
+  to: ACLStatus,
+  reason?: string,
+): void {
+  if (!ALLOWED_TRANSITIONS[from].includes(to)) {
+    throw new AuthError(
+      AuthErrorCode.AUTH_INVALID_STATUS_TRANSITION,
+      `Cannot change status from ${from} to ${to}`,
+      { from, to },
+    );
+  }
+
+  if (from === 'banned' && !reason) {
+    throw new AuthError(
+      AuthErrorCode.AUTH_INVALID_STATUS_TRANSITION,
+      'Lifting a ban requires a reason',
+      { from, to },
+    );
+  }
+}
+
+/**
+ * In-memory implementation of the audit log.
+ *
+ * Not durable — use a persistent implementation (database table,
+ * append-only log) in production.
+ */
+export class InMemoryAuditLog implements AuditLog {
+  private events: ACLAuditEvent[] = [];
+
+  /**
+   * Append an audit event.
+   *
+   * @param event - The event to record
+   */
+  async record(event: ACLAuditEvent): Promise<void> {
+    this.events.push(event);
+  }
+
+  /**
+   * List audit events in chronological order.
+   *
+   * @param did - Optional DID filter
+   * @returns Array of audit events
+   */
+  async list(did?: string): Promise<ACLAuditEvent[]> {
+    if (did === undefined) {
+      return [...this.events];
+    }
+
+    return this.events.filter((event) => event.did === did);
+  }
+
+  /**
+   * Clear all events. Useful for testing.
+   */
+  clear(): void {
+    this.events = [];
+  }
+}
+
+/**
+ * ACLAdminHandler implements the admin operations behind the admin router.
+ *
+ * Every mutating operation validates the status transition and is recorded
+ * in the audit log with the acting admin's identifier.
+ *
+ * @example
+ * ```typescript
+ * const admin = new ACLAdminHandler({
+ *   acl,
+ *   credentials: { alice: process.env.ADMIN_TOKEN_ALICE! },
+ * });
+ *
+ * const actor = admin.authenticate(req.headers.authorization);
+ * await admin.approve('did:key:z6Mk...', actor, 'Verified operator');
+ * ```
+ */
+export class ACLAdminHandler {
+  private acl: ACLStore;
+  private credentials: Array<{ actor: string; digest: Buffer }>;
+  private auditLog: AuditLog;
+  private onAudit?: AdminConfig['onAudit'];
+
+  constructor(config: AdminConfig) {
+    this.acl = config.tokenRevocationStore
+      ? new TokenRevokingACL(config.acl, config.tokenRevocationStore)
+      : config.acl;
+    this.credentials = Object.entries(config.credentials).map(
+      ([actor, secret]) => ({ actor, digest: digest(secret) }),
+    );
+    this.auditLog = config.auditLog ?? new InMemoryAuditLog();
+    this.onAudit = config.onAudit;
+
+    if (this.credentials.length === 0) {
+      throw new Error('AdminConfig.credentials must contain at least one entry');
+    }
+  }
+
+  /**
+   * Authenticate an admin from an Authorization header value.
+   *
+   * Secrets are compared in constant time.
+   *
+   * @param authorizationHeader - Raw `Authorization` header
+   * @returns The admin identifier
+   * @throws {AuthError} AUTH_INVALID_TOKEN if missing or unknown
+   */
+  authenticate(authorizationHeader: string | undefined): string {
+    if (!authorizationHeader?.startsWith('Bearer ')) {
+      throw new AuthError(
+        AuthErrorCode.AUTH_INVALID_TOKEN,
+        'Missing or malformed admin credential',
+      );
+    }
+
+    const presented = digest(authorizationHeader.substring(7));
+    let actor: string | null = null;
+
+    // Compare against every credential to avoid leaking which one matched
+    for (const credential of this.credentials) {
+      if (timingSafeEqual(presented, credential.digest)) {
+        actor = credential.actor;
+      }
+    }
+
+    if (actor === null) {
+      throw new AuthError(
+        AuthErrorCode.AUTH_INVALID_TOKEN,
+        'Invalid admin credential',
+      );
+    }
+
+    return actor;
+  }
+
+  /**
+   * List ACL entries, optionally filtered by status.
+   */
+  async listEntries(status?: ACLStatus): Promise<ACLEntry[]> {
+    return this.acl.list(status);
+  }
+
+  /**
+   * Get a single ACL entry.
+   *
+   * @throws {AuthError} AUTH_DID_NOT_FOUND if no entry exists
+   */
+  async getEntry(did: string): Promise<ACLEntry> {
+    const entry = await this.acl.get(did);
+    if (!entry) {
+      throw new AuthError(
+        AuthErrorCode.AUTH_DID_NOT_FOUND,
+        `No ACL entry for ${did}`,
+      );
+    }
+    return entry;
+  }
+
+  /**
+   * Approve an entry.
+   */
+  async approve(did: string, actor: string, reason?: string): Promise<ACLEntry> {
+    return this.transition(did, 'approved', 'approve', actor, reason);
+  }
+
+  /**
+   * Reject an entry.
+   */
+  async reject(did: string, actor: string, reason?: string): Promise<ACLEntry> {
+    return this.transition(did, 'rejected', 'reject', actor, reason);
+  }
+
+  /**
+   * Ban an entry.
+   */
+  async ban(did: string, actor: string, reason?: string): Promise<ACLEntry> {
+    return this.transition(did, 'banned', 'ban', actor, reason);
+  }
+
+  /**
+   * Delete an entry (and its sequence high-water mark).
+   *
+   * Banned entries are kept: deleting one would let the agent register
+   * again as if it had never been banned. Lift the ban first.
+   *
+   * @throws {AuthError} AUTH_DID_NOT_FOUND if no entry exists
+   * @throws {AuthError} AUTH_INVALID_STATUS_TRANSITION if the entry is banned
+   */
+  async deleteEntry(did: string, actor: string, reason?: string): Promise<void> {
+    const entry = await this.getEntry(did);
+
+    if (entry.status === 'banned') {
+      throw new AuthError(
+        AuthErrorCode.AUTH_INVALID_STATUS_TRANSITION,
+        'Cannot delete a banned entry; lift the ban first',
+        { from: entry.status },
+      );
+    }
+
+    await this.acl.delete(did);
+
+    await this.audit({
+      actor,
+      action: 'delete',
+      did,
+      previous_status: entry.status,
+      new_status: null,
+      ...(reason && { reason }),
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * List audit events, optionally for a single DID.
+   */
+  async listAudit(did?: string): Promise<ACLAuditEvent[]> {
+    return this.auditLog.list(did);
+  }
+
+  /**
+   * Apply a validated status change and audit it.
+   *
+   * The admin's reason replaces the entry's `reason`, which always explains
+   * the current status. Re-applying the current status is a no-op and is
+   * not audited.
+   */
+  private async transition(
+    did: string,
+    to: ACLStatus,
+    action: ACLAdminAction,
+    actor: string,
+    reason?: string,
+  ): Promise<ACLEntry> {
+    const entry = await this.getEntry(did);
+
+    if (entry.status === to) {
+      return entry;
+    }
+
+    validateStatusTransition(entry.status, to, reason);
+
+    const now = new Date().toISOString();
+    const updated: ACLEntry = {
+      ...entry,
+      status: to,
+      updated_at: now,
+      reason: reason || undefined,
+    };
+    await this.acl.set(updated);
+
+    await this.audit({
+      actor,
+      action,
+      did,
+      previous_status: entry.status,
+      new_status: to,
+      ...(reason && { reason }),
+      timestamp: now,
+    });
+
+    return updated;
+  }
+
+  /**
+   * Record an audit event and notify the callback.
+   */
+  private async audit(event: ACLAuditEvent): Promise<void> {
+    await this.auditLog.record(event);
+
+    if (this.onAudit) {
+      await this.onAudit(event);
+    }
+  }
+}
+
+/**
+ * SHA-256 digest of a secret, giving fixed-length buffers for comparison.
+ */
+function digest(secret: string): Buffer {
+  return createHash('sha256').update(secret).digest();
+}
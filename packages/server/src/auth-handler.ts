@@ -6,30 +6,71 @@ import {
   AuthError,
   AuthErrorCode,
   verifyManifest,
+  verifyManifestRotation,
   verifyChallengeSignature,
-  resolveDID,
+  resolveDIDDocument,
+  getVerificationMethods,
+  fetchWithGuard,
+  verificationMethodPublicKey,
   generateChallenge,
+  randomBytes,
+  bytesToHex,
+  hashSHA256,
+  computeJwkThumbprint,
+  verifyDPoPProof,
+  verifySignature,
+  buildSignatureBase,
+  computeContentDigest,
+  decodeManifestHeader,
+  parseSignature,
+  parseSignatureInput,
+  REQUIRED_SIGNATURE_COMPONENTS,
+  AgentManifestSchema,
+  supportedDIDMethods,
+  type AgentAuthConfiguration,
   type AgentManifest,
+  type AgentTokenPayload,
   type ACLEntry,
+  type DIDResolutionOptions,
   type ChallengeResponse,
+  type VerifyRequest,
   type VerifyResponse,
   type RegisterResponse,
   ChallengeRequestSchema,
   VerifyRequestSchema,
+  RefreshRequestSchema,
   RegisterRequestSchema,
 } from '@ai-agent-auth/core';
-import type { ServerConfig } from './config';
+import type { JSONWebKeySet } from 'jose';
+import type {
+  ACLStore,
+  DPoPConfig,
+  DPoPRequestContext,
+  RefreshTokenRecord,
+  ServerConfig,
+  SignedRequestConfig,
+  SignedRequestContext,
+} from './config';
 import { InMemoryACL } from './acl';
 import { InMemoryChallengeStore } from './challenge-store';
 import { InMemoryManifestCache } from './manifest-cache';
+import { InMemoryRefreshTokenStore } from './refresh-token-store';
+import { InMemoryDPoPReplayStore } from './dpop-replay-store';
+import { InMemoryDIDDocumentCache } from './did-document-cache';
+import { outboundFetchOptions } from './outbound-fetch';
+import { TokenRevokingACL } from './token-revocation';
+import { KeySet, toPublicJWK } from './keyset';
+import { ScopePolicy } from './scope-policy';
+import { negotiateScopes, parseScope, scopeCovers } from './scopes';
 import { signJWT, verifyJWT } from './jwt';
 
 /**
  * AgentAuthHandler manages the challenge-response authentication flow.
  *
- * Handles three endpoints:
+ * Handles four endpoints:
  * - POST /auth/challenge — Request challenge
  * - POST /auth/verify — Submit signed challenge + manifest
+ * - POST /auth/refresh — Exchange a refresh token (if enabled)
  * - POST /auth/register — Request access (if enabled)
  *
  * @example
@@ -55,26 +96,42 @@ import { signJWT, verifyJWT } from './jwt';
  * ```
  */
 export class AgentAuthHandler {
-  private config: Omit<Required<ServerConfig>, 'onRegistration' | 'fetch' | 'rateLimiter' | 'revocationChecker'> & {
+  private config: Omit<Required<ServerConfig>, 'audience' | 'onRegistration' | 'fetch' | 'rateLimiter' | 'revocationChecker' | 'tokenRevocationStore' | 'dpop' | 'signedRequests' | 'didWebCache' | 'outboundFetch'> & {
+    audience?: string;
     onRegistration?: ServerConfig['onRegistration'];
     fetch: typeof globalThis.fetch;
     rateLimiter?: ServerConfig['rateLimiter'];
     revocationChecker?: ServerConfig['revocationChecker'];
+    tokenRevocationStore?: ServerConfig['tokenRevocationStore'];
+    dpop: Required<DPoPConfig>;
+    signedRequests: Required<SignedRequestConfig>;
   };
 
+  /** Options for every did:web resolution, sharing one document cache */
+  private didResolution: DIDResolutionOptions;
+
   constructor(config: ServerConfig) {
+    const acl = config.acl ?? new InMemoryACL();
+    const refreshTokenStore =
+      config.refreshTokenStore ?? new InMemoryRefreshTokenStore();
+
     // Set defaults
     this.config = {
       issuer: config.issuer,
+      audience: config.audience,
+      audiences: config.audiences ?? [],
       jwtSecret: config.jwtSecret,
       tokenLifetimeSeconds: config.tokenLifetimeSeconds ?? 3600,
       challengeLifetimeSeconds: config.challengeLifetimeSeconds ?? 300,
       clockSkewSeconds: config.clockSkewSeconds ?? 60,
-      acl: config.acl ?? new InMemoryACL(),
+      acl: config.tokenRevocationStore
+        ? new TokenRevokingACL(acl, config.tokenRevocationStore, refreshTokenStore)
+        : acl,
       challengeStore: config.challengeStore ?? new InMemoryChallengeStore(),
       manifestCache:
         config.manifestCache ?? new InMemoryManifestCache(),
       scopes: config.scopes ?? 'read',
+      enforcePermissionsRequired: config.enforcePermissionsRequired ?? false,
       pathPrefix: config.pathPrefix ?? '/auth',
       enableRegistration: config.enableRegistration ?? false,
       onRegistration: config.onRegistration,
@@ -84,13 +141,44 @@ export class AgentAuthHandler {
       didWebResolveMaxRedirects: config.didWebResolveMaxRedirects ?? 3,
       rateLimiter: config.rateLimiter,
       revocationChecker: config.revocationChecker,
+      enableRefreshTokens: config.enableRefreshTokens ?? false,
+      refreshTokenLifetimeSeconds: config.refreshTokenLifetimeSeconds ?? 86400,
+      refreshTokenStore,
+      tokenRevocationStore: config.tokenRevocationStore,
+      dpop: {
+        required: config.dpop?.required ?? false,
+        proofMaxAgeSeconds: config.dpop?.proofMaxAgeSeconds ?? 60,
+        replayStore: config.dpop?.replayStore ?? new InMemoryDPoPReplayStore(),
+      },
+      signedRequests: {
+        maxAgeSeconds: config.signedRequests?.maxAgeSeconds ?? 300,
+        replayStore:
+          config.signedRequests?.replayStore ?? new InMemoryDPoPReplayStore(),
+        maxBodyBytes: config.signedRequests?.maxBodyBytes ?? 1048576,
+      },
+    };
+
+    this.didResolution = {
+      fetchFn: this.config.fetch,
+      timeoutMs: this.config.didWebResolveTimeoutMs,
+      maxBytes: this.config.didWebResolveMaxBytes,
+      maxRedirects: this.config.didWebResolveMaxRedirects,
+      ...outboundFetchOptions(config.outboundFetch),
+      ...(config.didWebCache !== false && {
+        cache: {
+          ...config.didWebCache,
+          store: config.didWebCache?.store ?? new InMemoryDIDDocumentCache(),
+        },
+      }),
     };
   }
 
   /**
    * Handle POST /auth/challenge
    *
-   * Validates DID is in ACL and approved, generates a challenge.
+   * Validates DID is in ACL and approved, generates a challenge. A DID
+   * not yet in the ACL gets a challenge if its `previous_did` is approved;
+   * handleVerify() then requires a rotation proof from that DID.
    *
    * @param body - Request body (must have `did` field)
    * @param clientKey - Optional key for rate limiting (e.g., IP address)
@@ -120,14 +208,42 @@ export class AgentAuthHandler {
       );
     }
 
-    const { did } = validation.data;
+    const { did, previous_did: previousDid } = validation.data;
 
     // Record rate limit after validation
     if (this.config.rateLimiter && clientKey) {
       await this.config.rateLimiter.record(clientKey, 'challenge');
     }
 
-    // Check ACL
+    // Check ACL (of the DID rotated from, for a DID new to the ACL)
+    const rotating =
+      previousDid !== undefined &&
+      previousDid !== did &&
+      !(await this.config.acl.get(did));
+    await this.assertApproved(rotating ? previousDid : did);
+
+    // Generate challenge
+    const challenge = generateChallenge();
+    const expiresAt = new Date(
+      Date.now() + this.config.challengeLifetimeSeconds * 1000,
+    );
+
+    // Store challenge
+    await this.config.challengeStore.store(challenge, did, expiresAt);
+
+    return {
+      challenge,
+      expires_at: expiresAt.toISOString(),
+    };
+  }
+
+  /**
+   * Ensure a DID has an approved ACL entry.
+   *
+   * @param did - The DID to check
+   * @throws {AuthError} if DID not found, pending, rejected, or banned
+   */
+  private async assertApproved(did: string): Promise<void> {
     const aclEntry = await this.config.acl.get(did);
 
     if (!aclEntry) {
@@ -169,20 +285,6 @@ export class AgentAuthHandler {
         'DID has been banned',
       );
     }
-
-    // Generate challenge
-    const challenge = generateChallenge();
-    const expiresAt = new Date(
-      Date.now() + this.config.challengeLifetimeSeconds * 1000,
-    );
-
-    // Store challenge
-    await this.config.challengeStore.store(challenge, did, expiresAt);
-
-    return {
-      challenge,
-      expires_at: expiresAt.toISOString(),
-    };
   }
 
   /**
@@ -214,54 +316,25 @@ export class AgentAuthHandler {
       const manifestUrl = `https://${domain}/.well-known/agent-manifest.json`;
 
       // Fetch with same safety limits as did:web resolution
-      const controller = new AbortController();
-      const timeoutId = setTimeout(
-        () => controller.abort(),
-        this.config.didWebResolveTimeoutMs,
-      );
-
-      try {
-        const response = await this.config.fetch(manifestUrl, {
-          signal: controller.signal,
-          headers: {
-            Accept: 'application/json',
-          },
-        });
-
-        clearTimeout(timeoutId);
-
-        if (!response.ok) {
-          return null;
-        }
-
-        // Check content-length
-        const contentLength = response.headers.get('content-length');
-        if (contentLength && parseInt(contentLength, 10) > this.config.didWebResolveMaxBytes) {
-          return null;
-        }
-
-        // Read response body with size limit
-        const text = await response.text();
-        if (text.length > this.config.didWebResolveMaxBytes) {
-          return null;
-        }
-
-        const json = JSON.parse(text) as AgentManifest;
-
-        // Verify manifest signature before using it
-        const isValid = await verifyManifest(json);
-        if (!isValid) {
-          return null;
-        }
-
-        return json;
-      } catch (error) {
-        clearTimeout(timeoutId);
-        // Network errors, timeouts, parse errors → return null (use fallback)
+      const { body } = await fetchWithGuard(manifestUrl, {
+        ...this.didResolution,
+        headers: {
+          Accept: 'application/json',
+        },
+      });
+
+      const json = JSON.parse(new TextDecoder().decode(body)) as AgentManifest;
+
+      // Verify manifest signature before using it
+      const isValid = await verifyManifest(json, this.didResolution);
+      if (!isValid) {
         return null;
       }
+
+      return json;
     } catch {
-      // Any error in URL construction → return null
+      // Blocked hosts, network errors, timeouts, oversized or unparseable
+      // responses → return null (use fallback)
       return null;
     }
   }
@@ -299,77 +372,298 @@ export class AgentAuthHandler {
       );
     }
 
-    const { did, challenge, signature, manifest: requestManifest } = validation.data;
+    const {
+      did,
+      challenge,
+      signature,
+      manifest: requestManifest,
+      scope: requestedScope,
+      required_scope: requiredScope,
+      audience: requestedAudience,
+      token_type: tokenType,
+    } = validation.data;
+
+    // Reject disallowed audiences before consuming the challenge
+    const audience = requestedAudience ?? this.config.audience;
+    if (
+      requestedAudience !== undefined &&
+      requestedAudience !== this.config.audience &&
+      !this.config.audiences.includes(requestedAudience)
+    ) {
+      throw new AuthError(
+        AuthErrorCode.AUTH_INVALID_REQUEST,
+        `Audience is not allowed: ${requestedAudience}`,
+        { audience: requestedAudience },
+      );
+    }
+
+    if (tokenType === 'Bearer' && this.config.dpop.required) {
+      throw new AuthError(
+        AuthErrorCode.AUTH_INVALID_REQUEST,
+        'This server only issues DPoP-bound tokens',
+        { token_type: tokenType },
+      );
+    }
+    const bindToKey = tokenType === 'DPoP' || this.config.dpop.required;
 
     // Record rate limit after validation
     if (this.config.rateLimiter && clientKey) {
       await this.config.rateLimiter.record(clientKey, 'verify');
     }
 
+    // 1. Atomically consume the challenge before any slow DID/manifest work,
+    // so concurrent verify requests cannot both redeem it
+    const storedChallenge = await this.consumeChallenge(challenge, did);
+
+    // Check challenge expiry with clock skew
+    const now = Date.now();
+    const expiryWithSkew =
+      storedChallenge.expiresAt.getTime() + this.config.clockSkewSeconds * 1000;
+    if (now > expiryWithSkew) {
+      throw new AuthError(
+        AuthErrorCode.AUTH_EXPIRED_CHALLENGE,
+        'Challenge has expired',
+      );
+    }
+
     // For did:web, attempt to fetch manifest remotely
     // Use remote manifest if available, otherwise fall back to request body
     const remoteManifest = await this.fetchRemoteManifest(did);
     const manifest = remoteManifest ?? requestManifest;
 
-    // 1. Retrieve and validate challenge
-    const storedChallenge = await this.config.challengeStore.get(challenge);
-    if (!storedChallenge) {
+    // 2. Verify challenge signature against the DID's authentication keys
+    const publicKey = await this.verifyAuthenticationSignature(did, (key) =>
+      verifyChallengeSignature(
+        challenge,
+        did,
+        storedChallenge.expiresAt.toISOString(),
+        signature,
+        key,
+      ),
+    );
+
+    if (!publicKey) {
+      throw new AuthError(
+        AuthErrorCode.AUTH_INVALID_SIGNATURE,
+        'Challenge signature verification failed',
+      );
+    }
+
+    // 3-5. Verify manifest signature, revocation, DID and expiry
+    await this.checkManifest(did, manifest);
+
+    // 5b. Verify the key rotation proof, if any; find the ACL entry a new
+    // DID takes over
+    const rotatedFrom = await this.checkRotation(did, manifest);
+
+    // 6. Check manifest sequence number (continuing the previous DID's).
+    // Re-presenting the current manifest is allowed, so an agent can hold
+    // sessions for several audiences or re-authenticate after expiry
+    const storedSequence = await this.config.acl.getMaxSequence(rotatedFrom?.did ?? did);
+    if (manifest.sequence < storedSequence) {
+      throw new AuthError(
+        AuthErrorCode.AUTH_MANIFEST_ROLLBACK,
+        `Manifest sequence ${manifest.sequence} is older than stored ${storedSequence}`,
+      );
+    }
+
+    // 6b. Move the approval to the new DID and retire the previous one
+    if (rotatedFrom) {
+      await this.adoptRotatedEntry(did, rotatedFrom);
+    }
+
+    // 7. Determine scopes before recording the sequence, so an agent
+    // denied a required scope can retry with the same manifest
+    const { granted, denied } = await this.grantScopes(did, manifest, {
+      scope: requestedScope,
+      required_scope: requiredScope,
+    });
+
+    // 8. Update sequence number
+    await this.config.acl.updateSequence(did, manifest.sequence);
+
+    // 9. Cache manifest
+    await this.config.manifestCache.set(
+      did,
+      manifest,
+      this.config.tokenLifetimeSeconds,
+    );
+
+    // 10. Issue JWT (and refresh token, if enabled), bound to the key that
+    // signed the challenge if DPoP was requested
+    const response = await this.issueTokens(did, manifest, granted.join(' '), {
+      audience,
+      jkt: bindToKey ? computeJwkThumbprint(publicKey) : undefined,
+    });
+    response.denied_scopes = denied;
+    return response;
+  }
+
+  /**
+   * Burn a challenge issued for `did`, atomically if the store supports
+   * `consume()`.
+   *
+   * Stores without it are checked with `get()` and burnt with
+   * `markUsed()`; concurrent requests can then both pass the check.
+   *
+   * @throws {AuthError} AUTH_CHALLENGE_NOT_FOUND, AUTH_CHALLENGE_ALREADY_USED
+   *   or AUTH_DID_MISMATCH
+   */
+  private async consumeChallenge(
+    challenge: string,
+    did: string,
+  ): Promise<{ did: string; expiresAt: Date }> {
+    const store = this.config.challengeStore;
+    if (store.consume) {
+      return store.consume(challenge, did);
+    }
+
+    const stored = await store.get(challenge);
+    if (!stored) {
       throw new AuthError(
         AuthErrorCode.AUTH_CHALLENGE_NOT_FOUND,
         'Challenge not found or expired',
       );
     }
 
-    if (storedChallenge.used) {
+    if (stored.used) {
       throw new AuthError(
         AuthErrorCode.AUTH_CHALLENGE_ALREADY_USED,
         'Challenge has already been used',
       );
     }
 
-    if (storedChallenge.did !== did) {
+    if (stored.did !== did) {
       throw new AuthError(
         AuthErrorCode.AUTH_DID_MISMATCH,
         'Challenge was issued for a different DID',
       );
     }
 
-    // Check challenge expiry with clock skew
-    const now = Date.now();
-    const expiryWithSkew =
-      storedChallenge.expiresAt.getTime() + this.config.clockSkewSeconds * 1000;
-    if (now > expiryWithSkew) {
+    await store.markUsed(challenge);
+    return { did: stored.did, expiresAt: stored.expiresAt };
+  }
+
+  /**
+   * Verify a signature made by one of a DID's `authentication` keys,
+   * trying each in document order.
+   *
+   * On failure the cached DID Document is dropped, as the agent may have
+   * rotated its keys since it was cached.
+   *
+   * @param did - The signer's DID
+   * @param verify - Checks the signature against one public key
+   * @returns The key that verified the signature, or null if none did
+   * @throws {AuthError} if the DID cannot be resolved or has no
+   *   usable authentication key
+   */
+  private async verifyAuthenticationSignature(
+    did: string,
+    verify: (publicKey: Uint8Array) => Promise<boolean>,
+  ): Promise<Uint8Array | null> {
+    const document = await resolveDIDDocument(did, this.didResolution);
+
+    const keys: Uint8Array[] = [];
+    const unusable: string[] = [];
+    for (const vm of getVerificationMethods(document, 'authentication')) {
+      try {
+        keys.push(verificationMethodPublicKey(vm));
+      } catch (error) {
+        // Not an Ed25519 key; it cannot have made this signature
+        unusable.push(error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    if (keys.length === 0) {
+      await this.invalidateDIDDocument(did);
       throw new AuthError(
-        AuthErrorCode.AUTH_EXPIRED_CHALLENGE,
-        'Challenge has expired',
+        AuthErrorCode.AUTH_DID_RESOLUTION_FAILED,
+        `DID document for ${did} has no usable authentication key` +
+          (unusable.length > 0 ? ` (${unusable.join('; ')})` : ''),
       );
     }
 
-    // 2. Verify challenge signature
-    const publicKey = await resolveDID(did, undefined, {
-      fetchFn: this.config.fetch,
-      timeoutMs: this.config.didWebResolveTimeoutMs,
-      maxBytes: this.config.didWebResolveMaxBytes,
-      maxRedirects: this.config.didWebResolveMaxRedirects,
-    });
+    for (const key of keys) {
+      if (await verify(key)) {
+        return key;
+      }
+    }
 
-    const signatureValid = await verifyChallengeSignature(
-      challenge,
-      did,
-      storedChallenge.expiresAt.toISOString(),
-      signature,
-      publicKey,
-    );
+    await this.invalidateDIDDocument(did);
+    return null;
+  }
 
-    if (!signatureValid) {
-      throw new AuthError(
-        AuthErrorCode.AUTH_INVALID_SIGNATURE,
-        'Challenge signature verification failed',
-      );
+  /**
+   * Check the key rotation proof of a manifest, and whether the DID may
+   * authenticate on the strength of the DID it was rotated from.
+   *
+   * A rotation proof, when present, must verify. A DID already in the ACL
+   * (e.g. a did:web that rotated its key) needs nothing more; a DID not in
+   * the ACL must be rotated from an approved DID.
+   *
+   * @param did - The authenticating DID
+   * @param manifest - Its verified manifest
+   * @returns The ACL entry of the previous DID, if `did` takes it over
+   * @throws {AuthError} if the proof fails, or the DID is not in the ACL
+   *   and not rotated from an approved DID
+   */
+  private async checkRotation(
+    did: string,
+    manifest: AgentManifest,
+  ): Promise<ACLEntry | undefined> {
+    const previousDid = manifest.rotation
+      ? await verifyManifestRotation(manifest, this.didResolution)
+      : undefined;
+
+    if (await this.config.acl.get(did)) {
+      return undefined;
     }
 
-    // 3. Verify manifest
-    const manifestValid = await verifyManifest(manifest);
+    if (previousDid === undefined || previousDid === did) {
+      // Not in the ACL, and not rotated from another DID: throws
+      await this.assertApproved(did);
+      return undefined;
+    }
+
+    await this.assertApproved(previousDid);
+    return (await this.config.acl.get(previousDid)) ?? undefined;
+  }
+
+  /**
+   * Approve a rotated DID with the ACL entry of the DID it was rotated
+   * from, and reject the previous DID so its key can no longer be used.
+   *
+   * @param did - The new DID
+   * @param previous - ACL entry of the DID rotated from
+   */
+  private async adoptRotatedEntry(did: string, previous: ACLEntry): Promise<void> {
+    const now = new Date().toISOString();
+
+    await this.config.acl.set({
+      ...previous,
+      did,
+      updated_at: now,
+      reason: `Key rotated from ${previous.did}`,
+    });
+    await this.config.acl.set({
+      ...previous,
+      status: 'rejected',
+      updated_at: now,
+      reason: `Key rotated to ${did}`,
+    });
+  }
+
+  /**
+   * Check a manifest presented for a DID: proof, revocation status, that
+   * it belongs to the DID, and its validity window.
+   *
+   * @param did - DID the manifest must belong to
+   * @param manifest - Manifest to check
+   * @throws {AuthError} if any check fails
+   */
+  private async checkManifest(did: string, manifest: AgentManifest): Promise<void> {
+    // Verify manifest proof
+    const manifestValid = await verifyManifest(manifest, this.didResolution);
     if (!manifestValid) {
       throw new AuthError(
         AuthErrorCode.AUTH_INVALID_MANIFEST_SIGNATURE,
@@ -377,13 +671,13 @@ export class AgentAuthHandler {
       );
     }
 
-    // 3a. Check manifest revocation (if revocation checker is configured)
+    // Check manifest revocation (if revocation checker is configured)
     if (this.config.revocationChecker) {
       await this.config.revocationChecker.check(manifest);
       // If revoked, this will throw AuthError with AUTH_MANIFEST_REVOKED
     }
 
-    // 4. Validate manifest DID matches
+    // Validate manifest DID matches
     if (manifest.id !== did) {
       throw new AuthError(
         AuthErrorCode.AUTH_DID_MISMATCH,
@@ -391,7 +685,8 @@ export class AgentAuthHandler {
       );
     }
 
-    // 5. Check manifest expiry with clock skew
+    // Check manifest expiry with clock skew
+    const now = Date.now();
     const manifestExpiry = new Date(manifest.valid_until).getTime();
     const maxAllowedExpiry = now + 365 * 24 * 60 * 60 * 1000; // 1 year from now
 
@@ -412,48 +707,254 @@ export class AgentAuthHandler {
         'Manifest valid_until exceeds 1 year maximum',
       );
     }
+  }
 
-    // 6. Check manifest sequence number
-    const storedSequence = await this.config.acl.getMaxSequence(did);
-    if (manifest.sequence <= storedSequence) {
+  /**
+   * Handle POST /auth/refresh
+   *
+   * Exchanges a refresh token for a new JWT and a rotated refresh token
+   * without re-running the challenge flow. ACL status, subject-wide token
+   * revocation and manifest revocation are re-checked on every refresh.
+   *
+   * Presenting an already-used refresh token is treated as theft: the
+   * whole token family is revoked and the agent must re-authenticate.
+   *
+   * @param body - Request body (refresh_token)
+   * @param clientKey - Optional key for rate limiting (e.g., IP address)
+   * @returns Verification response with new JWT and refresh token
+   * @throws {AuthError} if refresh is disabled or the token is invalid
+   */
+  async handleRefresh(body: unknown, clientKey?: string): Promise<VerifyResponse> {
+    if (!this.config.enableRefreshTokens) {
       throw new AuthError(
-        AuthErrorCode.AUTH_MANIFEST_ROLLBACK,
-        `Manifest sequence ${manifest.sequence} is not greater than stored ${storedSequence}`,
+        AuthErrorCode.AUTH_INVALID_REQUEST,
+        'Refresh endpoint is disabled',
       );
     }
 
-    // 7. Update sequence number
-    await this.config.acl.updateSequence(did, manifest.sequence);
+    // Rate limiting
+    if (this.config.rateLimiter && clientKey) {
+      const allowed = await this.config.rateLimiter.check(clientKey, 'refresh');
+      if (!allowed) {
+        throw new AuthError(
+          AuthErrorCode.AUTH_RATE_LIMITED,
+          'Rate limit exceeded. Please try again later.',
+          { retry_after: 60 },
+        );
+      }
+    }
 
-    // 8. Cache manifest
-    await this.config.manifestCache.set(
-      did,
-      manifest,
-      this.config.tokenLifetimeSeconds,
+    // Validate request body
+    const validation = RefreshRequestSchema.safeParse(body);
+    if (!validation.success) {
+      throw new AuthError(
+        AuthErrorCode.AUTH_INVALID_REQUEST,
+        'Invalid refresh request',
+        { zodErrors: validation.error.errors },
+      );
+    }
+
+    // Record rate limit after validation
+    if (this.config.rateLimiter && clientKey) {
+      await this.config.rateLimiter.record(clientKey, 'refresh');
+    }
+
+    // 1. Atomically consume the refresh token
+    const consumed = await this.config.refreshTokenStore.consume(
+      hashRefreshToken(validation.data.refresh_token),
+    );
+
+    if (!consumed) {
+      throw new AuthError(
+        AuthErrorCode.AUTH_INVALID_TOKEN,
+        'Refresh token is invalid or expired',
+      );
+    }
+
+    const { record, reused } = consumed;
+
+    // 2. Reuse detection — revoke the whole family
+    if (reused) {
+      await this.config.refreshTokenStore.revokeFamily(record.familyId);
+      throw new AuthError(
+        AuthErrorCode.AUTH_INVALID_TOKEN,
+        'Refresh token reuse detected; all tokens in this session were revoked',
+      );
+    }
+
+    try {
+      // 3. Re-check ACL status and subject-wide revocation: a cut-off at
+      // or after the family was issued covers its refresh tokens
+      await this.assertApproved(record.did);
+
+      if (
+        this.config.tokenRevocationStore &&
+        await this.config.tokenRevocationStore.isSubjectRevoked(
+          record.did,
+          record.familyIssuedAt ?? new Date(0),
+        )
+      ) {
+        throw new AuthError(
+          AuthErrorCode.AUTH_INVALID_TOKEN,
+          'Refresh token has been revoked',
+        );
+      }
+
+      // 4. Re-check manifest expiry and revocation
+      const manifestExpiry = new Date(record.manifest.valid_until).getTime();
+      if (Date.now() > manifestExpiry + this.config.clockSkewSeconds * 1000) {
+        throw new AuthError(
+          AuthErrorCode.AUTH_MANIFEST_EXPIRED,
+          'Manifest has expired',
+        );
+      }
+
+      if (this.config.revocationChecker) {
+        await this.config.revocationChecker.check(record.manifest);
+      }
+    } catch (error) {
+      // The agent is no longer allowed in — make sure the family cannot be
+      // redeemed again
+      await this.config.refreshTokenStore.revokeFamily(record.familyId);
+      throw error;
+    }
+
+    // 5. Issue new JWT + rotated refresh token in the same family
+    return this.issueTokens(
+      record.did,
+      record.manifest,
+      record.scope,
+      { audience: record.audience, jkt: record.jkt },
+      record,
     );
+  }
+
+  /**
+   * Determine the scopes to grant from the configured string, policy
+   * or callback.
+   *
+   * @throws {AuthError} AUTH_INSUFFICIENT_SCOPE if a policy grants nothing
+   */
+  private async resolveScopes(
+    did: string,
+    manifest: AgentManifest,
+  ): Promise<string> {
+    const { scopes } = this.config;
+
+    if (typeof scopes === 'string') {
+      return scopes;
+    }
+
+    if (scopes instanceof ScopePolicy) {
+      const aclEntry = await this.config.acl.get(did);
+      const granted = scopes.evaluate({ did, manifest, aclEntry });
+
+      if (!granted) {
+        throw new AuthError(
+          AuthErrorCode.AUTH_INSUFFICIENT_SCOPE,
+          'Scope policy grants no scopes to this agent',
+        );
+      }
 
-    // 9. Mark challenge as used
-    await this.config.challengeStore.markUsed(challenge);
+      return granted;
+    }
 
-    // 10. Determine scopes
-    const scopes =
-      typeof this.config.scopes === 'function'
-        ? this.config.scopes(did, manifest)
-        : this.config.scopes;
+    return scopes(did, manifest);
+  }
 
-    // 11. Issue JWT
+  /**
+   * Intersect the requested scopes with what the server allows.
+   *
+   * The request body `scope` is the agent's per-token request, and
+   * `required_scope` lists scopes the token must carry. With
+   * `enforcePermissionsRequired`, the manifest's `permissions_required` is
+   * requested when the body has no `scope`, and every entry must be
+   * grantable. Otherwise, with neither body field, every allowed scope is
+   * granted and `permissions_required` entries the server does not allow
+   * are only reported as denied.
+   *
+   * @throws {AuthError} AUTH_INSUFFICIENT_SCOPE if a required scope
+   *   cannot be granted, or nothing requested can be granted
+   */
+  private async grantScopes(
+    did: string,
+    manifest: AgentManifest,
+    request: Pick<VerifyRequest, 'scope' | 'required_scope'> = {},
+  ): Promise<{ granted: string[]; denied: string[] }> {
+    const allowed = parseScope(await this.resolveScopes(did, manifest));
+    const isAllowed = (permission: string) =>
+      allowed.some((scope) => scopeCovers(scope, permission));
+
+    const permissions = manifest.capabilities.permissions_required ?? [];
+    const enforce = this.config.enforcePermissionsRequired;
+
+    const required = parseScope(request.required_scope ?? '');
+    const mandatory = new Set([...(enforce ? permissions : []), ...required]);
+    const missing = [...mandatory].filter((permission) => !isAllowed(permission));
+    if (missing.length > 0) {
+      throw new AuthError(
+        AuthErrorCode.AUTH_INSUFFICIENT_SCOPE,
+        `Required scopes cannot be granted: ${missing.join(', ')}`,
+        { denied_scopes: missing },
+      );
+    }
+
+    const asked =
+      request.scope !== undefined
+        ? parseScope(request.scope)
+        : enforce ? permissions : [];
+    const requested = [...asked, ...required];
+    if (requested.length === 0) {
+      return {
+        granted: allowed,
+        denied: permissions.filter((permission) => !isAllowed(permission)),
+      };
+    }
+
+    const result = negotiateScopes(allowed, requested);
+    if (result.granted.length === 0) {
+      throw new AuthError(
+        AuthErrorCode.AUTH_INSUFFICIENT_SCOPE,
+        'None of the requested scopes can be granted',
+        { denied_scopes: result.denied },
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * Sign a JWT and, if enabled, a refresh token.
+   *
+   * @param did - Agent DID
+   * @param manifest - Verified agent manifest
+   * @param scopes - Granted scopes (space-separated)
+   * @param binding - Token audience (`aud`) and bound key (`cnf.jkt`), if any
+   * @param family - Existing refresh token family to rotate within
+   * @returns Verification response
+   */
+  private async issueTokens(
+    did: string,
+    manifest: AgentManifest,
+    scopes: string,
+    binding: Pick<RefreshTokenRecord, 'audience' | 'jkt'>,
+    family?: Pick<RefreshTokenRecord, 'familyId' | 'expiresAt' | 'familyIssuedAt'>,
+  ): Promise<VerifyResponse> {
+    const { audience, jkt } = binding;
     const token = await signJWT(
       {
         scope: scopes,
         agent_name: manifest.metadata.name,
         agent_version: manifest.metadata.agent_version,
         manifest_sequence: manifest.sequence,
+        ...(jkt !== undefined && { cnf: { jkt } }),
       },
       did,
       {
         issuer: this.config.issuer,
         lifetimeSeconds: this.config.tokenLifetimeSeconds,
         secret: this.config.jwtSecret,
+        audience,
       },
     );
 
@@ -461,15 +962,41 @@ export class AgentAuthHandler {
       Date.now() + this.config.tokenLifetimeSeconds * 1000,
     );
 
-    return {
+    const response: VerifyResponse = {
       token,
       expires_at: expiresAt.toISOString(),
+      granted_scopes: scopes.split(' '),
+      ...(audience !== undefined && { audience }),
+      ...(jkt !== undefined && { token_type: 'DPoP' as const }),
       agent: {
         did,
         name: manifest.metadata.name,
         capabilities: scopes.split(' '),
       },
     };
+
+    if (this.config.enableRefreshTokens) {
+      const refreshToken = bytesToHex(randomBytes(32));
+      const refreshExpiresAt =
+        family?.expiresAt ??
+        new Date(Date.now() + this.config.refreshTokenLifetimeSeconds * 1000);
+
+      await this.config.refreshTokenStore.store(hashRefreshToken(refreshToken), {
+        did,
+        familyId: family?.familyId ?? bytesToHex(randomBytes(16)),
+        expiresAt: refreshExpiresAt,
+        familyIssuedAt: family ? family.familyIssuedAt : new Date(),
+        manifest,
+        scope: scopes,
+        audience,
+        jkt,
+      });
+
+      response.refresh_token = refreshToken;
+      response.refresh_expires_at = refreshExpiresAt.toISOString();
+    }
+
+    return response;
   }
 
   /**
@@ -520,7 +1047,7 @@ export class AgentAuthHandler {
     }
 
     // Verify manifest signature
-    const manifestValid = await verifyManifest(manifest);
+    const manifestValid = await verifyManifest(manifest, this.didResolution);
     if (!manifestValid) {
       throw new AuthError(
         AuthErrorCode.AUTH_INVALID_MANIFEST_SIGNATURE,
@@ -581,18 +1108,399 @@ export class AgentAuthHandler {
   /**
    * Validate a JWT token.
    *
-   * Use this in guard middleware to protect routes.
+   * Use this in guard middleware to protect routes. Rejects revoked
+   * tokens when a `tokenRevocationStore` is configured, and tokens for
+   * audiences other than `audience` and `audiences` when either is
+   * configured.
    *
-   * @param token - JWT token string (without "Bearer " prefix)
+   * Key-bound (DPoP) tokens are only accepted together with a fresh,
+   * unused proof for the request, signed by the bound key. Unbound tokens
+   * are rejected when `dpop.required` is set.
+   *
+   * @param token - JWT token string (without "Bearer " / "DPoP " prefix)
+   * @param request - Request the token was presented with, for DPoP checks
    * @returns Decoded agent token payload
-   * @throws {AuthError} if token is invalid
+   * @throws {AuthError} AUTH_INVALID_TOKEN if the token is invalid,
+   *   AUTH_INVALID_DPOP_PROOF if the proof is missing, invalid or replayed
    */
-  async validateToken(token: string) {
-    return verifyJWT(token, {
+  async validateToken(
+    token: string,
+    request?: DPoPRequestContext,
+  ): Promise<AgentTokenPayload> {
+    const audiences = [
+      ...(this.config.audience !== undefined ? [this.config.audience] : []),
+      ...this.config.audiences,
+    ];
+    const payload = await verifyJWT(token, {
       issuer: this.config.issuer,
       secret: this.config.jwtSecret,
+      audience: audiences.length > 0 ? audiences : undefined,
+      clockSkewSeconds: this.config.clockSkewSeconds,
+      revocationStore: this.config.tokenRevocationStore,
+    });
+
+    if (payload.cnf?.jkt !== undefined) {
+      await this.verifyProof(token, payload.cnf.jkt, request);
+    } else if (this.config.dpop.required) {
+      throw new AuthError(
+        AuthErrorCode.AUTH_INVALID_TOKEN,
+        'Token is not bound to a key; this server requires DPoP',
+      );
+    }
+
+    return payload;
+  }
+
+  /**
+   * Verify the DPoP proof for a key-bound token and record it, so the
+   * same proof cannot be replayed.
+   *
+   * @throws {AuthError} AUTH_INVALID_DPOP_PROOF
+   */
+  private async verifyProof(
+    token: string,
+    jkt: string,
+    request: DPoPRequestContext | undefined,
+  ): Promise<void> {
+    if (!request?.proof) {
+      throw new AuthError(
+        AuthErrorCode.AUTH_INVALID_DPOP_PROOF,
+        'Token is bound to a key; a DPoP proof is required',
+      );
+    }
+
+    const { proofMaxAgeSeconds, replayStore } = this.config.dpop;
+    const { payload } = await verifyDPoPProof(request.proof, {
+      method: request.method,
+      url: request.url,
+      accessToken: token,
+      jkt,
+      maxAgeSeconds: proofMaxAgeSeconds,
       clockSkewSeconds: this.config.clockSkewSeconds,
     });
+
+    // Remember the proof for as long as it could pass the freshness check
+    const expiresAt = new Date(
+      (payload.iat + proofMaxAgeSeconds + this.config.clockSkewSeconds) * 1000,
+    );
+    if (!(await replayStore.checkAndStore(`${jkt}:${payload.jti}`, expiresAt))) {
+      throw new AuthError(
+        AuthErrorCode.AUTH_INVALID_DPOP_PROOF,
+        'DPoP proof has already been used',
+      );
+    }
+  }
+
+  /**
+   * Validate a signed HTTP request.
+   *
+   * Stateless alternative to {@link validateToken}: the request carries an
+   * HTTP Message Signature made with the agent's DID key instead of a
+   * token. The signature must cover method, path (and query, if any),
+   * `Content-Digest` and `Date`, be fresh, and carry a nonce that has not
+   * been seen before. The DID must be approved in the ACL.
+   *
+   * The agent's manifest is taken from the manifest cache, then the
+   * agent's well-known URL (did:web), then the `Agent-Manifest` header,
+   * and cached once checked. Scopes are granted as for a token with no
+   * explicit scope request.
+   *
+   * @param request - Method, path with query, headers and raw body
+   * @returns Payload describing the agent, shaped like a token payload
+   *   (`jti` is the signature nonce, `iat`/`exp` its validity window)
+   * @throws {AuthError} AUTH_INVALID_HTTP_SIGNATURE if the signature is
+   *   missing, malformed, stale, replayed or invalid; ACL and manifest
+   *   errors as for verify
+   */
+  async validateSignedRequest(
+    request: SignedRequestContext,
+  ): Promise<AgentTokenPayload> {
+    const { maxAgeSeconds, replayStore } = this.config.signedRequests;
+    const signatureInput = singleHeader(request.headers, 'signature-input');
+    const signatureHeader = singleHeader(request.headers, 'signature');
+
+    if (signatureInput === undefined || signatureHeader === undefined) {
+      throw new AuthError(
+        AuthErrorCode.AUTH_INVALID_HTTP_SIGNATURE,
+        'Signature and Signature-Input headers are required',
+      );
+    }
+
+    let input: ReturnType<typeof parseSignatureInput>;
+    let signature: Uint8Array;
+    try {
+      input = parseSignatureInput(signatureInput);
+      signature = parseSignature(signatureHeader, input.label);
+    } catch (error) {
+      throw new AuthError(
+        AuthErrorCode.AUTH_INVALID_HTTP_SIGNATURE,
+        error instanceof Error ? error.message : 'Malformed signature headers',
+      );
+    }
+
+    const { components, params } = input;
+    const nonce = params.nonce;
+    if (params.alg !== 'ed25519') {
+      throw new AuthError(
+        AuthErrorCode.AUTH_INVALID_HTTP_SIGNATURE,
+        `Unsupported signature algorithm: ${params.alg}`,
+      );
+    }
+    if (nonce === undefined) {
+      throw new AuthError(
+        AuthErrorCode.AUTH_INVALID_HTTP_SIGNATURE,
+        'Signature must carry a nonce',
+      );
+    }
+
+    const required: string[] = [...REQUIRED_SIGNATURE_COMPONENTS];
+    if (request.path.includes('?')) {
+      required.push('@query');
+    }
+    const uncovered = required.filter((c) => !components.includes(c));
+    if (uncovered.length > 0) {
+      throw new AuthError(
+        AuthErrorCode.AUTH_INVALID_HTTP_SIGNATURE,
+        `Signature does not cover: ${uncovered.join(', ')}`,
+      );
+    }
+
+    // Freshness: both `created` and the signed Date header must be recent
+    const headers: Record<string, string | undefined> = {};
+    for (const component of components) {
+      if (!component.startsWith('@')) {
+        headers[component] = singleHeader(request.headers, component);
+      }
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const skew = this.config.clockSkewSeconds;
+    const date = Date.parse(headers.date ?? '') / 1000;
+    for (const time of [params.created, date]) {
+      if (!(time >= now - maxAgeSeconds - skew && time <= now + skew)) {
+        throw new AuthError(
+          AuthErrorCode.AUTH_INVALID_HTTP_SIGNATURE,
+          'Signature is expired or not yet valid',
+        );
+      }
+    }
+
+    if (headers['content-digest'] !== computeContentDigest(request.body)) {
+      throw new AuthError(
+        AuthErrorCode.AUTH_INVALID_HTTP_SIGNATURE,
+        'Content-Digest does not match the request body',
+      );
+    }
+
+    // Signer must be approved before any DID resolution
+    const did = params.keyid;
+    await this.assertApproved(did);
+
+    let base: string;
+    try {
+      base = buildSignatureBase(
+        { method: request.method, path: request.path, headers },
+        components,
+        params,
+      );
+    } catch (error) {
+      throw new AuthError(
+        AuthErrorCode.AUTH_INVALID_HTTP_SIGNATURE,
+        error instanceof Error ? error.message : 'Cannot build signature base',
+      );
+    }
+
+    const signatureBase = new TextEncoder().encode(base);
+    const publicKey = await this.verifyAuthenticationSignature(did, (key) =>
+      verifySignature(signature, signatureBase, key),
+    );
+    if (!publicKey) {
+      throw new AuthError(
+        AuthErrorCode.AUTH_INVALID_HTTP_SIGNATURE,
+        'HTTP request signature verification failed',
+      );
+    }
+
+    // Remember the nonce for as long as the signature could pass the
+    // freshness check
+    const expiresAt = new Date((params.created + maxAgeSeconds + skew) * 1000);
+    if (!(await replayStore.checkAndStore(`${did}:${nonce}`, expiresAt))) {
+      throw new AuthError(
+        AuthErrorCode.AUTH_INVALID_HTTP_SIGNATURE,
+        'Signature nonce has already been used',
+      );
+    }
+
+    const manifest = await this.signerManifest(did, request.headers);
+    const { granted } = await this.grantScopes(did, manifest);
+
+    return {
+      iss: this.config.issuer,
+      sub: did,
+      ...(this.config.audience !== undefined && { aud: this.config.audience }),
+      iat: params.created,
+      exp: params.created + maxAgeSeconds,
+      jti: nonce,
+      scope: granted.join(' '),
+      agent_name: manifest.metadata.name,
+      agent_version: manifest.metadata.agent_version,
+      manifest_sequence: manifest.sequence,
+    };
+  }
+
+  /**
+   * Find and check the manifest of a request signer, caching it.
+   *
+   * @throws {AuthError} AUTH_INVALID_REQUEST if no manifest is available,
+   *   manifest errors as for verify
+   */
+  private async signerManifest(
+    did: string,
+    headers: SignedRequestContext['headers'],
+  ): Promise<AgentManifest> {
+    const cached = await this.config.manifestCache.get(did);
+    if (cached) {
+      return cached;
+    }
+
+    let manifest = await this.fetchRemoteManifest(did);
+    if (!manifest) {
+      const header = singleHeader(headers, 'agent-manifest');
+      if (header === undefined) {
+        throw new AuthError(
+          AuthErrorCode.AUTH_INVALID_REQUEST,
+          'Manifest is not cached; send it in the Agent-Manifest header',
+        );
+      }
+
+      let decoded: unknown;
+      try {
+        decoded = decodeManifestHeader(header);
+      } catch {
+        decoded = undefined;
+      }
+      const validation = AgentManifestSchema.safeParse(decoded);
+      if (!validation.success) {
+        throw new AuthError(
+          AuthErrorCode.AUTH_INVALID_REQUEST,
+          'Invalid Agent-Manifest header',
+        );
+      }
+      manifest = validation.data;
+    }
+
+    await this.checkManifest(did, manifest);
+
+    // Same rollback protection as verify, but re-presenting the current
+    // manifest is expected here
+    const storedSequence = await this.config.acl.getMaxSequence(did);
+    if (manifest.sequence < storedSequence) {
+      throw new AuthError(
+        AuthErrorCode.AUTH_MANIFEST_ROLLBACK,
+        `Manifest sequence ${manifest.sequence} is older than stored ${storedSequence}`,
+      );
+    }
+    if (manifest.sequence > storedSequence) {
+      await this.config.acl.updateSequence(did, manifest.sequence);
+    }
+
+    await this.config.manifestCache.set(
+      did,
+      manifest,
+      this.config.tokenLifetimeSeconds,
+    );
+    return manifest;
+  }
+
+  /**
+   * Handle GET /.well-known/jwks.json
+   *
+   * Returns the public JWT verification keys so other services can verify
+   * agent tokens without sharing a secret.
+   *
+   * @returns JSON Web Key Set
+   * @throws {AuthError} AUTH_INVALID_REQUEST if `jwtSecret` is an HMAC secret
+   */
+  handleJWKS(): JSONWebKeySet {
+    const secret = this.config.jwtSecret;
+
+    if (typeof secret === 'string') {
+      throw new AuthError(
+        AuthErrorCode.AUTH_INVALID_REQUEST,
+        'JWKS is only available with asymmetric (EdDSA) signing keys',
+      );
+    }
+
+    if (secret instanceof KeySet) {
+      return secret.toJWKS();
+    }
+
+    return { keys: [toPublicJWK(secret.publicKey)] };
+  }
+
+  /**
+   * Handle GET /.well-known/agent-auth-configuration
+   *
+   * Returns the discovery document: endpoint URLs (under `issuer`), the
+   * supported DID methods and algorithms, token lifetimes and enabled
+   * features, so clients can configure themselves from the server URL.
+   *
+   * @returns Discovery document
+   */
+  handleConfiguration(): AgentAuthConfiguration {
+    const base = `${this.config.issuer.replace(/\/$/, '')}${this.config.pathPrefix}`;
+    const audiences = [
+      ...(this.config.audience !== undefined ? [this.config.audience] : []),
+      ...this.config.audiences,
+    ];
+
+    return {
+      issuer: this.config.issuer,
+      challenge_endpoint: `${base}/challenge`,
+      verify_endpoint: `${base}/verify`,
+      ...(this.config.enableRefreshTokens && { refresh_endpoint: `${base}/refresh` }),
+      ...(this.config.enableRegistration && { registration_endpoint: `${base}/register` }),
+      ...(typeof this.config.jwtSecret !== 'string' && {
+        jwks_uri: `${this.config.issuer.replace(/\/$/, '')}/.well-known/jwks.json`,
+      }),
+      did_methods_supported: supportedDIDMethods(),
+      signing_algorithms_supported: ['EdDSA'],
+      token_signing_algorithm: typeof this.config.jwtSecret === 'string' ? 'HS256' : 'EdDSA',
+      token_types_supported: this.config.dpop.required ? ['DPoP'] : ['Bearer', 'DPoP'],
+      token_lifetime_seconds: this.config.tokenLifetimeSeconds,
+      challenge_lifetime_seconds: this.config.challengeLifetimeSeconds,
+      ...(this.config.enableRefreshTokens && {
+        refresh_token_lifetime_seconds: this.config.refreshTokenLifetimeSeconds,
+      }),
+      registration_enabled: this.config.enableRegistration,
+      ...(audiences.length > 0 && { audiences_supported: audiences }),
+    };
+  }
+
+  /**
+   * Drop the cached did:web DID Document for a DID, so the next
+   * resolution fetches it again (e.g. after the agent rotated its key).
+   *
+   * Called automatically when a signature fails to verify against a
+   * cached document. No-op for other DID methods or with caching off.
+   *
+   * @param did - The DID whose document to drop
+   */
+  async invalidateDIDDocument(did: string): Promise<void> {
+    if (did.startsWith('did:web:')) {
+      await this.didResolution.cache?.store.invalidate(did);
+    }
+  }
+
+  /**
+   * The ACL store used by this handler.
+   *
+   * When a `tokenRevocationStore` is configured this is wrapped so that
+   * banning or rejecting a DID revokes its outstanding tokens — write
+   * through it rather than the raw store.
+   */
+  get acl(): ACLStore {
+    return this.config.acl;
   }
 
   /**
@@ -602,5 +1510,38 @@ export class AgentAuthHandler {
    */
   destroy(): void {
     this.config.challengeStore.dispose();
+    this.config.refreshTokenStore.dispose();
+    this.config.tokenRevocationStore?.dispose?.();
+    this.config.dpop.replayStore.dispose?.();
+    this.config.signedRequests.replayStore.dispose?.();
   }
 }
+
+/**
+ * Read a header that must appear at most once.
+ *
+ * @throws {AuthError} AUTH_INVALID_HTTP_SIGNATURE if it appears repeatedly
+ */
+function singleHeader(
+  headers: SignedRequestContext['headers'],
+  name: string,
+): string | undefined {
+  const value = headers[name];
+  if (Array.isArray(value)) {
+    throw new AuthError(
+      AuthErrorCode.AUTH_INVALID_HTTP_SIGNATURE,
+      `Header must appear once: ${name}`,
+    );
+  }
+  return value;
+}
+
+/**
+ * Hash a refresh token for storage lookup.
+ *
+ * @param refreshToken - Opaque refresh token
+ * @returns Hex-encoded SHA-256 hash
+ */
+function hashRefreshToken(refreshToken: string): string {
+  return bytesToHex(hashSHA256(new TextEncoder().encode(refreshToken)));
+}
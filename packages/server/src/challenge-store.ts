@@ -2,6 +2,7 @@
  * In-memory challenge storage with automatic cleanup
  */
 
+import { AuthError, AuthErrorCode } from '@ai-agent-auth/core';
 import type { ChallengeStore } from './config';
 
 /**
@@ -28,11 +29,8 @@ interface StoredChallenge {
  * // Store a challenge
  * await store.store(challenge, did, new Date(Date.now() + 300_000));
  *
- * // Retrieve it
- * const data = await store.get(challenge);
- * if (data && !data.used) {
- *   await store.markUsed(challenge);
- * }
+ * // Burn it atomically when the agent responds
+ * const { expiresAt } = await store.consume(challenge, did);
  *
  * // Clean up on shutdown
  * store.dispose();
@@ -108,6 +106,51 @@ export class InMemoryChallengeStore implements ChallengeStore {
     }
   }
 
+  /**
+   * Atomically check and burn a challenge.
+   *
+   * The lookup and the `used` flag update happen without yielding to the
+   * event loop, so concurrent callers cannot both consume the same challenge.
+   *
+   * @param challenge - The challenge string to consume
+   * @param did - The DID presenting the challenge
+   * @returns The consumed challenge data
+   * @throws {AuthError} if the challenge is missing, expired, already used,
+   *   or was issued for a different DID
+   */
+  async consume(
+    challenge: string,
+    did: string,
+  ): Promise<{ did: string; expiresAt: Date }> {
+    const stored = this.challenges.get(challenge);
+
+    if (!stored || stored.expiresAt.getTime() < Date.now()) {
+      this.challenges.delete(challenge);
+      throw new AuthError(
+        AuthErrorCode.AUTH_CHALLENGE_NOT_FOUND,
+        'Challenge not found or expired',
+      );
+    }
+
+    if (stored.used) {
+      throw new AuthError(
+        AuthErrorCode.AUTH_CHALLENGE_ALREADY_USED,
+        'Challenge has already been used',
+      );
+    }
+
+    if (stored.did !== did) {
+      throw new AuthError(
+        AuthErrorCode.AUTH_DID_MISMATCH,
+        'Challenge was issued for a different DID',
+      );
+    }
+
+    stored.used = true;
+
+    return { did: stored.did, expiresAt: stored.expiresAt };
+  }
+
   /**
    * Remove expired challenges from storage.
    *
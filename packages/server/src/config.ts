@@ -6,10 +6,15 @@ import type {
   ACLEntry,
   ACLStatus,
   AgentManifest,
+  DIDDocumentCache,
+  DIDWebCacheOptions,
   KeyPair,
+  OutboundFetchOptions,
   AgentTokenPayload,
 } from '@ai-agent-auth/core';
 import type { Request } from 'express';
+import type { KeySet } from './keyset';
+import type { ScopePolicy } from './scope-policy';
 
 /**
  * Server configuration
@@ -22,12 +27,29 @@ export interface ServerConfig {
   issuer: string;
 
   /**
-   * JWT signing secret or Ed25519 key pair.
+   * Audience identifier of the API this server protects, e.g.
+   * "https://files.example.com". When set, tokens are issued with this
+   * `aud` by default. When this or `audiences` is set, the guard rejects
+   * tokens for any audience not among them.
+   */
+  audience?: string;
+
+  /**
+   * Additional audiences agents may request at verify time, for
+   * deployments where one auth server issues tokens for several services.
+   * Requests for any other audience are rejected.
+   */
+  audiences?: string[];
+
+  /**
+   * JWT signing secret, Ed25519 key pair, or rotating key set.
    * If string: used as HMAC-SHA256 secret (HS256).
    * If KeyPair: signs JWT with Ed25519 (EdDSA).
-   * Recommended: EdDSA for production.
+   * If KeySet: signs with the active Ed25519 key and verifies by `kid`.
+   * Recommended: EdDSA for production. With a KeyPair or KeySet, public
+   * keys are published at `/.well-known/jwks.json`.
    */
-  jwtSecret: string | KeyPair;
+  jwtSecret: string | KeyPair | KeySet;
 
   /**
    * JWT token lifetime in seconds. Default: 3600 (1 hour).
@@ -62,9 +84,26 @@ export interface ServerConfig {
   manifestCache?: ManifestCacheStore;
 
   /**
-   * Scopes to grant to authenticated agents.
+   * Scopes to grant to authenticated agents: a fixed scope string, a
+   * declarative ScopePolicy, or a callback. Default: "read".
+   * Verification fails with AUTH_INSUFFICIENT_SCOPE if a policy grants
+   * nothing.
    */
-  scopes?: string | ((did: string, manifest: AgentManifest) => string);
+  scopes?:
+    | string
+    | ScopePolicy
+    | ((did: string, manifest: AgentManifest) => string);
+
+  /**
+   * Treat the manifest's `permissions_required` as the agent's request:
+   * without a request-body `scope`, tokens carry only those permissions
+   * (intersected with `scopes`), and verification fails with
+   * AUTH_INSUFFICIENT_SCOPE if any of them cannot be granted.
+   * Default: false — tokens carry every allowed scope, and
+   * `permissions_required` entries that are not allowed are only reported
+   * in `denied_scopes`, as for agents built before this option existed.
+   */
+  enforcePermissionsRequired?: boolean;
 
   /**
    * Path prefix for auth endpoints. Default: "/auth".
@@ -104,6 +143,23 @@ export interface ServerConfig {
    */
   didWebResolveMaxRedirects?: number;
 
+  /**
+   * did:web DID Document caching. Documents are reused for as long as
+   * their `Cache-Control` / `Expires` headers allow (bounded by
+   * `maxTtlSeconds`), served stale while being refetched, and failed
+   * resolutions are remembered briefly. Default: enabled, with an
+   * InMemoryDIDDocumentCache. Set to `false` to fetch on every use.
+   */
+  didWebCache?: DIDWebCacheConfig | false;
+
+  /**
+   * SSRF protection for did:web, remote manifest and revocation fetches.
+   * Every hop must be https, and hosts that are or resolve (via DNS) to
+   * private, loopback, link-local or reserved addresses are refused.
+   * Use the allowlists for on-premises agents.
+   */
+  outboundFetch?: OutboundFetchConfig;
+
   /**
    * Optional rate limiter for authentication endpoints.
    * If not provided, no rate limiting is applied.
@@ -115,6 +171,122 @@ export interface ServerConfig {
    * If not provided, revocation checking is skipped.
    */
   revocationChecker?: RevocationChecker;
+
+  /**
+   * Issue rotating refresh tokens from /auth/verify and enable the
+   * /auth/refresh endpoint. Default: false.
+   */
+  enableRefreshTokens?: boolean;
+
+  /**
+   * Refresh token lifetime in seconds. Default: 86400 (24 hours).
+   * Rotation does not extend the lifetime of a token family.
+   */
+  refreshTokenLifetimeSeconds?: number;
+
+  /**
+   * Refresh token store implementation. Default: InMemoryRefreshTokenStore.
+   */
+  refreshTokenStore?: RefreshTokenStore;
+
+  /**
+   * Optional JWT revocation store, consulted on every token validation.
+   *
+   * When set, ACL writes made through the handler's ACL (including the
+   * admin API, if given the same store) that move a DID to `banned` or
+   * `rejected` automatically revoke all of its outstanding tokens.
+   */
+  tokenRevocationStore?: TokenRevocationStore;
+
+  /**
+   * Proof-of-possession (DPoP) settings.
+   *
+   * Agents opt in per verify with `token_type: "DPoP"`; the issued token
+   * is bound (`cnf.jkt`) to the agent's DID key and every request must
+   * carry a fresh proof signed with that key. Set `required` to bind
+   * every token and reject plain bearer tokens.
+   */
+  dpop?: DPoPConfig;
+
+  /**
+   * Signed HTTP request settings, for the stateless `signatureGuard`.
+   *
+   * Instead of a token, each request carries an HTTP Message Signature
+   * made with the agent's DID key over its method, path, body digest and
+   * date. The DID must be approved in the ACL; the manifest is taken from
+   * the cache, the agent's well-known URL (did:web) or the
+   * `Agent-Manifest` header.
+   */
+  signedRequests?: SignedRequestConfig;
+}
+
+/**
+ * Signed HTTP request configuration.
+ */
+export interface SignedRequestConfig {
+  /**
+   * Maximum age of a signature in seconds (plus `clockSkewSeconds`).
+   * Default: 300 (5 minutes)
+   */
+  maxAgeSeconds?: number;
+
+  /**
+   * Store of seen signature nonces, for replay detection.
+   * Default: InMemoryDPoPReplayStore.
+   */
+  replayStore?: DPoPReplayStore;
+
+  /**
+   * Maximum request body size the guard reads to check the digest.
+   * Default: 1048576 (1 MB)
+   */
+  maxBodyBytes?: number;
+}
+
+/**
+ * did:web DID Document cache configuration.
+ */
+export interface DIDWebCacheConfig
+  extends Omit<DIDWebCacheOptions, 'store'> {
+  /**
+   * Document store. Default: InMemoryDIDDocumentCache (1000 entries).
+   */
+  store?: DIDDocumentCache;
+}
+
+/**
+ * Outbound fetch guard (SSRF protection) configuration.
+ *
+ * - `allowedHosts`: hosts that may resolve to private addresses;
+ *   "*.example.com" matches subdomains
+ * - `allowedAddressRanges`: CIDR ranges that are never blocked
+ * - `lookup`: host name resolution. Default: DNS, all addresses
+ */
+export type OutboundFetchConfig = Pick<
+  OutboundFetchOptions,
+  'lookup' | 'allowedHosts' | 'allowedAddressRanges'
+>;
+
+/**
+ * Proof-of-possession (DPoP) configuration.
+ */
+export interface DPoPConfig {
+  /**
+   * Bind every issued token and reject unbound tokens. Default: false.
+   */
+  required?: boolean;
+
+  /**
+   * Maximum age of a proof in seconds (plus `clockSkewSeconds`).
+   * Default: 60
+   */
+  proofMaxAgeSeconds?: number;
+
+  /**
+   * Store of seen proof identifiers, for replay detection.
+   * Default: InMemoryDPoPReplayStore.
+   */
+  replayStore?: DPoPReplayStore;
 }
 
 /**
@@ -219,6 +391,28 @@ export interface ChallengeStore {
    */
   markUsed(challenge: string): Promise<void>;
 
+  /**
+   * Atomically check and burn a challenge issued for `did`.
+   *
+   * Must guarantee that, for any number of concurrent callers, at most one
+   * succeeds for a given challenge. A DID mismatch does not burn the challenge.
+   *
+   * Optional for compatibility with stores written before it existed:
+   * without it, the handler falls back to `get()` followed by
+   * `markUsed()`, which is not atomic — two concurrent verify requests
+   * can both redeem one challenge. Implement it (e.g. with a Redis
+   * `GETDEL` or a conditional update) to close that window.
+   *
+   * @returns The consumed challenge data
+   * @throws {AuthError} AUTH_CHALLENGE_NOT_FOUND if missing or expired,
+   *   AUTH_CHALLENGE_ALREADY_USED if already consumed, or
+   *   AUTH_DID_MISMATCH if issued for a different DID
+   */
+  consume?(challenge: string, did: string): Promise<{
+    did: string;
+    expiresAt: Date;
+  }>;
+
   /**
    * Remove expired challenges. Returns the number of entries removed.
    */
@@ -230,6 +424,139 @@ export interface ChallengeStore {
   dispose(): void;
 }
 
+/**
+ * Stored refresh token data.
+ *
+ * Everything needed to mint a new access token without re-running the
+ * challenge flow is kept alongside the token.
+ */
+export interface RefreshTokenRecord {
+  /** Agent DID the token was issued to */
+  did: string;
+  /** Rotation family; all tokens descending from one verify share it */
+  familyId: string;
+  /** When the token (and its family) stops being redeemable */
+  expiresAt: Date;
+  /**
+   * When the family was issued (the original verify), for subject-wide
+   * revocation. If absent, any subject-wide revocation applies.
+   */
+  familyIssuedAt?: Date;
+  /** Manifest presented at the original verify */
+  manifest: AgentManifest;
+  /** Scopes granted at the original verify */
+  scope: string;
+  /** Audience (`aud`) granted at the original verify */
+  audience?: string;
+  /** Key thumbprint (`cnf.jkt`) the tokens are bound to, if any */
+  jkt?: string;
+}
+
+/**
+ * Refresh token storage interface.
+ *
+ * Tokens are identified by a hash of the opaque token string, never the
+ * token itself.
+ */
+export interface RefreshTokenStore {
+  /**
+   * Store a newly issued refresh token.
+   */
+  store(tokenHash: string, record: RefreshTokenRecord): Promise<void>;
+
+  /**
+   * Atomically mark a refresh token as used and return it.
+   *
+   * Returns null if unknown or expired. A token that was already consumed
+   * is returned with `reused: true` so the caller can revoke its family.
+   */
+  consume(tokenHash: string): Promise<{
+    record: RefreshTokenRecord;
+    reused: boolean;
+  } | null>;
+
+  /**
+   * Revoke every token in a family.
+   */
+  revokeFamily(familyId: string): Promise<void>;
+
+  /**
+   * Revoke every token issued to an agent DID (optional). Used by
+   * `TokenRevokingACL` when the DID's access is withdrawn; without it,
+   * the tokens are refused at their next refresh instead.
+   */
+  revokeSubject?(did: string): Promise<void>;
+
+  /**
+   * Remove expired tokens. Returns the number of entries removed.
+   */
+  cleanup(): Promise<number>;
+
+  /**
+   * Graceful shutdown — stop any internal timers / background tasks.
+   */
+  dispose(): void;
+}
+
+/**
+ * JWT revocation (denylist) storage interface.
+ *
+ * Supports revoking a single token by `jti` and revoking every token
+ * issued to a subject (`sub`) up to a point in time.
+ */
+export interface TokenRevocationStore {
+  /**
+   * Revoke a single token. `expiresAt` is the token's `exp`, after which
+   * the entry may be discarded.
+   */
+  revokeToken(jti: string, expiresAt: Date): Promise<void>;
+
+  /**
+   * Revoke every token issued to `sub` at or before `revokedAt`
+   * (default: now). Tokens issued later are unaffected. Refresh tokens
+   * whose family was issued at or before `revokedAt` are refused too.
+   */
+  revokeSubject(sub: string, revokedAt?: Date): Promise<void>;
+
+  /**
+   * Check whether a verified token payload has been revoked.
+   */
+  isRevoked(payload: AgentTokenPayload): Promise<boolean>;
+
+  /**
+   * Check whether `sub` was revoked at or after `issuedAt`, i.e. whether
+   * a credential issued to it at that time (such as a refresh token
+   * family) is covered by a `revokeSubject()` cut-off.
+   */
+  isSubjectRevoked(sub: string, issuedAt: Date): Promise<boolean>;
+
+  /**
+   * Graceful shutdown — stop any internal timers / background tasks.
+   */
+  dispose?(): void;
+}
+
+/**
+ * DPoP proof replay storage interface.
+ *
+ * Remembers proof identifiers until the proof can no longer pass the
+ * freshness check, so each proof is accepted at most once.
+ */
+export interface DPoPReplayStore {
+  /**
+   * Atomically record a proof identifier.
+   *
+   * Returns false if it was already recorded and has not expired
+   * (a replay), true otherwise.
+   */
+  checkAndStore(id: string, expiresAt: Date): Promise<boolean>;
+
+  /**
+   * Graceful shutdown — stop any internal timers / background tasks.
+   */
+  dispose?(): void;
+}
+
 /**
  * Manifest cache storage interface
  */
@@ -250,6 +577,32 @@ export interface ManifestCacheStore {
   invalidate(did: string): Promise<void>;
 }
 
+/**
+ * The HTTP request a DPoP proof is checked against.
+ */
+export interface DPoPRequestContext {
+  /** Value of the `DPoP` header, if present */
+  proof?: string;
+  /** HTTP method, e.g. "GET" */
+  method: string;
+  /** Full request URL as seen by the client (scheme, host, path) */
+  url: string;
+}
+
+/**
+ * The HTTP request a signature is checked against.
+ */
+export interface SignedRequestContext {
+  /** HTTP method, e.g. "POST" */
+  method: string;
+  /** Request path including any query string, e.g. "/files?page=2" */
+  path: string;
+  /** Request headers (lowercase names) */
+  headers: Record<string, string | string[] | undefined>;
+  /** Raw request body (empty for bodiless requests) */
+  body: Uint8Array;
+}
+
 /**
  * Extended Express request with authenticated agent info
  */
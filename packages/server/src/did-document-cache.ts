@@ -0,0 +1,113 @@
+/**
+ * In-memory did:web document cache with LRU eviction
+ */
+
+import type {
+  DIDDocumentCache,
+  DIDDocumentCacheEntry,
+} from '@ai-agent-auth/core';
+
+/**
+ * In-memory implementation of the did:web document cache.
+ *
+ * Holds at most `maxEntries` documents (or cached failures), evicting
+ * the least recently used. Entries are dropped once they can no longer
+ * be served, even stale. Freshness is decided by the resolver from the
+ * DID document response's cache headers (see `ServerConfig.didWebCache`).
+ *
+ * For multi-instance deployments, consider a shared store (e.g. Redis)
+ * so every instance benefits from one fetch.
+ *
+ * @example
+ * ```typescript
+ * const store = new InMemoryDIDDocumentCache(5000);
+ * const auth = agentAuthMiddleware({
+ *   issuer: 'https://api.example.com',
+ *   jwtSecret: keyPair,
+ *   didWebCache: { store },
+ * });
+ *
+ * // After an agent announces a key rotation
+ * await store.invalidate('did:web:agent.example.com');
+ * ```
+ */
+export class InMemoryDIDDocumentCache implements DIDDocumentCache {
+  private cache: Map<string, DIDDocumentCacheEntry> = new Map(); // LRU order
+
+  /**
+   * Create a new InMemoryDIDDocumentCache.
+   *
+   * @param maxEntries - Maximum number of cached DIDs (default: 1000)
+   * @throws {Error} if maxEntries is less than 1
+   */
+  constructor(private readonly maxEntries = 1000) {
+    if (maxEntries < 1) {
+      throw new Error('maxEntries must be at least 1');
+    }
+  }
+
+  /**
+   * Get the cached entry for a DID and mark it recently used.
+   *
+   * Returns null if not found or if the entry can no longer be served.
+   *
+   * @param did - The DID to lookup
+   * @returns Cached entry or null
+   */
+  async get(did: string): Promise<DIDDocumentCacheEntry | null> {
+    const cached = this.cache.get(did);
+    if (!cached) {
+      return null;
+    }
+
+    this.cache.delete(did);
+    if (cached.staleUntil <= Date.now()) {
+      return null;
+    }
+
+    // Re-insert to move to the most recently used position
+    this.cache.set(did, cached);
+    return cached;
+  }
+
+  /**
+   * Cache a resolution result, evicting the least recently used entry
+   * when full.
+   *
+   * @param did - The DID that was resolved
+   * @param entry - Document or failure, with its freshness
+   */
+  async set(did: string, entry: DIDDocumentCacheEntry): Promise<void> {
+    this.cache.delete(did);
+    this.cache.set(did, entry);
+
+    if (this.cache.size > this.maxEntries) {
+      // Map iterates in insertion order: the first key is the LRU entry
+      const oldest = this.cache.keys().next().value as string;
+      this.cache.delete(oldest);
+    }
+  }
+
+  /**
+   * Invalidate the cached document for a DID.
+   *
+   * @param did - The DID to invalidate
+   */
+  async invalidate(did: string): Promise<void> {
+    this.cache.delete(did);
+  }
+
+  /**
+   * Clear all cached documents. Useful for testing.
+   */
+  clear(): void {
+    this.cache.clear();
+  }
+
+  /**
+   * Get total number of cached entries.
+   */
+  get size(): number {
+    return this.cache.size;
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * In-memory DPoP proof replay detection
+ */
+
+import type { DPoPReplayStore } from './config';
+
+/**
+ * In-memory implementation of the DPoP replay store.
+ *
+ * Proof identifiers are kept until their expiry and purged every 60
+ * seconds. The cleanup timer is unref'd to prevent blocking process exit.
+ *
+ * Not suitable for multi-instance deployments — a proof replayed against
+ * another instance would not be detected. Use a shared store (e.g. Redis
+ * `SET key 1 NX PX ttl`) there.
+ *
+ * @example
+ * ```typescript
+ * const auth = agentAuthMiddleware({
+ *   issuer: 'https://api.example.com',
+ *   jwtSecret: keyPair,
+ *   dpop: { required: true, replayStore: new InMemoryDPoPReplayStore() },
+ * });
+ * ```
+ */
+export class InMemoryDPoPReplayStore implements DPoPReplayStore {
+  private seen: Map<string, number> = new Map(); // id → expiresAt (ms)
+  private cleanupTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Create a new InMemoryDPoPReplayStore.
+   *
+   * @param cleanupIntervalMs - How often to run cleanup (default: 60000 = 1 minute)
+   */
+  constructor(cleanupIntervalMs = 60_000) {
+    this.cleanupTimer = setInterval(() => {
+      this.cleanup();
+    }, cleanupIntervalMs);
+
+    // Unref so it doesn't block process exit
+    this.cleanupTimer.unref();
+  }
+
+  /**
+   * Atomically record a proof identifier.
+   *
+   * @param id - Proof identifier (scoped by the caller, e.g. `jkt:jti`)
+   * @param expiresAt - When the proof stops passing the freshness check
+   * @returns false if the identifier was already recorded (a replay)
+   */
+  async checkAndStore(id: string, expiresAt: Date): Promise<boolean> {
+    const existing = this.seen.get(id);
+    if (existing !== undefined && existing > Date.now()) {
+      return false;
+    }
+
+    this.seen.set(id, expiresAt.getTime());
+    return true;
+  }
+
+  /**
+   * Remove expired identifiers.
+   *
+   * @returns The number of entries removed
+   */
+  cleanup(): number {
+    const now = Date.now();
+    let removed = 0;
+
+    for (const [id, expiresAt] of this.seen) {
+      if (expiresAt <= now) {
+        this.seen.delete(id);
+        removed++;
+      }
+    }
+
+    return removed;
+  }
+
+  /**
+   * Graceful shutdown — stop the cleanup timer.
+   */
+  dispose(): void {
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer);
+      this.cleanupTimer = null;
+    }
+  }
+
+  /**
+   * Get the number of remembered proofs.
+   */
+  get size(): number {
+    return this.seen.size;
+  }
+}
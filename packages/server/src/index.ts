@@ -17,12 +17,27 @@ export type {
   RateLimiter,
   RevocationChecker,
   RevocationStatus,
+  RefreshTokenStore,
+  RefreshTokenRecord,
+  TokenRevocationStore,
+  DIDWebCacheConfig,
+  OutboundFetchConfig,
+  DPoPConfig,
+  DPoPReplayStore,
+  DPoPRequestContext,
+  SignedRequestConfig,
+  SignedRequestContext,
 } from './config';
 
 // In-memory storage implementations
 export { InMemoryACL } from './acl';
 export { InMemoryChallengeStore } from './challenge-store';
 export { InMemoryManifestCache } from './manifest-cache';
+export { InMemoryRefreshTokenStore } from './refresh-token-store';
+
+// Persistent storage implementations
+export { SQLiteACL } from './sqlite-acl';
+export type { SQLiteACLConfig, SQLiteACLOpenOptions } from './sqlite-acl';
 
 // Rate limiting
 export {
@@ -32,6 +47,22 @@ export {
 } from './rate-limiter';
 export type { InMemoryRateLimiterConfig } from './rate-limiter';
 
+// Token revocation
+export {
+  InMemoryTokenRevocationStore,
+  TokenRevokingACL,
+} from './token-revocation';
+export type { InMemoryTokenRevocationStoreConfig } from './token-revocation';
+
+// did:web document caching
+export { InMemoryDIDDocumentCache } from './did-document-cache';
+
+// SSRF protection
+export { dnsLookup } from './outbound-fetch';
+
+// DPoP replay detection
+export { InMemoryDPoPReplayStore } from './dpop-replay-store';
+
 // Revocation checking
 export {
   HttpRevocationChecker,
@@ -42,11 +73,65 @@ export type { HttpRevocationCheckerConfig } from './revocation';
 // JWT utilities
 export { signJWT, verifyJWT } from './jwt';
 
+// JWT signing keys
+export {
+  KeySet,
+  computeKeyId,
+  scheduleKeyRotation,
+  toPublicJWK,
+} from './keyset';
+export type {
+  KeySetConfig,
+  KeyRotationOptions,
+  SigningKey,
+} from './keyset';
+
 // Authentication handler
 export { AgentAuthHandler } from './auth-handler';
 
+// ACL administration
+export {
+  ACLAdminHandler,
+  InMemoryAuditLog,
+  validateStatusTransition,
+} from './admin-handler';
+export type {
+  AdminConfig,
+  AuditLog,
+  ACLAuditEvent,
+  ACLAdminAction,
+} from './admin-handler';
+
+// Scope enforcement
+export {
+  assertScopes,
+  hasScopes,
+  negotiateScopes,
+  parseScope,
+  scopeCovers,
+} from './scopes';
+export type { ScopeMatchMode } from './scopes';
+
+// Scope policy
+export { ScopePolicy } from './scope-policy';
+export type {
+  ScopePolicyDocument,
+  ScopePolicyRule,
+  ScopePolicyMatch,
+  ScopePolicyValue,
+  ScopePolicyInput,
+  ScopePolicyDecision,
+  ScopePolicyExplanation,
+  ScopePolicyRuleRef,
+} from './scope-policy';
+
 // Express middleware
-export { agentAuthMiddleware } from './middleware';
+export {
+  agentAuthMiddleware,
+  agentAuthAdminMiddleware,
+  saveRawBody,
+} from './middleware';
+export type { RequireScopesOptions } from './middleware';
 
 // Re-export core types that server users need
 export type {
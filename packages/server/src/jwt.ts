@@ -2,10 +2,18 @@
  * JWT token issuance and verification utilities
  */
 
-import { SignJWT, jwtVerify, type JWTPayload } from 'jose';
+import {
+  SignJWT,
+  createRemoteJWKSet,
+  jwtVerify,
+  type JWTPayload,
+  type JWTVerifyGetKey,
+} from 'jose';
 import type { KeyPair, AgentTokenPayload } from '@ai-agent-auth/core';
 import { AuthError, AuthErrorCode } from '@ai-agent-auth/core';
 import { randomBytes } from '@ai-agent-auth/core';
+import type { TokenRevocationStore } from './config';
+import { KeySet, computeKeyId } from './keyset';
 
 /**
  * JWT signing options
@@ -22,12 +30,13 @@ interface JWTSignOptions {
   lifetimeSeconds: number;
 
   /**
-   * Secret key (HMAC-SHA256) or Ed25519 key pair
+   * Secret key (HMAC-SHA256), Ed25519 key pair, or KeySet (signs with the
+   * active key)
    */
-  secret: string | KeyPair;
+  secret: string | KeyPair | KeySet;
 
   /**
-   * Optional audience (aud claim). Defaults to issuer.
+   * Optional audience (aud claim). Omitted from the token if not set.
    */
   audience?: string;
 }
@@ -42,19 +51,28 @@ interface JWTVerifyOptions {
   issuer: string;
 
   /**
-   * Secret key (HMAC-SHA256) or Ed25519 key pair
+   * Secret key (HMAC-SHA256), Ed25519 key pair, KeySet (key selected by
+   * `kid`), or URL of a remote JWKS such as the issuer's
+   * `/.well-known/jwks.json`
    */
-  secret: string | KeyPair;
+  secret: string | KeyPair | KeySet | URL;
 
   /**
-   * Optional audience (aud claim) to validate. Defaults to issuer.
+   * Optional audience (aud claim), or list of audiences, to validate.
+   * Tokens without a matching `aud` are rejected. If not set, `aud` is
+   * not checked.
    */
-  audience?: string;
+  audience?: string | string[];
 
   /**
    * Clock skew tolerance in seconds (default: 60)
    */
   clockSkewSeconds?: number;
+
+  /**
+   * Optional revocation store. If provided, revoked tokens are rejected.
+   */
+  revocationStore?: TokenRevocationStore;
 }
 
 /**
@@ -66,10 +84,29 @@ function generateJti(): string {
   return Buffer.from(randomBytes(16)).toString('hex');
 }
 
+/**
+ * Remote JWKS resolvers, cached per URL so keys are fetched once and
+ * refreshed by jose when an unknown `kid` appears.
+ */
+const remoteJWKSets = new Map<string, JWTVerifyGetKey>();
+
+/**
+ * Get (or create) the cached resolver for a remote JWKS URL.
+ */
+function getRemoteJWKSet(url: URL): JWTVerifyGetKey {
+  let jwks = remoteJWKSets.get(url.href);
+  if (!jwks) {
+    jwks = createRemoteJWKSet(url);
+    remoteJWKSets.set(url.href, jwks);
+  }
+  return jwks;
+}
+
 /**
  * Sign a JWT token for an authenticated agent.
  *
- * Supports both HS256 (HMAC-SHA256 with string secret) and EdDSA (Ed25519 with KeyPair).
+ * Supports both HS256 (HMAC-SHA256 with string secret) and EdDSA (Ed25519
+ * with KeyPair or KeySet). EdDSA tokens carry the signing key's `kid`.
  *
  * @param payload - Agent token payload (scope, agent_name, agent_version, manifest_sequence)
  * @param did - Agent's DID (will be set as sub claim)
@@ -86,7 +123,7 @@ function generateJti(): string {
  * ```
  */
 export async function signJWT(
-  payload: Omit<AgentTokenPayload, 'iss' | 'sub' | 'exp' | 'iat' | 'jti'>,
+  payload: Omit<AgentTokenPayload, 'iss' | 'sub' | 'aud' | 'exp' | 'iat' | 'jti'>,
   did: string,
   options: JWTSignOptions,
 ): Promise<string> {
@@ -104,11 +141,16 @@ export async function signJWT(
 
   const jwt = new SignJWT(fullPayload as unknown as JWTPayload);
 
+  const signingKey =
+    options.secret instanceof KeySet
+      ? options.secret.active.keyPair
+      : options.secret;
+
   jwt
     .setProtectedHeader(
-      typeof options.secret === 'string'
+      typeof signingKey === 'string'
         ? { alg: 'HS256' }
-        : { alg: 'EdDSA' },
+        : { alg: 'EdDSA', kid: computeKeyId(signingKey.publicKey) },
     )
     .setIssuedAt(now)
     .setExpirationTime(exp)
@@ -121,9 +163,9 @@ export async function signJWT(
     jwt.setAudience(options.audience);
   }
 
-  if (typeof options.secret === 'string') {
+  if (typeof signingKey === 'string') {
     // HMAC-SHA256 signing
-    const secret = new TextEncoder().encode(options.secret);
+    const secret = new TextEncoder().encode(signingKey);
     return jwt.sign(secret);
   } else {
     // EdDSA (Ed25519) signing
@@ -136,8 +178,8 @@ export async function signJWT(
     const privateKeyJwk = {
       kty: 'OKP',
       crv: 'Ed25519',
-      x: Buffer.from(options.secret.publicKey).toString('base64url'),
-      d: Buffer.from(options.secret.privateKey).toString('base64url'),
+      x: Buffer.from(signingKey.publicKey).toString('base64url'),
+      d: Buffer.from(signingKey.privateKey).toString('base64url'),
     };
 
     const privateKey = await importJWK(privateKeyJwk, 'EdDSA');
@@ -149,7 +191,9 @@ export async function signJWT(
  * Verify a JWT token and extract the payload.
  *
  * Validates signature, expiration, issuer, and audience.
- * Applies clock skew tolerance.
+ * Applies clock skew tolerance. Checks the revocation store, if given.
+ * With a KeySet or remote JWKS, the verification key is selected by the
+ * token's `kid` header and unknown key IDs are rejected.
  *
  * @param token - JWT token string
  * @param options - Verification options (issuer, secret, audience, clock skew)
@@ -186,6 +230,19 @@ export async function verifyJWT(
         audience: options.audience,
         clockTolerance,
       });
+    } else if (options.secret instanceof KeySet || options.secret instanceof URL) {
+      // EdDSA verification with key selected by `kid`
+      const getKey =
+        options.secret instanceof URL
+          ? getRemoteJWKSet(options.secret)
+          : getKeySetKey(options.secret);
+
+      result = await jwtVerify(token, getKey, {
+        issuer: options.issuer,
+        audience: options.audience,
+        algorithms: ['EdDSA'],
+        clockTolerance,
+      });
     } else {
       // EdDSA (Ed25519) verification
       const { importJWK } = await import('jose');
@@ -222,6 +279,16 @@ export async function verifyJWT(
       );
     }
 
+    if (
+      options.revocationStore &&
+      (await options.revocationStore.isRevoked(payload))
+    ) {
+      throw new AuthError(
+        AuthErrorCode.AUTH_INVALID_TOKEN,
+        'Token has been revoked',
+      );
+    }
+
     return payload;
   } catch (error) {
     // Handle jose library errors
@@ -260,3 +327,29 @@ export async function verifyJWT(
     );
   }
 }
+
+/**
+ * Build a jose key resolver that selects a KeySet key by `kid`.
+ */
+function getKeySetKey(keySet: KeySet): JWTVerifyGetKey {
+  return async (header) => {
+    const key = header.kid ? keySet.get(header.kid) : undefined;
+    if (!key) {
+      throw new AuthError(
+        AuthErrorCode.AUTH_INVALID_TOKEN,
+        'Token signed with an unknown key',
+        { kid: header.kid },
+      );
+    }
+
+    const { importJWK } = await import('jose');
+    return importJWK(
+      {
+        kty: 'OKP',
+        crv: 'Ed25519',
+        x: Buffer.from(key.keyPair.publicKey).toString('base64url'),
+      },
+      'EdDSA',
+    );
+  };
+}
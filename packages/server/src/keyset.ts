@@ -0,0 +1,290 @@
+/**
+ * Asymmetric JWT signing keys with key IDs and rotation
+ */
+
+import { createHash } from 'node:crypto';
+import type { JSONWebKeySet, JWK } from 'jose';
+import { generateKeyPair, type KeyPair } from '@ai-agent-auth/core';
+
+/**
+ * An Ed25519 signing key tracked by a KeySet.
+ */
+export interface SigningKey {
+  /** Key ID (`kid` header), the RFC 7638 thumbprint of the public key */
+  kid: string;
+  /** Ed25519 key pair */
+  keyPair: KeyPair;
+  /** When the key was added to the set */
+  createdAt: Date;
+  /** When the key stopped signing new tokens (unset for the active key) */
+  retiredAt?: Date;
+}
+
+/**
+ * KeySet configuration.
+ */
+export interface KeySetConfig {
+  /**
+   * Key used to sign new tokens. Default: a freshly generated key pair.
+   */
+  activeKey?: KeyPair;
+
+  /**
+   * Previously active keys that must still verify outstanding tokens,
+   * e.g. when restoring the set after a restart.
+   */
+  retiredKeys?: KeyPair[];
+
+  /**
+   * How long a retired key stays available for verification, in seconds.
+   * Must be at least the maximum token lifetime.
+   * Default: 43200 (12 hours, the maximum `tokenLifetimeSeconds`)
+   */
+  retiredKeyTTLSeconds?: number;
+}
+
+/**
+ * Compute the key ID for an Ed25519 public key.
+ *
+ * Uses the RFC 7638 JWK thumbprint (SHA-256, base64url), so any party
+ * holding the public key derives the same `kid`.
+ *
+ * @param publicKey - 32-byte Ed25519 public key
+ * @returns Base64url-encoded thumbprint
+ */
+export function computeKeyId(publicKey: Uint8Array): string {
+  // Required members in lexicographic order, no whitespace (RFC 7638 §3)
+  const canonical = JSON.stringify({
+    crv: 'Ed25519',
+    kty: 'OKP',
+    x: Buffer.from(publicKey).toString('base64url'),
+  });
+
+  return createHash('sha256').update(canonical).digest('base64url');
+}
+
+/**
+ * Convert an Ed25519 public key to a JWK.
+ *
+ * @param publicKey - 32-byte Ed25519 public key
+ * @returns Public JWK including `kid`, `alg` and `use`
+ */
+export function toPublicJWK(publicKey: Uint8Array): JWK {
+  return {
+    kty: 'OKP',
+    crv: 'Ed25519',
+    x: Buffer.from(publicKey).toString('base64url'),
+    kid: computeKeyId(publicKey),
+    alg: 'EdDSA',
+    use: 'sig',
+  };
+}
+
+/**
+ * Set of Ed25519 JWT signing keys: one active key plus retired keys.
+ *
+ * New tokens are signed with the active key and carry its `kid`. After
+ * `rotate()`, the previous key is retired but kept for verification (and
+ * published in the JWKS) until `retiredKeyTTLSeconds` has passed, so
+ * tokens issued before the rotation remain valid until they expire.
+ *
+ * @example
+ * ```typescript
+ * const keys = new KeySet();
+ *
+ * const auth = agentAuthMiddleware({
+ *   issuer: 'https://api.example.com',
+ *   jwtSecret: keys,
+ * });
+ *
+ * // Publishes GET /.well-known/jwks.json
+ * app.use(auth.router);
+ *
+ * // Rotate daily
+ * const stop = scheduleKeyRotation(keys, { intervalMs: 24 * 60 * 60 * 1000 });
+ * ```
+ */
+export class KeySet {
+  private keys: SigningKey[] = [];
+  private retiredKeyTTLMs: number;
+
+  constructor(config: KeySetConfig = {}) {
+    this.retiredKeyTTLMs = (config.retiredKeyTTLSeconds ?? 43200) * 1000;
+
+    const now = new Date();
+    for (const keyPair of config.retiredKeys ?? []) {
+      this.keys.push({
+        kid: computeKeyId(keyPair.publicKey),
+        keyPair,
+        createdAt: now,
+        retiredAt: now,
+      });
+    }
+
+    this.add(config.activeKey ?? generateKeyPair(), now);
+  }
+
+  /**
+   * The key currently used to sign new tokens.
+   */
+  get active(): SigningKey {
+    return this.keys[this.keys.length - 1];
+  }
+
+  /**
+   * Look up a key by `kid`.
+   *
+   * @param kid - Key ID from the token header
+   * @returns The key, or undefined if unknown, pruned or retired longer
+   *   than `retiredKeyTTLSeconds` ago
+   */
+  get(kid: string): SigningKey | undefined {
+    const cutoff = Date.now() - this.retiredKeyTTLMs;
+    return this.keys.find(
+      (key) => key.kid === kid && !this.isExpired(key, cutoff),
+    );
+  }
+
+  /**
+   * List all keys, oldest first. The last entry is the active key.
+   */
+  list(): SigningKey[] {
+    return [...this.keys];
+  }
+
+  /**
+   * Make a new key active and retire the current one.
+   *
+   * Expired retired keys are pruned as part of rotation.
+   *
+   * @param keyPair - Next signing key (default: freshly generated)
+   * @returns The new active key
+   */
+  rotate(keyPair: KeyPair = generateKeyPair()): SigningKey {
+    const now = new Date();
+
+    this.active.retiredAt = now;
+    this.add(keyPair, now);
+    this.prune();
+
+    return this.active;
+  }
+
+  /**
+   * Remove retired keys older than `retiredKeyTTLSeconds`.
+   *
+   * @returns Number of keys removed
+   */
+  prune(): number {
+    const cutoff = Date.now() - this.retiredKeyTTLMs;
+    const before = this.keys.length;
+
+    this.keys = this.keys.filter((key) => !this.isExpired(key, cutoff));
+
+    return before - this.keys.length;
+  }
+
+  /**
+   * Public keys as a JSON Web Key Set, for `/.well-known/jwks.json`.
+   *
+   * Private key material is never included, nor are keys retired longer
+   * than `retiredKeyTTLSeconds` ago, which {@link get} no longer accepts.
+   */
+  toJWKS(): JSONWebKeySet {
+    const cutoff = Date.now() - this.retiredKeyTTLMs;
+    return {
+      keys: this.keys
+        .filter((key) => !this.isExpired(key, cutoff))
+        .map((key) => toPublicJWK(key.keyPair.publicKey)),
+    };
+  }
+
+  /**
+   * Whether a key was retired at or before `cutoff` (ms since epoch).
+   */
+  private isExpired(key: SigningKey, cutoff: number): boolean {
+    return key.retiredAt !== undefined && key.retiredAt.getTime() <= cutoff;
+  }
+
+  /**
+   * Append a key as the new active key, replacing any existing copy.
+   */
+  private add(keyPair: KeyPair, createdAt: Date): void {
+    const kid = computeKeyId(keyPair.publicKey);
+    this.keys = this.keys.filter((key) => key.kid !== kid);
+    this.keys.push({ kid, keyPair, createdAt });
+  }
+}
+
+/**
+ * Options for scheduled key rotation.
+ */
+export interface KeyRotationOptions {
+  /**
+   * Rotation interval in milliseconds.
+   */
+  intervalMs: number;
+
+  /**
+   * Supplies the next key pair, e.g. from a KMS or shared secret store.
+   * Default: a freshly generated key pair.
+   */
+  nextKey?: () => KeyPair | Promise<KeyPair>;
+
+  /**
+   * Called after each rotation with the new active key.
+   */
+  onRotate?: (key: SigningKey) => void | Promise<void>;
+
+  /**
+   * Called if obtaining the next key or `onRotate` fails.
+   * The current key stays active and rotation is retried next interval.
+   */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Rotate a KeySet on a fixed interval.
+ *
+ * The timer is unref'd so it doesn't prevent process exit.
+ *
+ * @param keySet - Key set to rotate
+ * @param options - Interval and hooks
+ * @returns Function that stops the schedule
+ *
+ * @example
+ * ```typescript
+ * const stop = scheduleKeyRotation(keys, {
+ *   intervalMs: 24 * 60 * 60 * 1000,
+ *   onRotate: (key) => console.log('Rotated JWT signing key', key.kid),
+ * });
+ *
+ * process.on('SIGTERM', stop);
+ * ```
+ */
+export function scheduleKeyRotation(
+  keySet: KeySet,
+  options: KeyRotationOptions,
+): () => void {
+  const rotate = async () => {
+    try {
+      const keyPair = options.nextKey ? await options.nextKey() : undefined;
+      const key = keySet.rotate(keyPair);
+
+      if (options.onRotate) {
+        await options.onRotate(key);
+      }
+    } catch (error) {
+      options.onError?.(error);
+    }
+  };
+
+  const timer = setInterval(() => {
+    void rotate();
+  }, options.intervalMs);
+
+  // Unref so it doesn't block process exit
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
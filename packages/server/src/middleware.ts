@@ -2,21 +2,45 @@
  * Express middleware for AI agent authentication
  */
 
+import type { IncomingMessage, ServerResponse } from 'node:http';
 import type { Request, Response, NextFunction, Router } from 'express';
 import { AgentAuthHandler } from './auth-handler';
+import { ACLAdminHandler, type AdminConfig } from './admin-handler';
 import type { ServerConfig, AuthenticatedRequest } from './config';
-import { AuthError, AuthErrorCode } from '@ai-agent-auth/core';
+import { assertScopes, parseScope, type ScopeMatchMode } from './scopes';
+import {
+  AuthError,
+  AuthErrorCode,
+  type ACLStatus,
+  type AgentTokenPayload,
+} from '@ai-agent-auth/core';
+
+/**
+ * Options for `requireScopes()`.
+ */
+export interface RequireScopesOptions {
+  /**
+   * `all` requires every listed scope (default); `any` requires at least one.
+   */
+  mode?: ScopeMatchMode;
+}
 
 /**
  * Create Express middleware for AI agent authentication.
  *
  * Returns an object with:
- * - `router` — Express router with auth endpoints (/challenge, /verify, /register)
- * - `guard` — Middleware for protecting routes (validates JWT)
+ * - `router` — Express router with auth endpoints (/challenge, /verify, /refresh, /register),
+ *   the `/.well-known/agent-auth-configuration` discovery document, and
+ *   `/.well-known/jwks.json` when `jwtSecret` is a KeyPair or KeySet
+ * - `guard` — Middleware for protecting routes (validates JWT, plus the
+ *   `DPoP` proof header for key-bound tokens)
+ * - `requireScopes` — Guard factory that also enforces token scopes
+ * - `signatureGuard` — Stateless guard for signed HTTP requests (no token;
+ *   see `ServerConfig.signedRequests`)
  * - `handler` — Underlying AgentAuthHandler instance
  *
  * @param config - Server configuration
- * @returns Middleware bundle { router, guard, handler }
+ * @returns Middleware bundle { router, guard, requireScopes, signatureGuard, handler }
  *
  * @example
  * ```typescript
@@ -37,6 +61,13 @@ import { AuthError, AuthErrorCode } from '@ai-agent-auth/core';
  *   res.json({ message: `Hello ${req.agent.sub}` });
  * });
  *
+ * // Require scopes (all-of by default; wildcards such as "files:*" match)
+ * app.put('/files/:id', auth.requireScopes('files:write'), handler);
+ * app.get('/files', auth.requireScopes(['files:read', 'admin'], { mode: 'any' }), handler);
+ *
+ * // Accept signed requests instead of tokens
+ * app.post('/webhooks', auth.signatureGuard, handler);
+ *
  * // Clean up on shutdown
  * process.on('SIGTERM', () => auth.handler.destroy());
  * ```
@@ -44,6 +75,11 @@ import { AuthError, AuthErrorCode } from '@ai-agent-auth/core';
 export function agentAuthMiddleware(config: ServerConfig): {
   router: Router;
   guard: (req: Request, res: Response, next: NextFunction) => Promise<void>;
+  requireScopes: (
+    scopes: string | string[],
+    options?: RequireScopesOptions,
+  ) => (req: Request, res: Response, next: NextFunction) => Promise<void>;
+  signatureGuard: (req: Request, res: Response, next: NextFunction) => Promise<void>;
   handler: AgentAuthHandler;
 } {
   const handler = new AgentAuthHandler(config);
@@ -54,8 +90,8 @@ export function agentAuthMiddleware(config: ServerConfig): {
   const express = require('express') as typeof import('express');
   const router = express.Router();
 
-  // Body parser for JSON
-  router.use(express.json());
+  // Body parser for JSON, keeping the raw bytes for signed requests
+  router.use(express.json({ verify: saveRawBody }));
 
   /**
    * POST /auth/challenge
@@ -87,6 +123,21 @@ export function agentAuthMiddleware(config: ServerConfig): {
     }
   });
 
+  /**
+   * POST /auth/refresh
+   *
+   * Exchange a refresh token for a new JWT (if refresh tokens are enabled).
+   */
+  router.post(`${pathPrefix}/refresh`, async (req, res) => {
+    try {
+      const clientKey = req.ip ?? req.socket.remoteAddress ?? 'unknown';
+      const response = await handler.handleRefresh(req.body, clientKey);
+      res.status(200).json(response);
+    } catch (error) {
+      handleErrorResponse(error, res);
+    }
+  });
+
   /**
    * POST /auth/register
    *
@@ -102,6 +153,94 @@ export function agentAuthMiddleware(config: ServerConfig): {
     }
   });
 
+  /**
+   * GET /.well-known/agent-auth-configuration
+   *
+   * Publish the discovery document for clients.
+   */
+  router.get('/.well-known/agent-auth-configuration', (_req, res) => {
+    try {
+      res.set('Cache-Control', 'public, max-age=300');
+      res.status(200).json(handler.handleConfiguration());
+    } catch (error) {
+      handleErrorResponse(error, res);
+    }
+  });
+
+  /**
+   * GET /.well-known/jwks.json
+   *
+   * Publish public JWT verification keys (asymmetric signing only).
+   */
+  if (typeof config.jwtSecret !== 'string') {
+    router.get('/.well-known/jwks.json', (_req, res) => {
+      try {
+        res.set('Cache-Control', 'public, max-age=300');
+        res.status(200).json(handler.handleJWKS());
+      } catch (error) {
+        handleErrorResponse(error, res);
+      }
+    });
+  }
+
+  /**
+   * Validate the token from the Authorization header, plus the DPoP proof
+   * for key-bound tokens.
+   * Sets `req.agent` with decoded token payload.
+   */
+  const authenticate = async (req: Request): Promise<AgentTokenPayload> => {
+    // Extract token from Authorization header
+    const authHeader = req.headers.authorization;
+    if (!authHeader) {
+      throw new AuthError(
+        AuthErrorCode.AUTH_INVALID_TOKEN,
+        'Missing Authorization header',
+      );
+    }
+
+    const scheme = authHeader.startsWith('Bearer ')
+      ? 'Bearer'
+      : authHeader.startsWith('DPoP ')
+        ? 'DPoP'
+        : null;
+    if (!scheme) {
+      throw new AuthError(
+        AuthErrorCode.AUTH_INVALID_TOKEN,
+        'Authorization header must use Bearer or DPoP scheme',
+      );
+    }
+
+    const token = authHeader.substring(scheme.length + 1); // Remove scheme prefix
+
+    const proof = req.headers.dpop;
+    if (Array.isArray(proof)) {
+      throw new AuthError(
+        AuthErrorCode.AUTH_INVALID_DPOP_PROOF,
+        'Exactly one DPoP header is allowed',
+      );
+    }
+
+    // Validate token (and proof, if the token is key-bound)
+    const payload = await handler.validateToken(token, {
+      proof,
+      method: req.method,
+      url: requestUrl(req),
+    });
+
+    // A key-bound token sent as a plain bearer token is a downgrade
+    if (payload.cnf && scheme !== 'DPoP') {
+      throw new AuthError(
+        AuthErrorCode.AUTH_INVALID_TOKEN,
+        'Key-bound token must use the DPoP scheme',
+      );
+    }
+
+    // Set agent on request
+    (req as AuthenticatedRequest).agent = payload;
+
+    return payload;
+  };
+
   /**
    * Guard middleware for protecting routes.
    *
@@ -110,37 +249,287 @@ export function agentAuthMiddleware(config: ServerConfig): {
    */
   const guard = async (req: Request, res: Response, next: NextFunction) => {
     try {
-      // Extract token from Authorization header
-      const authHeader = req.headers.authorization;
-      if (!authHeader) {
-        throw new AuthError(
-          AuthErrorCode.AUTH_INVALID_TOKEN,
-          'Missing Authorization header',
-        );
-      }
+      await authenticate(req);
+      next();
+    } catch (error) {
+      handleGuardError(error, req, res, config);
+    }
+  };
 
-      if (!authHeader.startsWith('Bearer ')) {
-        throw new AuthError(
-          AuthErrorCode.AUTH_INVALID_TOKEN,
-          'Authorization header must use Bearer scheme',
-        );
+  /**
+   * Guard factory that validates the JWT and enforces scopes.
+   *
+   * @param scopes - Required scope(s), as an array or space-delimited string
+   * @param options - Match mode (default: all-of)
+   * @returns Guard middleware
+   * @throws {Error} if no scopes are given
+   */
+  const requireScopes = (
+    scopes: string | string[],
+    options: RequireScopesOptions = {},
+  ) => {
+    const required = typeof scopes === 'string' ? parseScope(scopes) : scopes;
+    const mode = options.mode ?? 'all';
+
+    if (required.length === 0) {
+      throw new Error('requireScopes() needs at least one scope');
+    }
+
+    return async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const payload = await authenticate(req);
+        assertScopes(payload, required, mode);
+        next();
+      } catch (error) {
+        handleGuardError(error, req, res, config);
       }
+    };
+  };
+
+  /**
+   * Guard middleware for signed HTTP requests.
+   *
+   * Validates the `Signature`, `Signature-Input`, `Content-Digest` and
+   * `Date` headers against the raw request body. Sets `req.agent` with a
+   * token-shaped payload, so `req.agent` works as for `guard`. Invalid or
+   * missing signatures get a 401 with a `WWW-Authenticate: Signature`
+   * challenge, as `guard` answers with a Bearer one.
+   */
+  const signatureGuard = async (
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ) => {
+    try {
+      const body = await readRawBody(
+        req,
+        config.signedRequests?.maxBodyBytes ?? 1048576,
+      );
+      (req as AuthenticatedRequest).agent = await handler.validateSignedRequest({
+        method: req.method,
+        path: req.originalUrl,
+        headers: req.headers,
+        body,
+      });
+      next();
+    } catch (error) {
+      handleSignatureGuardError(error, req, res, config);
+    }
+  };
 
-      const token = authHeader.substring(7); // Remove "Bearer " prefix
+  return { router, guard, requireScopes, signatureGuard, handler };
+}
 
-      // Validate token
-      const payload = await handler.validateToken(token);
+/**
+ * Body parser `verify` hook that keeps the raw request bytes, which
+ * `signatureGuard` needs to check `Content-Digest`.
+ *
+ * `agentAuthMiddleware`'s router already uses it; pass it to any other
+ * body parser that runs before `signatureGuard`.
+ *
+ * @example
+ * ```typescript
+ * app.use(express.json({ verify: saveRawBody }));
+ * app.post('/webhooks', auth.signatureGuard, handler);
+ * ```
+ */
+export function saveRawBody(
+  req: IncomingMessage,
+  _res: ServerResponse,
+  buf: Buffer,
+): void {
+  (req as RawBodyRequest).rawBody = buf;
+}
 
-      // Set agent on request
-      (req as AuthenticatedRequest).agent = payload;
+/**
+ * Request with the raw body bytes saved by `saveRawBody`.
+ */
+type RawBodyRequest = IncomingMessage & { rawBody?: Buffer; _body?: boolean };
 
+/**
+ * Get the raw request body: the bytes saved by `saveRawBody`, or the
+ * unread request stream (which is consumed, and saved as `rawBody`).
+ *
+ * @throws {AuthError} AUTH_INVALID_REQUEST if the body exceeds `maxBytes`
+ * @throws {Error} if a body parser consumed the body without saving it
+ */
+async function readRawBody(req: Request, maxBytes: number): Promise<Uint8Array> {
+  const raw = req as RawBodyRequest;
+  if (raw.rawBody) {
+    return raw.rawBody;
+  }
+
+  // body-parser sets `_body` once it has consumed the stream
+  if (raw._body || req.readableEnded) {
+    throw new Error(
+      'Request body was parsed without keeping the raw bytes; ' +
+        'use express.json({ verify: saveRawBody })',
+    );
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > maxBytes) {
+      throw new AuthError(
+        AuthErrorCode.AUTH_INVALID_REQUEST,
+        `Request body exceeds ${maxBytes} bytes`,
+      );
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  raw.rawBody = Buffer.concat(chunks);
+  return raw.rawBody;
+}
+
+/**
+ * Create an Express router for ACL administration.
+ *
+ * Mount it next to `agentAuthMiddleware`, sharing the same ACL store.
+ * Every route requires an admin credential (`Authorization: Bearer <secret>`)
+ * from `config.credentials`, which is distinct from agent JWTs.
+ *
+ * Endpoints (relative to `pathPrefix`, default "/admin"):
+ * - `GET /acl?status=` — list entries
+ * - `GET /acl/:did` — get one entry
+ * - `POST /acl/:did/approve|reject|ban` — change status (body: `{ reason? }`)
+ * - `DELETE /acl/:did` — delete entry (banned entries are kept)
+ * - `GET /audit?did=` — audit trail
+ *
+ * @param config - Admin configuration
+ * @returns Middleware bundle { router, handler }
+ *
+ * @example
+ * ```typescript
+ * const acl = new SQLiteACL({ filename: './acl.db' });
+ * const auth = agentAuthMiddleware({ issuer, jwtSecret, acl });
+ * const admin = agentAuthAdminMiddleware({
+ *   acl,
+ *   credentials: { ops: process.env.ADMIN_TOKEN! },
+ * });
+ *
+ * app.use(auth.router);
+ * app.use(admin.router);
+ * ```
+ */
+export function agentAuthAdminMiddleware(config: AdminConfig): {
+  router: Router;
+  handler: ACLAdminHandler;
+} {
+  const handler = new ACLAdminHandler(config);
+  const pathPrefix = config.pathPrefix ?? '/admin';
+
+  // Lazy-load express to avoid bundling it
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  const express = require('express') as typeof import('express');
+  const router = express.Router();
+
+  router.use(pathPrefix, express.json());
+
+  // Authenticate every admin request, exposing the actor to route handlers
+  router.use(pathPrefix, (req, res, next) => {
+    try {
+      res.locals.adminActor = handler.authenticate(req.headers.authorization);
       next();
     } catch (error) {
       handleErrorResponse(error, res);
     }
-  };
+  });
+
+  router.get(`${pathPrefix}/acl`, async (req, res) => {
+    try {
+      const status =
+        typeof req.query.status === 'string'
+          ? parseStatus(req.query.status)
+          : undefined;
+      res.status(200).json({ entries: await handler.listEntries(status) });
+    } catch (error) {
+      handleErrorResponse(error, res);
+    }
+  });
 
-  return { router, guard, handler };
+  router.get(`${pathPrefix}/acl/:did`, async (req, res) => {
+    try {
+      res.status(200).json(await handler.getEntry(req.params.did));
+    } catch (error) {
+      handleErrorResponse(error, res);
+    }
+  });
+
+  for (const action of ['approve', 'reject', 'ban'] as const) {
+    router.post(`${pathPrefix}/acl/:did/${action}`, async (req, res) => {
+      try {
+        const entry = await handler[action](
+          req.params.did,
+          res.locals.adminActor as string,
+          readReason(req.body),
+        );
+        res.status(200).json(entry);
+      } catch (error) {
+        handleErrorResponse(error, res);
+      }
+    });
+  }
+
+  router.delete(`${pathPrefix}/acl/:did`, async (req, res) => {
+    try {
+      await handler.deleteEntry(
+        req.params.did,
+        res.locals.adminActor as string,
+        readReason(req.body),
+      );
+      res.status(204).end();
+    } catch (error) {
+      handleErrorResponse(error, res);
+    }
+  });
+
+  router.get(`${pathPrefix}/audit`, async (req, res) => {
+    try {
+      const did = typeof req.query.did === 'string' ? req.query.did : undefined;
+      res.status(200).json({ events: await handler.listAudit(did) });
+    } catch (error) {
+      handleErrorResponse(error, res);
+    }
+  });
+
+  return { router, handler };
+}
+
+/**
+ * Validate an ACL status filter from a query string.
+ */
+function parseStatus(value: string): ACLStatus {
+  const statuses: readonly string[] = [
+    'pending_approval',
+    'approved',
+    'rejected',
+    'banned',
+  ];
+
+  if (!statuses.includes(value)) {
+    throw new AuthError(
+      AuthErrorCode.AUTH_INVALID_REQUEST,
+      `Unknown ACL status: ${value}`,
+    );
+  }
+
+  return value as ACLStatus;
+}
+
+/**
+ * Extract an optional `reason` string from an admin request body.
+ */
+function readReason(body: unknown): string | undefined {
+  if (body && typeof body === 'object' && 'reason' in body) {
+    const { reason } = body as { reason: unknown };
+    if (typeof reason === 'string' && reason.length > 0) {
+      return reason;
+    }
+  }
+  return undefined;
 }
 
 /**
@@ -181,6 +570,114 @@ function handleErrorResponse(error: unknown, res: Response): void {
   }
 }
 
+/**
+ * Reconstruct the URL the client sent the request to, for DPoP `htu`.
+ *
+ * Behind a reverse proxy, enable Express `trust proxy` so the protocol
+ * and host reflect the client's view.
+ */
+function requestUrl(req: Request): string {
+  return `${req.protocol}://${req.get('host')}${req.originalUrl}`;
+}
+
+/**
+ * Send a guard error with an RFC 6750 `WWW-Authenticate` challenge.
+ *
+ * The `error` attribute is omitted when no credentials were presented
+ * (RFC 6750 §3.1); insufficient scope responses list the required scopes.
+ * The `DPoP` scheme (RFC 9449 §7.1) is used for proof errors, for
+ * requests that used it, and when the server requires DPoP.
+ */
+function handleGuardError(
+  error: unknown,
+  req: Request,
+  res: Response,
+  config: ServerConfig,
+): void {
+  if (error instanceof AuthError) {
+    const params = [`realm="${quoteSafe(config.issuer)}"`];
+    const dpop =
+      config.dpop?.required === true ||
+      error.code === AuthErrorCode.AUTH_INVALID_DPOP_PROOF ||
+      req.headers.authorization?.startsWith('DPoP ') === true;
+
+    if (error.code === AuthErrorCode.AUTH_INVALID_DPOP_PROOF) {
+      params.push(
+        'error="invalid_dpop_proof"',
+        `error_description="${quoteSafe(error.message)}"`,
+      );
+    } else if (error.code === AuthErrorCode.AUTH_INVALID_TOKEN) {
+      if (req.headers.authorization) {
+        params.push(
+          'error="invalid_token"',
+          `error_description="${quoteSafe(error.message)}"`,
+        );
+      }
+    } else if (error.code === AuthErrorCode.AUTH_INSUFFICIENT_SCOPE) {
+      const required = error.details?.required_scopes;
+      params.push(
+        'error="insufficient_scope"',
+        `error_description="${quoteSafe(error.message)}"`,
+      );
+      if (Array.isArray(required)) {
+        params.push(`scope="${quoteSafe(required.join(' '))}"`);
+      }
+    }
+
+    if (dpop) {
+      params.push('algs="EdDSA"');
+    }
+
+    if (
+      error.code === AuthErrorCode.AUTH_INVALID_TOKEN ||
+      error.code === AuthErrorCode.AUTH_INVALID_DPOP_PROOF ||
+      error.code === AuthErrorCode.AUTH_INSUFFICIENT_SCOPE
+    ) {
+      res.set(
+        'WWW-Authenticate',
+        `${dpop ? 'DPoP' : 'Bearer'} ${params.join(', ')}`,
+      );
+    }
+  }
+
+  handleErrorResponse(error, res);
+}
+
+/**
+ * Send a signed-request guard error with a `WWW-Authenticate: Signature`
+ * challenge, using the same attributes as {@link handleGuardError}: the
+ * `error` attribute is omitted when the request carried no signature.
+ */
+function handleSignatureGuardError(
+  error: unknown,
+  req: Request,
+  res: Response,
+  config: ServerConfig,
+): void {
+  if (
+    error instanceof AuthError &&
+    error.code === AuthErrorCode.AUTH_INVALID_HTTP_SIGNATURE
+  ) {
+    const params = [`realm="${quoteSafe(config.issuer)}"`];
+    if (req.headers.signature !== undefined) {
+      params.push(
+        'error="invalid_signature"',
+        `error_description="${quoteSafe(error.message)}"`,
+      );
+    }
+    res.set('WWW-Authenticate', `Signature ${params.join(', ')}`);
+  }
+
+  handleErrorResponse(error, res);
+}
+
+/**
+ * Strip characters not allowed in RFC 6750 quoted attribute values.
+ */
+function quoteSafe(value: string): string {
+  return value.replace(/[^\x20\x21\x23-\x5B\x5D-\x7E]/g, '');
+}
+
 /**
  * Map error codes to HTTP status codes.
  */
@@ -202,15 +699,22 @@ function getStatusCodeForError(code: AuthErrorCode): number {
 
     // 401 Unauthorized
     case AuthErrorCode.AUTH_INVALID_TOKEN:
+    case AuthErrorCode.AUTH_INVALID_DPOP_PROOF:
+    case AuthErrorCode.AUTH_INVALID_HTTP_SIGNATURE:
       return 401;
 
     // 403 Forbidden
     case AuthErrorCode.AUTH_DID_NOT_FOUND:
     case AuthErrorCode.AUTH_DID_REJECTED:
     case AuthErrorCode.AUTH_DID_BANNED:
+    case AuthErrorCode.AUTH_INSUFFICIENT_SCOPE:
     case AuthErrorCode.AUTH_MANIFEST_REVOKED:
       return 403;
 
+    // 409 Conflict
+    case AuthErrorCode.AUTH_INVALID_STATUS_TRANSITION:
+      return 409;
+
     // 429 Too Many Requests
     case AuthErrorCode.AUTH_RATE_LIMITED:
       return 429;
@@ -0,0 +1,36 @@
+/**
+ * Outbound fetch guard defaults for Node.js
+ */
+
+import { lookup } from 'node:dns/promises';
+import type { OutboundFetchOptions } from '@ai-agent-auth/core';
+import type { OutboundFetchConfig } from './config';
+
+/**
+ * Resolve a host name to all of its IPv4 and IPv6 addresses, as the
+ * fetch implementation would when connecting.
+ *
+ * @param hostname - Host name to resolve
+ * @returns IP addresses
+ * @throws {Error} if the host does not resolve
+ */
+export async function dnsLookup(hostname: string): Promise<string[]> {
+  const addresses = await lookup(hostname, { all: true, verbatim: true });
+  return addresses.map((entry) => entry.address);
+}
+
+/**
+ * Address filtering options for core fetchWithGuard(), defaulting the
+ * lookup to DNS.
+ *
+ * @param config - Allowlists and optional custom lookup
+ */
+export function outboundFetchOptions(
+  config: OutboundFetchConfig = {},
+): Pick<OutboundFetchOptions, 'lookup' | 'allowedHosts' | 'allowedAddressRanges'> {
+  return {
+    lookup: config.lookup ?? dnsLookup,
+    allowedHosts: config.allowedHosts,
+    allowedAddressRanges: config.allowedAddressRanges,
+  };
+}
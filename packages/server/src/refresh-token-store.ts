@@ -0,0 +1,192 @@
+/**
+ * In-memory refresh token storage with automatic cleanup
+ */
+
+import type { RefreshTokenRecord, RefreshTokenStore } from './config';
+
+/**
+ * Stored refresh token data
+ */
+interface StoredRefreshToken {
+  record: RefreshTokenRecord;
+  used: boolean;
+}
+
+/**
+ * In-memory implementation of refresh token storage.
+ *
+ * Keeps a per-family index so a detected reuse can revoke every token
+ * descending from the same verify. Automatically removes expired tokens
+ * every 60 seconds; the timer is unref'd to prevent blocking process exit.
+ *
+ * Not suitable for multi-instance deployments — use a shared store
+ * (Redis, PostgreSQL, etc.) so rotation state is visible to all instances.
+ *
+ * @example
+ * ```typescript
+ * const store = new InMemoryRefreshTokenStore();
+ *
+ * const handler = new AgentAuthHandler({
+ *   issuer: 'https://api.example.com',
+ *   jwtSecret: keyPair,
+ *   enableRefreshTokens: true,
+ *   refreshTokenStore: store,
+ * });
+ * ```
+ */
+export class InMemoryRefreshTokenStore implements RefreshTokenStore {
+  private tokens: Map<string, StoredRefreshToken> = new Map();
+  private families: Map<string, Set<string>> = new Map();
+  private cleanupTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Create a new InMemoryRefreshTokenStore.
+   *
+   * @param cleanupIntervalMs - How often to run cleanup (default: 60000 = 1 minute)
+   */
+  constructor(cleanupIntervalMs = 60_000) {
+    this.cleanupTimer = setInterval(() => {
+      void this.cleanup();
+    }, cleanupIntervalMs);
+
+    // Unref so it doesn't block process exit
+    this.cleanupTimer.unref();
+  }
+
+  /**
+   * Store a newly issued refresh token.
+   *
+   * @param tokenHash - Hash of the opaque refresh token
+   * @param record - Token data
+   */
+  async store(tokenHash: string, record: RefreshTokenRecord): Promise<void> {
+    this.tokens.set(tokenHash, { record, used: false });
+
+    let family = this.families.get(record.familyId);
+    if (!family) {
+      family = new Set();
+      this.families.set(record.familyId, family);
+    }
+    family.add(tokenHash);
+  }
+
+  /**
+   * Atomically mark a refresh token as used and return it.
+   *
+   * The lookup and flag update happen without yielding to the event loop,
+   * so two concurrent refreshes cannot both see an unused token.
+   *
+   * @param tokenHash - Hash of the presented refresh token
+   * @returns The record and whether it had already been used, or null
+   */
+  async consume(
+    tokenHash: string,
+  ): Promise<{ record: RefreshTokenRecord; reused: boolean } | null> {
+    const stored = this.tokens.get(tokenHash);
+    if (!stored) {
+      return null;
+    }
+
+    if (stored.record.expiresAt.getTime() < Date.now()) {
+      this.remove(tokenHash);
+      return null;
+    }
+
+    const reused = stored.used;
+    stored.used = true;
+
+    return { record: stored.record, reused };
+  }
+
+  /**
+   * Revoke every token in a family.
+   *
+   * @param familyId - The family to revoke
+   */
+  async revokeFamily(familyId: string): Promise<void> {
+    const family = this.families.get(familyId);
+    if (!family) {
+      return;
+    }
+
+    for (const tokenHash of family) {
+      this.tokens.delete(tokenHash);
+    }
+    this.families.delete(familyId);
+  }
+
+  /**
+   * Revoke every token issued to an agent DID.
+   *
+   * @param did - The agent DID
+   */
+  async revokeSubject(did: string): Promise<void> {
+    for (const stored of [...this.tokens.values()]) {
+      if (stored.record.did === did) {
+        await this.revokeFamily(stored.record.familyId);
+      }
+    }
+  }
+
+  /**
+   * Remove expired tokens from storage.
+   *
+   * @returns The number of tokens removed
+   */
+  async cleanup(): Promise<number> {
+    const now = Date.now();
+    let removed = 0;
+
+    for (const [tokenHash, stored] of this.tokens.entries()) {
+      if (stored.record.expiresAt.getTime() < now) {
+        this.remove(tokenHash);
+        removed++;
+      }
+    }
+
+    return removed;
+  }
+
+  /**
+   * Graceful shutdown — stop the cleanup timer.
+   */
+  dispose(): void {
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer);
+      this.cleanupTimer = null;
+    }
+  }
+
+  /**
+   * Clear all tokens. Useful for testing.
+   */
+  clear(): void {
+    this.tokens.clear();
+    this.families.clear();
+  }
+
+  /**
+   * Get total number of stored tokens.
+   */
+  get size(): number {
+    return this.tokens.size;
+  }
+
+  /**
+   * Remove a single token and its family index entry.
+   */
+  private remove(tokenHash: string): void {
+    const stored = this.tokens.get(tokenHash);
+    if (!stored) {
+      return;
+    }
+
+    this.tokens.delete(tokenHash);
+
+    const family = this.families.get(stored.record.familyId);
+    family?.delete(tokenHash);
+    if (family && family.size === 0) {
+      this.families.delete(stored.record.familyId);
+    }
+  }
+}
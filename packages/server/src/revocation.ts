@@ -4,8 +4,19 @@
  * Optional manifest revocation checking via remote endpoint polling.
  */
 
-import { AuthError, AuthErrorCode, type AgentManifest } from '@ai-agent-auth/core';
-import type { RevocationChecker, RevocationStatus } from './config';
+import {
+  AuthError,
+  AuthErrorCode,
+  fetchWithGuard,
+  type AgentManifest,
+  type OutboundFetchOptions,
+} from '@ai-agent-auth/core';
+import type {
+  OutboundFetchConfig,
+  RevocationChecker,
+  RevocationStatus,
+} from './config';
+import { outboundFetchOptions } from './outbound-fetch';
 
 // Re-export types
 export type { RevocationChecker, RevocationStatus };
@@ -36,6 +47,13 @@ export interface HttpRevocationCheckerConfig {
    * Custom fetch implementation.
    */
   fetch?: typeof globalThis.fetch;
+
+  /**
+   * SSRF protection: endpoints must be https (on every redirect) and
+   * must not resolve to private or reserved addresses, except as
+   * allowed here. Default: DNS lookup, no allowlists.
+   */
+  outboundFetch?: OutboundFetchConfig;
 }
 
 interface CachedStatus {
@@ -63,18 +81,19 @@ interface CachedStatus {
  * ```
  */
 export class HttpRevocationChecker implements RevocationChecker {
-  private timeoutMs: number;
-  private maxBytes: number;
+  private fetchOptions: OutboundFetchOptions;
   private cacheTtlSeconds: number;
-  private fetch: typeof globalThis.fetch;
   private cache: Map<string, CachedStatus> = new Map();
   private cleanupTimer?: NodeJS.Timeout;
 
   constructor(config: HttpRevocationCheckerConfig = {}) {
-    this.timeoutMs = config.timeoutMs ?? 2000;
-    this.maxBytes = config.maxBytes ?? 10240;
+    this.fetchOptions = {
+      timeoutMs: config.timeoutMs ?? 2000,
+      maxBytes: config.maxBytes ?? 10240,
+      fetchFn: config.fetch ?? globalThis.fetch,
+      ...outboundFetchOptions(config.outboundFetch),
+    };
     this.cacheTtlSeconds = config.cacheTtlSeconds ?? 300;
-    this.fetch = config.fetch ?? globalThis.fetch;
 
     // Start cleanup timer (every 5 minutes)
     this.cleanupTimer = setInterval(() => this.cleanup(), 5 * 60 * 1000);
@@ -103,84 +122,45 @@ export class HttpRevocationChecker implements RevocationChecker {
 
     // Fetch revocation status
     try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), this.timeoutMs);
-
-      try {
-        const response = await this.fetch(endpoint, {
-          signal: controller.signal,
-          headers: {
-            Accept: 'application/json',
-          },
-        });
-
-        clearTimeout(timeoutId);
-
-        if (!response.ok) {
-          // If endpoint is unreachable, assume not revoked (fail open)
-          return this.cacheAndReturn(manifest.id, {
-            revoked: false,
-            checked_at: new Date(),
-          });
-        }
-
-        // Check content-length
-        const contentLength = response.headers.get('content-length');
-        if (contentLength && parseInt(contentLength, 10) > this.maxBytes) {
-          throw new Error('Response too large');
-        }
-
-        // Read response body with size limit
-        const text = await response.text();
-        if (text.length > this.maxBytes) {
-          throw new Error('Response too large');
-        }
-
-        const data = JSON.parse(text) as {
-          revoked: boolean;
-          reason?: string;
-        };
-
-        const status: RevocationStatus = {
-          revoked: data.revoked ?? false,
-          reason: data.reason,
-          checked_at: new Date(),
-        };
-
-        // Throw if revoked
-        if (status.revoked) {
-          throw new AuthError(
-            AuthErrorCode.AUTH_MANIFEST_REVOKED,
-            `Manifest has been revoked${status.reason ? `: ${status.reason}` : ''}`,
-          );
-        }
-
-        return this.cacheAndReturn(manifest.id, status);
-      } catch (error) {
-        clearTimeout(timeoutId);
-
-        // If this is an AuthError (revoked), rethrow it
-        if (error instanceof AuthError) {
-          throw error;
-        }
-
-        // Network/parse errors → fail open (assume not revoked)
-        return this.cacheAndReturn(manifest.id, {
-          revoked: false,
-          checked_at: new Date(),
-        });
+      const { body } = await fetchWithGuard(endpoint, {
+        ...this.fetchOptions,
+        headers: {
+          Accept: 'application/json',
+        },
+      });
+
+      const data = JSON.parse(new TextDecoder().decode(body)) as {
+        revoked: boolean;
+        reason?: string;
+      };
+
+      const status: RevocationStatus = {
+        revoked: data.revoked ?? false,
+        reason: data.reason,
+        checked_at: new Date(),
+      };
+
+      // Throw if revoked
+      if (status.revoked) {
+        throw new AuthError(
+          AuthErrorCode.AUTH_MANIFEST_REVOKED,
+          `Manifest has been revoked${status.reason ? `: ${status.reason}` : ''}`,
+        );
       }
+
+      return this.cacheAndReturn(manifest.id, status);
     } catch (error) {
-      // Rethrow AuthError
+      // If this is an AuthError (revoked), rethrow it
       if (error instanceof AuthError) {
         throw error;
       }
 
-      // Other errors → fail open
-      return {
+      // Blocked, unreachable, non-2xx, oversized or unparseable → fail
+      // open (assume not revoked)
+      return this.cacheAndReturn(manifest.id, {
         revoked: false,
         checked_at: new Date(),
-      };
+      });
     }
   }
 
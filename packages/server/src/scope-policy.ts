@@ -0,0 +1,402 @@
+/**
+ * Declarative scope policy engine mapping manifests to scopes
+ */
+
+import { z } from 'zod';
+import type { ACLEntry, AgentManifest } from '@ai-agent-auth/core';
+import { scopeCovers } from './scopes';
+
+/**
+ * Conditions a rule matches on. All present conditions must hold; within
+ * a condition, any listed value may match. An empty match applies to
+ * every agent.
+ */
+export interface ScopePolicyMatch {
+  /** DID methods, e.g. ["key", "web"] */
+  did_method?: string[];
+  /** Exact DIDs */
+  did?: string[];
+  /** Manifest `capabilities.categories`; "research.*" matches a subtree */
+  categories?: string[];
+  /** Manifest `capabilities.permissions_required` entries */
+  permissions_required?: string[];
+  /** Manifest `metadata.operator.name` values */
+  operator?: string[];
+  /** ACL entry `metadata` key → accepted value(s) */
+  acl_metadata?: Record<string, ScopePolicyValue | ScopePolicyValue[]>;
+}
+
+/**
+ * Scalar value accepted in `acl_metadata` conditions.
+ */
+export type ScopePolicyValue = string | number | boolean;
+
+/**
+ * A single grant or deny rule.
+ */
+export interface ScopePolicyRule {
+  /** Unique rule identifier, reported in explanations */
+  id: string;
+  /** Human-readable intent of the rule */
+  description?: string;
+  /** Whether matching agents gain or lose the listed scopes */
+  effect: 'grant' | 'deny';
+  /** Scopes granted or denied. Deny scopes may use wildcards ("files:*") */
+  scopes: string[];
+  /** Higher runs first. Default: 0 */
+  priority?: number;
+  /** Conditions; omitted or empty matches every agent */
+  match?: ScopePolicyMatch;
+}
+
+/**
+ * Serialized policy, loadable from JSON or YAML.
+ */
+export interface ScopePolicyDocument {
+  version: 1;
+  rules: ScopePolicyRule[];
+}
+
+/**
+ * Facts a policy is evaluated against.
+ */
+export interface ScopePolicyInput {
+  did: string;
+  manifest: AgentManifest;
+  /** ACL entry for the DID, if known (used by `acl_metadata` conditions) */
+  aclEntry?: ACLEntry | null;
+}
+
+/**
+ * Reference to a rule that took part in a decision.
+ */
+export interface ScopePolicyRuleRef {
+  id: string;
+  priority: number;
+  /** Conditions that matched, e.g. `categories matched "research.*"` */
+  reasons: string[];
+}
+
+/**
+ * Outcome for one candidate scope.
+ */
+export interface ScopePolicyExplanation {
+  scope: string;
+  granted: boolean;
+  /** Highest-priority grant rule for this scope */
+  grantedBy: ScopePolicyRuleRef;
+  /** Deny rule that overrode the grant, if any */
+  deniedBy?: ScopePolicyRuleRef;
+}
+
+/**
+ * Result of evaluating a policy, with a full audit trail.
+ */
+export interface ScopePolicyDecision {
+  /** Granted scopes, in rule precedence order */
+  scopes: string[];
+  /** Every candidate scope and why it was granted or denied */
+  explanations: ScopePolicyExplanation[];
+  /** IDs of all rules whose conditions matched */
+  matchedRules: string[];
+}
+
+const scopeToken = z.string().regex(/^[\x21\x23-\x5B\x5D-\x7E]+$/, 'Invalid scope');
+const policyValue = z.union([z.string(), z.number(), z.boolean()]);
+
+const ScopePolicyRuleSchema = z.object({
+  id: z.string().min(1),
+  description: z.string().optional(),
+  effect: z.enum(['grant', 'deny']),
+  scopes: z.array(scopeToken).min(1),
+  priority: z.number().int().optional(),
+  match: z
+    .object({
+      did_method: z.array(z.string().min(1)).optional(),
+      did: z.array(z.string().min(1)).optional(),
+      categories: z.array(z.string().min(1)).optional(),
+      permissions_required: z.array(z.string().min(1)).optional(),
+      operator: z.array(z.string().min(1)).optional(),
+      acl_metadata: z
+        .record(z.union([policyValue, z.array(policyValue)]))
+        .optional(),
+    })
+    .strict()
+    .optional(),
+}).strict();
+
+const ScopePolicyDocumentSchema = z.object({
+  version: z.literal(1),
+  rules: z.array(ScopePolicyRuleSchema),
+}).strict();
+
+/**
+ * Declarative scope policy.
+ *
+ * Rules grant or deny scopes based on manifest fields, the DID method and
+ * ACL metadata. Precedence:
+ * 1. Every matching grant rule contributes its scopes.
+ * 2. A granted scope is removed by a matching deny rule that covers it
+ *    with priority greater than or equal to the grant's priority. A
+ *    higher-priority grant therefore carves an exception out of a
+ *    broader deny.
+ *
+ * Deny rules remove whole granted scopes, so a deny cannot narrow a
+ * wildcard grant it would override: a policy denying `files:delete` next
+ * to a grant of `files:*` at equal or lower priority is rejected when
+ * built. Grant the specific scopes instead.
+ *
+ * The policy is plain data, so it can live in a reviewed JSON or YAML file.
+ * Use `explain()` as a dry run to see why each scope was granted.
+ *
+ * @example
+ * ```typescript
+ * import { parse } from 'yaml';
+ *
+ * const policy = new ScopePolicy(parse(readFileSync('scope-policy.yaml', 'utf8')));
+ *
+ * const auth = agentAuthMiddleware({
+ *   issuer: 'https://api.example.com',
+ *   jwtSecret: keyPair,
+ *   scopes: policy,
+ * });
+ *
+ * // Dry run for a security review
+ * const decision = policy.explain({ did, manifest, aclEntry });
+ * for (const e of decision.explanations) {
+ *   console.log(e.scope, e.granted, e.grantedBy.id, e.deniedBy?.id);
+ * }
+ * ```
+ */
+export class ScopePolicy {
+  /** Validated rules, sorted by priority (highest first), stable */
+  private readonly rules: ReadonlyArray<ScopePolicyRule & { priority: number }>;
+
+  /**
+   * Create a policy from a parsed document.
+   *
+   * @param document - Policy document (e.g. parsed JSON or YAML)
+   * @throws {Error} if the document is malformed, rule IDs repeat, or a
+   *   deny scope is narrower than a wildcard grant it would override
+   */
+  constructor(document: unknown) {
+    const validation = ScopePolicyDocumentSchema.safeParse(document);
+    if (!validation.success) {
+      const issues = validation.error.errors
+        .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+        .join('; ');
+      throw new Error(`Invalid scope policy: ${issues}`);
+    }
+
+    const seen = new Set<string>();
+    for (const rule of validation.data.rules) {
+      if (seen.has(rule.id)) {
+        throw new Error(`Invalid scope policy: duplicate rule id "${rule.id}"`);
+      }
+      seen.add(rule.id);
+    }
+
+    this.rules = validation.data.rules
+      .map((rule, index) => ({ rule: { ...rule, priority: rule.priority ?? 0 }, index }))
+      .sort((a, b) => b.rule.priority - a.rule.priority || a.index - b.index)
+      .map(({ rule }) => rule);
+
+    checkPartialDenies(this.rules);
+  }
+
+  /**
+   * Create a policy from JSON text.
+   *
+   * @param json - Policy document as JSON
+   * @returns ScopePolicy
+   * @throws {Error} if the JSON or document is invalid
+   */
+  static fromJSON(json: string): ScopePolicy {
+    return new ScopePolicy(JSON.parse(json));
+  }
+
+  /**
+   * Evaluate the policy and return the granted scopes.
+   *
+   * @param input - DID, manifest and ACL entry
+   * @returns Space-separated scope string (empty if nothing was granted)
+   */
+  evaluate(input: ScopePolicyInput): string {
+    return this.explain(input).scopes.join(' ');
+  }
+
+  /**
+   * Evaluate the policy and explain every decision (dry run).
+   *
+   * @param input - DID, manifest and ACL entry
+   * @returns Granted scopes plus per-scope explanations
+   */
+  explain(input: ScopePolicyInput): ScopePolicyDecision {
+    const matched: Array<{ rule: ScopePolicyRule; ref: ScopePolicyRuleRef }> = [];
+
+    for (const rule of this.rules) {
+      const reasons = matchRule(rule.match ?? {}, input);
+      if (reasons) {
+        matched.push({
+          rule,
+          ref: { id: rule.id, priority: rule.priority, reasons },
+        });
+      }
+    }
+
+    const grants = matched.filter((m) => m.rule.effect === 'grant');
+    const denies = matched.filter((m) => m.rule.effect === 'deny');
+
+    const explanations: ScopePolicyExplanation[] = [];
+    const seen = new Set<string>();
+
+    // Rules are priority-sorted, so the first grant for a scope is the strongest
+    for (const grant of grants) {
+      for (const scope of grant.rule.scopes) {
+        if (seen.has(scope)) {
+          continue;
+        }
+        seen.add(scope);
+
+        const deny = denies.find(
+          (d) =>
+            d.ref.priority >= grant.ref.priority &&
+            d.rule.scopes.some((denied) => scopeCovers(denied, scope)),
+        );
+
+        explanations.push({
+          scope,
+          granted: !deny,
+          grantedBy: grant.ref,
+          ...(deny && { deniedBy: deny.ref }),
+        });
+      }
+    }
+
+    return {
+      scopes: explanations.filter((e) => e.granted).map((e) => e.scope),
+      explanations,
+      matchedRules: matched.map((m) => m.rule.id),
+    };
+  }
+}
+
+/**
+ * Reject deny scopes that only cover part of a wildcard grant at equal or
+ * lower priority: the deny could not remove the grant, so the agent would
+ * keep the scope the policy author meant to forbid.
+ *
+ * @throws {Error} naming the deny and grant rules
+ */
+function checkPartialDenies(
+  rules: ReadonlyArray<ScopePolicyRule & { priority: number }>,
+): void {
+  for (const deny of rules) {
+    if (deny.effect !== 'deny') continue;
+
+    for (const grant of rules) {
+      if (grant.effect !== 'grant' || grant.priority > deny.priority) continue;
+
+      for (const denied of deny.scopes) {
+        const wider = grant.scopes.find(
+          (scope) => scopeCovers(scope, denied) && !scopeCovers(denied, scope),
+        );
+        if (wider !== undefined) {
+          throw new Error(
+            `Invalid scope policy: deny rule "${deny.id}" cannot remove "${denied}" ` +
+              `from "${wider}" granted by rule "${grant.id}"; grant the specific scopes instead`,
+          );
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Check a rule's conditions against the input.
+ *
+ * @returns Human-readable reasons for each matched condition, or null if
+ *   any condition fails
+ */
+function matchRule(
+  match: ScopePolicyMatch,
+  input: ScopePolicyInput,
+): string[] | null {
+  const reasons: string[] = [];
+  const { did, manifest, aclEntry } = input;
+
+  if (match.did_method) {
+    const method = did.split(':')[1];
+    if (!match.did_method.includes(method)) return null;
+    reasons.push(`did_method is "${method}"`);
+  }
+
+  if (match.did) {
+    if (!match.did.includes(did)) return null;
+    reasons.push(`did is "${did}"`);
+  }
+
+  if (match.categories) {
+    const categories = manifest.capabilities.categories ?? [];
+    const hit = firstMatch(match.categories, categories, categoryMatches);
+    if (!hit) return null;
+    reasons.push(`categories matched "${hit.pattern}" via "${hit.value}"`);
+  }
+
+  if (match.permissions_required) {
+    const requested = manifest.capabilities.permissions_required ?? [];
+    const hit = firstMatch(match.permissions_required, requested, (p, v) => p === v);
+    if (!hit) return null;
+    reasons.push(`permissions_required includes "${hit.value}"`);
+  }
+
+  if (match.operator) {
+    const operator = manifest.metadata.operator?.name;
+    if (operator === undefined || !match.operator.includes(operator)) return null;
+    reasons.push(`operator is "${operator}"`);
+  }
+
+  if (match.acl_metadata) {
+    const metadata = aclEntry?.metadata ?? {};
+    for (const [key, expected] of Object.entries(match.acl_metadata)) {
+      const accepted = Array.isArray(expected) ? expected : [expected];
+      const actual = metadata[key];
+      if (!accepted.some((value) => value === actual)) return null;
+      reasons.push(`acl_metadata.${key} is ${JSON.stringify(actual)}`);
+    }
+  }
+
+  if (reasons.length === 0) {
+    reasons.push('rule has no conditions');
+  }
+
+  return reasons;
+}
+
+/**
+ * Find the first (pattern, value) pair that matches.
+ */
+function firstMatch(
+  patterns: readonly string[],
+  values: readonly string[],
+  matches: (pattern: string, value: string) => boolean,
+): { pattern: string; value: string } | null {
+  for (const pattern of patterns) {
+    const value = values.find((v) => matches(pattern, v));
+    if (value !== undefined) {
+      return { pattern, value };
+    }
+  }
+  return null;
+}
+
+/**
+ * Match a dot-notation category, with "prefix.*" matching a subtree.
+ */
+function categoryMatches(pattern: string, category: string): boolean {
+  if (pattern === '*' || pattern === category) {
+    return true;
+  }
+
+  return pattern.endsWith('.*') && category.startsWith(pattern.slice(0, -1));
+}
@@ -0,0 +1,146 @@
+/**
+ * Scope parsing, matching and enforcement
+ */
+
+import {
+  AuthError,
+  AuthErrorCode,
+  type AgentTokenPayload,
+} from '@ai-agent-auth/core';
+
+/**
+ * How multiple required scopes are combined.
+ * - `all`: every required scope must be granted (default)
+ * - `any`: at least one required scope must be granted
+ */
+export type ScopeMatchMode = 'all' | 'any';
+
+/**
+ * Split a space-delimited scope string (OAuth 2.0 style) into scopes.
+ *
+ * @param scope - Scope string, e.g. "read files:write"
+ * @returns Array of non-empty scopes
+ */
+export function parseScope(scope: string): string[] {
+  return scope.split(' ').filter((s) => s.length > 0);
+}
+
+/**
+ * Check whether a granted scope covers a required scope.
+ *
+ * Scopes are hierarchical with `:` as separator. A granted scope ending in
+ * `:*` covers everything below its prefix, and `*` covers every scope:
+ * - `files:*` covers `files:read`, `files:read:own` and `files:*`
+ * - `files:*` does not cover `files` or `filesystem:read`
+ * - `files:read` covers only `files:read`
+ *
+ * @param granted - Scope present in the token
+ * @param required - Scope demanded by the route
+ * @returns true if `granted` covers `required`
+ */
+export function scopeCovers(granted: string, required: string): boolean {
+  if (granted === required || granted === '*') {
+    return true;
+  }
+
+  if (granted.endsWith(':*')) {
+    return required.startsWith(granted.slice(0, -1));
+  }
+
+  return false;
+}
+
+/**
+ * Check granted scopes against required scopes.
+ *
+ * @param granted - Scopes present in the token
+ * @param required - Scopes demanded by the route
+ * @param mode - All-of or any-of semantics (default: "all")
+ * @returns true if the requirement is satisfied
+ */
+export function hasScopes(
+  granted: readonly string[],
+  required: readonly string[],
+  mode: ScopeMatchMode = 'all',
+): boolean {
+  const isGranted = (scope: string) =>
+    granted.some((g) => scopeCovers(g, scope));
+
+  return mode === 'any'
+    ? required.some(isGranted)
+    : required.every(isGranted);
+}
+
+/**
+ * Intersect requested scopes with the scopes the server allows.
+ *
+ * A requested scope is granted as-is when an allowed scope covers it
+ * (requesting `files:read` under an allowed `files:*` yields `files:read`).
+ * A requested wildcard is narrowed to the allowed scopes it covers.
+ * Anything else is denied.
+ *
+ * @param allowed - Scopes the server is willing to grant
+ * @param requested - Scopes the agent asked for
+ * @returns Granted and denied scopes, without duplicates
+ *
+ * @example
+ * ```typescript
+ * negotiateScopes(['read', 'files:*'], ['files:read', 'admin']);
+ * // { granted: ['files:read'], denied: ['admin'] }
+ * ```
+ */
+export function negotiateScopes(
+  allowed: readonly string[],
+  requested: readonly string[],
+): { granted: string[]; denied: string[] } {
+  const granted = new Set<string>();
+  const denied = new Set<string>();
+
+  for (const scope of requested) {
+    if (allowed.some((a) => scopeCovers(a, scope))) {
+      granted.add(scope);
+      continue;
+    }
+
+    const narrowed = allowed.filter((a) => scopeCovers(scope, a));
+    if (narrowed.length > 0) {
+      narrowed.forEach((a) => granted.add(a));
+    } else {
+      denied.add(scope);
+    }
+  }
+
+  return { granted: [...granted], denied: [...denied] };
+}
+
+/**
+ * Enforce required scopes for a verified token.
+ *
+ * Framework-agnostic counterpart of the `requireScopes()` Express guard.
+ *
+ * @param payload - Verified token payload
+ * @param required - Scopes demanded by the route
+ * @param mode - All-of or any-of semantics (default: "all")
+ * @throws {AuthError} AUTH_INSUFFICIENT_SCOPE if the requirement is not met
+ *
+ * @example
+ * ```typescript
+ * const payload = await handler.validateToken(token);
+ * assertScopes(payload, ['files:read', 'files:write'], 'any');
+ * ```
+ */
+export function assertScopes(
+  payload: AgentTokenPayload,
+  required: readonly string[],
+  mode: ScopeMatchMode = 'all',
+): void {
+  if (!hasScopes(parseScope(payload.scope), required, mode)) {
+    throw new AuthError(
+      AuthErrorCode.AUTH_INSUFFICIENT_SCOPE,
+      mode === 'any'
+        ? `Token requires one of the scopes: ${required.join(', ')}`
+        : `Token requires the scopes: ${required.join(', ')}`,
+      { required_scopes: [...required], mode },
+    );
+  }
+}
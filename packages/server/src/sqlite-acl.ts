@@ -0,0 +1,341 @@
+/**
+ * SQLite-backed ACL (Access Control List) storage implementation
+ */
+
+import type { ACLEntry, ACLStatus } from '@ai-agent-auth/core';
+import type BetterSqlite3 from 'better-sqlite3';
+import type { ACLStore } from './config';
+
+/**
+ * Configuration for SQLite ACL storage on an existing database.
+ */
+export interface SQLiteACLConfig {
+  /**
+   * Open better-sqlite3 database handle. The caller remains responsible
+   * for closing it.
+   */
+  database: BetterSqlite3.Database;
+}
+
+/**
+ * Options for `SQLiteACL.open()`.
+ */
+export interface SQLiteACLOpenOptions {
+  /**
+   * Database file path, or ":memory:" for a transient database.
+   * Default: ":memory:"
+   */
+  filename?: string;
+}
+
+/**
+ * Row shape of the `acl_entries` table
+ */
+interface ACLEntryRow {
+  did: string;
+  status: ACLStatus;
+  manifest_sequence: number;
+  registered_at: string;
+  updated_at: string;
+  reason: string | null;
+  metadata: string | null;
+}
+
+/**
+ * Schema migrations, applied in order.
+ *
+ * The index of the last applied migration + 1 is tracked in SQLite's
+ * `user_version` pragma. Never edit a released migration — append a new one.
+ */
+const MIGRATIONS: readonly string[] = [
+  `
+  CREATE TABLE acl_entries (
+    did TEXT PRIMARY KEY,
+    status TEXT NOT NULL,
+    manifest_sequence INTEGER NOT NULL DEFAULT 0,
+    registered_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    reason TEXT,
+    metadata TEXT
+  );
+  CREATE INDEX idx_acl_entries_status ON acl_entries (status);
+  CREATE TABLE acl_sequences (
+    did TEXT PRIMARY KEY,
+    max_sequence INTEGER NOT NULL
+  );
+  `,
+];
+
+/**
+ * SQLite implementation of ACL storage.
+ *
+ * Persists ACL entries and manifest sequence high-water marks so that
+ * approvals, bans and rollback protection survive restarts. Requires the
+ * optional `better-sqlite3` peer dependency.
+ *
+ * Schema migrations run automatically when the store is constructed.
+ *
+ * @example
+ * ```typescript
+ * const acl = await SQLiteACL.open({ filename: './data/acl.db' });
+ *
+ * await acl.set({
+ *   did: 'did:key:z6Mk...',
+ *   status: 'approved',
+ *   manifest_sequence: 0,
+ *   registered_at: new Date().toISOString(),
+ *   updated_at: new Date().toISOString(),
+ * });
+ *
+ * // Close the database on shutdown
+ * acl.close();
+ * ```
+ */
+export class SQLiteACL implements ACLStore {
+  private db: BetterSqlite3.Database;
+  private ownsDatabase = false;
+  private statements: {
+    get: BetterSqlite3.Statement<[string]>;
+    set: BetterSqlite3.Statement<[ACLEntryRow]>;
+    getMaxSequence: BetterSqlite3.Statement<[string]>;
+    updateSequence: BetterSqlite3.Statement<[string, number]>;
+    listAll: BetterSqlite3.Statement<[]>;
+    listByStatus: BetterSqlite3.Statement<[ACLStatus]>;
+    deleteEntry: BetterSqlite3.Statement<[string]>;
+    deleteSequence: BetterSqlite3.Statement<[string]>;
+    count: BetterSqlite3.Statement<[]>;
+  };
+
+  /**
+   * Create a SQLiteACL on an existing database.
+   *
+   * Use {@link SQLiteACL.open} to open a database file instead.
+   *
+   * @param config - Existing database handle
+   */
+  constructor(config: SQLiteACLConfig) {
+    this.db = config.database;
+
+    this.db.pragma('journal_mode = WAL');
+    this.migrate();
+
+    this.statements = {
+      get: this.db.prepare('SELECT * FROM acl_entries WHERE did = ?'),
+      set: this.db.prepare(
+        `INSERT INTO acl_entries
+           (did, status, manifest_sequence, registered_at, updated_at, reason, metadata)
+         VALUES
+           (@did, @status, @manifest_sequence, @registered_at, @updated_at, @reason, @metadata)
+         ON CONFLICT (did) DO UPDATE SET
+           status = excluded.status,
+           manifest_sequence = excluded.manifest_sequence,
+           registered_at = excluded.registered_at,
+           updated_at = excluded.updated_at,
+           reason = excluded.reason,
+           metadata = excluded.metadata`,
+      ),
+      getMaxSequence: this.db.prepare(
+        'SELECT max_sequence FROM acl_sequences WHERE did = ?',
+      ),
+      // Single statement so concurrent writers can never lower the mark
+      updateSequence: this.db.prepare(
+        `INSERT INTO acl_sequences (did, max_sequence) VALUES (?, ?)
+         ON CONFLICT (did) DO UPDATE SET max_sequence = excluded.max_sequence
+         WHERE excluded.max_sequence > acl_sequences.max_sequence`,
+      ),
+      listAll: this.db.prepare('SELECT * FROM acl_entries ORDER BY did'),
+      listByStatus: this.db.prepare(
+        'SELECT * FROM acl_entries WHERE status = ? ORDER BY did',
+      ),
+      deleteEntry: this.db.prepare('DELETE FROM acl_entries WHERE did = ?'),
+      deleteSequence: this.db.prepare('DELETE FROM acl_sequences WHERE did = ?'),
+      count: this.db.prepare('SELECT COUNT(*) AS count FROM acl_entries'),
+    };
+  }
+
+  /**
+   * Open a database file and create a SQLiteACL on it. The store owns the
+   * database: `close()` closes it.
+   *
+   * `better-sqlite3` is imported on use, so it stays an optional
+   * dependency.
+   *
+   * @param options - Database file path
+   * @returns The store, with migrations applied
+   * @throws {Error} if better-sqlite3 is not installed, the file cannot be
+   *   opened, or its schema is newer than supported
+   */
+  static async open(options: SQLiteACLOpenOptions = {}): Promise<SQLiteACL> {
+    const { default: Database } = await import('better-sqlite3');
+    const database = new Database(options.filename ?? ':memory:');
+
+    try {
+      const acl = new SQLiteACL({ database });
+      acl.ownsDatabase = true;
+      return acl;
+    } catch (error) {
+      database.close();
+      throw error;
+    }
+  }
+
+  /**
+   * Get ACL entry by DID.
+   *
+   * @param did - The DID to lookup
+   * @returns ACL entry or null if not found
+   */
+  async get(did: string): Promise<ACLEntry | null> {
+    const row = this.statements.get.get(did) as ACLEntryRow | undefined;
+    return row ? rowToEntry(row) : null;
+  }
+
+  /**
+   * Set/update an ACL entry.
+   *
+   * @param entry - The ACL entry to store
+   */
+  async set(entry: ACLEntry): Promise<void> {
+    this.statements.set.run({
+      did: entry.did,
+      status: entry.status,
+      manifest_sequence: entry.manifest_sequence,
+      registered_at: entry.registered_at,
+      updated_at: entry.updated_at,
+      reason: entry.reason ?? null,
+      metadata: entry.metadata ? JSON.stringify(entry.metadata) : null,
+    });
+  }
+
+  /**
+   * Get the maximum manifest sequence seen for a DID.
+   *
+   * @param did - The DID to check
+   * @returns Maximum sequence number, or 0 if not found
+   */
+  async getMaxSequence(did: string): Promise<number> {
+    const row = this.statements.getMaxSequence.get(did) as
+      | { max_sequence: number }
+      | undefined;
+    return row?.max_sequence ?? 0;
+  }
+
+  /**
+   * Update the stored max sequence for a DID.
+   *
+   * Only updates if the new sequence is greater than the current max.
+   * The compare-and-set runs as a single SQL statement, so it is atomic
+   * across connections sharing the same database file.
+   *
+   * @param did - The DID to update
+   * @param sequence - The new sequence number
+   */
+  async updateSequence(did: string, sequence: number): Promise<void> {
+    this.statements.updateSequence.run(did, sequence);
+  }
+
+  /**
+   * List all entries, optionally filtered by status.
+   *
+   * @param status - Optional status filter
+   * @returns Array of ACL entries, ordered by DID
+   */
+  async list(status?: ACLStatus): Promise<ACLEntry[]> {
+    const rows = (
+      status === undefined
+        ? this.statements.listAll.all()
+        : this.statements.listByStatus.all(status)
+    ) as ACLEntryRow[];
+
+    return rows.map(rowToEntry);
+  }
+
+  /**
+   * Remove an entry from the ACL.
+   *
+   * @param did - The DID to remove
+   * @returns true if entry was deleted, false if not found
+   */
+  async delete(did: string): Promise<boolean> {
+    const remove = this.db.transaction((target: string) => {
+      const result = this.statements.deleteEntry.run(target);
+      this.statements.deleteSequence.run(target);
+      return result.changes > 0;
+    });
+
+    return remove(did);
+  }
+
+  /**
+   * Clear all entries and sequences. Useful for testing.
+   */
+  clear(): void {
+    this.db.exec('DELETE FROM acl_entries; DELETE FROM acl_sequences;');
+  }
+
+  /**
+   * Get total number of entries.
+   */
+  get size(): number {
+    const row = this.statements.count.get() as { count: number };
+    return row.count;
+  }
+
+  /**
+   * Current schema version (number of applied migrations).
+   */
+  get schemaVersion(): number {
+    return this.db.pragma('user_version', { simple: true }) as number;
+  }
+
+  /**
+   * Close the underlying database.
+   *
+   * Only closes databases opened by `SQLiteACL.open()`; handles passed to
+   * the constructor are left open for the caller to manage.
+   */
+  close(): void {
+    if (this.ownsDatabase && this.db.open) {
+      this.db.close();
+    }
+  }
+
+  /**
+   * Apply any pending schema migrations inside a single transaction.
+   */
+  private migrate(): void {
+    const current = this.schemaVersion;
+
+    if (current > MIGRATIONS.length) {
+      throw new Error(
+        `ACL database schema version ${current} is newer than supported version ${MIGRATIONS.length}`,
+      );
+    }
+
+    const apply = this.db.transaction(() => {
+      for (let version = current; version < MIGRATIONS.length; version++) {
+        this.db.exec(MIGRATIONS[version]);
+      }
+      this.db.pragma(`user_version = ${MIGRATIONS.length}`);
+    });
+
+    apply();
+  }
+}
+
+/**
+ * Convert a database row to an ACLEntry.
+ */
+function rowToEntry(row: ACLEntryRow): ACLEntry {
+  return {
+    did: row.did,
+    status: row.status,
+    manifest_sequence: row.manifest_sequence,
+    registered_at: row.registered_at,
+    updated_at: row.updated_at,
+    ...(row.reason !== null && { reason: row.reason }),
+    ...(row.metadata !== null && {
+      metadata: JSON.parse(row.metadata) as Record<string, unknown>,
+    }),
+  };
+}
@@ -0,0 +1,239 @@
+/**
+ * JWT revocation (denylist) storage and ACL integration
+ */
+
+import type {
+  ACLEntry,
+  ACLStatus,
+  AgentTokenPayload,
+} from '@ai-agent-auth/core';
+import type { ACLStore, RefreshTokenStore, TokenRevocationStore } from './config';
+
+/**
+ * Configuration for in-memory token revocation store.
+ */
+export interface InMemoryTokenRevocationStoreConfig {
+  /**
+   * How long to remember subject-wide revocations, in seconds.
+   * Must be at least the maximum token lifetime, after which every token
+   * issued before the revocation has expired anyway.
+   * Default: 43200 (12 hours, the maximum `tokenLifetimeSeconds`)
+   */
+  subjectRetentionSeconds?: number;
+
+  /**
+   * How often to purge expired entries in milliseconds.
+   * Default: 60000 (1 minute)
+   */
+  cleanupIntervalMs?: number;
+}
+
+/**
+ * In-memory implementation of the JWT revocation store.
+ *
+ * Revoked `jti`s are kept until the token's own expiry. Subject-wide
+ * revocations record a cut-off time: any token for that subject with
+ * `iat` at or before the cut-off (second precision) is revoked.
+ *
+ * Not suitable for multi-instance deployments — use a shared store
+ * (Redis, PostgreSQL, etc.) so every instance sees revocations.
+ *
+ * @example
+ * ```typescript
+ * const revocations = new InMemoryTokenRevocationStore();
+ *
+ * const auth = agentAuthMiddleware({
+ *   issuer: 'https://api.example.com',
+ *   jwtSecret: keyPair,
+ *   tokenRevocationStore: revocations,
+ * });
+ *
+ * // Log out a single token
+ * await revocations.revokeToken(payload.jti, new Date(payload.exp * 1000));
+ *
+ * // Kill every session for an agent
+ * await revocations.revokeSubject('did:key:z6Mk...');
+ * ```
+ */
+export class InMemoryTokenRevocationStore implements TokenRevocationStore {
+  private tokens: Map<string, number> = new Map(); // jti → exp (ms)
+  private subjects: Map<string, number> = new Map(); // sub → revokedAt (ms)
+  private subjectRetentionMs: number;
+  private cleanupTimer: NodeJS.Timeout | null = null;
+
+  constructor(config: InMemoryTokenRevocationStoreConfig = {}) {
+    this.subjectRetentionMs = (config.subjectRetentionSeconds ?? 43200) * 1000;
+
+    this.cleanupTimer = setInterval(() => {
+      this.cleanup();
+    }, config.cleanupIntervalMs ?? 60_000);
+
+    // Unref so it doesn't block process exit
+    this.cleanupTimer.unref();
+  }
+
+  /**
+   * Revoke a single token by its `jti`.
+   *
+   * @param jti - Token identifier
+   * @param expiresAt - Token expiry; the entry is purged afterwards
+   */
+  async revokeToken(jti: string, expiresAt: Date): Promise<void> {
+    this.tokens.set(jti, expiresAt.getTime());
+  }
+
+  /**
+   * Revoke all tokens issued to a subject at or before `revokedAt`.
+   *
+   * @param sub - Subject (agent DID)
+   * @param revokedAt - Cut-off time (default: now)
+   */
+  async revokeSubject(sub: string, revokedAt: Date = new Date()): Promise<void> {
+    const current = this.subjects.get(sub) ?? 0;
+    this.subjects.set(sub, Math.max(current, revokedAt.getTime()));
+  }
+
+  /**
+   * Check whether a token payload has been revoked.
+   *
+   * @param payload - Verified token payload
+   * @returns true if revoked by `jti` or by subject cut-off
+   */
+  async isRevoked(payload: AgentTokenPayload): Promise<boolean> {
+    if (this.tokens.has(payload.jti)) {
+      return true;
+    }
+
+    return this.isSubjectRevoked(payload.sub, new Date(payload.iat * 1000));
+  }
+
+  /**
+   * Check whether a subject was revoked at or after `issuedAt`.
+   *
+   * @param sub - Subject (agent DID)
+   * @param issuedAt - When the credential was issued
+   * @returns true if covered by the subject's cut-off
+   */
+  async isSubjectRevoked(sub: string, issuedAt: Date): Promise<boolean> {
+    const cutoff = this.subjects.get(sub);
+    if (cutoff === undefined) {
+      return false;
+    }
+
+    // `iat` has second precision, so compare at second granularity
+    return Math.floor(issuedAt.getTime() / 1000) <= Math.floor(cutoff / 1000);
+  }
+
+  /**
+   * Purge expired entries.
+   *
+   * @returns Number of entries removed
+   */
+  cleanup(): number {
+    const now = Date.now();
+    let removed = 0;
+
+    for (const [jti, exp] of this.tokens.entries()) {
+      if (exp < now) {
+        this.tokens.delete(jti);
+        removed++;
+      }
+    }
+
+    for (const [sub, revokedAt] of this.subjects.entries()) {
+      if (revokedAt + this.subjectRetentionMs < now) {
+        this.subjects.delete(sub);
+        removed++;
+      }
+    }
+
+    return removed;
+  }
+
+  /**
+   * Graceful shutdown — stop the cleanup timer.
+   */
+  dispose(): void {
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer);
+      this.cleanupTimer = null;
+    }
+  }
+
+  /**
+   * Clear all revocations. Useful for testing.
+   */
+  clear(): void {
+    this.tokens.clear();
+    this.subjects.clear();
+  }
+}
+
+/**
+ * ACL statuses that invalidate every outstanding token for a DID.
+ */
+const REVOKING_STATUSES: readonly ACLStatus[] = ['banned', 'rejected'];
+
+/**
+ * ACLStore decorator that revokes a DID's tokens when its access is withdrawn.
+ *
+ * Writes that set an entry to `banned` or `rejected`, and deletions, call
+ * `revokeSubject()` on the revocation store, and on the refresh token
+ * store if given one. All reads are passed through.
+ *
+ * `AgentAuthHandler` and `ACLAdminHandler` wrap their ACL automatically
+ * when given a `tokenRevocationStore`; use this class directly only for
+ * code that writes to the ACL outside those handlers.
+ *
+ * @example
+ * ```typescript
+ * const acl = new TokenRevokingACL(new SQLiteACL({ filename }), revocations);
+ * await acl.set({ ...entry, status: 'banned' }); // tokens revoked
+ * ```
+ */
+export class TokenRevokingACL implements ACLStore {
+  constructor(
+    private inner: ACLStore,
+    private revocations: TokenRevocationStore,
+    private refreshTokens?: RefreshTokenStore,
+  ) {}
+
+  async get(did: string): Promise<ACLEntry | null> {
+    return this.inner.get(did);
+  }
+
+  async set(entry: ACLEntry): Promise<void> {
+    await this.inner.set(entry);
+
+    if (REVOKING_STATUSES.includes(entry.status)) {
+      await this.revokeSubject(entry.did);
+    }
+  }
+
+  async getMaxSequence(did: string): Promise<number> {
+    return this.inner.getMaxSequence(did);
+  }
+
+  async updateSequence(did: string, sequence: number): Promise<void> {
+    return this.inner.updateSequence(did, sequence);
+  }
+
+  async list(status?: ACLStatus): Promise<ACLEntry[]> {
+    return this.inner.list(status);
+  }
+
+  async delete(did: string): Promise<boolean> {
+    const existed = await this.inner.delete(did);
+
+    if (existed) {
+      await this.revokeSubject(did);
+    }
+
+    return existed;
+  }
+
+  private async revokeSubject(did: string): Promise<void> {
+    await this.revocations.revokeSubject(did);
+    await this.refreshTokens?.revokeSubject?.(did);
+  }
+}
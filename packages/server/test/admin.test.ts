@@ -0,0 +1,249 @@
+/**
+ * Tests for ACL administration (handler + Express router)
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import express from 'express';
+import { AuthErrorCode, type ACLStatus } from '@ai-agent-auth/core';
+import {
+  ACLAdminHandler,
+  InMemoryAuditLog,
+  validateStatusTransition,
+} from '../src/admin-handler';
+import { InMemoryACL } from '../src/acl';
+import { agentAuthAdminMiddleware } from '../src/middleware';
+
+const DID = 'did:key:z6MkhaXgBZDvotDkL5257faiztiGiC2QtKLGpbnnEGta2doK';
+
+async function seed(acl: InMemoryACL, status: ACLStatus) {
+  const now = new Date().toISOString();
+  await acl.set({
+    did: DID,
+    status,
+    manifest_sequence: 1,
+    registered_at: now,
+    updated_at: now,
+  });
+}
+
+describe('validateStatusTransition()', () => {
+  it('should allow approving a pending registration', () => {
+    expect(() => validateStatusTransition('pending_approval', 'approved')).not.toThrow();
+  });
+
+  it('should never allow going back to pending', () => {
+    for (const from of ['approved', 'rejected', 'banned'] as const) {
+      expect(() => validateStatusTransition(from, 'pending_approval', 'x')).toThrow(
+        expect.objectContaining({
+          code: AuthErrorCode.AUTH_INVALID_STATUS_TRANSITION,
+        }),
+      );
+    }
+  });
+
+  it('should require a reason to lift a ban', () => {
+    expect(() => validateStatusTransition('banned', 'approved')).toThrow(
+      'requires a reason',
+    );
+    expect(() =>
+      validateStatusTransition('banned', 'approved', 'Appeal accepted'),
+    ).not.toThrow();
+  });
+});
+
+describe('ACLAdminHandler', () => {
+  let acl: InMemoryACL;
+  let auditLog: InMemoryAuditLog;
+  let admin: ACLAdminHandler;
+
+  beforeEach(() => {
+    acl = new InMemoryACL();
+    auditLog = new InMemoryAuditLog();
+    admin = new ACLAdminHandler({
+      acl,
+      auditLog,
+      credentials: { alice: 'alice-secret', bob: 'bob-secret' },
+    });
+  });
+
+  it('should require at least one credential', () => {
+    expect(() => new ACLAdminHandler({ acl, credentials: {} })).toThrow();
+  });
+
+  describe('authenticate()', () => {
+    it('should resolve the actor for a known secret', () => {
+      expect(admin.authenticate('Bearer bob-secret')).toBe('bob');
+    });
+
+    it('should reject missing and unknown credentials', () => {
+      expect(() => admin.authenticate(undefined)).toThrow(
+        expect.objectContaining({ code: AuthErrorCode.AUTH_INVALID_TOKEN }),
+      );
+      expect(() => admin.authenticate('Bearer nope')).toThrow(
+        'Invalid admin credential',
+      );
+    });
+  });
+
+  it('should approve a pending entry and audit the change', async () => {
+    const onAudit = vi.fn();
+    admin = new ACLAdminHandler({
+      acl,
+      auditLog,
+      onAudit,
+      credentials: { alice: 'alice-secret' },
+    });
+    await seed(acl, 'pending_approval');
+
+    const updated = await admin.approve(DID, 'alice', 'Looks good');
+
+    expect(updated.status).toBe('approved');
+    expect(await acl.get(DID)).toMatchObject({
+      status: 'approved',
+      reason: 'Looks good',
+    });
+    const [event] = await auditLog.list(DID);
+    expect(event).toMatchObject({
+      actor: 'alice',
+      action: 'approve',
+      previous_status: 'pending_approval',
+      new_status: 'approved',
+      reason: 'Looks good',
+    });
+    expect(onAudit).toHaveBeenCalledWith(event);
+  });
+
+  it('should treat re-applying the current status as a no-op', async () => {
+    await seed(acl, 'approved');
+
+    await admin.approve(DID, 'alice');
+
+    expect(await auditLog.list()).toHaveLength(0);
+  });
+
+  it('should refuse invalid transitions without modifying the entry', async () => {
+    await seed(acl, 'banned');
+
+    await expect(admin.approve(DID, 'alice')).rejects.toMatchObject({
+      code: AuthErrorCode.AUTH_INVALID_STATUS_TRANSITION,
+    });
+    expect((await acl.get(DID))?.status).toBe('banned');
+  });
+
+  it('should delete entries and audit with a null new status', async () => {
+    await seed(acl, 'rejected');
+
+    await admin.deleteEntry(DID, 'bob');
+
+    expect(await acl.get(DID)).toBeNull();
+    expect((await auditLog.list())[0]).toMatchObject({
+      action: 'delete',
+      previous_status: 'rejected',
+      new_status: null,
+    });
+  });
+
+  it('should refuse to delete banned entries', async () => {
+    await seed(acl, 'approved');
+    await admin.ban(DID, 'alice', 'Scraping');
+
+    await expect(admin.deleteEntry(DID, 'bob')).rejects.toMatchObject({
+      code: AuthErrorCode.AUTH_INVALID_STATUS_TRANSITION,
+    });
+    expect(await acl.get(DID)).toMatchObject({ status: 'banned', reason: 'Scraping' });
+
+    await admin.approve(DID, 'alice', 'Appeal accepted');
+    await admin.deleteEntry(DID, 'bob');
+    expect(await acl.get(DID)).toBeNull();
+  });
+
+  it('should report unknown DIDs', async () => {
+    await expect(admin.ban(DID, 'alice')).rejects.toMatchObject({
+      code: AuthErrorCode.AUTH_DID_NOT_FOUND,
+    });
+  });
+});
+
+describe('agentAuthAdminMiddleware()', () => {
+  let acl: InMemoryACL;
+  let server: Server;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    acl = new InMemoryACL();
+    const app = express();
+    app.use(
+      agentAuthAdminMiddleware({ acl, credentials: { ops: 'ops-secret' } })
+        .router,
+    );
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  function call(method: string, path: string, body?: unknown, token = 'ops-secret') {
+    return fetch(`${baseUrl}${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${token}`,
+        'Content-Type': 'application/json',
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+  }
+
+  it('should reject requests without the admin credential', async () => {
+    const response = await call('GET', '/admin/acl', undefined, 'agent-jwt');
+    expect(response.status).toBe(401);
+  });
+
+  it('should run an approval end to end', async () => {
+    await seed(acl, 'pending_approval');
+
+    const list = await call('GET', '/admin/acl?status=pending_approval');
+    expect((await list.json()).entries).toHaveLength(1);
+
+    const approve = await call('POST', `/admin/acl/${DID}/approve`, {
+      reason: 'Verified',
+    });
+    expect(approve.status).toBe(200);
+    expect((await approve.json()).status).toBe('approved');
+
+    const audit = await call('GET', `/admin/audit?did=${DID}`);
+    expect((await audit.json()).events[0]).toMatchObject({
+      actor: 'ops',
+      reason: 'Verified',
+    });
+  });
+
+  it('should return 409 for a disallowed transition', async () => {
+    await seed(acl, 'approved');
+
+    const response = await call('POST', `/admin/acl/${DID}/approve`);
+    expect(response.status).toBe(200);
+
+    await call('POST', `/admin/acl/${DID}/ban`);
+    const unban = await call('POST', `/admin/acl/${DID}/approve`);
+    expect(unban.status).toBe(409);
+    expect((await unban.json()).error.code).toBe(
+      AuthErrorCode.AUTH_INVALID_STATUS_TRANSITION,
+    );
+  });
+
+  it('should reject unknown status filters and delete entries', async () => {
+    expect((await call('GET', '/admin/acl?status=bogus')).status).toBe(400);
+
+    await seed(acl, 'banned');
+    expect((await call('DELETE', `/admin/acl/${DID}`)).status).toBe(409);
+
+    await seed(acl, 'rejected');
+    expect((await call('DELETE', `/admin/acl/${DID}`)).status).toBe(204);
+    expect(await acl.get(DID)).toBeNull();
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Tests for audience-restricted tokens
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { AuthErrorCode } from '@ai-agent-auth/core';
+import { AgentAuthHandler } from '../src/auth-handler';
+import { InMemoryACL } from '../src/acl';
+import {
+  approvedEntry,
+  createTestAgent,
+  createTestManifest,
+  signTestChallenge,
+  type TestAgent,
+} from './helpers';
+
+const API = 'https://api.example.com';
+const FILES = 'https://files.example.com';
+
+describe('AgentAuthHandler audiences', () => {
+  let acl: InMemoryACL;
+  let handler: AgentAuthHandler;
+  let agent: TestAgent;
+  let sequence: number;
+
+  beforeEach(async () => {
+    acl = new InMemoryACL();
+    handler = new AgentAuthHandler({
+      issuer: 'https://auth.example.com',
+      jwtSecret: 'test-secret',
+      acl,
+      audience: API,
+      audiences: [FILES],
+      enableRefreshTokens: true,
+    });
+    agent = createTestAgent();
+    sequence = 0;
+    await acl.set(approvedEntry(agent.did));
+  });
+
+  afterEach(() => {
+    handler.destroy();
+  });
+
+  async function verify(audience?: string, challenge?: { challenge: string; expires_at: string }) {
+    const { challenge: value, expires_at } =
+      challenge ?? (await handler.handleChallenge({ did: agent.did }));
+    return handler.handleVerify({
+      did: agent.did,
+      challenge: value,
+      signature: await signTestChallenge(agent, value, expires_at),
+      manifest: await createTestManifest(agent, ++sequence),
+      ...(audience !== undefined && { audience }),
+    });
+  }
+
+  function decode(token: string): Record<string, unknown> {
+    return JSON.parse(Buffer.from(token.split('.')[1], 'base64url').toString());
+  }
+
+  it('should restrict tokens to the server audience by default', async () => {
+    const response = await verify();
+
+    expect(response.audience).toBe(API);
+    expect((await handler.validateToken(response.token)).aud).toBe(API);
+  });
+
+  it('should issue tokens for an allowed audience', async () => {
+    const response = await verify(FILES);
+
+    expect(response.audience).toBe(FILES);
+    expect(decode(response.token).aud).toBe(FILES);
+  });
+
+  it('should reject a disallowed audience without consuming the challenge', async () => {
+    const challenge = await handler.handleChallenge({ did: agent.did });
+
+    await expect(verify('https://evil.example.com', challenge)).rejects.toMatchObject({
+      code: AuthErrorCode.AUTH_INVALID_REQUEST,
+      message: 'Audience is not allowed: https://evil.example.com',
+      details: { audience: 'https://evil.example.com' },
+    });
+
+    await expect(verify(undefined, challenge)).resolves.toMatchObject({
+      audience: API,
+    });
+  });
+
+  it('should accept tokens for any configured audience', async () => {
+    const response = await verify(FILES);
+
+    expect((await handler.validateToken(response.token)).aud).toBe(FILES);
+  });
+
+  it('should reject tokens minted for another audience', async () => {
+    const other = new AgentAuthHandler({
+      issuer: 'https://auth.example.com',
+      jwtSecret: 'test-secret',
+      acl,
+      audience: 'https://evil.example.com',
+    });
+    const { challenge, expires_at } = await other.handleChallenge({ did: agent.did });
+    const response = await other.handleVerify({
+      did: agent.did,
+      challenge,
+      signature: await signTestChallenge(agent, challenge, expires_at),
+      manifest: await createTestManifest(agent, ++sequence),
+    });
+    other.destroy();
+
+    await expect(handler.validateToken(response.token)).rejects.toMatchObject({
+      code: AuthErrorCode.AUTH_INVALID_TOKEN,
+    });
+  });
+
+  it('should check audiences when only `audiences` is configured', async () => {
+    const files = new AgentAuthHandler({
+      issuer: 'https://auth.example.com',
+      jwtSecret: 'test-secret',
+      acl,
+      audiences: [FILES],
+    });
+    try {
+      const { challenge, expires_at } = await files.handleChallenge({ did: agent.did });
+      const unrestricted = await files.handleVerify({
+        did: agent.did,
+        challenge,
+        signature: await signTestChallenge(agent, challenge, expires_at),
+        manifest: await createTestManifest(agent, ++sequence),
+      });
+
+      await expect(files.validateToken(unrestricted.token)).rejects.toMatchObject({
+        code: AuthErrorCode.AUTH_INVALID_TOKEN,
+      });
+      expect((await files.validateToken((await verify(FILES)).token)).aud).toBe(FILES);
+      await expect(files.validateToken((await verify()).token)).rejects.toMatchObject({
+        code: AuthErrorCode.AUTH_INVALID_TOKEN,
+      });
+    } finally {
+      files.destroy();
+    }
+  });
+
+  it('should reject tokens without an audience', async () => {
+    const open = new AgentAuthHandler({
+      issuer: 'https://auth.example.com',
+      jwtSecret: 'test-secret',
+      acl,
+    });
+    const { challenge, expires_at } = await open.handleChallenge({ did: agent.did });
+    const response = await open.handleVerify({
+      did: agent.did,
+      challenge,
+      signature: await signTestChallenge(agent, challenge, expires_at),
+      manifest: await createTestManifest(agent, ++sequence),
+    });
+    open.destroy();
+
+    expect(response).not.toHaveProperty('audience');
+    expect(decode(response.token)).not.toHaveProperty('aud');
+    await expect(handler.validateToken(response.token)).rejects.toMatchObject({
+      code: AuthErrorCode.AUTH_INVALID_TOKEN,
+    });
+  });
+
+  it('should preserve the audience across refresh', async () => {
+    const { refresh_token } = await verify(FILES);
+
+    const refreshed = await handler.handleRefresh({ refresh_token });
+
+    expect(refreshed.audience).toBe(FILES);
+    expect(decode(refreshed.token).aud).toBe(FILES);
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Tests for AgentAuthHandler
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  AuthError,
+  AuthErrorCode,
+  encodeBase58btc,
+  generateKeyPair,
+  publicKeyToDidJwk,
+} from '@ai-agent-auth/core';
+import { AgentAuthHandler } from '../src/auth-handler';
+import { InMemoryACL } from '../src/acl';
+import { InMemoryChallengeStore } from '../src/challenge-store';
+import type { ChallengeStore } from '../src/config';
+import {
+  approvedEntry,
+  createTestAgent,
+  createTestManifest,
+  signTestChallenge,
+  type TestAgent,
+} from './helpers';
+
+describe('AgentAuthHandler', () => {
+  let acl: InMemoryACL;
+  let handler: AgentAuthHandler;
+  let agent: TestAgent;
+
+  beforeEach(async () => {
+    acl = new InMemoryACL();
+    handler = new AgentAuthHandler({
+      issuer: 'https://api.example.com',
+      jwtSecret: 'test-secret',
+      acl,
+    });
+    agent = createTestAgent();
+    await acl.set(approvedEntry(agent.did));
+  });
+
+  afterEach(() => {
+    handler.destroy();
+  });
+
+  async function verifyBody(sequence = 1) {
+    const { challenge, expires_at } = await handler.handleChallenge({
+      did: agent.did,
+    });
+    return {
+      did: agent.did,
+      challenge,
+      signature: await signTestChallenge(agent, challenge, expires_at),
+      manifest: await createTestManifest(agent, sequence),
+    };
+  }
+
+  describe('handleVerify()', () => {
+    it('should issue a token for a valid challenge response', async () => {
+      const response = await handler.handleVerify(await verifyBody());
+
+      expect(response.agent.did).toBe(agent.did);
+      const payload = await handler.validateToken(response.token);
+      expect(payload.sub).toBe(agent.did);
+    });
+
+    it('should reject a replayed challenge', async () => {
+      const body = await verifyBody();
+      await handler.handleVerify(body);
+
+      await expect(handler.handleVerify(body)).rejects.toMatchObject({
+        code: AuthErrorCode.AUTH_CHALLENGE_ALREADY_USED,
+      });
+    });
+
+    it('should allow only one of several parallel verifies per challenge', async () => {
+      const body = await verifyBody();
+
+      const results = await Promise.allSettled(
+        Array.from({ length: 5 }, () => handler.handleVerify(body)),
+      );
+
+      const fulfilled = results.filter((r) => r.status === 'fulfilled');
+      const rejected = results.filter(
+        (r): r is PromiseRejectedResult => r.status === 'rejected',
+      );
+
+      expect(fulfilled).toHaveLength(1);
+      expect(rejected).toHaveLength(4);
+      for (const result of rejected) {
+        expect(result.reason).toBeInstanceOf(AuthError);
+        expect((result.reason as AuthError).code).toBe(
+          AuthErrorCode.AUTH_CHALLENGE_ALREADY_USED,
+        );
+      }
+    });
+
+    it('should fall back to get() and markUsed() for stores without consume()', async () => {
+      const inner = new InMemoryChallengeStore();
+      const legacy: ChallengeStore = {
+        store: (challenge, did, expiresAt) => inner.store(challenge, did, expiresAt),
+        get: (challenge) => inner.get(challenge),
+        markUsed: (challenge) => inner.markUsed(challenge),
+        cleanup: () => inner.cleanup(),
+        dispose: () => inner.dispose(),
+      };
+      handler.destroy();
+      handler = new AgentAuthHandler({
+        issuer: 'https://api.example.com',
+        jwtSecret: 'test-secret',
+        acl,
+        challengeStore: legacy,
+      });
+      const body = await verifyBody();
+
+      expect((await handler.handleVerify(body)).agent.did).toBe(agent.did);
+      await expect(handler.handleVerify(body)).rejects.toMatchObject({
+        code: AuthErrorCode.AUTH_CHALLENGE_ALREADY_USED,
+      });
+      await expect(
+        handler.handleVerify({ ...(await verifyBody(2)), did: 'did:key:zSomeoneElse' }),
+      ).rejects.toMatchObject({ code: AuthErrorCode.AUTH_DID_MISMATCH });
+    });
+
+    it('should burn the challenge even when verification fails', async () => {
+      const body = await verifyBody();
+      const badSignature = { ...body, signature: 'z' + '1'.repeat(87) };
+
+      await expect(handler.handleVerify(badSignature)).rejects.toMatchObject({
+        code: AuthErrorCode.AUTH_INVALID_SIGNATURE,
+      });
+      await expect(handler.handleVerify(body)).rejects.toMatchObject({
+        code: AuthErrorCode.AUTH_CHALLENGE_ALREADY_USED,
+      });
+    });
+
+    it('should reject a challenge issued for another DID', async () => {
+      const body = await verifyBody();
+      const other = createTestAgent();
+
+      await expect(
+        handler.handleVerify({
+          ...body,
+          did: other.did,
+          manifest: await createTestManifest(other),
+        }),
+      ).rejects.toMatchObject({ code: AuthErrorCode.AUTH_DID_MISMATCH });
+    });
+
+    it('should authenticate did:jwk and did:peer agents', async () => {
+      const keyPair = generateKeyPair();
+      const multibase = encodeBase58btc(
+        new Uint8Array([0xed, 0x01, ...keyPair.publicKey]),
+      );
+
+      for (const did of [
+        publicKeyToDidJwk(keyPair.publicKey),
+        `did:peer:2.A${multibase}.V${multibase}`,
+      ]) {
+        agent = { did, keyPair };
+        await acl.set(approvedEntry(did));
+
+        const response = await handler.handleVerify(await verifyBody());
+
+        expect(response.agent.did).toBe(did);
+      }
+    });
+
+    it('should check challenge signatures against authentication keys only', async () => {
+      const keyPair = generateKeyPair();
+      const multibase = (publicKey: Uint8Array) =>
+        encodeBase58btc(new Uint8Array([0xed, 0x01, ...publicKey]));
+      const did = [
+        'did:peer:2',
+        `A${multibase(keyPair.publicKey)}`,
+        `V${multibase(generateKeyPair().publicKey)}`,
+      ].join('.');
+      agent = { did, keyPair };
+      await acl.set(approvedEntry(did));
+
+      // The assertion key signs the manifest but may not authenticate
+      await expect(handler.handleVerify(await verifyBody())).rejects.toMatchObject({
+        code: AuthErrorCode.AUTH_INVALID_SIGNATURE,
+      });
+    });
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Tests for InMemoryChallengeStore
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { AuthError, AuthErrorCode } from '@ai-agent-auth/core';
+import { InMemoryChallengeStore } from '../src/challenge-store';
+
+const DID = 'did:key:z6MkhaXgBZDvotDkL5257faiztiGiC2QtKLGpbnnEGta2doK';
+const CHALLENGE = 'a'.repeat(64);
+
+async function expectCode(promise: Promise<unknown>, code: AuthErrorCode) {
+  const error = await promise.catch((e: unknown) => e);
+  expect(error).toBeInstanceOf(AuthError);
+  expect((error as AuthError).code).toBe(code);
+}
+
+describe('InMemoryChallengeStore', () => {
+  let store: InMemoryChallengeStore;
+
+  beforeEach(() => {
+    store = new InMemoryChallengeStore();
+  });
+
+  afterEach(() => {
+    store.dispose();
+  });
+
+  describe('consume()', () => {
+    it('should consume a stored challenge exactly once', async () => {
+      const expiresAt = new Date(Date.now() + 60_000);
+      await store.store(CHALLENGE, DID, expiresAt);
+
+      const consumed = await store.consume(CHALLENGE, DID);
+      expect(consumed).toEqual({ did: DID, expiresAt });
+      expect((await store.get(CHALLENGE))?.used).toBe(true);
+
+      await expectCode(
+        store.consume(CHALLENGE, DID),
+        AuthErrorCode.AUTH_CHALLENGE_ALREADY_USED,
+      );
+    });
+
+    it('should let only one of many concurrent callers succeed', async () => {
+      await store.store(CHALLENGE, DID, new Date(Date.now() + 60_000));
+
+      const results = await Promise.allSettled(
+        Array.from({ length: 10 }, () => store.consume(CHALLENGE, DID)),
+      );
+
+      expect(results.filter((r) => r.status === 'fulfilled')).toHaveLength(1);
+    });
+
+    it('should reject unknown challenges', async () => {
+      await expectCode(
+        store.consume(CHALLENGE, DID),
+        AuthErrorCode.AUTH_CHALLENGE_NOT_FOUND,
+      );
+    });
+
+    it('should reject and drop expired challenges', async () => {
+      await store.store(CHALLENGE, DID, new Date(Date.now() - 1000));
+
+      await expectCode(
+        store.consume(CHALLENGE, DID),
+        AuthErrorCode.AUTH_CHALLENGE_NOT_FOUND,
+      );
+      expect(store.size).toBe(0);
+    });
+
+    it('should not burn the challenge on DID mismatch', async () => {
+      await store.store(CHALLENGE, DID, new Date(Date.now() + 60_000));
+
+      await expectCode(
+        store.consume(CHALLENGE, 'did:key:zSomeoneElse'),
+        AuthErrorCode.AUTH_DID_MISMATCH,
+      );
+      await expect(store.consume(CHALLENGE, DID)).resolves.toBeDefined();
+    });
+  });
+
+  describe('cleanup()', () => {
+    it('should remove only expired challenges', async () => {
+      await store.store('b'.repeat(64), DID, new Date(Date.now() - 1000));
+      await store.store(CHALLENGE, DID, new Date(Date.now() + 60_000));
+
+      expect(await store.cleanup()).toBe(1);
+      expect(store.size).toBe(1);
+    });
+  });
+});
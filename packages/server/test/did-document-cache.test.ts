@@ -0,0 +1,169 @@
+/**
+ * Tests for did:web DID Document caching
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  AuthErrorCode,
+  encodeBase58btc,
+  generateKeyPair,
+  type DIDDocumentCacheEntry,
+  type KeyPair,
+} from '@ai-agent-auth/core';
+import { AgentAuthHandler } from '../src/auth-handler';
+import { InMemoryACL } from '../src/acl';
+import { InMemoryDIDDocumentCache } from '../src/did-document-cache';
+import type { ServerConfig } from '../src/config';
+import {
+  approvedEntry,
+  createTestManifest,
+  signTestChallenge,
+  type TestAgent,
+} from './helpers';
+
+const DID = 'did:web:agent.example.com';
+
+function entry(ttlSeconds = 60): DIDDocumentCacheEntry {
+  const now = Date.now();
+  return {
+    document: { id: DID },
+    expiresAt: now + ttlSeconds * 1000,
+    staleUntil: now + ttlSeconds * 2000,
+  };
+}
+
+describe('InMemoryDIDDocumentCache', () => {
+  it('should evict the least recently used entry when full', async () => {
+    const cache = new InMemoryDIDDocumentCache(2);
+
+    await cache.set('did:web:a.example.com', entry());
+    await cache.set('did:web:b.example.com', entry());
+    await cache.get('did:web:a.example.com');
+    await cache.set('did:web:c.example.com', entry());
+
+    expect(cache.size).toBe(2);
+    expect(await cache.get('did:web:a.example.com')).not.toBeNull();
+    expect(await cache.get('did:web:b.example.com')).toBeNull();
+    expect(await cache.get('did:web:c.example.com')).not.toBeNull();
+  });
+
+  it('should drop entries that can no longer be served', async () => {
+    const cache = new InMemoryDIDDocumentCache();
+    await cache.set(DID, { ...entry(), staleUntil: Date.now() - 1 });
+
+    expect(await cache.get(DID)).toBeNull();
+    expect(cache.size).toBe(0);
+  });
+
+  it('should reject a non-positive capacity', () => {
+    expect(() => new InMemoryDIDDocumentCache(0)).toThrow(
+      'maxEntries must be at least 1',
+    );
+  });
+});
+
+describe('did:web resolution caching in AgentAuthHandler', () => {
+  let handler: AgentAuthHandler;
+
+  afterEach(() => {
+    handler.destroy();
+  });
+
+  function didWebServer(keyPair: () => KeyPair) {
+    return vi.fn(async (input: string | URL | Request) => {
+      const url = String(input);
+      if (url !== 'https://agent.example.com/.well-known/did.json') {
+        return new Response('not found', { status: 404 });
+      }
+
+      const multibase = encodeBase58btc(
+        new Uint8Array([0xed, 0x01, ...keyPair().publicKey]),
+      );
+      return new Response(
+        JSON.stringify({
+          id: DID,
+          verificationMethod: [
+            {
+              id: `${DID}#key-1`,
+              type: 'Ed25519VerificationKey2020',
+              publicKeyMultibase: multibase,
+            },
+          ],
+        }),
+        { headers: { 'Cache-Control': 'max-age=300' } },
+      );
+    });
+  }
+
+  async function setup(
+    fetch: ReturnType<typeof didWebServer>,
+    didWebCache?: ServerConfig['didWebCache'],
+  ) {
+    const acl = new InMemoryACL();
+    await acl.set(approvedEntry(DID));
+    handler = new AgentAuthHandler({
+      issuer: 'https://api.example.com',
+      jwtSecret: 'test-secret',
+      acl,
+      fetch: fetch as unknown as typeof globalThis.fetch,
+      outboundFetch: { lookup: async () => ['93.184.215.14'] },
+      didWebCache,
+    });
+  }
+
+  async function login(agent: TestAgent, sequence: number) {
+    const { challenge, expires_at } = await handler.handleChallenge({
+      did: agent.did,
+    });
+    return handler.handleVerify({
+      did: agent.did,
+      challenge,
+      signature: await signTestChallenge(agent, challenge, expires_at),
+      manifest: await createTestManifest(agent, sequence),
+    });
+  }
+
+  function didDocumentFetches(fetch: ReturnType<typeof didWebServer>) {
+    return fetch.mock.calls.filter(([url]) => String(url).endsWith('/did.json'))
+      .length;
+  }
+
+  it('should fetch the DID document once across logins', async () => {
+    const agent = { did: DID, keyPair: generateKeyPair() };
+    const fetch = didWebServer(() => agent.keyPair);
+    await setup(fetch);
+
+    await login(agent, 1);
+    await login(agent, 2);
+
+    expect(didDocumentFetches(fetch)).toBe(1);
+  });
+
+  it('should fetch on every use when caching is disabled', async () => {
+    const agent = { did: DID, keyPair: generateKeyPair() };
+    const fetch = didWebServer(() => agent.keyPair);
+    await setup(fetch, false);
+
+    await login(agent, 1);
+
+    // Challenge key and manifest proof
+    expect(didDocumentFetches(fetch)).toBe(2);
+  });
+
+  it('should refetch after a signature fails against a cached document', async () => {
+    const agent = { did: DID, keyPair: generateKeyPair() };
+    const fetch = didWebServer(() => agent.keyPair);
+    const store = new InMemoryDIDDocumentCache();
+    await setup(fetch, { store });
+
+    await login(agent, 1);
+    agent.keyPair = generateKeyPair(); // rotated and republished
+
+    await expect(login(agent, 2)).rejects.toMatchObject({
+      code: AuthErrorCode.AUTH_INVALID_SIGNATURE,
+    });
+    expect(store.size).toBe(0);
+
+    await expect(login(agent, 2)).resolves.toHaveProperty('token');
+  });
+});
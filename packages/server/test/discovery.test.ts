@@ -0,0 +1,99 @@
+/**
+ * Tests for the /.well-known/agent-auth-configuration discovery document
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import express from 'express';
+import {
+  AgentAuthConfigurationSchema,
+  generateKeyPair,
+  supportedDIDMethods,
+} from '@ai-agent-auth/core';
+import { AgentAuthHandler } from '../src/auth-handler';
+import { agentAuthMiddleware } from '../src/middleware';
+
+const ISSUER = 'https://api.example.com';
+
+describe('AgentAuthHandler.handleConfiguration()', () => {
+  let handler: AgentAuthHandler | undefined;
+
+  afterEach(() => {
+    handler?.destroy();
+    handler = undefined;
+  });
+
+  it('should describe a default server', () => {
+    handler = new AgentAuthHandler({ issuer: ISSUER, jwtSecret: 'secret' });
+
+    const configuration = handler.handleConfiguration();
+
+    expect(configuration).toEqual({
+      issuer: ISSUER,
+      challenge_endpoint: 'https://api.example.com/auth/challenge',
+      verify_endpoint: 'https://api.example.com/auth/verify',
+      did_methods_supported: supportedDIDMethods(),
+      signing_algorithms_supported: ['EdDSA'],
+      token_signing_algorithm: 'HS256',
+      token_types_supported: ['Bearer', 'DPoP'],
+      token_lifetime_seconds: 3600,
+      challenge_lifetime_seconds: 300,
+      registration_enabled: false,
+    });
+    expect(AgentAuthConfigurationSchema.safeParse(configuration).success).toBe(true);
+  });
+
+  it('should reflect the server configuration', () => {
+    handler = new AgentAuthHandler({
+      issuer: `${ISSUER}/`,
+      jwtSecret: generateKeyPair(),
+      pathPrefix: '/agents/auth',
+      tokenLifetimeSeconds: 900,
+      challengeLifetimeSeconds: 60,
+      enableRegistration: true,
+      enableRefreshTokens: true,
+      refreshTokenLifetimeSeconds: 7200,
+      dpop: { required: true },
+      audience: 'https://files.example.com',
+      audiences: ['https://mail.example.com'],
+    });
+
+    expect(handler.handleConfiguration()).toMatchObject({
+      challenge_endpoint: 'https://api.example.com/agents/auth/challenge',
+      verify_endpoint: 'https://api.example.com/agents/auth/verify',
+      refresh_endpoint: 'https://api.example.com/agents/auth/refresh',
+      registration_endpoint: 'https://api.example.com/agents/auth/register',
+      jwks_uri: 'https://api.example.com/.well-known/jwks.json',
+      token_signing_algorithm: 'EdDSA',
+      token_types_supported: ['DPoP'],
+      token_lifetime_seconds: 900,
+      challenge_lifetime_seconds: 60,
+      refresh_token_lifetime_seconds: 7200,
+      registration_enabled: true,
+      audiences_supported: ['https://files.example.com', 'https://mail.example.com'],
+    });
+  });
+});
+
+describe('GET /.well-known/agent-auth-configuration', () => {
+  it('should serve the discovery document with cache headers', async () => {
+    const auth = agentAuthMiddleware({ issuer: ISSUER, jwtSecret: 'secret', enableRegistration: true });
+    const app = express();
+    app.use(auth.router);
+    const server: Server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+
+    try {
+      const port = (server.address() as AddressInfo).port;
+      const res = await fetch(`http://127.0.0.1:${port}/.well-known/agent-auth-configuration`);
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get('cache-control')).toBe('public, max-age=300');
+      expect(await res.json()).toEqual(auth.handler.handleConfiguration());
+    } finally {
+      auth.handler.destroy();
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
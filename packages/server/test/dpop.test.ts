@@ -0,0 +1,233 @@
+/**
+ * Tests for DPoP proof-of-possession bound tokens
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import express from 'express';
+import {
+  AuthErrorCode,
+  computeJwkThumbprint,
+  createDPoPProof,
+  generateKeyPair,
+  type KeyPair,
+} from '@ai-agent-auth/core';
+import { agentAuthMiddleware } from '../src/middleware';
+import { InMemoryACL } from '../src/acl';
+import { InMemoryDPoPReplayStore } from '../src/dpop-replay-store';
+import type { AuthenticatedRequest, ServerConfig } from '../src/config';
+import {
+  approvedEntry,
+  createTestAgent,
+  createTestManifest,
+  signTestChallenge,
+  type TestAgent,
+} from './helpers';
+
+const ISSUER = 'https://api.example.com';
+
+describe('DPoP-bound tokens', () => {
+  let acl: InMemoryACL;
+  let auth: ReturnType<typeof agentAuthMiddleware>;
+  let server: Server;
+  let baseUrl: string;
+  let agent: TestAgent;
+  let sequence: number;
+
+  async function start(dpop?: ServerConfig['dpop']) {
+    auth = agentAuthMiddleware({
+      issuer: ISSUER,
+      jwtSecret: 'test-secret',
+      acl,
+      enableRefreshTokens: true,
+      dpop,
+    });
+
+    const app = express();
+    app.use(auth.router);
+    app.get('/files', auth.guard, (req, res) => {
+      res.json({ sub: (req as AuthenticatedRequest).agent.sub });
+    });
+
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  }
+
+  beforeEach(async () => {
+    acl = new InMemoryACL();
+    agent = createTestAgent();
+    sequence = 0;
+    await acl.set(approvedEntry(agent.did));
+  });
+
+  afterEach(async () => {
+    auth.handler.destroy();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  async function verify(tokenType?: 'Bearer' | 'DPoP') {
+    const { challenge, expires_at } = await auth.handler.handleChallenge({
+      did: agent.did,
+    });
+    return auth.handler.handleVerify({
+      did: agent.did,
+      challenge,
+      signature: await signTestChallenge(agent, challenge, expires_at),
+      manifest: await createTestManifest(agent, ++sequence),
+      ...(tokenType && { token_type: tokenType }),
+    });
+  }
+
+  function proof(token: string, url = `${baseUrl}/files`, keyPair: KeyPair = agent.keyPair) {
+    return createDPoPProof({
+      method: 'GET',
+      url,
+      privateKey: keyPair.privateKey,
+      publicKey: keyPair.publicKey,
+      accessToken: token,
+    });
+  }
+
+  function get(headers: Record<string, string>) {
+    return fetch(`${baseUrl}/files?page=1`, { headers });
+  }
+
+  it('should bind the token to the agent key on request', async () => {
+    await start();
+    const response = await verify('DPoP');
+
+    expect(response.token_type).toBe('DPoP');
+    const payload = JSON.parse(
+      Buffer.from(response.token.split('.')[1], 'base64url').toString(),
+    );
+    expect(payload.cnf).toEqual({
+      jkt: computeJwkThumbprint(agent.keyPair.publicKey),
+    });
+  });
+
+  it('should issue plain bearer tokens by default', async () => {
+    await start();
+    const response = await verify();
+
+    expect(response).not.toHaveProperty('token_type');
+    expect(
+      (await get({ Authorization: `Bearer ${response.token}` })).status,
+    ).toBe(200);
+  });
+
+  it('should accept a key-bound token with a valid proof', async () => {
+    await start();
+    const { token } = await verify('DPoP');
+
+    const res = await get({ Authorization: `DPoP ${token}`, DPoP: await proof(token) });
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ sub: agent.did });
+  });
+
+  it('should reject a replayed proof', async () => {
+    await start();
+    const { token } = await verify('DPoP');
+    const headers = { Authorization: `DPoP ${token}`, DPoP: await proof(token) };
+
+    expect((await get(headers)).status).toBe(200);
+
+    const replay = await get(headers);
+    expect(replay.status).toBe(401);
+    expect(replay.headers.get('www-authenticate')).toBe(
+      `DPoP realm="${ISSUER}", error="invalid_dpop_proof", ` +
+        'error_description="DPoP proof has already been used", algs="EdDSA"',
+    );
+    expect((await replay.json()).error.code).toBe(
+      AuthErrorCode.AUTH_INVALID_DPOP_PROOF,
+    );
+  });
+
+  it('should reject a key-bound token without a proof', async () => {
+    await start();
+    const { token } = await verify('DPoP');
+
+    const res = await get({ Authorization: `DPoP ${token}` });
+
+    expect(res.status).toBe(401);
+    expect((await res.json()).error.message).toBe(
+      'Token is bound to a key; a DPoP proof is required',
+    );
+  });
+
+  it('should reject a key-bound token downgraded to the Bearer scheme', async () => {
+    await start();
+    const { token } = await verify('DPoP');
+
+    const res = await get({ Authorization: `Bearer ${token}`, DPoP: await proof(token) });
+
+    expect(res.status).toBe(401);
+    expect((await res.json()).error).toMatchObject({
+      code: AuthErrorCode.AUTH_INVALID_TOKEN,
+      message: 'Key-bound token must use the DPoP scheme',
+    });
+  });
+
+  it('should reject proofs for another URL or from another key', async () => {
+    await start();
+    const { token } = await verify('DPoP');
+
+    const wrongUrl = await get({
+      Authorization: `DPoP ${token}`,
+      DPoP: await proof(token, `${baseUrl}/admin`),
+    });
+    const wrongKey = await get({
+      Authorization: `DPoP ${token}`,
+      DPoP: await proof(token, undefined, generateKeyPair()),
+    });
+
+    expect(wrongUrl.status).toBe(401);
+    expect((await wrongUrl.json()).error.message).toBe(
+      'DPoP proof was created for a different URL',
+    );
+    expect(wrongKey.status).toBe(401);
+    expect((await wrongKey.json()).error.message).toBe(
+      'DPoP proof key does not match the token binding',
+    );
+  });
+
+  it('should keep the binding across refresh', async () => {
+    await start();
+    const { refresh_token } = await verify('DPoP');
+
+    const refreshed = await auth.handler.handleRefresh({ refresh_token });
+
+    expect(refreshed.token_type).toBe('DPoP');
+    await expect(auth.handler.validateToken(refreshed.token)).rejects.toMatchObject({
+      code: AuthErrorCode.AUTH_INVALID_DPOP_PROOF,
+    });
+  });
+
+  describe('when required', () => {
+    beforeEach(async () => {
+      await start({ required: true, replayStore: new InMemoryDPoPReplayStore() });
+    });
+
+    it('should bind tokens without being asked', async () => {
+      expect((await verify()).token_type).toBe('DPoP');
+    });
+
+    it('should refuse to issue bearer tokens', async () => {
+      await expect(verify('Bearer')).rejects.toMatchObject({
+        code: AuthErrorCode.AUTH_INVALID_REQUEST,
+        message: 'This server only issues DPoP-bound tokens',
+      });
+    });
+
+    it('should challenge with the DPoP scheme', async () => {
+      const res = await get({});
+
+      expect(res.status).toBe(401);
+      expect(res.headers.get('www-authenticate')).toBe(
+        `DPoP realm="${ISSUER}", algs="EdDSA"`,
+      );
+    });
+  });
+});
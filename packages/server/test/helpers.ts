@@ -0,0 +1,87 @@
+/**
+ * Shared test fixtures for server tests
+ */
+
+import {
+  generateKeyPair,
+  publicKeyToDidKey,
+  signChallenge,
+  signManifest,
+  type AgentManifest,
+  type KeyPair,
+} from '@ai-agent-auth/core';
+
+/**
+ * A did:key test agent with its key pair.
+ */
+export interface TestAgent {
+  did: string;
+  keyPair: KeyPair;
+}
+
+/**
+ * Generate a fresh did:key agent.
+ */
+export function createTestAgent(): TestAgent {
+  const keyPair = generateKeyPair();
+  return { did: publicKeyToDidKey(keyPair.publicKey), keyPair };
+}
+
+/**
+ * Build and sign a manifest for a test agent.
+ */
+export async function createTestManifest(
+  agent: TestAgent,
+  sequence = 1,
+  capabilities: Partial<AgentManifest['capabilities']> = {},
+): Promise<AgentManifest> {
+  const now = new Date().toISOString();
+  return signManifest(
+    {
+      $schema: 'https://schema.agentauth.org/v1/manifest.json',
+      version: '1.0.0',
+      id: agent.did,
+      sequence,
+      created_at: now,
+      updated_at: now,
+      valid_until: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(),
+      metadata: {
+        name: 'TestAgent',
+        description: 'An agent used in tests',
+        agent_version: '1.0.0',
+      },
+      capabilities: {
+        interfaces: [{ protocol: 'https', url: 'https://agent.example.com' }],
+        ...capabilities,
+      },
+    },
+    agent.keyPair.privateKey,
+    // did:jwk documents have a single verification method, "#0"
+    agent.did.startsWith('did:jwk:') ? `${agent.did}#0` : `${agent.did}#key-1`,
+  );
+}
+
+/**
+ * Sign a challenge response for a test agent.
+ */
+export function signTestChallenge(
+  agent: TestAgent,
+  challenge: string,
+  expiresAt: string,
+): Promise<string> {
+  return signChallenge(challenge, agent.did, expiresAt, agent.keyPair.privateKey);
+}
+
+/**
+ * A fully-populated approved ACL entry for a DID.
+ */
+export function approvedEntry(did: string) {
+  const now = new Date().toISOString();
+  return {
+    did,
+    status: 'approved' as const,
+    manifest_sequence: 0,
+    registered_at: now,
+    updated_at: now,
+  };
+}
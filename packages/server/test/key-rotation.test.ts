@@ -0,0 +1,232 @@
+/**
+ * Tests for key rotation with manifest continuity proofs
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  AuthErrorCode,
+  encodeBase58btc,
+  generateKeyPair,
+  signManifest,
+  signManifestRotation,
+  type AgentManifest,
+  type KeyPair,
+} from '@ai-agent-auth/core';
+import { AgentAuthHandler } from '../src/auth-handler';
+import { InMemoryACL } from '../src/acl';
+import {
+  approvedEntry,
+  createTestAgent,
+  createTestManifest,
+  signTestChallenge,
+  type TestAgent,
+} from './helpers';
+
+/**
+ * Re-sign `manifest` for `next` with a rotation proof by `previous`.
+ */
+async function rotatedManifest(
+  manifest: AgentManifest,
+  previous: { keyPair: KeyPair; verificationMethod: string },
+  next: { did: string; keyPair: KeyPair; verificationMethod: string },
+): Promise<AgentManifest> {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { proof, ...unsigned } = manifest;
+  const withRotation = await signManifestRotation(
+    { ...unsigned, id: next.did, sequence: manifest.sequence + 1 },
+    previous.keyPair.privateKey,
+    previous.verificationMethod,
+  );
+  return signManifest(withRotation, next.keyPair.privateKey, next.verificationMethod);
+}
+
+describe('AgentAuthHandler key rotation', () => {
+  let acl: InMemoryACL;
+  let handler: AgentAuthHandler;
+
+  afterEach(() => {
+    handler.destroy();
+  });
+
+  async function login(
+    agent: TestAgent,
+    manifest: AgentManifest,
+    previousDid?: string,
+  ) {
+    const { challenge, expires_at } = await handler.handleChallenge({
+      did: agent.did,
+      ...(previousDid && { previous_did: previousDid }),
+    });
+    return handler.handleVerify({
+      did: agent.did,
+      challenge,
+      signature: await signTestChallenge(agent, challenge, expires_at),
+      manifest,
+    });
+  }
+
+  describe('to a new DID', () => {
+    let previous: TestAgent;
+    let next: TestAgent;
+    let manifest: AgentManifest;
+
+    beforeEach(async () => {
+      acl = new InMemoryACL();
+      handler = new AgentAuthHandler({
+        issuer: 'https://api.example.com',
+        jwtSecret: 'test-secret',
+        acl,
+      });
+
+      previous = createTestAgent();
+      next = createTestAgent();
+      await acl.set({ ...approvedEntry(previous.did), metadata: { team: 'search' } });
+      await login(previous, await createTestManifest(previous, 1));
+
+      manifest = await rotatedManifest(
+        await createTestManifest(previous, 1),
+        { keyPair: previous.keyPair, verificationMethod: `${previous.did}#key-1` },
+        { ...next, verificationMethod: `${next.did}#key-1` },
+      );
+    });
+
+    it('should approve the new DID without re-approval', async () => {
+      const response = await login(next, manifest, previous.did);
+
+      expect(response.agent.did).toBe(next.did);
+      expect(await acl.get(next.did)).toMatchObject({
+        status: 'approved',
+        reason: `Key rotated from ${previous.did}`,
+        metadata: { team: 'search' },
+      });
+      expect(await acl.getMaxSequence(next.did)).toBe(2);
+    });
+
+    it('should retire the previous DID', async () => {
+      await login(next, manifest, previous.did);
+
+      expect(await acl.get(previous.did)).toMatchObject({
+        status: 'rejected',
+        reason: `Key rotated to ${next.did}`,
+      });
+      await expect(
+        handler.handleChallenge({ did: previous.did }),
+      ).rejects.toMatchObject({ code: AuthErrorCode.AUTH_DID_REJECTED });
+    });
+
+    it('should require the sequence to continue the previous DID', async () => {
+      const stale = await rotatedManifest(
+        await createTestManifest(previous, 1),
+        { keyPair: previous.keyPair, verificationMethod: `${previous.did}#key-1` },
+        { ...next, verificationMethod: `${next.did}#key-1` },
+      );
+      await login(previous, await createTestManifest(previous, 5));
+
+      await expect(login(next, stale, previous.did)).rejects.toMatchObject({
+        code: AuthErrorCode.AUTH_MANIFEST_ROLLBACK,
+      });
+      expect(await acl.get(next.did)).toBeNull();
+    });
+
+    it('should reject a rotation proof by another key', async () => {
+      const forged = await rotatedManifest(
+        await createTestManifest(previous, 1),
+        { keyPair: generateKeyPair(), verificationMethod: `${previous.did}#key-1` },
+        { ...next, verificationMethod: `${next.did}#key-1` },
+      );
+
+      await expect(login(next, forged, previous.did)).rejects.toMatchObject({
+        code: AuthErrorCode.AUTH_INVALID_MANIFEST_SIGNATURE,
+      });
+      expect(await acl.get(next.did)).toBeNull();
+      expect((await acl.get(previous.did))?.status).toBe('approved');
+    });
+
+    it('should reject a new DID without a rotation proof', async () => {
+      await expect(
+        login(next, await createTestManifest(next, 2), previous.did),
+      ).rejects.toMatchObject({ code: AuthErrorCode.AUTH_DID_NOT_FOUND });
+    });
+
+    it('should not issue challenges for a previous DID that is not approved', async () => {
+      await acl.set({ ...approvedEntry(previous.did), status: 'pending_approval' });
+
+      await expect(
+        handler.handleChallenge({ did: next.did, previous_did: previous.did }),
+      ).rejects.toMatchObject({ code: AuthErrorCode.AUTH_DID_PENDING });
+    });
+  });
+
+  describe('within a did:web document', () => {
+    const DID = 'did:web:agent.example.com';
+    let oldKey: KeyPair;
+    let newKey: KeyPair;
+    let listOldKey: boolean;
+
+    function multibase(keyPair: KeyPair): string {
+      return encodeBase58btc(new Uint8Array([0xed, 0x01, ...keyPair.publicKey]));
+    }
+
+    beforeEach(async () => {
+      oldKey = generateKeyPair();
+      newKey = generateKeyPair();
+      listOldKey = true;
+
+      // key-1 is retired: listed, but authorized for nothing
+      const fetch = async (input: string | URL | Request) => {
+        if (String(input) !== 'https://agent.example.com/.well-known/did.json') {
+          return new Response('not found', { status: 404 });
+        }
+        const keys: Array<[string, KeyPair]> = listOldKey
+          ? [['key-1', oldKey], ['key-2', newKey]]
+          : [['key-2', newKey]];
+        return new Response(
+          JSON.stringify({
+            id: DID,
+            verificationMethod: keys.map(([id, keyPair]) => ({
+              id: `${DID}#${id}`,
+              type: 'Multikey',
+              publicKeyMultibase: multibase(keyPair),
+            })),
+            authentication: [`${DID}#key-2`],
+            assertionMethod: [`${DID}#key-2`],
+          }),
+        );
+      };
+
+      acl = new InMemoryACL();
+      await acl.set(approvedEntry(DID));
+      handler = new AgentAuthHandler({
+        issuer: 'https://api.example.com',
+        jwtSecret: 'test-secret',
+        acl,
+        fetch: fetch as typeof globalThis.fetch,
+        outboundFetch: { lookup: async () => ['93.184.215.14'] },
+        didWebCache: false,
+      });
+    });
+
+    async function rotate() {
+      return rotatedManifest(
+        await createTestManifest({ did: DID, keyPair: oldKey }, 1),
+        { keyPair: oldKey, verificationMethod: `${DID}#key-1` },
+        { did: DID, keyPair: newKey, verificationMethod: `${DID}#key-2` },
+      );
+    }
+
+    it('should accept a proof by a retired key still listed in the document', async () => {
+      const response = await login({ did: DID, keyPair: newKey }, await rotate());
+
+      expect(response.agent.did).toBe(DID);
+      expect((await acl.get(DID))?.status).toBe('approved');
+    });
+
+    it('should reject a proof by a key removed from the document', async () => {
+      listOldKey = false;
+
+      await expect(
+        login({ did: DID, keyPair: newKey }, await rotate()),
+      ).rejects.toMatchObject({ code: AuthErrorCode.AUTH_DID_RESOLUTION_FAILED });
+    });
+  });
+});
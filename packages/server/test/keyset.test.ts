@@ -0,0 +1,269 @@
+/**
+ * Tests for KeySet, kid-based JWT verification and the JWKS endpoint
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import express from 'express';
+import { calculateJwkThumbprint, decodeProtectedHeader } from 'jose';
+import { AuthErrorCode, generateKeyPair } from '@ai-agent-auth/core';
+import { KeySet, computeKeyId, scheduleKeyRotation } from '../src/keyset';
+import { signJWT, verifyJWT } from '../src/jwt';
+import { agentAuthMiddleware } from '../src/middleware';
+
+const ISSUER = 'https://api.example.com';
+const DID = 'did:key:z6MkhaXgBZDvotDkL5257faiztiGiC2QtKLGpbnnEGta2doK';
+
+function issue(secret: Parameters<typeof signJWT>[2]['secret']) {
+  return signJWT(
+    {
+      scope: 'read',
+      agent_name: 'TestAgent',
+      agent_version: '1.0.0',
+      manifest_sequence: 1,
+    },
+    DID,
+    { issuer: ISSUER, lifetimeSeconds: 3600, secret },
+  );
+}
+
+describe('computeKeyId()', () => {
+  it('should match the RFC 7638 JWK thumbprint', async () => {
+    const { publicKey } = generateKeyPair();
+
+    const expected = await calculateJwkThumbprint({
+      kty: 'OKP',
+      crv: 'Ed25519',
+      x: Buffer.from(publicKey).toString('base64url'),
+    });
+
+    expect(computeKeyId(publicKey)).toBe(expected);
+  });
+});
+
+describe('KeySet', () => {
+  it('should retire the previous key on rotation', () => {
+    const keys = new KeySet();
+    const first = keys.active;
+
+    const second = keys.rotate();
+
+    expect(keys.active).toBe(second);
+    expect(second.kid).not.toBe(first.kid);
+    expect(keys.get(first.kid)?.retiredAt).toBeInstanceOf(Date);
+    expect(keys.list().map((key) => key.kid)).toEqual([first.kid, second.kid]);
+  });
+
+  it('should prune retired keys after their TTL', () => {
+    vi.useFakeTimers();
+    const keys = new KeySet({ retiredKeyTTLSeconds: 60 });
+    const first = keys.active;
+
+    try {
+      keys.rotate();
+      vi.advanceTimersByTime(30_000);
+      expect(keys.prune()).toBe(0);
+
+      vi.advanceTimersByTime(31_000);
+      expect(keys.prune()).toBe(1);
+    } finally {
+      vi.useRealTimers();
+    }
+
+    expect(keys.get(first.kid)).toBeUndefined();
+  });
+
+  it('should not return retired keys past their TTL before pruning', () => {
+    vi.useFakeTimers();
+    const keys = new KeySet({ retiredKeyTTLSeconds: 60 });
+    const first = keys.active;
+
+    try {
+      keys.rotate();
+      vi.advanceTimersByTime(30_000);
+      expect(keys.get(first.kid)).toBe(first);
+
+      vi.advanceTimersByTime(31_000);
+      expect(keys.get(first.kid)).toBeUndefined();
+      expect(keys.get(keys.active.kid)).toBe(keys.active);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should not publish retired keys past their TTL before pruning', () => {
+    vi.useFakeTimers();
+    const keys = new KeySet({ retiredKeyTTLSeconds: 60 });
+    const first = keys.active;
+
+    try {
+      keys.rotate();
+      vi.advanceTimersByTime(30_000);
+      expect(keys.toJWKS().keys.map((jwk) => jwk.kid)).toEqual([
+        first.kid,
+        keys.active.kid,
+      ]);
+
+      vi.advanceTimersByTime(31_000);
+      expect(keys.toJWKS().keys.map((jwk) => jwk.kid)).toEqual([keys.active.kid]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should publish public keys only', () => {
+    const retired = generateKeyPair();
+    const keys = new KeySet({ retiredKeys: [retired] });
+
+    const jwks = keys.toJWKS();
+
+    expect(jwks.keys).toHaveLength(2);
+    expect(jwks.keys[0]).toEqual({
+      kty: 'OKP',
+      crv: 'Ed25519',
+      x: Buffer.from(retired.publicKey).toString('base64url'),
+      kid: computeKeyId(retired.publicKey),
+      alg: 'EdDSA',
+      use: 'sig',
+    });
+    expect(jwks.keys.every((jwk) => !('d' in jwk))).toBe(true);
+  });
+});
+
+describe('scheduleKeyRotation()', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should rotate on each interval until stopped', async () => {
+    vi.useFakeTimers();
+    const keys = new KeySet();
+    const onRotate = vi.fn();
+
+    const stop = scheduleKeyRotation(keys, { intervalMs: 1000, onRotate });
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(onRotate).toHaveBeenCalledTimes(2);
+    expect(onRotate).toHaveBeenLastCalledWith(keys.active);
+
+    stop();
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(onRotate).toHaveBeenCalledTimes(2);
+  });
+
+  it('should keep the current key when the next key is unavailable', async () => {
+    vi.useFakeTimers();
+    const keys = new KeySet();
+    const active = keys.active;
+    const onError = vi.fn();
+
+    const stop = scheduleKeyRotation(keys, {
+      intervalMs: 1000,
+      nextKey: () => Promise.reject(new Error('KMS unavailable')),
+      onError,
+    });
+
+    await vi.advanceTimersByTimeAsync(1000);
+    stop();
+
+    expect(onError).toHaveBeenCalledWith(new Error('KMS unavailable'));
+    expect(keys.active).toBe(active);
+  });
+});
+
+describe('JWT signing with kid', () => {
+  it('should set kid for KeyPair and KeySet signing', async () => {
+    const keyPair = generateKeyPair();
+    const keys = new KeySet();
+
+    expect(decodeProtectedHeader(await issue(keyPair)).kid).toBe(
+      computeKeyId(keyPair.publicKey),
+    );
+    expect(decodeProtectedHeader(await issue(keys)).kid).toBe(keys.active.kid);
+    expect(decodeProtectedHeader(await issue('secret')).kid).toBeUndefined();
+  });
+
+  it('should verify tokens signed before a rotation', async () => {
+    const keys = new KeySet();
+    const token = await issue(keys);
+
+    keys.rotate();
+
+    const payload = await verifyJWT(token, { issuer: ISSUER, secret: keys });
+    expect(payload.sub).toBe(DID);
+  });
+
+  it('should reject tokens signed with an unknown or pruned key', async () => {
+    const keys = new KeySet();
+    const token = await issue(new KeySet());
+
+    await expect(
+      verifyJWT(token, { issuer: ISSUER, secret: keys }),
+    ).rejects.toMatchObject({
+      code: AuthErrorCode.AUTH_INVALID_TOKEN,
+      message: 'Token signed with an unknown key',
+    });
+  });
+});
+
+describe('GET /.well-known/jwks.json', () => {
+  let keys: KeySet;
+  let auth: ReturnType<typeof agentAuthMiddleware>;
+  let server: Server;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    keys = new KeySet();
+    auth = agentAuthMiddleware({ issuer: ISSUER, jwtSecret: keys });
+
+    const app = express();
+    app.use(auth.router);
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    auth.handler.destroy();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should serve the key set with cache headers', async () => {
+    keys.rotate();
+
+    const res = await fetch(`${baseUrl}/.well-known/jwks.json`);
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('cache-control')).toBe('public, max-age=300');
+    expect(await res.json()).toEqual(keys.toJWKS());
+  });
+
+  it('should let other services verify tokens from the remote JWKS', async () => {
+    const token = await issue(keys);
+
+    const payload = await verifyJWT(token, {
+      issuer: ISSUER,
+      secret: new URL(`${baseUrl}/.well-known/jwks.json`),
+    });
+
+    expect(payload.sub).toBe(DID);
+  });
+
+  it('should not be mounted for HMAC secrets', async () => {
+    const hmac = agentAuthMiddleware({ issuer: ISSUER, jwtSecret: 'secret' });
+    const app = express();
+    app.use(hmac.router);
+    const hmacServer = app.listen(0);
+    await new Promise((resolve) => hmacServer.once('listening', resolve));
+
+    try {
+      const port = (hmacServer.address() as AddressInfo).port;
+      const res = await fetch(`http://127.0.0.1:${port}/.well-known/jwks.json`);
+      expect(res.status).toBe(404);
+    } finally {
+      hmac.handler.destroy();
+      await new Promise((resolve) => hmacServer.close(resolve));
+    }
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Tests for SSRF protection of outbound fetches
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  AuthErrorCode,
+  generateKeyPair,
+} from '@ai-agent-auth/core';
+import { AgentAuthHandler } from '../src/auth-handler';
+import { InMemoryACL } from '../src/acl';
+import { HttpRevocationChecker } from '../src/revocation';
+import {
+  approvedEntry,
+  createTestAgent,
+  createTestManifest,
+  signTestChallenge,
+} from './helpers';
+
+function respond(body: unknown) {
+  return vi.fn(async () => new Response(JSON.stringify(body)));
+}
+
+describe('HttpRevocationChecker', () => {
+  let checker: HttpRevocationChecker;
+
+  afterEach(() => {
+    checker.dispose();
+  });
+
+  async function revokedManifest(endpoint: string) {
+    const manifest = await createTestManifest(createTestAgent());
+    return { ...manifest, revocation: { endpoint } };
+  }
+
+  it('should not query endpoints that resolve to private addresses', async () => {
+    const fetch = respond({ revoked: true });
+    checker = new HttpRevocationChecker({
+      fetch: fetch as unknown as typeof globalThis.fetch,
+      outboundFetch: { lookup: async () => ['169.254.169.254'] },
+    });
+
+    const status = await checker.check(
+      await revokedManifest('https://revocation.example.com/status'),
+    );
+
+    expect(status.revoked).toBe(false);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('should query allowlisted internal endpoints', async () => {
+    const fetch = respond({ revoked: true, reason: 'compromised' });
+    checker = new HttpRevocationChecker({
+      fetch: fetch as unknown as typeof globalThis.fetch,
+      outboundFetch: {
+        lookup: async () => ['10.0.0.5'],
+        allowedHosts: ['revocation.internal.example'],
+      },
+    });
+
+    await expect(
+      checker.check(
+        await revokedManifest('https://revocation.internal.example/status'),
+      ),
+    ).rejects.toMatchObject({ code: AuthErrorCode.AUTH_MANIFEST_REVOKED });
+  });
+
+  it('should fail open on oversized responses', async () => {
+    const fetch = respond({ revoked: true, reason: 'x'.repeat(200) });
+    checker = new HttpRevocationChecker({
+      fetch: fetch as unknown as typeof globalThis.fetch,
+      maxBytes: 64,
+      outboundFetch: { lookup: async () => ['93.184.215.14'] },
+    });
+
+    const status = await checker.check(
+      await revokedManifest('https://revocation.example.com/status'),
+    );
+
+    expect(status.revoked).toBe(false);
+  });
+});
+
+describe('AgentAuthHandler outbound fetches', () => {
+  const DID = 'did:web:agent.example.com';
+  let handler: AgentAuthHandler;
+
+  afterEach(() => {
+    handler.destroy();
+  });
+
+  it('should refuse did:web hosts that resolve to private addresses', async () => {
+    const fetch = vi.fn();
+    const acl = new InMemoryACL();
+    await acl.set(approvedEntry(DID));
+    handler = new AgentAuthHandler({
+      issuer: 'https://api.example.com',
+      jwtSecret: 'test-secret',
+      acl,
+      fetch,
+      outboundFetch: { lookup: async () => ['127.0.0.1'] },
+    });
+    const agent = { did: DID, keyPair: generateKeyPair() };
+
+    const { challenge, expires_at } = await handler.handleChallenge({ did: DID });
+    await expect(
+      handler.handleVerify({
+        did: DID,
+        challenge,
+        signature: await signTestChallenge(agent, challenge, expires_at),
+        manifest: await createTestManifest(agent, 1),
+      }),
+    ).rejects.toMatchObject({
+      code: AuthErrorCode.AUTH_DID_RESOLUTION_FAILED,
+      message: expect.stringContaining('blocked address 127.0.0.1'),
+    });
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('should not follow a did:web redirect to plain http', async () => {
+    const keyPair = generateKeyPair();
+    const fetch = vi.fn(async (input: string | URL | Request) => {
+      if (String(input).endsWith('/did.json')) {
+        return new Response(null, {
+          status: 302,
+          headers: { Location: 'http://169.254.169.254/latest/meta-data/' },
+        });
+      }
+      return new Response('not found', { status: 404 });
+    });
+    const acl = new InMemoryACL();
+    await acl.set(approvedEntry(DID));
+    handler = new AgentAuthHandler({
+      issuer: 'https://api.example.com',
+      jwtSecret: 'test-secret',
+      acl,
+      fetch: fetch as unknown as typeof globalThis.fetch,
+      outboundFetch: { lookup: async () => ['93.184.215.14'] },
+    });
+    const agent = { did: DID, keyPair };
+
+    const { challenge, expires_at } = await handler.handleChallenge({ did: DID });
+    await expect(
+      handler.handleVerify({
+        did: DID,
+        challenge,
+        signature: await signTestChallenge(agent, challenge, expires_at),
+        manifest: await createTestManifest(agent, 1),
+      }),
+    ).rejects.toMatchObject({
+      message: expect.stringContaining('non-HTTPS'),
+    });
+    expect(fetch.mock.calls.map(([url]) => String(url))).not.toContain(
+      'http://169.254.169.254/latest/meta-data/',
+    );
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Tests for refresh token issuance, rotation and reuse detection
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { AuthError, AuthErrorCode } from '@ai-agent-auth/core';
+import { AgentAuthHandler } from '../src/auth-handler';
+import { InMemoryACL } from '../src/acl';
+import { InMemoryRefreshTokenStore } from '../src/refresh-token-store';
+import {
+  approvedEntry,
+  createTestAgent,
+  createTestManifest,
+  signTestChallenge,
+  type TestAgent,
+} from './helpers';
+
+describe('AgentAuthHandler refresh tokens', () => {
+  let acl: InMemoryACL;
+  let store: InMemoryRefreshTokenStore;
+  let handler: AgentAuthHandler;
+  let agent: TestAgent;
+
+  beforeEach(async () => {
+    acl = new InMemoryACL();
+    store = new InMemoryRefreshTokenStore();
+    handler = new AgentAuthHandler({
+      issuer: 'https://api.example.com',
+      jwtSecret: 'test-secret',
+      acl,
+      enableRefreshTokens: true,
+      refreshTokenStore: store,
+    });
+    agent = createTestAgent();
+    await acl.set(approvedEntry(agent.did));
+  });
+
+  afterEach(() => {
+    handler.destroy();
+  });
+
+  async function login() {
+    const { challenge, expires_at } = await handler.handleChallenge({
+      did: agent.did,
+    });
+    return handler.handleVerify({
+      did: agent.did,
+      challenge,
+      signature: await signTestChallenge(agent, challenge, expires_at),
+      manifest: await createTestManifest(agent),
+    });
+  }
+
+  it('should not issue refresh tokens unless enabled', async () => {
+    handler.destroy();
+    handler = new AgentAuthHandler({
+      issuer: 'https://api.example.com',
+      jwtSecret: 'test-secret',
+      acl,
+    });
+
+    const response = await login();
+
+    expect(response.refresh_token).toBeUndefined();
+    await expect(
+      handler.handleRefresh({ refresh_token: 'x' }),
+    ).rejects.toMatchObject({ code: AuthErrorCode.AUTH_INVALID_REQUEST });
+  });
+
+  it('should issue a refresh token on verify and rotate it on refresh', async () => {
+    const first = await login();
+    expect(first.refresh_token).toMatch(/^[0-9a-f]{64}$/);
+
+    const second = await handler.handleRefresh({
+      refresh_token: first.refresh_token,
+    });
+
+    expect(second.refresh_token).not.toBe(first.refresh_token);
+    expect(second.refresh_expires_at).toBe(first.refresh_expires_at);
+    const payload = await handler.validateToken(second.token);
+    expect(payload.sub).toBe(agent.did);
+    expect(payload.scope).toBe('read');
+  });
+
+  it('should revoke the whole family when a refresh token is reused', async () => {
+    const first = await login();
+    const second = await handler.handleRefresh({
+      refresh_token: first.refresh_token,
+    });
+
+    await expect(
+      handler.handleRefresh({ refresh_token: first.refresh_token }),
+    ).rejects.toThrow('reuse detected');
+
+    // The legitimately rotated token is gone too
+    await expect(
+      handler.handleRefresh({ refresh_token: second.refresh_token }),
+    ).rejects.toMatchObject({ code: AuthErrorCode.AUTH_INVALID_TOKEN });
+    expect(store.size).toBe(0);
+  });
+
+  it('should re-check ACL status and revoke the family on failure', async () => {
+    const first = await login();
+    await acl.set({ ...approvedEntry(agent.did), status: 'banned' });
+
+    await expect(
+      handler.handleRefresh({ refresh_token: first.refresh_token }),
+    ).rejects.toMatchObject({ code: AuthErrorCode.AUTH_DID_BANNED });
+
+    await acl.set(approvedEntry(agent.did));
+    expect(store.size).toBe(0);
+  });
+
+  it('should re-check manifest revocation', async () => {
+    let revoked = false;
+    handler.destroy();
+    handler = new AgentAuthHandler({
+      issuer: 'https://api.example.com',
+      jwtSecret: 'test-secret',
+      acl,
+      enableRefreshTokens: true,
+      refreshTokenStore: store,
+      revocationChecker: {
+        check: async () => {
+          if (revoked) {
+            throw new AuthError(AuthErrorCode.AUTH_MANIFEST_REVOKED);
+          }
+          return { revoked: false, checked_at: new Date() };
+        },
+      },
+    });
+
+    const first = await login();
+    revoked = true;
+
+    await expect(
+      handler.handleRefresh({ refresh_token: first.refresh_token }),
+    ).rejects.toMatchObject({ code: AuthErrorCode.AUTH_MANIFEST_REVOKED });
+  });
+
+  it('should reject unknown refresh tokens', async () => {
+    await expect(
+      handler.handleRefresh({ refresh_token: 'f'.repeat(64) }),
+    ).rejects.toMatchObject({ code: AuthErrorCode.AUTH_INVALID_TOKEN });
+  });
+});
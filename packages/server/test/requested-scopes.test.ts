@@ -0,0 +1,172 @@
+/**
+ * Tests for requested scopes and mandatory manifest permissions
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { AuthErrorCode, type AgentManifest } from '@ai-agent-auth/core';
+import { AgentAuthHandler } from '../src/auth-handler';
+import { InMemoryACL } from '../src/acl';
+import { negotiateScopes } from '../src/scopes';
+import {
+  approvedEntry,
+  createTestAgent,
+  createTestManifest,
+  signTestChallenge,
+  type TestAgent,
+} from './helpers';
+
+describe('negotiateScopes()', () => {
+  it('should keep covered scopes and deny the rest', () => {
+    expect(negotiateScopes(['read', 'files:*'], ['files:read', 'admin'])).toEqual({
+      granted: ['files:read'],
+      denied: ['admin'],
+    });
+  });
+
+  it('should narrow requested wildcards to allowed scopes', () => {
+    expect(
+      negotiateScopes(['files:read', 'files:list', 'read'], ['files:*']),
+    ).toEqual({ granted: ['files:read', 'files:list'], denied: [] });
+  });
+});
+
+describe('AgentAuthHandler requested scopes', () => {
+  let acl: InMemoryACL;
+  let handler: AgentAuthHandler;
+  let agent: TestAgent;
+  let sequence: number;
+
+  beforeEach(async () => {
+    acl = new InMemoryACL();
+    handler = new AgentAuthHandler({
+      issuer: 'https://api.example.com',
+      jwtSecret: 'test-secret',
+      acl,
+      scopes: 'read write files:*',
+    });
+    agent = createTestAgent();
+    sequence = 0;
+    await acl.set(approvedEntry(agent.did));
+  });
+
+  afterEach(() => {
+    handler.destroy();
+  });
+
+  async function verify(
+    capabilities: Partial<AgentManifest['capabilities']> = {},
+    scope?: string,
+    manifest?: AgentManifest,
+    requiredScope?: string,
+  ) {
+    const { challenge, expires_at } = await handler.handleChallenge({
+      did: agent.did,
+    });
+    return handler.handleVerify({
+      did: agent.did,
+      challenge,
+      signature: await signTestChallenge(agent, challenge, expires_at),
+      manifest: manifest ?? (await createTestManifest(agent, ++sequence, capabilities)),
+      ...(scope !== undefined && { scope }),
+      ...(requiredScope !== undefined && { required_scope: requiredScope }),
+    });
+  }
+
+  it('should grant every allowed scope when nothing is requested', async () => {
+    const response = await verify();
+
+    expect(response.granted_scopes).toEqual(['read', 'write', 'files:*']);
+    expect(response.denied_scopes).toEqual([]);
+  });
+
+  it('should only report manifest permissions the server does not allow', async () => {
+    const response = await verify({ permissions_required: ['read', 'search'] });
+
+    expect(response.granted_scopes).toEqual(['read', 'write', 'files:*']);
+    expect(response.denied_scopes).toEqual(['search']);
+    expect((await handler.validateToken(response.token)).scope).toBe(
+      'read write files:*',
+    );
+  });
+
+  it('should intersect a request-body scope and report denials', async () => {
+    const response = await verify({}, 'files:read admin');
+
+    expect(response.granted_scopes).toEqual(['files:read']);
+    expect(response.agent.capabilities).toEqual(['files:read']);
+    expect(response.denied_scopes).toEqual(['admin']);
+  });
+
+  it('should let the request body narrow below the manifest permissions', async () => {
+    const response = await verify({ permissions_required: ['read', 'write'] }, 'read');
+
+    expect(response.granted_scopes).toEqual(['read']);
+  });
+
+  it('should request required scopes along with the request-body scope', async () => {
+    const response = await verify({}, 'read', undefined, 'files:write');
+
+    expect(response.granted_scopes).toEqual(['read', 'files:write']);
+  });
+
+  it('should fail when a required scope is not grantable', async () => {
+    const manifest = await createTestManifest(agent, 1);
+
+    await expect(verify({}, undefined, manifest, 'read admin')).rejects.toMatchObject({
+      code: AuthErrorCode.AUTH_INSUFFICIENT_SCOPE,
+      message: 'Required scopes cannot be granted: admin',
+      details: { denied_scopes: ['admin'] },
+    });
+
+    // The sequence was not consumed, so the same manifest can be retried
+    expect(await acl.getMaxSequence(agent.did)).toBe(0);
+  });
+
+  describe('with enforcePermissionsRequired', () => {
+    beforeEach(() => {
+      handler.destroy();
+      handler = new AgentAuthHandler({
+        issuer: 'https://api.example.com',
+        jwtSecret: 'test-secret',
+        acl,
+        scopes: 'read write files:*',
+        enforcePermissionsRequired: true,
+      });
+    });
+
+    it('should request the manifest permissions by default', async () => {
+      const response = await verify({ permissions_required: ['read', 'files:read'] });
+
+      expect(response.granted_scopes).toEqual(['read', 'files:read']);
+      expect((await handler.validateToken(response.token)).scope).toBe(
+        'read files:read',
+      );
+    });
+
+    it('should let the request body narrow below the manifest permissions', async () => {
+      const response = await verify({ permissions_required: ['read', 'write'] }, 'read');
+
+      expect(response.granted_scopes).toEqual(['read']);
+    });
+
+    it('should fail when a manifest permission is not grantable', async () => {
+      const manifest = await createTestManifest(agent, 1, {
+        permissions_required: ['read', 'admin'],
+      });
+
+      await expect(verify({}, 'read', manifest)).rejects.toMatchObject({
+        code: AuthErrorCode.AUTH_INSUFFICIENT_SCOPE,
+        message: 'Required scopes cannot be granted: admin',
+        details: { denied_scopes: ['admin'] },
+      });
+      expect(await acl.getMaxSequence(agent.did)).toBe(0);
+    });
+  });
+
+  it('should fail when nothing requested can be granted', async () => {
+    await expect(verify({}, 'admin')).rejects.toMatchObject({
+      code: AuthErrorCode.AUTH_INSUFFICIENT_SCOPE,
+      details: { denied_scopes: ['admin'] },
+    });
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * Tests for the declarative scope policy engine
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { AuthErrorCode, type AgentManifest } from '@ai-agent-auth/core';
+import { ScopePolicy, type ScopePolicyDocument } from '../src/scope-policy';
+import { AgentAuthHandler } from '../src/auth-handler';
+import { InMemoryACL } from '../src/acl';
+import {
+  approvedEntry,
+  createTestAgent,
+  createTestManifest,
+  signTestChallenge,
+  type TestAgent,
+} from './helpers';
+
+const POLICY: ScopePolicyDocument = {
+  version: 1,
+  rules: [
+    { id: 'baseline', effect: 'grant', scopes: ['read'] },
+    {
+      id: 'research',
+      description: 'Research agents may search',
+      effect: 'grant',
+      scopes: ['search', 'files:read'],
+      match: { categories: ['research.*'] },
+    },
+    {
+      id: 'partners',
+      effect: 'grant',
+      scopes: ['files:write'],
+      match: { operator: ['Acme Corp'], acl_metadata: { tier: ['gold', 'platinum'] } },
+    },
+    {
+      id: 'no-writes-for-web',
+      effect: 'deny',
+      scopes: ['files:*'],
+      match: { did_method: ['web'] },
+    },
+    {
+      id: 'trusted-web-reader',
+      effect: 'grant',
+      scopes: ['files:read'],
+      priority: 10,
+      match: { did: ['did:web:trusted.example.com'] },
+    },
+  ],
+};
+
+describe('ScopePolicy', () => {
+  let agent: TestAgent;
+  let manifest: AgentManifest;
+  let policy: ScopePolicy;
+
+  beforeEach(async () => {
+    agent = createTestAgent();
+    manifest = await createTestManifest(agent, 1, {
+      categories: ['research.web'],
+    });
+    policy = new ScopePolicy(POLICY);
+  });
+
+  it('should grant scopes from every matching rule in precedence order', () => {
+    expect(policy.evaluate({ did: agent.did, manifest })).toBe(
+      'read search files:read',
+    );
+  });
+
+  it('should match operator and ACL metadata together', () => {
+    const partner: AgentManifest = {
+      ...manifest,
+      metadata: { ...manifest.metadata, operator: { name: 'Acme Corp' } },
+    };
+
+    const silver = { ...approvedEntry(agent.did), metadata: { tier: 'silver' } };
+    const gold = { ...approvedEntry(agent.did), metadata: { tier: 'gold' } };
+
+    expect(
+      policy.evaluate({ did: agent.did, manifest: partner, aclEntry: silver }),
+    ).not.toContain('files:write');
+    expect(
+      policy.evaluate({ did: agent.did, manifest: partner, aclEntry: gold }),
+    ).toContain('files:write');
+  });
+
+  it('should let deny rules override grants of equal or lower priority', () => {
+    const decision = policy.explain({ did: 'did:web:agent.example.com', manifest });
+
+    expect(decision.scopes).toEqual(['read', 'search']);
+    expect(decision.explanations).toContainEqual({
+      scope: 'files:read',
+      granted: false,
+      grantedBy: {
+        id: 'research',
+        priority: 0,
+        reasons: ['categories matched "research.*" via "research.web"'],
+      },
+      deniedBy: {
+        id: 'no-writes-for-web',
+        priority: 0,
+        reasons: ['did_method is "web"'],
+      },
+    });
+  });
+
+  it('should let a higher-priority grant carve an exception from a deny', () => {
+    const decision = policy.explain({ did: 'did:web:trusted.example.com', manifest });
+
+    expect(decision.scopes).toEqual(['files:read', 'read', 'search']);
+    expect(decision.explanations[0]).toMatchObject({
+      scope: 'files:read',
+      granted: true,
+      grantedBy: { id: 'trusted-web-reader', priority: 10 },
+    });
+    expect(decision.matchedRules).toEqual([
+      'trusted-web-reader',
+      'baseline',
+      'research',
+      'no-writes-for-web',
+    ]);
+  });
+
+  it('should load from JSON', () => {
+    const fromJson = ScopePolicy.fromJSON(JSON.stringify(POLICY));
+    expect(fromJson.evaluate({ did: agent.did, manifest })).toBe(
+      'read search files:read',
+    );
+  });
+
+  it('should reject malformed documents with a readable message', () => {
+    expect(
+      () =>
+        new ScopePolicy({
+          version: 1,
+          rules: [{ id: 'x', effect: 'allow', scopes: ['read'] }],
+        }),
+    ).toThrow(/Invalid scope policy: rules\.0\.effect/);
+
+    expect(
+      () =>
+        new ScopePolicy({
+          version: 1,
+          rules: [{ id: 'x', effect: 'grant', scopes: ['read'], match: { tag: ['a'] } }],
+        }),
+    ).toThrow(/Invalid scope policy/);
+
+    expect(
+      () =>
+        new ScopePolicy({
+          version: 1,
+          rules: [
+            { id: 'x', effect: 'grant', scopes: ['read'] },
+            { id: 'x', effect: 'grant', scopes: ['write'] },
+          ],
+        }),
+    ).toThrow('duplicate rule id "x"');
+  });
+
+  it('should reject a deny narrower than a wildcard grant it would override', () => {
+    const policyWith = (priority: number) =>
+      new ScopePolicy({
+        version: 1,
+        rules: [
+          { id: 'files', effect: 'grant', scopes: ['read', 'files:*'], priority },
+          { id: 'no-deletes', effect: 'deny', scopes: ['files:delete'] },
+        ],
+      });
+
+    expect(() => policyWith(0)).toThrow(
+      'deny rule "no-deletes" cannot remove "files:delete" from "files:*" granted by rule "files"',
+    );
+    expect(() => policyWith(-1)).toThrow(/Invalid scope policy/);
+
+    // A higher-priority grant is an intended exception to the deny
+    expect(policyWith(1).evaluate({ did: agent.did, manifest })).toBe('read files:*');
+  });
+});
+
+describe('AgentAuthHandler with a scope policy', () => {
+  let acl: InMemoryACL;
+  let handler: AgentAuthHandler;
+  let agent: TestAgent;
+
+  beforeEach(async () => {
+    acl = new InMemoryACL();
+    agent = createTestAgent();
+    await acl.set({ ...approvedEntry(agent.did), metadata: { tier: 'gold' } });
+  });
+
+  afterEach(() => {
+    handler.destroy();
+  });
+
+  async function verify(policy: ScopePolicyDocument) {
+    handler = new AgentAuthHandler({
+      issuer: 'https://api.example.com',
+      jwtSecret: 'test-secret',
+      acl,
+      scopes: new ScopePolicy(policy),
+    });
+
+    const { challenge, expires_at } = await handler.handleChallenge({
+      did: agent.did,
+    });
+    return handler.handleVerify({
+      did: agent.did,
+      challenge,
+      signature: await signTestChallenge(agent, challenge, expires_at),
+      manifest: await createTestManifest(agent),
+    });
+  }
+
+  it('should issue tokens with policy-granted scopes', async () => {
+    const response = await verify({
+      version: 1,
+      rules: [
+        { id: 'base', effect: 'grant', scopes: ['read'] },
+        { id: 'gold', effect: 'grant', scopes: ['write'], match: { acl_metadata: { tier: 'gold' } } },
+      ],
+    });
+
+    const payload = await handler.validateToken(response.token);
+    expect(payload.scope).toBe('read write');
+  });
+
+  it('should refuse to issue a token when nothing is granted', async () => {
+    await expect(
+      verify({
+        version: 1,
+        rules: [
+          { id: 'web-only', effect: 'grant', scopes: ['read'], match: { did_method: ['web'] } },
+        ],
+      }),
+    ).rejects.toMatchObject({ code: AuthErrorCode.AUTH_INSUFFICIENT_SCOPE });
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Tests for scope matching and the requireScopes() guard
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import express from 'express';
+import { AuthError, AuthErrorCode } from '@ai-agent-auth/core';
+import { hasScopes, parseScope, scopeCovers } from '../src/scopes';
+import { agentAuthMiddleware } from '../src/middleware';
+import { signJWT } from '../src/jwt';
+
+const ISSUER = 'https://api.example.com';
+const SECRET = 'test-secret';
+const DID = 'did:key:z6MkhaXgBZDvotDkL5257faiztiGiC2QtKLGpbnnEGta2doK';
+
+describe('scopeCovers()', () => {
+  it('should match identical scopes only without wildcards', () => {
+    expect(scopeCovers('files:read', 'files:read')).toBe(true);
+    expect(scopeCovers('files:read', 'files:write')).toBe(false);
+    expect(scopeCovers('files', 'files:read')).toBe(false);
+  });
+
+  it('should expand hierarchical wildcards', () => {
+    expect(scopeCovers('files:*', 'files:read')).toBe(true);
+    expect(scopeCovers('files:*', 'files:read:own')).toBe(true);
+    expect(scopeCovers('files:*', 'files:*')).toBe(true);
+    expect(scopeCovers('files:*', 'files')).toBe(false);
+    expect(scopeCovers('files:*', 'filesystem:read')).toBe(false);
+    expect(scopeCovers('*', 'anything:at:all')).toBe(true);
+  });
+});
+
+describe('hasScopes()', () => {
+  const granted = parseScope('read  files:*');
+
+  it('should require every scope in all-of mode', () => {
+    expect(hasScopes(granted, ['read', 'files:write'])).toBe(true);
+    expect(hasScopes(granted, ['read', 'write'])).toBe(false);
+  });
+
+  it('should require one scope in any-of mode', () => {
+    expect(hasScopes(granted, ['write', 'files:write'], 'any')).toBe(true);
+    expect(hasScopes(granted, ['write', 'admin'], 'any')).toBe(false);
+  });
+});
+
+describe('requireScopes()', () => {
+  let auth: ReturnType<typeof agentAuthMiddleware>;
+  let server: Server;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    auth = agentAuthMiddleware({ issuer: ISSUER, jwtSecret: SECRET });
+
+    const app = express();
+    app.get('/files', auth.requireScopes('files:read'), (_req, res) => {
+      res.json({ ok: true });
+    });
+    app.get(
+      '/reports',
+      auth.requireScopes(['reports:read', 'admin'], { mode: 'any' }),
+      (_req, res) => {
+        res.json({ ok: true });
+      },
+    );
+
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    auth.handler.destroy();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  async function tokenWithScope(scope: string) {
+    return signJWT(
+      { scope, agent_name: 'TestAgent', agent_version: '1.0.0', manifest_sequence: 1 },
+      DID,
+      { issuer: ISSUER, lifetimeSeconds: 3600, secret: SECRET },
+    );
+  }
+
+  async function get(path: string, scope?: string) {
+    return fetch(`${baseUrl}${path}`, {
+      headers: scope
+        ? { Authorization: `Bearer ${await tokenWithScope(scope)}` }
+        : {},
+    });
+  }
+
+  it('should allow a wildcard grant', async () => {
+    const res = await get('/files', 'files:*');
+    expect(res.status).toBe(200);
+  });
+
+  it('should allow any-of matches', async () => {
+    const res = await get('/reports', 'read admin');
+    expect(res.status).toBe(200);
+  });
+
+  it('should reject insufficient scope with 403 and a WWW-Authenticate hint', async () => {
+    const res = await get('/files', 'read');
+
+    expect(res.status).toBe(403);
+    expect(res.headers.get('www-authenticate')).toBe(
+      `Bearer realm="${ISSUER}", error="insufficient_scope", ` +
+        'error_description="Token requires the scopes: files:read", ' +
+        'scope="files:read"',
+    );
+    const body = await res.json();
+    expect(body.error.code).toBe(AuthErrorCode.AUTH_INSUFFICIENT_SCOPE);
+    expect(body.error.details).toEqual({
+      required_scopes: ['files:read'],
+      mode: 'all',
+    });
+  });
+
+  it('should omit the scope attribute when the error lists no scopes', async () => {
+    vi.spyOn(auth.handler, 'validateToken').mockRejectedValueOnce(
+      new AuthError(AuthErrorCode.AUTH_INSUFFICIENT_SCOPE, 'Agent tier too low'),
+    );
+
+    const res = await get('/files', 'files:read');
+
+    expect(res.status).toBe(403);
+    expect(res.headers.get('www-authenticate')).toBe(
+      `Bearer realm="${ISSUER}", error="insufficient_scope", ` +
+        'error_description="Agent tier too low"',
+    );
+  });
+
+  it('should omit the error attribute when no credentials are sent', async () => {
+    const res = await get('/files');
+
+    expect(res.status).toBe(401);
+    expect(res.headers.get('www-authenticate')).toBe(`Bearer realm="${ISSUER}"`);
+  });
+
+  it('should flag invalid tokens', async () => {
+    const res = await fetch(`${baseUrl}/files`, {
+      headers: { Authorization: 'Bearer not-a-jwt' },
+    });
+
+    expect(res.status).toBe(401);
+    expect(res.headers.get('www-authenticate')).toMatch(
+      /^Bearer realm="[^"]+", error="invalid_token", error_description="/,
+    );
+  });
+
+  it('should refuse to build a guard without scopes', () => {
+    expect(() => auth.requireScopes('  ')).toThrow('at least one scope');
+  });
+});
@@ -0,0 +1,233 @@
+/**
+ * Tests for signed HTTP request authentication
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import express from 'express';
+import {
+  AuthErrorCode,
+  encodeManifestHeader,
+  signBytes,
+  signHttpRequest,
+  type AgentManifest,
+} from '@ai-agent-auth/core';
+import { agentAuthMiddleware } from '../src/middleware';
+import { InMemoryACL } from '../src/acl';
+import type { AuthenticatedRequest } from '../src/config';
+import {
+  approvedEntry,
+  createTestAgent,
+  createTestManifest,
+  type TestAgent,
+} from './helpers';
+
+describe('signed HTTP requests', () => {
+  let acl: InMemoryACL;
+  let auth: ReturnType<typeof agentAuthMiddleware>;
+  let server: Server;
+  let baseUrl: string;
+  let agent: TestAgent;
+  let manifest: AgentManifest;
+
+  beforeEach(async () => {
+    acl = new InMemoryACL();
+    agent = createTestAgent();
+    manifest = await createTestManifest(agent, 1, {
+      permissions_required: ['files:write'],
+    });
+    await acl.set(approvedEntry(agent.did));
+
+    auth = agentAuthMiddleware({
+      issuer: 'https://api.example.com',
+      jwtSecret: 'test-secret',
+      acl,
+      scopes: 'files:read files:write',
+    });
+
+    const app = express();
+    app.use(auth.router);
+    app.post('/files', auth.signatureGuard, (req, res) => {
+      const { agent: payload } = req as AuthenticatedRequest;
+      res.json({ sub: payload.sub, scope: payload.scope, body: req.body });
+    });
+    app.get('/files', auth.signatureGuard, (req, res) => {
+      res.json({ sub: (req as AuthenticatedRequest).agent.sub });
+    });
+
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    auth.handler.destroy();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  async function signedPost(
+    body: string,
+    options: { path?: string; withManifest?: boolean; created?: number } = {},
+  ) {
+    const url = `${baseUrl}${options.path ?? '/files'}`;
+    const headers = await signHttpRequest(
+      { method: 'POST', url, body: new TextEncoder().encode(body) },
+      agent.did,
+      async (data) => signBytes(data, agent.keyPair.privateKey),
+      { created: options.created },
+    );
+    return {
+      url,
+      headers: {
+        ...headers,
+        'Content-Type': 'application/json',
+        ...(options.withManifest !== false && {
+          'Agent-Manifest': encodeManifestHeader(manifest),
+        }),
+      },
+      body,
+    };
+  }
+
+  function send(request: { url: string; headers: Record<string, string>; body: string }) {
+    return fetch(request.url, {
+      method: 'POST',
+      headers: request.headers,
+      body: request.body,
+    });
+  }
+
+  it('should accept a signed request and expose the agent', async () => {
+    const res = await send(await signedPost('{"name":"report.pdf"}'));
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({
+      sub: agent.did,
+      scope: 'files:read files:write',
+      body: { name: 'report.pdf' },
+    });
+  });
+
+  it('should cache the manifest for later requests', async () => {
+    await send(await signedPost('{}'));
+
+    const res = await send(await signedPost('{}', { withManifest: false }));
+
+    expect(res.status).toBe(200);
+    expect(await acl.getMaxSequence(agent.did)).toBe(1);
+  });
+
+  it('should require a manifest when none is cached', async () => {
+    const res = await send(await signedPost('{}', { withManifest: false }));
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).error.message).toBe(
+      'Manifest is not cached; send it in the Agent-Manifest header',
+    );
+  });
+
+  it('should read the body itself when no parser kept it', async () => {
+    const url = `${baseUrl}/files`;
+    const headers = await signHttpRequest({ method: 'GET', url }, agent.did, async (data) =>
+      signBytes(data, agent.keyPair.privateKey),
+    );
+
+    const res = await fetch(url, {
+      headers: { ...headers, 'Agent-Manifest': encodeManifestHeader(manifest) },
+    });
+
+    expect(res.status).toBe(200);
+  });
+
+  it('should reject a tampered body', async () => {
+    const request = await signedPost('{"amount":1}');
+
+    const res = await send({ ...request, body: '{"amount":1000}' });
+
+    expect(res.status).toBe(401);
+    expect(res.headers.get('www-authenticate')).toBe(
+      'Signature realm="https://api.example.com", error="invalid_signature", ' +
+        'error_description="Content-Digest does not match the request body"',
+    );
+    expect((await res.json()).error).toMatchObject({
+      code: AuthErrorCode.AUTH_INVALID_HTTP_SIGNATURE,
+      message: 'Content-Digest does not match the request body',
+    });
+  });
+
+  it('should reject a request replayed to another path', async () => {
+    const request = await signedPost('{}', { path: '/files' });
+
+    const res = await send({ ...request, url: `${baseUrl}/files?overwrite=true` });
+
+    expect(res.status).toBe(401);
+    expect((await res.json()).error.message).toBe('Signature does not cover: @query');
+  });
+
+  it('should reject a replayed nonce', async () => {
+    const request = await signedPost('{}');
+
+    expect((await send(request)).status).toBe(200);
+
+    const replay = await send(request);
+    expect(replay.status).toBe(401);
+    expect((await replay.json()).error.message).toBe(
+      'Signature nonce has already been used',
+    );
+  });
+
+  it('should reject a stale signature', async () => {
+    const created = Math.floor(Date.now() / 1000) - 3600;
+
+    const res = await send(await signedPost('{}', { created }));
+
+    expect(res.status).toBe(401);
+    expect((await res.json()).error.message).toBe(
+      'Signature is expired or not yet valid',
+    );
+  });
+
+  it('should reject a signature by another key', async () => {
+    const request = await signedPost('{}');
+    const impostor = createTestAgent();
+    const forged = await signHttpRequest(
+      {
+        method: 'POST',
+        url: request.url,
+        body: new TextEncoder().encode(request.body),
+      },
+      agent.did,
+      async (data) => signBytes(data, impostor.keyPair.privateKey),
+    );
+
+    const res = await send({ ...request, headers: { ...request.headers, ...forged } });
+
+    expect(res.status).toBe(401);
+    expect((await res.json()).error.message).toBe(
+      'HTTP request signature verification failed',
+    );
+  });
+
+  it('should reject agents that are not approved', async () => {
+    await acl.set({ ...approvedEntry(agent.did), status: 'banned' });
+
+    const res = await send(await signedPost('{}'));
+
+    expect(res.status).toBe(403);
+    expect(res.headers.get('www-authenticate')).toBeNull();
+    expect((await res.json()).error.code).toBe(AuthErrorCode.AUTH_DID_BANNED);
+  });
+
+  it('should reject unsigned requests', async () => {
+    const res = await fetch(`${baseUrl}/files`);
+
+    expect(res.status).toBe(401);
+    expect(res.headers.get('www-authenticate')).toBe(
+      'Signature realm="https://api.example.com"',
+    );
+    expect((await res.json()).error.message).toBe(
+      'Signature and Signature-Input headers are required',
+    );
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Tests for SQLiteACL
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import Database from 'better-sqlite3';
+import type { ACLEntry } from '@ai-agent-auth/core';
+import { SQLiteACL } from '../src/sqlite-acl';
+
+function makeEntry(overrides: Partial<ACLEntry> = {}): ACLEntry {
+  const now = new Date().toISOString();
+  return {
+    did: 'did:key:z6MkhaXgBZDvotDkL5257faiztiGiC2QtKLGpbnnEGta2doK',
+    status: 'approved',
+    manifest_sequence: 1,
+    registered_at: now,
+    updated_at: now,
+    ...overrides,
+  };
+}
+
+describe('SQLiteACL', () => {
+  let acl: SQLiteACL;
+
+  beforeEach(async () => {
+    acl = await SQLiteACL.open();
+  });
+
+  afterEach(() => {
+    acl.close();
+  });
+
+  describe('get() / set()', () => {
+    it('should return null for unknown DID', async () => {
+      expect(await acl.get('did:key:zUnknown')).toBeNull();
+    });
+
+    it('should round-trip an entry including reason and metadata', async () => {
+      const entry = makeEntry({
+        reason: 'Research project',
+        metadata: { name: 'TestAgent', tags: ['a', 'b'] },
+      });
+
+      await acl.set(entry);
+
+      expect(await acl.get(entry.did)).toEqual(entry);
+    });
+
+    it('should omit optional fields that were not set', async () => {
+      const entry = makeEntry();
+      await acl.set(entry);
+
+      const stored = await acl.get(entry.did);
+      expect(stored).not.toHaveProperty('reason');
+      expect(stored).not.toHaveProperty('metadata');
+    });
+
+    it('should overwrite an existing entry', async () => {
+      const entry = makeEntry({ status: 'pending_approval' });
+      await acl.set(entry);
+      await acl.set({ ...entry, status: 'banned' });
+
+      expect((await acl.get(entry.did))?.status).toBe('banned');
+      expect(acl.size).toBe(1);
+    });
+  });
+
+  describe('sequences', () => {
+    it('should return 0 when no sequence is stored', async () => {
+      expect(await acl.getMaxSequence('did:key:zNone')).toBe(0);
+    });
+
+    it('should only move the sequence forward', async () => {
+      const did = 'did:key:zSeq';
+
+      await acl.updateSequence(did, 5);
+      await acl.updateSequence(did, 3);
+      expect(await acl.getMaxSequence(did)).toBe(5);
+
+      await acl.updateSequence(did, 7);
+      expect(await acl.getMaxSequence(did)).toBe(7);
+    });
+
+    it('should keep the highest value under concurrent updates', async () => {
+      const did = 'did:key:zConcurrent';
+
+      await Promise.all(
+        [4, 9, 2, 8, 1].map((seq) => acl.updateSequence(did, seq)),
+      );
+
+      expect(await acl.getMaxSequence(did)).toBe(9);
+    });
+  });
+
+  describe('list()', () => {
+    it('should list all entries or filter by status', async () => {
+      await acl.set(makeEntry({ did: 'did:key:zA', status: 'approved' }));
+      await acl.set(makeEntry({ did: 'did:key:zB', status: 'pending_approval' }));
+      await acl.set(makeEntry({ did: 'did:key:zC', status: 'approved' }));
+
+      expect((await acl.list()).map((e) => e.did)).toEqual([
+        'did:key:zA',
+        'did:key:zB',
+        'did:key:zC',
+      ]);
+      expect((await acl.list('approved')).map((e) => e.did)).toEqual([
+        'did:key:zA',
+        'did:key:zC',
+      ]);
+      expect(await acl.list('banned')).toEqual([]);
+    });
+  });
+
+  describe('delete()', () => {
+    it('should remove the entry and its sequence', async () => {
+      const entry = makeEntry();
+      await acl.set(entry);
+      await acl.updateSequence(entry.did, 3);
+
+      expect(await acl.delete(entry.did)).toBe(true);
+      expect(await acl.get(entry.did)).toBeNull();
+      expect(await acl.getMaxSequence(entry.did)).toBe(0);
+    });
+
+    it('should return false for unknown DID', async () => {
+      expect(await acl.delete('did:key:zMissing')).toBe(false);
+    });
+  });
+
+  describe('persistence', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'sqlite-acl-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should keep entries and sequences across reopen', async () => {
+      const filename = join(dir, 'acl.db');
+      const entry = makeEntry({ status: 'banned' });
+
+      const first = await SQLiteACL.open({ filename });
+      await first.set(entry);
+      await first.updateSequence(entry.did, 42);
+      first.close();
+
+      const second = await SQLiteACL.open({ filename });
+      expect(await second.get(entry.did)).toEqual(entry);
+      expect(await second.getMaxSequence(entry.did)).toBe(42);
+      expect(second.schemaVersion).toBe(1);
+      second.close();
+    });
+
+    it('should refuse a database from a newer schema version', () => {
+      const db = new Database(join(dir, 'future.db'));
+      db.pragma('user_version = 99');
+
+      expect(() => new SQLiteACL({ database: db })).toThrow(/newer than supported/);
+      db.close();
+    });
+
+    it('should refuse to open a file from a newer schema version', async () => {
+      const filename = join(dir, 'future.db');
+      const db = new Database(filename);
+      db.pragma('user_version = 99');
+      db.close();
+
+      await expect(SQLiteACL.open({ filename })).rejects.toThrow(/newer than supported/);
+    });
+
+    it('should leave externally provided databases open', () => {
+      const db = new Database(':memory:');
+      const store = new SQLiteACL({ database: db });
+
+      store.close();
+      expect(db.open).toBe(true);
+      db.close();
+    });
+  });
+});
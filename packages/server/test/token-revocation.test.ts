@@ -0,0 +1,266 @@
+/**
+ * Tests for JWT revocation by jti and by subject
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  AuthError,
+  AuthErrorCode,
+  type AgentManifest,
+  type AgentTokenPayload,
+} from '@ai-agent-auth/core';
+import { AgentAuthHandler } from '../src/auth-handler';
+import { ACLAdminHandler } from '../src/admin-handler';
+import { InMemoryACL } from '../src/acl';
+import { InMemoryRefreshTokenStore } from '../src/refresh-token-store';
+import {
+  InMemoryTokenRevocationStore,
+  TokenRevokingACL,
+} from '../src/token-revocation';
+import {
+  approvedEntry,
+  createTestAgent,
+  createTestManifest,
+  signTestChallenge,
+  type TestAgent,
+} from './helpers';
+
+function makePayload(
+  overrides: Partial<AgentTokenPayload> = {},
+): AgentTokenPayload {
+  const now = Math.floor(Date.now() / 1000);
+  return {
+    iss: 'https://api.example.com',
+    sub: 'did:key:zSubject',
+    aud: 'https://api.example.com',
+    iat: now,
+    exp: now + 3600,
+    jti: 'token-1',
+    scope: 'read',
+    ...overrides,
+  } as AgentTokenPayload;
+}
+
+describe('InMemoryTokenRevocationStore', () => {
+  let store: InMemoryTokenRevocationStore;
+
+  beforeEach(() => {
+    store = new InMemoryTokenRevocationStore();
+  });
+
+  afterEach(() => {
+    store.dispose();
+  });
+
+  it('should revoke a single token by jti', async () => {
+    await store.revokeToken('token-1', new Date(Date.now() + 60_000));
+
+    expect(await store.isRevoked(makePayload())).toBe(true);
+    expect(await store.isRevoked(makePayload({ jti: 'token-2' }))).toBe(false);
+  });
+
+  it('should revoke tokens issued at or before the subject cut-off', async () => {
+    const now = Math.floor(Date.now() / 1000);
+    await store.revokeSubject('did:key:zSubject', new Date(now * 1000));
+
+    expect(await store.isRevoked(makePayload({ iat: now - 10 }))).toBe(true);
+    expect(await store.isRevoked(makePayload({ iat: now }))).toBe(true);
+    expect(await store.isRevoked(makePayload({ iat: now + 1 }))).toBe(false);
+    expect(
+      await store.isRevoked(makePayload({ sub: 'did:key:zOther', iat: now - 10 })),
+    ).toBe(false);
+  });
+
+  it('should report subjects revoked after a credential was issued', async () => {
+    const now = Math.floor(Date.now() / 1000) * 1000;
+    await store.revokeSubject('did:key:zSubject', new Date(now));
+
+    const before = new Date(now - 60_000);
+    expect(await store.isSubjectRevoked('did:key:zSubject', before)).toBe(true);
+    expect(await store.isSubjectRevoked('did:key:zSubject', new Date(now))).toBe(true);
+    expect(await store.isSubjectRevoked('did:key:zSubject', new Date(now + 1000))).toBe(false);
+    expect(await store.isSubjectRevoked('did:key:zOther', before)).toBe(false);
+  });
+
+  it('should never move a subject cut-off backwards', async () => {
+    const now = Date.now();
+    await store.revokeSubject('did:key:zSubject', new Date(now));
+    await store.revokeSubject('did:key:zSubject', new Date(now - 60_000));
+
+    const iat = Math.floor(now / 1000);
+    expect(await store.isRevoked(makePayload({ iat }))).toBe(true);
+  });
+
+  it('should purge expired entries on cleanup', async () => {
+    store.dispose();
+    store = new InMemoryTokenRevocationStore({ subjectRetentionSeconds: 60 });
+
+    await store.revokeToken('token-1', new Date(Date.now() - 1000));
+    await store.revokeSubject('did:key:zSubject', new Date(Date.now() - 120_000));
+    await store.revokeSubject('did:key:zRecent');
+
+    expect(store.cleanup()).toBe(2);
+  });
+});
+
+describe('TokenRevokingACL', () => {
+  let store: InMemoryTokenRevocationStore;
+  let acl: TokenRevokingACL;
+
+  beforeEach(() => {
+    store = new InMemoryTokenRevocationStore();
+    acl = new TokenRevokingACL(new InMemoryACL(), store);
+  });
+
+  afterEach(() => {
+    store.dispose();
+  });
+
+  it('should revoke the subject when banned or rejected', async () => {
+    const payload = makePayload({ sub: 'did:key:zA' });
+    await acl.set(approvedEntry('did:key:zA'));
+    expect(await store.isRevoked(payload)).toBe(false);
+
+    await acl.set({ ...approvedEntry('did:key:zA'), status: 'banned' });
+    expect(await store.isRevoked(payload)).toBe(true);
+
+    const rejected = makePayload({ sub: 'did:key:zB' });
+    await acl.set({ ...approvedEntry('did:key:zB'), status: 'rejected' });
+    expect(await store.isRevoked(rejected)).toBe(true);
+  });
+
+  it('should revoke the subject when its entry is deleted', async () => {
+    await acl.set(approvedEntry('did:key:zA'));
+
+    expect(await acl.delete('did:key:zA')).toBe(true);
+    expect(await store.isRevoked(makePayload({ sub: 'did:key:zA' }))).toBe(true);
+  });
+
+  it('should revoke the subject\'s refresh tokens', async () => {
+    const refreshTokens = new InMemoryRefreshTokenStore();
+    acl = new TokenRevokingACL(new InMemoryACL(), store, refreshTokens);
+    const record = {
+      familyId: 'family-1',
+      expiresAt: new Date(Date.now() + 60_000),
+      manifest: {} as AgentManifest,
+      scope: 'read',
+    };
+    await refreshTokens.store('hash-a', { ...record, did: 'did:key:zA' });
+    await refreshTokens.store('hash-b', { ...record, did: 'did:key:zB', familyId: 'family-2' });
+
+    await acl.set({ ...approvedEntry('did:key:zA'), status: 'banned' });
+
+    expect(await refreshTokens.consume('hash-a')).toBeNull();
+    expect(await refreshTokens.consume('hash-b')).not.toBeNull();
+    refreshTokens.dispose();
+  });
+});
+
+describe('AgentAuthHandler token revocation', () => {
+  let acl: InMemoryACL;
+  let revocations: InMemoryTokenRevocationStore;
+  let handler: AgentAuthHandler;
+  let agent: TestAgent;
+
+  beforeEach(async () => {
+    acl = new InMemoryACL();
+    revocations = new InMemoryTokenRevocationStore();
+    handler = new AgentAuthHandler({
+      issuer: 'https://api.example.com',
+      jwtSecret: 'test-secret',
+      acl,
+      tokenRevocationStore: revocations,
+    });
+    agent = createTestAgent();
+    await acl.set(approvedEntry(agent.did));
+  });
+
+  afterEach(() => {
+    handler.destroy();
+  });
+
+  async function login(): Promise<string> {
+    const { challenge, expires_at } = await handler.handleChallenge({
+      did: agent.did,
+    });
+    const response = await handler.handleVerify({
+      did: agent.did,
+      challenge,
+      signature: await signTestChallenge(agent, challenge, expires_at),
+      manifest: await createTestManifest(agent),
+    });
+    return response.token;
+  }
+
+  async function expectRevoked(token: string): Promise<void> {
+    const error = await handler.validateToken(token).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(AuthError);
+    expect((error as AuthError).code).toBe(AuthErrorCode.AUTH_INVALID_TOKEN);
+    expect((error as AuthError).message).toMatch(/revoked/);
+  }
+
+  it('should reject a token revoked by jti', async () => {
+    const token = await login();
+    const payload = await handler.validateToken(token);
+
+    await revocations.revokeToken(payload.jti, new Date(payload.exp * 1000));
+
+    await expectRevoked(token);
+  });
+
+  it('should revoke outstanding tokens when the DID is banned via the handler ACL', async () => {
+    const token = await login();
+    const entry = await handler.acl.get(agent.did);
+
+    await handler.acl.set({ ...entry!, status: 'banned' });
+
+    await expectRevoked(token);
+  });
+
+  it('should refuse refresh tokens issued before the subject was revoked', async () => {
+    const refreshing = new AgentAuthHandler({
+      issuer: 'https://api.example.com',
+      jwtSecret: 'test-secret',
+      acl,
+      tokenRevocationStore: revocations,
+      enableRefreshTokens: true,
+    });
+    try {
+      const { challenge, expires_at } = await refreshing.handleChallenge({ did: agent.did });
+      const { refresh_token } = await refreshing.handleVerify({
+        did: agent.did,
+        challenge,
+        signature: await signTestChallenge(agent, challenge, expires_at),
+        manifest: await createTestManifest(agent),
+      });
+
+      await revocations.revokeSubject(agent.did);
+
+      await expect(
+        refreshing.handleRefresh({ refresh_token }),
+      ).rejects.toMatchObject({
+        code: AuthErrorCode.AUTH_INVALID_TOKEN,
+        message: 'Refresh token has been revoked',
+      });
+      // The family is gone, not just this token
+      await expect(
+        refreshing.handleRefresh({ refresh_token }),
+      ).rejects.toMatchObject({ message: 'Refresh token is invalid or expired' });
+    } finally {
+      refreshing.destroy();
+    }
+  });
+
+  it('should revoke outstanding tokens when an admin bans the DID', async () => {
+    const token = await login();
+    const admin = new ACLAdminHandler({
+      acl,
+      credentials: { alice: 'secret' },
+      tokenRevocationStore: revocations,
+    });
+
+    await admin.ban(agent.did, 'alice', 'Abuse');
+
+    await expectRevoked(token);
+  });
+});